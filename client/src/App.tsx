@@ -8,6 +8,13 @@ import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import TableManagerPage from "@/pages/TableManagerPage";
 import SettingsPage from "@/pages/SettingsPage";
+import QueryEditorPage from "@/pages/QueryEditorPage";
+import RoutinesPage from "@/pages/RoutinesPage";
+import TypesPage from "@/pages/TypesPage";
+import SequencesPage from "@/pages/SequencesPage";
+import DataDictionaryPage from "@/pages/DataDictionaryPage";
+import ErDiagramPage from "@/pages/ErDiagramPage";
+import SchemaDiffPage from "@/pages/SchemaDiffPage";
 import Header from "@/components/Header";
 import SetupWizard from "@/components/SetupWizard";
 import { DatabaseProvider } from "@/context/DatabaseContext";
@@ -67,6 +74,13 @@ function App() {
                 <Switch>
                   <Route path="/" component={Home} />
                   <Route path="/table-manager" component={TableManagerPage} />
+                  <Route path="/query" component={QueryEditorPage} />
+                  <Route path="/routines" component={RoutinesPage} />
+                  <Route path="/types" component={TypesPage} />
+                  <Route path="/sequences" component={SequencesPage} />
+                  <Route path="/dictionary" component={DataDictionaryPage} />
+                  <Route path="/er-diagram" component={ErDiagramPage} />
+                  <Route path="/schema-diff" component={SchemaDiffPage} />
                   <Route path="/settings" component={SettingsPage} />
                   <Route component={NotFound} />
                 </Switch>
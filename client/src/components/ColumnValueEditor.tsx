@@ -0,0 +1,124 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Wand2 } from 'lucide-react';
+import { TableColumn } from '@/types/database';
+import { EditorKind } from '@/utils/columnTypes';
+
+interface ColumnValueEditorProps {
+  id?: string;
+  kind: EditorKind;
+  column: TableColumn;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+// A single value editor for one Postgres type; NULL handling and array
+// element lists are left to the caller
+const ColumnValueEditor: React.FC<ColumnValueEditorProps> = ({ id, kind, column, value, onChange, disabled }) => {
+  switch (kind) {
+    case 'enum':
+      return (
+        <Select value={value} onValueChange={onChange} disabled={disabled}>
+          <SelectTrigger id={id}>
+            <SelectValue placeholder="Choose a value" />
+          </SelectTrigger>
+          <SelectContent>
+            {(column.enum_values || []).map(label => (
+              <SelectItem key={label} value={label}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case 'boolean':
+      return (
+        <div className="flex items-center gap-2 h-10">
+          <Switch
+            id={id}
+            checked={value === 'true'}
+            onCheckedChange={(checked) => onChange(checked ? 'true' : 'false')}
+            disabled={disabled}
+          />
+          <span className="text-sm text-neutral-600">{value === '' ? 'not set' : value}</span>
+        </div>
+      );
+
+    case 'date':
+      return <Input id={id} type="date" value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} />;
+
+    case 'time':
+      return <Input id={id} type="time" step={1} value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} />;
+
+    case 'timestamp':
+    case 'timestamptz':
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            id={id}
+            type="datetime-local"
+            step={1}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+          />
+          {kind === 'timestamptz' && (
+            <span className="text-xs text-neutral-500 whitespace-nowrap">
+              {Intl.DateTimeFormat().resolvedOptions().timeZone}
+            </span>
+          )}
+        </div>
+      );
+
+    case 'json':
+      return (
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          className="font-mono text-xs"
+          rows={5}
+        />
+      );
+
+    case 'uuid':
+      return (
+        <div className="flex items-center gap-2">
+          <Input id={id} value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} className="font-mono" />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            title="Generate UUID"
+            onClick={() => onChange(crypto.randomUUID())}
+            disabled={disabled}
+          >
+            <Wand2 className="h-4 w-4" />
+          </Button>
+        </div>
+      );
+
+    case 'integer':
+    case 'numeric':
+    case 'float':
+      return <Input id={id} inputMode="decimal" value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} />;
+
+    default:
+      return <Input id={id} value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} />;
+  }
+};
+
+export default ColumnValueEditor;
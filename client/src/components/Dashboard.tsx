@@ -112,7 +112,7 @@ const Dashboard: React.FC<DashboardProps> = ({ connectionId }) => {
                             <span>{log.operation}</span> operation on <span>{log.tableId ? `table ID ${log.tableId}` : 'database'}</span>
                           </p>
                           <div className="ml-2 flex-shrink-0 flex">
-                            <p className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${log.status === 'SUCCESS' ? 'bg-success bg-opacity-10 text-success' : 'bg-error bg-opacity-10 text-error'}`}>
+                            <p className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${log.status === 'SUCCESS' ? 'bg-success bg-opacity-10 text-success' : log.status === 'RUNNING' ? 'bg-neutral-100 text-neutral-600' : 'bg-error bg-opacity-10 text-error'}`}>
                               {log.status}
                             </p>
                           </div>
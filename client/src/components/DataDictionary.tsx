@@ -0,0 +1,336 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, ExternalLink, Loader2, Pencil, RefreshCw, Search } from 'lucide-react';
+import { useDataDictionary, useColumnSamples, useMetadataSync } from '@/hooks/useDatabase';
+import { formatTableReference } from '@/utils/database';
+import { DictionaryTable } from '@/types/database';
+import { DescriptionUpdate, describeColumnConstraints } from '@shared/dictionary';
+
+interface DataDictionaryProps {
+  connectionId: number;
+}
+
+interface DescriptionEditorProps {
+  value: string | null;
+  placeholder: string;
+  isSaving: boolean;
+  onSave: (description: string | null) => Promise<unknown>;
+}
+
+// Description shown as text until clicked, then edited in place
+const DescriptionEditor: React.FC<DescriptionEditorProps> = ({ value, placeholder, isSaving, onSave }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value ?? '');
+
+  useEffect(() => {
+    if (!isEditing) setDraft(value ?? '');
+  }, [value, isEditing]);
+
+  const handleSave = async () => {
+    try {
+      await onSave(draft.trim() || null);
+      setIsEditing(false);
+    } catch (error) {
+      // The hook reports the failure; keep the draft for another try
+      console.error('Failed to save description:', error);
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <button
+        type="button"
+        className="group w-full text-left text-sm"
+        onClick={() => setIsEditing(true)}
+        title="Edit description"
+      >
+        {value ? (
+          <span className="whitespace-pre-wrap text-neutral-700">{value}</span>
+        ) : (
+          <span className="text-neutral-400 italic">{placeholder}</span>
+        )}
+        <Pencil className="inline ml-1 h-3 w-3 text-neutral-400 opacity-0 group-hover:opacity-100" />
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        autoFocus
+        rows={2}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setIsEditing(false);
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSave();
+        }}
+      />
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const DataDictionary: React.FC<DataDictionaryProps> = ({ connectionId }) => {
+  const [filterText, setFilterText] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [writeComments, setWriteComments] = useState(false);
+  const [includeSamples, setIncludeSamples] = useState(false);
+
+  const {
+    dictionary,
+    isLoadingDictionary,
+    dictionaryError,
+    updateDescription,
+    isUpdatingDescription,
+    exportDictionary,
+    isExporting,
+  } = useDataDictionary(connectionId);
+  const { syncMetadata, isSyncing } = useMetadataSync(connectionId);
+
+  const visibleTables = useMemo(() => {
+    if (!dictionary) return [];
+    const term = filterText.trim().toLowerCase();
+    if (!term) return dictionary;
+    return dictionary.filter(table =>
+      `${table.schema}.${table.name}`.toLowerCase().includes(term) ||
+      table.columns.some(column => column.name.toLowerCase().includes(term))
+    );
+  }, [dictionary, filterText]);
+
+  const selected: DictionaryTable | undefined =
+    dictionary?.find(table => table.id === selectedId) ?? visibleTables[0];
+  const selectedReference = selected ? formatTableReference(selected.schema, selected.name) : undefined;
+  const { samples, isLoadingSamples } = useColumnSamples(connectionId, selectedReference);
+
+  const saveDescription = (update: Omit<DescriptionUpdate, 'writeComment'>) =>
+    updateDescription({ ...update, writeComment: writeComments });
+
+  const handleSync = async () => {
+    try {
+      await syncMetadata('import');
+    } catch (error) {
+      // The hook reports the failure
+      console.error('Failed to sync metadata:', error);
+    }
+  };
+
+  if (isLoadingDictionary) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+        <span>Loading data dictionary...</span>
+      </div>
+    );
+  }
+
+  if (dictionaryError) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <p className="text-sm text-error">{(dictionaryError as Error).message}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="px-6 py-4 bg-white border-b border-neutral-200 flex flex-wrap items-center gap-4">
+        <h1 className="text-xl font-semibold text-neutral-700 mr-auto">Data Dictionary</h1>
+        <label className="flex items-center gap-2 text-sm text-neutral-600" title="Also run COMMENT ON when saving a description">
+          <Switch checked={writeComments} onCheckedChange={setWriteComments} />
+          Write comments to database
+        </label>
+        <Button variant="outline" size="sm" onClick={handleSync} disabled={isSyncing}>
+          {isSyncing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Sync from database
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" disabled={isExporting || !dictionary || dictionary.length === 0}>
+              {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => exportDictionary({ format: 'markdown', samples: includeSamples })}>
+              Markdown
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => exportDictionary({ format: 'html', samples: includeSamples })}>
+              HTML
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={includeSamples} onCheckedChange={(checked) => setIncludeSamples(checked === true)} />
+                Include sample values
+              </label>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {!dictionary || dictionary.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="text-center">
+            <h2 className="text-lg font-medium text-neutral-700 mb-2">No table metadata yet</h2>
+            <p className="text-neutral-500">Sync from the database to document its tables and columns</p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 flex overflow-hidden">
+          <div className="w-64 bg-white border-r border-neutral-200 flex flex-col">
+            <div className="p-3 relative">
+              <Search className="absolute left-6 top-1/2 -translate-y-1/2 h-4 w-4 text-neutral-400" />
+              <Input
+                placeholder="Filter tables or columns..."
+                value={filterText}
+                onChange={(e) => setFilterText(e.target.value)}
+                className="pl-9 h-8"
+              />
+            </div>
+            <nav className="flex-1 overflow-y-auto px-2 pb-3 space-y-0.5">
+              {visibleTables.map(table => (
+                <button
+                  key={table.id}
+                  type="button"
+                  onClick={() => setSelectedId(table.id)}
+                  className={`w-full text-left px-2 py-1.5 text-sm rounded-md ${
+                    table.id === selected?.id ? 'bg-neutral-100 text-primary' : 'text-neutral-700 hover:bg-neutral-100'
+                  }`}
+                >
+                  <span className="block truncate font-medium">{table.name}</span>
+                  <span className="block truncate text-xs text-neutral-400">
+                    {table.schema}{table.description ? '' : ' · undocumented'}
+                  </span>
+                </button>
+              ))}
+              {visibleTables.length === 0 && (
+                <p className="px-2 py-4 text-center text-sm text-neutral-500">No matching tables</p>
+              )}
+            </nav>
+          </div>
+
+          {selected && (
+            <div className="flex-1 overflow-auto p-6">
+              <div className="bg-white rounded-lg shadow-sm border border-neutral-200">
+                <div className="px-4 py-4 border-b border-neutral-200">
+                  <div className="flex items-center gap-2">
+                    <h2 className="text-lg font-medium text-neutral-700">{selected.schema}.{selected.name}</h2>
+                    <Link
+                      href={`/table-manager?table=${encodeURIComponent(selectedReference!)}`}
+                      className="text-neutral-400 hover:text-primary"
+                      title="Open in Table Manager"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Link>
+                  </div>
+                  <div className="mt-2">
+                    <DescriptionEditor
+                      value={selected.description}
+                      placeholder="Describe what this table holds"
+                      isSaving={isUpdatingDescription}
+                      onSave={(description) => saveDescription({ tableId: selected.id, description })}
+                    />
+                  </div>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Column</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Constraints</TableHead>
+                      <TableHead>Sample values</TableHead>
+                      <TableHead className="w-1/3">Description</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.columns.map(column => (
+                      <TableRow key={column.id} className="align-top">
+                        <TableCell className="font-medium">{column.name}</TableCell>
+                        <TableCell>
+                          <span className="font-mono text-xs">{column.type}</span>
+                          {column.defaultValue && (
+                            <div className="mt-1 font-mono text-xs text-neutral-500 break-all">default {column.defaultValue}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {!column.nullable && <Badge variant="outline">NOT NULL</Badge>}
+                            {describeColumnConstraints(selected.constraints, column.name).map(label => (
+                              <Badge key={label} variant="secondary">{label}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-xs text-neutral-600">
+                          {isLoadingSamples ? (
+                            <Loader2 className="h-3 w-3 animate-spin text-neutral-400" />
+                          ) : (
+                            (samples?.[column.name] ?? []).map((value, index) => (
+                              <div key={index} className="font-mono truncate max-w-[16rem]" title={value}>{value}</div>
+                            ))
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <DescriptionEditor
+                            value={column.description}
+                            placeholder="Add a description"
+                            isSaving={isUpdatingDescription}
+                            onSave={(description) => saveDescription({ tableId: selected.id, columnId: column.id, description })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {selected.constraints.length > 0 && (
+                  <div className="px-4 py-4 border-t border-neutral-200">
+                    <h3 className="text-sm font-medium text-neutral-700 mb-2">Constraints</h3>
+                    <ul className="space-y-1">
+                      {selected.constraints.map(constraint => (
+                        <li key={constraint.name} className="text-xs">
+                          <span className="font-medium text-neutral-700">{constraint.name}</span>
+                          <span className="ml-2 font-mono text-neutral-500 break-all">{constraint.definition}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataDictionary;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { useDependents } from '@/hooks/useDatabase';
+import { RelationDependent } from '@/types/database';
+
+interface DependentObjectsProps {
+  connectionId: number;
+  tableName: string;
+  // Only load while the drop is being confirmed
+  enabled: boolean;
+}
+
+const kindLabels: Record<RelationDependent['kind'], string> = {
+  table: 'table',
+  partitioned_table: 'partitioned table',
+  view: 'view',
+  materialized_view: 'materialized view',
+  foreign_table: 'foreign table',
+  foreign_key: 'foreign key',
+};
+
+// What a DROP ... CASCADE of the relation would take with it; views reached
+// through other views are indented by depth
+const DependentObjects: React.FC<DependentObjectsProps> = ({ connectionId, tableName, enabled }) => {
+  const { dependents, isLoadingDependents, dependentsError } = useDependents(connectionId, tableName, enabled);
+
+  if (isLoadingDependents) {
+    return (
+      <div className="flex items-center text-sm text-neutral-500">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Looking for dependent objects...
+      </div>
+    );
+  }
+  if (dependentsError) {
+    return <p className="text-sm text-error">{(dependentsError as Error).message}</p>;
+  }
+  if (!dependents || dependents.length === 0) {
+    return <p className="text-sm text-neutral-500">No other objects depend on {tableName}.</p>;
+  }
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-neutral-700 mb-2">
+        {dependents.length} dependent {dependents.length === 1 ? 'object' : 'objects'}
+      </h4>
+      <ul className="max-h-48 overflow-auto rounded-md border border-neutral-200 divide-y divide-neutral-100 text-sm">
+        {dependents.map(dependent => (
+          <li
+            key={`${dependent.kind}:${dependent.schema}.${dependent.table ?? ''}.${dependent.name}`}
+            className="px-3 py-1.5 flex items-center gap-2"
+            style={{ paddingLeft: `${0.75 + dependent.depth - 1}rem` }}
+          >
+            <Badge variant="outline" className="shrink-0">{kindLabels[dependent.kind]}</Badge>
+            <span className="font-mono text-xs break-all">
+              {dependent.kind === 'foreign_key'
+                ? `${dependent.name} on ${dependent.schema}.${dependent.table}`
+                : `${dependent.schema}.${dependent.name}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DependentObjects;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { TableCell } from '@/components/ui/table';
+import { Check, X, ArrowUpRight } from 'lucide-react';
+import ColumnValueEditor from './ColumnValueEditor';
+import { TableColumn } from '@/types/database';
+import { CellEdit } from '@/hooks/usePendingRowChanges';
+import { editorKindFor, isArrayColumn, isGeneratedColumn, toEditorText } from '@/utils/columnTypes';
+
+interface EditableCellProps {
+  column: TableColumn;
+  // Value as loaded from the database; undefined for rows not yet inserted
+  value: any;
+  // Pending edit for this cell, if any
+  edit: CellEdit | undefined;
+  error?: string;
+  // Rows that are new may also write identity columns
+  isNewRow?: boolean;
+  disabled?: boolean;
+  onEdit: (value: CellEdit) => void;
+  // Set for foreign key cells: opens the referenced row
+  onOpenReference?: () => void;
+}
+
+export const formatCellValue = (value: any): string => {
+  if (value === null) return 'NULL';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Arrays keep using the row editor; generated columns are never writable
+export const isInlineEditable = (column: TableColumn, isNewRow: boolean): boolean => {
+  if (isArrayColumn(column) || isGeneratedColumn(column)) return false;
+  return isNewRow || column.identity_generation !== 'ALWAYS';
+};
+
+const EditableCell: React.FC<EditableCellProps> = ({
+  column,
+  value,
+  edit,
+  error,
+  isNewRow = false,
+  disabled,
+  onEdit,
+  onOpenReference,
+}) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const kind = editorKindFor(column);
+  const editable = !disabled && isInlineEditable(column, isNewRow);
+
+  const startEditing = () => {
+    if (!editable) return;
+    // Start from the pending edit, else the loaded value; NULL starts empty
+    setDraft(edit !== undefined ? edit ?? '' : toEditorText(kind, value));
+  };
+
+  const finish = (next: CellEdit) => {
+    onEdit(next);
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <TableCell className="p-1 min-w-[12rem]">
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            finish(draft);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setDraft(null);
+          }}
+        >
+          <div className="flex-1">
+            <ColumnValueEditor kind={kind} column={column} value={draft} onChange={setDraft} />
+          </div>
+          {column.is_nullable === 'YES' && (
+            <Button type="button" variant="ghost" size="sm" className="h-8 px-2 text-xs" onClick={() => finish(null)}>
+              NULL
+            </Button>
+          )}
+          <Button type="submit" variant="ghost" size="icon" className="h-8 w-8">
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDraft(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </form>
+      </TableCell>
+    );
+  }
+
+  const isPending = edit !== undefined;
+  const shown = isPending ? edit : value;
+
+  return (
+    <TableCell
+      onDoubleClick={startEditing}
+      title={error || (editable ? 'Double-click to edit' : undefined)}
+      className={`${isPending ? 'bg-amber-50' : ''} ${error ? 'ring-1 ring-inset ring-red-400' : ''} ${editable ? 'cursor-text' : ''}`}
+    >
+      {shown === undefined ? (
+        <span className="italic text-neutral-400">DEFAULT</span>
+      ) : shown === null ? (
+        <span className="italic text-neutral-400">NULL</span>
+      ) : onOpenReference && !isPending ? (
+        <button
+          type="button"
+          onClick={onOpenReference}
+          title="Open the referenced row"
+          className="inline-flex items-center gap-0.5 text-primary hover:underline"
+        >
+          {formatCellValue(shown)}
+          <ArrowUpRight className="h-3 w-3" />
+        </button>
+      ) : (
+        formatCellValue(shown)
+      )}
+    </TableCell>
+  );
+};
+
+export default EditableCell;
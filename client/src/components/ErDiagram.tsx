@@ -0,0 +1,428 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Loader2, Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSchemaDiagram } from '@/hooks/useDatabase';
+import { downloadBlob, formatTableReference } from '@/utils/database';
+import { layoutDiagram, neighborhood, LayoutEdge } from '@/utils/erLayout';
+import { CatalogSchema, ForeignKey } from '@/types/database';
+
+interface ErDiagramProps {
+  connectionId: number;
+}
+
+interface DiagramNode {
+  id: string;
+  schema: string;
+  name: string;
+  columns: { name: string; type: string; isPrimary: boolean }[];
+  // Lives in another schema and is only shown because a key leads to it
+  external: boolean;
+}
+
+interface Viewport {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const NODE_WIDTH = 240;
+const HEADER_HEIGHT = 30;
+const ROW_HEIGHT = 20;
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 3;
+const ALL_TABLES = '__all__';
+
+const nodeHeight = (node: DiagramNode) => HEADER_HEIGHT + node.columns.length * ROW_HEIGHT + 6;
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+// Center of the row showing a column, or of the header when it isn't listed
+const columnY = (node: DiagramNode, top: number, column: string) => {
+  const index = node.columns.findIndex(candidate => candidate.name === column);
+  return index === -1 ? top + HEADER_HEIGHT / 2 : top + HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2;
+};
+
+// Tables of the schema, plus placeholders for tables elsewhere that keys lead to
+const buildNodes = (tables: { schema: string; name: string; columns: DiagramNode['columns'] }[], foreignKeys: ForeignKey[]) => {
+  const nodes = new Map<string, DiagramNode>();
+  for (const table of tables) {
+    const id = `${table.schema}.${table.name}`;
+    nodes.set(id, { id, schema: table.schema, name: table.name, columns: table.columns, external: false });
+  }
+  const addExternal = (schema: string, name: string, columns: string[]) => {
+    const id = `${schema}.${name}`;
+    const node = nodes.get(id) ?? { id, schema, name, columns: [], external: true };
+    if (node.external) {
+      for (const column of columns) {
+        if (!node.columns.some(existing => existing.name === column)) {
+          node.columns.push({ name: column, type: '', isPrimary: false });
+        }
+      }
+    }
+    nodes.set(id, node);
+  };
+  for (const key of foreignKeys) {
+    addExternal(key.schema, key.table, key.columns);
+    addExternal(key.referencedSchema, key.referencedTable, key.referencedColumns);
+  }
+  return Array.from(nodes.values());
+};
+
+const ErDiagram: React.FC<ErDiagramProps> = ({ connectionId }) => {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [schema, setSchema] = useState<string | undefined>(undefined);
+  const [focus, setFocus] = useState<string>(ALL_TABLES);
+  const [depth, setDepth] = useState(1);
+  const [viewport, setViewport] = useState<Viewport>({ scale: 1, x: 0, y: 0 });
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; x: number; y: number; moved: boolean } | null>(null);
+
+  const { data: catalog } = useQuery<CatalogSchema[]>({
+    queryKey: ['/api/connections', connectionId, 'catalog'],
+  });
+  const { diagram, isLoadingDiagram, diagramError } = useSchemaDiagram(connectionId, schema);
+
+  // Start on public, or the first schema when there is none
+  useEffect(() => {
+    if (!schema && catalog && catalog.length > 0) {
+      setSchema(catalog.some(entry => entry.name === 'public') ? 'public' : catalog[0].name);
+    }
+  }, [catalog, schema]);
+
+  useEffect(() => {
+    setFocus(ALL_TABLES);
+  }, [schema]);
+
+  const nodes = useMemo(() => (diagram ? buildNodes(diagram.tables, diagram.foreignKeys) : []), [diagram]);
+  const edges = useMemo<(LayoutEdge & { key: ForeignKey })[]>(
+    () => (diagram?.foreignKeys ?? []).map(key => ({
+      from: `${key.schema}.${key.table}`,
+      to: `${key.referencedSchema}.${key.referencedTable}`,
+      key,
+    })),
+    [diagram]
+  );
+
+  const visibleNodes = useMemo(() => {
+    if (focus === ALL_TABLES) return nodes;
+    const reached = neighborhood(focus, edges, depth);
+    return nodes.filter(node => reached.has(node.id));
+  }, [nodes, edges, focus, depth]);
+
+  const layout = useMemo(
+    () => layoutDiagram(visibleNodes.map(node => ({ id: node.id, width: NODE_WIDTH, height: nodeHeight(node) })), edges),
+    [visibleNodes, edges]
+  );
+
+  const fitToView = useCallback(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const { width, height } = svg.getBoundingClientRect();
+    const scale = Math.min(Math.max(Math.min(width / layout.width, height / layout.height), MIN_SCALE), 1);
+    setViewport({
+      scale,
+      x: (width - layout.width * scale) / 2,
+      y: (height - layout.height * scale) / 2,
+    });
+  }, [layout]);
+
+  useEffect(() => {
+    fitToView();
+  }, [fitToView]);
+
+  const zoomAt = useCallback((factor: number, originX: number, originY: number) => {
+    setViewport(current => {
+      const scale = Math.min(Math.max(current.scale * factor, MIN_SCALE), MAX_SCALE);
+      const ratio = scale / current.scale;
+      return {
+        scale,
+        x: originX - (originX - current.x) * ratio,
+        y: originY - (originY - current.y) * ratio,
+      };
+    });
+  }, []);
+
+  // React registers wheel listeners as passive, which rules out preventDefault
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const bounds = svg.getBoundingClientRect();
+      zoomAt(event.deltaY < 0 ? 1.1 : 1 / 1.1, event.clientX - bounds.left, event.clientY - bounds.top);
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [zoomAt, diagram]);
+
+  const zoomFromCenter = (factor: number) => {
+    const bounds = svgRef.current?.getBoundingClientRect();
+    if (bounds) zoomAt(factor, bounds.width / 2, bounds.height / 2);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    dragRef.current = { startX: event.clientX, startY: event.clientY, x: viewport.x, y: viewport.y, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.startX;
+    const dy = event.clientY - drag.startY;
+    if (!drag.moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+    drag.moved = true;
+    setViewport(current => ({ ...current, x: drag.x + dx, y: drag.y + dy }));
+  };
+
+  const handlePointerUp = () => {
+    // Keep the drag around until the click that ends it has been seen
+    setTimeout(() => {
+      dragRef.current = null;
+    });
+  };
+
+  const handleNodeClick = (node: DiagramNode) => {
+    if (dragRef.current?.moved) return;
+    console.log('Opening table from diagram:', node.id);
+    navigate(`/table-manager?table=${encodeURIComponent(formatTableReference(node.schema, node.name))}`);
+  };
+
+  // Standalone copy of the diagram at full size, without zoom or pan
+  const serializeDiagram = (): string => {
+    const clone = svgRef.current!.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(layout.width));
+    clone.setAttribute('height', String(layout.height));
+    clone.setAttribute('viewBox', `0 0 ${layout.width} ${layout.height}`);
+    clone.removeAttribute('class');
+    clone.querySelector('[data-viewport]')?.removeAttribute('transform');
+    return new XMLSerializer().serializeToString(clone);
+  };
+
+  const handleExport = (format: 'svg' | 'png') => {
+    if (!svgRef.current || !schema) return;
+    console.log(`Exporting ER diagram as ${format}`);
+    const svg = new Blob([serializeDiagram()], { type: 'image/svg+xml' });
+    if (format === 'svg') {
+      downloadBlob(svg, `${schema}-er-diagram.svg`);
+      return;
+    }
+
+    // Rasterize at twice the size so text stays sharp
+    const url = URL.createObjectURL(svg);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = layout.width * 2;
+      canvas.height = layout.height * 2;
+      const context = canvas.getContext('2d')!;
+      context.scale(2, 2);
+      context.drawImage(image, 0, 0);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => {
+        if (blob) downloadBlob(blob, `${schema}-er-diagram.png`);
+      }, 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      toast({ title: 'Failed to export diagram', description: 'The diagram could not be rendered as PNG', variant: 'destructive' });
+    };
+    image.src = url;
+  };
+
+  const positions = layout.positions;
+  const byId = new Map(visibleNodes.map(node => [node.id, node]));
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="px-6 py-4 bg-white border-b border-neutral-200 flex flex-wrap items-end gap-4">
+        <h1 className="text-xl font-semibold text-neutral-700 mr-auto self-center">ER Diagram</h1>
+        <div>
+          <Label htmlFor="diagram-schema" className="text-xs text-neutral-500">Schema</Label>
+          <Select value={schema} onValueChange={setSchema}>
+            <SelectTrigger id="diagram-schema" className="mt-1 h-8 w-44">
+              <SelectValue placeholder="Schema" />
+            </SelectTrigger>
+            <SelectContent>
+              {(catalog ?? []).map(entry => (
+                <SelectItem key={entry.name} value={entry.name}>{entry.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="diagram-focus" className="text-xs text-neutral-500">Show</Label>
+          <Select value={focus} onValueChange={setFocus}>
+            <SelectTrigger id="diagram-focus" className="mt-1 h-8 w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TABLES}>All tables</SelectItem>
+              {nodes.filter(node => !node.external).map(node => (
+                <SelectItem key={node.id} value={node.id}>Around {node.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="diagram-depth" className="text-xs text-neutral-500">Hops</Label>
+          <Select value={String(depth)} onValueChange={(value) => setDepth(parseInt(value))} disabled={focus === ALL_TABLES}>
+            <SelectTrigger id="diagram-depth" className="mt-1 h-8 w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[1, 2, 3].map(option => (
+                <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-1">
+          <Button variant="outline" size="icon" className="h-8 w-8" title="Zoom in" onClick={() => zoomFromCenter(1.25)}>
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" title="Zoom out" onClick={() => zoomFromCenter(0.8)}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" title="Fit to view" onClick={fitToView}>
+            <Maximize className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex gap-1">
+          <Button variant="outline" size="sm" onClick={() => handleExport('svg')} disabled={visibleNodes.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            SVG
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('png')} disabled={visibleNodes.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            PNG
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 relative bg-neutral-50">
+        {isLoadingDiagram ? (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+            <span>Loading diagram...</span>
+          </div>
+        ) : diagramError ? (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <p className="text-sm text-error">{(diagramError as Error).message}</p>
+          </div>
+        ) : diagram && diagram.tables.length === 0 ? (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <p className="text-neutral-500">Schema {schema} has no tables</p>
+          </div>
+        ) : (
+          <svg
+            ref={svgRef}
+            className="absolute inset-0 h-full w-full cursor-grab active:cursor-grabbing select-none"
+            fontFamily="ui-sans-serif, system-ui, sans-serif"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+          >
+            <defs>
+              <marker id="er-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+              </marker>
+            </defs>
+            <g data-viewport transform={`translate(${viewport.x} ${viewport.y}) scale(${viewport.scale})`}>
+              {edges.map(({ from, to, key }) => {
+                const source = byId.get(from);
+                const target = byId.get(to);
+                if (!source || !target || !positions[from] || !positions[to]) return null;
+                const sourcePosition = positions[from];
+                const targetPosition = positions[to];
+                const y1 = columnY(source, sourcePosition.y, key.columns[0]);
+                const y2 = columnY(target, targetPosition.y, key.referencedColumns[0]);
+                let path: string;
+                if (from === to) {
+                  // Self-reference loops out of the right edge and back
+                  const x = sourcePosition.x + NODE_WIDTH;
+                  path = `M ${x} ${y1} C ${x + 50} ${y1}, ${x + 50} ${y2}, ${x} ${y2}`;
+                } else {
+                  const leftward = targetPosition.x + NODE_WIDTH / 2 < sourcePosition.x + NODE_WIDTH / 2;
+                  const x1 = leftward ? sourcePosition.x : sourcePosition.x + NODE_WIDTH;
+                  const x2 = leftward ? targetPosition.x + NODE_WIDTH : targetPosition.x;
+                  const bend = Math.max(40, Math.abs(x2 - x1) / 2) * (leftward ? -1 : 1);
+                  path = `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+                }
+                return (
+                  <path key={`${from}:${key.name}`} d={path} fill="none" stroke="#9ca3af" strokeWidth={1.5} markerEnd="url(#er-arrow)">
+                    <title>{`${key.name}: ${key.table}(${key.columns.join(', ')}) → ${key.referencedTable}(${key.referencedColumns.join(', ')})`}</title>
+                  </path>
+                );
+              })}
+
+              {visibleNodes.map(node => {
+                const position = positions[node.id];
+                if (!position) return null;
+                const keyColumns = new Set(
+                  edges.filter(edge => edge.from === node.id).flatMap(edge => edge.key.columns)
+                );
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${position.x} ${position.y})`}
+                    className="cursor-pointer"
+                    onClick={() => handleNodeClick(node)}
+                  >
+                    <title>{`Open ${node.id}`}</title>
+                    <rect
+                      width={NODE_WIDTH}
+                      height={nodeHeight(node)}
+                      rx={6}
+                      fill="#ffffff"
+                      stroke={node.id === focus ? '#2563eb' : '#d1d5db'}
+                      strokeWidth={node.id === focus ? 2 : 1}
+                      strokeDasharray={node.external ? '4 3' : undefined}
+                    />
+                    <path
+                      d={`M 0 6 a 6 6 0 0 1 6 -6 h ${NODE_WIDTH - 12} a 6 6 0 0 1 6 6 v ${HEADER_HEIGHT - 6} h ${-NODE_WIDTH} z`}
+                      fill={node.external ? '#f9fafb' : '#f3f4f6'}
+                    />
+                    <text x={10} y={HEADER_HEIGHT / 2 + 5} fontSize={13} fontWeight={600} fill="#374151">
+                      {truncate(node.external ? node.id : node.name, 30)}
+                    </text>
+                    {node.columns.map((column, index) => {
+                      const y = HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2 + 4;
+                      const marker = column.isPrimary ? 'PK' : keyColumns.has(column.name) ? 'FK' : '';
+                      return (
+                        <g key={column.name}>
+                          <text x={10} y={y} fontSize={9} fontWeight={600} fill="#6b7280">{marker}</text>
+                          <text x={30} y={y} fontSize={12} fontWeight={column.isPrimary ? 600 : 400} fill="#374151">
+                            {truncate(column.name, 20)}
+                          </text>
+                          <text x={NODE_WIDTH - 10} y={y} fontSize={11} fill="#9ca3af" textAnchor="end">
+                            {truncate(column.type, 14)}
+                          </text>
+                        </g>
+                      );
+                    })}
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ErDiagram;
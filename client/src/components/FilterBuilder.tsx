@@ -0,0 +1,364 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Filter, Plus, X, Link as LinkIcon } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { TableColumn } from '@/types/database';
+import {
+  FilterNode,
+  FilterGroup,
+  FilterCondition,
+  FilterOperator,
+  filterOperatorLabels,
+  operatorsForDataType,
+  countFilterConditions,
+} from '@shared/filters';
+
+interface FilterBuilderProps {
+  columns: TableColumn[];
+  filter: FilterNode | null;
+  onApply: (filter: FilterNode | null) => void;
+  disabled?: boolean;
+}
+
+const emptyGroup = (): FilterGroup => ({ type: 'group', combinator: 'and', children: [] });
+
+const isListOperator = (operator: FilterOperator) => operator === 'in' || operator === 'not_in';
+const isUnaryOperator = (operator: FilterOperator) => operator === 'is_null' || operator === 'is_not_null';
+
+// IN lists are edited as comma separated text and only split when applied
+const toDraft = (node: FilterNode): FilterNode => {
+  if (node.type === 'group') {
+    return { ...node, children: node.children.map(toDraft) };
+  }
+  if (isListOperator(node.operator)) {
+    return { ...node, value: (node.values || []).join(', '), values: undefined };
+  }
+  return { ...node };
+};
+
+const fromDraft = (node: FilterNode): FilterNode => {
+  if (node.type === 'group') {
+    return { ...node, children: node.children.map(fromDraft) };
+  }
+  if (isListOperator(node.operator)) {
+    const values = String(node.value ?? '')
+      .split(',')
+      .map(value => value.trim())
+      .filter(value => value.length > 0);
+    return { type: 'condition', column: node.column, operator: node.operator, values };
+  }
+  if (isUnaryOperator(node.operator)) {
+    return { type: 'condition', column: node.column, operator: node.operator };
+  }
+  if (node.operator === 'between') {
+    return { type: 'condition', column: node.column, operator: node.operator, values: node.values || ['', ''] };
+  }
+  return { type: 'condition', column: node.column, operator: node.operator, value: node.value ?? '' };
+};
+
+// Replace the node at a path of child indexes, returning a new tree
+const updateAt = (root: FilterGroup, path: number[], update: (node: FilterNode) => FilterNode | null): FilterGroup => {
+  if (path.length === 0) {
+    return update(root) as FilterGroup;
+  }
+  const [index, ...rest] = path;
+  const children = root.children
+    .map((child, i) => {
+      if (i !== index) return child;
+      if (rest.length === 0) return update(child);
+      return updateAt(child as FilterGroup, rest, update);
+    })
+    .filter((child): child is FilterNode => child !== null);
+  return { ...root, children };
+};
+
+interface ConditionEditorProps {
+  condition: FilterCondition;
+  columns: TableColumn[];
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionEditor: React.FC<ConditionEditorProps> = ({ condition, columns, onChange, onRemove }) => {
+  const column = columns.find(col => col.column_name === condition.column);
+  const operators = operatorsForDataType(column?.data_type || 'text');
+
+  const handleColumnChange = (columnName: string) => {
+    const nextColumn = columns.find(col => col.column_name === columnName);
+    const nextOperators = operatorsForDataType(nextColumn?.data_type || 'text');
+    onChange({
+      ...condition,
+      column: columnName,
+      // Keep the operator if the new column type supports it
+      operator: nextOperators.includes(condition.operator) ? condition.operator : nextOperators[0],
+    });
+  };
+
+  const renderValueInput = () => {
+    if (isUnaryOperator(condition.operator)) {
+      return null;
+    }
+    if (condition.operator === 'between') {
+      const [low = '', high = ''] = condition.values || [];
+      return (
+        <div className="flex items-center gap-1">
+          <Input
+            className="h-8 w-28"
+            value={low}
+            onChange={(e) => onChange({ ...condition, values: [e.target.value, high] })}
+            placeholder="from"
+          />
+          <span className="text-xs text-neutral-500">and</span>
+          <Input
+            className="h-8 w-28"
+            value={high}
+            onChange={(e) => onChange({ ...condition, values: [low, e.target.value] })}
+            placeholder="to"
+          />
+        </div>
+      );
+    }
+    if (column?.data_type === 'boolean') {
+      return (
+        <Select value={String(condition.value ?? '')} onValueChange={(value) => onChange({ ...condition, value })}>
+          <SelectTrigger className="h-8 w-28">
+            <SelectValue placeholder="value" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">true</SelectItem>
+            <SelectItem value="false">false</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    const placeholders: Partial<Record<FilterOperator, string>> = {
+      in: 'a, b, c',
+      not_in: 'a, b, c',
+      like: 'pattern%',
+      ilike: 'pattern%',
+      not_like: 'pattern%',
+      not_ilike: 'pattern%',
+      json_path: '$.items[*] ? (@.price > 10)',
+      json_has_key: 'key',
+      json_contains: '{"status": "active"}',
+    };
+
+    return (
+      <Input
+        className="h-8 w-56"
+        value={condition.value ?? ''}
+        onChange={(e) => onChange({ ...condition, value: e.target.value })}
+        placeholder={placeholders[condition.operator] || 'value'}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={condition.column} onValueChange={handleColumnChange}>
+        <SelectTrigger className="h-8 w-40">
+          <SelectValue placeholder="Column" />
+        </SelectTrigger>
+        <SelectContent>
+          {columns.map(col => (
+            <SelectItem key={col.column_name} value={col.column_name}>
+              {col.column_name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={condition.operator}
+        onValueChange={(operator) => onChange({ ...condition, operator: operator as FilterOperator })}
+      >
+        <SelectTrigger className="h-8 w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map(operator => (
+            <SelectItem key={operator} value={operator}>
+              {filterOperatorLabels[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {renderValueInput()}
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+interface GroupEditorProps {
+  group: FilterGroup;
+  path: number[];
+  columns: TableColumn[];
+  onUpdate: (path: number[], update: (node: FilterNode) => FilterNode | null) => void;
+}
+
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, path, columns, onUpdate }) => {
+  const addCondition = () => {
+    const column = columns[0];
+    const condition: FilterCondition = {
+      type: 'condition',
+      column: column?.column_name || '',
+      operator: operatorsForDataType(column?.data_type || 'text')[0],
+      value: '',
+    };
+    onUpdate(path, node => ({ ...(node as FilterGroup), children: [...(node as FilterGroup).children, condition] }));
+  };
+
+  const addGroup = () => {
+    onUpdate(path, node => ({ ...(node as FilterGroup), children: [...(node as FilterGroup).children, emptyGroup()] }));
+  };
+
+  return (
+    <div className={`space-y-2 ${path.length > 0 ? 'border-l-2 border-neutral-200 pl-3' : ''}`}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.combinator}
+          onValueChange={(combinator) => onUpdate(path, node => ({ ...(node as FilterGroup), combinator: combinator as 'and' | 'or' }))}
+        >
+          <SelectTrigger className="h-8 w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">AND</SelectItem>
+            <SelectItem value="or">OR</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-neutral-500">
+          {group.combinator === 'and' ? 'All conditions must match' : 'Any condition may match'}
+        </span>
+        {path.length > 0 && (
+          <Button variant="ghost" size="icon" className="h-8 w-8 ml-auto" onClick={() => onUpdate(path, () => null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.children.map((child, index) => (
+        child.type === 'group' ? (
+          <GroupEditor
+            key={index}
+            group={child}
+            path={[...path, index]}
+            columns={columns}
+            onUpdate={onUpdate}
+          />
+        ) : (
+          <ConditionEditor
+            key={index}
+            condition={child}
+            columns={columns}
+            onChange={(condition) => onUpdate([...path, index], () => condition)}
+            onRemove={() => onUpdate([...path, index], () => null)}
+          />
+        )
+      ))}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="h-7" onClick={addCondition} disabled={columns.length === 0}>
+          <Plus className="h-3 w-3 mr-1" />
+          Condition
+        </Button>
+        <Button variant="outline" size="sm" className="h-7" onClick={addGroup}>
+          <Plus className="h-3 w-3 mr-1" />
+          Group
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({ columns, filter, onApply, disabled }) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<FilterGroup>(emptyGroup());
+  const conditionCount = countFilterConditions(filter);
+
+  // Start editing from the applied filter each time the builder opens
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      const current = filter ? toDraft(filter) : emptyGroup();
+      setDraft(current.type === 'group' ? current : { ...emptyGroup(), children: [current] });
+    }
+    setIsOpen(open);
+  };
+
+  const handleUpdate = (path: number[], update: (node: FilterNode) => FilterNode | null) => {
+    setDraft(prev => updateAt(prev, path, update));
+  };
+
+  const handleApply = () => {
+    const compiled = fromDraft(draft);
+    onApply(countFilterConditions(compiled) > 0 ? compiled : null);
+    setIsOpen(false);
+  };
+
+  const handleClear = () => {
+    onApply(null);
+    setIsOpen(false);
+  };
+
+  // The filter lives in the URL, so the current address is a shareable view
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: 'Link copied', description: 'Anyone with the link sees this filtered view' });
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Popover open={isOpen} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={disabled}>
+            <Filter className="h-4 w-4 mr-2" />
+            Filters
+            {conditionCount > 0 && (
+              <Badge variant="secondary" className="ml-2">{conditionCount}</Badge>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-[680px] max-w-[95vw]">
+          <GroupEditor group={draft} path={[]} columns={columns} onUpdate={handleUpdate} />
+          <div className="flex justify-end gap-2 mt-4 pt-3 border-t border-neutral-200">
+            <Button variant="outline" size="sm" onClick={handleClear}>
+              Clear
+            </Button>
+            <Button size="sm" onClick={handleApply}>
+              Apply
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+      {conditionCount > 0 && (
+        <Button variant="ghost" size="sm" onClick={handleCopyLink}>
+          <LinkIcon className="h-4 w-4 mr-2" />
+          Copy link
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default FilterBuilder;
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ChevronsUpDown, Loader2 } from 'lucide-react';
+import { useForeignKeyLookup } from '@/hooks/useDatabase';
+import { ForeignKey } from '@/types/database';
+import { formatCellValue } from './EditableCell';
+
+interface ForeignKeyPickerProps {
+  id?: string;
+  connectionId: number;
+  foreignKey: ForeignKey;
+  // Column of the referenced table whose value this field holds
+  referencedColumn: string;
+  value: string;
+  onPick: (row: Record<string, any>) => void;
+  disabled?: boolean;
+}
+
+// Summarize a referenced row by its non-key columns so similar ids can be told apart
+const describeRow = (row: Record<string, any>, keyColumns: string[]): string => {
+  return Object.entries(row)
+    .filter(([column]) => !keyColumns.includes(column) && !column.startsWith('__'))
+    .slice(0, 3)
+    .map(([column, value]) => `${column}: ${formatCellValue(value)}`)
+    .join(' · ');
+};
+
+const ForeignKeyPicker: React.FC<ForeignKeyPickerProps> = ({
+  id,
+  connectionId,
+  foreignKey,
+  referencedColumn,
+  value,
+  onPick,
+  disabled,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const [search, setSearch] = useState('');
+
+  // Search the referenced table once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchText.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  const { rows, total, isLoading } = useForeignKeyLookup(connectionId, isOpen ? foreignKey : null, search);
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          className="w-full justify-between font-normal"
+          disabled={disabled}
+        >
+          <span className={value === '' ? 'text-neutral-400' : ''}>
+            {value === '' ? `Choose from ${foreignKey.referencedTable}...` : value}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[420px] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder={`Search ${foreignKey.referencedSchema}.${foreignKey.referencedTable}...`}
+            value={searchText}
+            onValueChange={setSearchText}
+          />
+          <CommandList>
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            ) : (
+              <>
+                <CommandEmpty>No matching rows</CommandEmpty>
+                {rows.map((row, index) => (
+                  <CommandItem
+                    key={index}
+                    value={String(index)}
+                    onSelect={() => {
+                      onPick(row);
+                      setIsOpen(false);
+                    }}
+                  >
+                    <div className="flex flex-col min-w-0">
+                      <span className="font-medium">{formatCellValue(row[referencedColumn])}</span>
+                      <span className="text-xs text-neutral-500 truncate">
+                        {describeRow(row, foreignKey.referencedColumns)}
+                      </span>
+                    </div>
+                  </CommandItem>
+                ))}
+                {total > rows.length && (
+                  <div className="px-3 py-2 text-xs text-neutral-500">
+                    Showing {rows.length} of {total}; refine the search to narrow down
+                  </div>
+                )}
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ForeignKeyPicker;
@@ -40,6 +40,27 @@ const Header: React.FC<HeaderProps> = ({ isSetupComplete, isConnected }) => {
                 <Link href="/table-manager" className={`${location === '/table-manager' ? 'border-primary text-neutral-700' : 'border-transparent text-neutral-500 hover:border-neutral-300 hover:text-neutral-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}>
                   Table Manager
                 </Link>
+                <Link href="/query" className={`${location === '/query' ? 'border-primary text-neutral-700' : 'border-transparent text-neutral-500 hover:border-neutral-300 hover:text-neutral-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}>
+                  Query Editor
+                </Link>
+                <Link href="/routines" className={`${location === '/routines' ? 'border-primary text-neutral-700' : 'border-transparent text-neutral-500 hover:border-neutral-300 hover:text-neutral-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}>
+                  Routines
+                </Link>
+                <Link href="/types" className={`${location === '/types' ? 'border-primary text-neutral-700' : 'border-transparent text-neutral-500 hover:border-neutral-300 hover:text-neutral-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}>
+                  Types
+                </Link>
+                <Link href="/sequences" className={`${location === '/sequences' ? 'border-primary text-neutral-700' : 'border-transparent text-neutral-500 hover:border-neutral-300 hover:text-neutral-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}>
+                  Sequences
+                </Link>
+                <Link href="/dictionary" className={`${location === '/dictionary' ? 'border-primary text-neutral-700' : 'border-transparent text-neutral-500 hover:border-neutral-300 hover:text-neutral-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}>
+                  Data Dictionary
+                </Link>
+                <Link href="/er-diagram" className={`${location === '/er-diagram' ? 'border-primary text-neutral-700' : 'border-transparent text-neutral-500 hover:border-neutral-300 hover:text-neutral-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}>
+                  ER Diagram
+                </Link>
+                <Link href="/schema-diff" className={`${location === '/schema-diff' ? 'border-primary text-neutral-700' : 'border-transparent text-neutral-500 hover:border-neutral-300 hover:text-neutral-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}>
+                  Schema Diff
+                </Link>
                 <Link href="/settings" className={`${location === '/settings' ? 'border-primary text-neutral-700' : 'border-transparent text-neutral-500 hover:border-neutral-300 hover:text-neutral-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}>
                   Settings
                 </Link>
@@ -78,6 +99,41 @@ const Header: React.FC<HeaderProps> = ({ isSetupComplete, isConnected }) => {
                         Table Manager
                       </Link>
                     </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/query" className="w-full cursor-pointer">
+                        Query Editor
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/routines" className="w-full cursor-pointer">
+                        Routines
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/types" className="w-full cursor-pointer">
+                        Types
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/sequences" className="w-full cursor-pointer">
+                        Sequences
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/dictionary" className="w-full cursor-pointer">
+                        Data Dictionary
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/er-diagram" className="w-full cursor-pointer">
+                        ER Diagram
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/schema-diff" className="w-full cursor-pointer">
+                        Schema Diff
+                      </Link>
+                    </DropdownMenuItem>
                     <DropdownMenuItem asChild>
                       <Link href="/settings" className="w-full cursor-pointer">
                         Settings
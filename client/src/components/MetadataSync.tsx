@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from 'lucide-react';
+import { useMetadataSync } from '@/hooks/useDatabase';
+import { MetadataChange } from '@/types/database';
+import { CommentDirection } from '@shared/metadataSync';
+
+interface MetadataSyncProps {
+  connectionId: number;
+}
+
+const actionStyles: Record<MetadataChange['action'], string> = {
+  added: 'border-green-400 text-green-700',
+  dropped: 'border-red-400 text-red-700',
+  restored: 'border-green-400 text-green-700',
+  updated: 'border-blue-400 text-blue-700',
+  commented: 'border-neutral-400 text-neutral-700',
+};
+
+const MetadataSync: React.FC<MetadataSyncProps> = ({ connectionId }) => {
+  const [comments, setComments] = useState<CommentDirection>('import');
+
+  const {
+    previewSync,
+    syncPreview,
+    syncPreviewError,
+    isPreviewingSync,
+    resetSyncPreview,
+    syncMetadata,
+    isSyncing,
+  } = useMetadataSync(connectionId);
+
+  // A preview only holds for the direction it was made with
+  useEffect(() => {
+    resetSyncPreview();
+  }, [comments, connectionId, resetSyncPreview]);
+
+  const handleSync = async () => {
+    try {
+      await syncMetadata(comments);
+    } catch (error) {
+      // The hook reports the failure
+      console.error('Failed to sync metadata:', error);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-0">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg leading-6 font-medium text-neutral-700">Table Metadata</h3>
+          <p className="mt-1 max-w-2xl text-sm text-neutral-500">
+            Update stored table and column descriptions, types and keys from the database catalog.
+          </p>
+        </div>
+        <div className="border-t border-neutral-200 px-4 py-5 sm:px-6 space-y-4">
+          <div className="max-w-sm">
+            <Label htmlFor="sync_comments" className="block text-sm font-medium text-neutral-700">Comments</Label>
+            <Select value={comments} onValueChange={(value) => setComments(value as CommentDirection)}>
+              <SelectTrigger id="sync_comments" className="mt-1 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="import">Import database comments into descriptions</SelectItem>
+                <SelectItem value="export">Export descriptions as COMMENT ON</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {syncPreviewError ? (
+            <p className="text-sm text-error">{syncPreviewError.message}</p>
+          ) : syncPreview && (
+            syncPreview.changes.length === 0 ? (
+              <p className="text-sm text-neutral-500">Stored metadata matches the database</p>
+            ) : (
+              <div className="space-y-3">
+                <ul className="max-h-64 overflow-y-auto rounded-md border border-neutral-200 divide-y divide-neutral-100">
+                  {syncPreview.changes.map((change, index) => (
+                    <li key={`${change.object}-${change.action}-${index}`} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                      <Badge variant="outline" className={actionStyles[change.action]}>{change.action}</Badge>
+                      <span className="font-mono text-xs truncate">{change.object}</span>
+                      {change.fields && change.fields.length > 0 && (
+                        <span className="ml-auto text-xs text-neutral-500">{change.fields.join(', ')}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {syncPreview.sql.length > 0 && (
+                  <pre className="bg-neutral-900 text-neutral-100 text-xs rounded-md p-3 overflow-x-auto max-h-48">
+                    {syncPreview.sql.join('\n')}
+                  </pre>
+                )}
+              </div>
+            )
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => previewSync(comments)} disabled={isPreviewingSync || isSyncing}>
+              {isPreviewingSync && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Preview Changes
+            </Button>
+            <Button onClick={handleSync} disabled={isSyncing}>
+              {isSyncing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Sync Metadata
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MetadataSync;
@@ -0,0 +1,316 @@
+import React, { useState, useRef } from 'react';
+import { useQueryEditor } from '@/hooks/useDatabase';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Play, PlayCircle, AlertCircle, Download } from 'lucide-react';
+import { StatementResult, QueryErrorDetails } from '@/types/database';
+import ExportDialog from './modals/ExportDialog';
+
+// Rendering very large results freezes the page; the rest stay on the server response
+const MAX_RENDERED_ROWS = 1000;
+
+interface QueryEditorProps {
+  connectionId: number;
+}
+
+// Convert a 1-based character position into a line and column
+const toLineAndColumn = (text: string, position: number) => {
+  const before = text.slice(0, Math.max(0, position - 1));
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+const formatCell = (value: any): string => {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatCommandTag = (result: StatementResult): string => {
+  if (!result.command) return '';
+  return result.rowCount !== null ? `${result.command} ${result.rowCount}` : result.command;
+};
+
+interface QueryErrorPanelProps {
+  error: QueryErrorDetails;
+  script: string;
+  baseOffset: number;
+  onShowPosition: (position: number) => void;
+}
+
+const QueryErrorPanel: React.FC<QueryErrorPanelProps> = ({ error, script, baseOffset, onShowPosition }) => {
+  // Server positions are relative to the text that was sent, which may be a selection
+  const position = error.position !== undefined ? error.position + baseOffset : undefined;
+  const location = position !== undefined ? toLineAndColumn(script, position) : null;
+  const lineText = location ? script.split('\n')[location.line - 1] : null;
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-start gap-2 text-error">
+        <AlertCircle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+        <div>
+          <p className="font-medium">{error.message}</p>
+          <p className="text-xs text-neutral-500">
+            {[error.severity, error.code && `SQLSTATE ${error.code}`].filter(Boolean).join(' · ')}
+          </p>
+        </div>
+      </div>
+
+      {location && lineText !== null && (
+        <div>
+          <p className="text-sm text-neutral-700">
+            Line {location.line}, column {location.column}
+            <Button
+              variant="link"
+              size="sm"
+              className="ml-2 h-auto p-0"
+              onClick={() => onShowPosition(position!)}
+            >
+              Show in editor
+            </Button>
+          </p>
+          <pre className="mt-1 text-xs font-mono bg-neutral-100 rounded p-2 overflow-x-auto">
+            {lineText}
+            {'\n'}
+            {' '.repeat(location.column - 1)}^
+          </pre>
+        </div>
+      )}
+
+      {error.detail && (
+        <p className="text-sm"><span className="font-medium">Detail:</span> {error.detail}</p>
+      )}
+      {error.hint && (
+        <p className="text-sm"><span className="font-medium">Hint:</span> {error.hint}</p>
+      )}
+      {error.where && (
+        <p className="text-sm"><span className="font-medium">Where:</span> {error.where}</p>
+      )}
+    </div>
+  );
+};
+
+// Also shows routine call results on the Routines page
+export const ResultGrid: React.FC<{ result: StatementResult }> = ({ result }) => {
+  if (result.fields.length === 0) {
+    return (
+      <div className="p-4 text-sm text-neutral-500">
+        Statement executed: {formatCommandTag(result)}
+      </div>
+    );
+  }
+
+  const visibleRows = result.rows.slice(0, MAX_RENDERED_ROWS);
+
+  return (
+    <div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {result.fields.map((field, index) => (
+              <TableHead key={index}>{field.name}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visibleRows.map((row, rowIndex) => (
+            <TableRow key={rowIndex}>
+              {row.map((value, cellIndex) => (
+                <TableCell
+                  key={cellIndex}
+                  className={`font-mono text-xs whitespace-nowrap ${value === null ? 'text-neutral-400 italic' : ''}`}
+                >
+                  {formatCell(value)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {result.rows.length > MAX_RENDERED_ROWS && (
+        <p className="p-2 text-xs text-neutral-500">
+          Showing the first {MAX_RENDERED_ROWS} of {result.rows.length} rows
+        </p>
+      )}
+    </div>
+  );
+};
+
+const QueryEditor: React.FC<QueryEditorProps> = ({ connectionId }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [script, setScript] = useState('');
+  const [baseOffset, setBaseOffset] = useState(0);
+  const [activeTab, setActiveTab] = useState('0');
+  const [exportQuery, setExportQuery] = useState<string | null>(null);
+  const { runScript, results, isRunning } = useQueryEditor(connectionId);
+
+  const run = (text: string, offset: number) => {
+    if (!text.trim()) return;
+    console.log('Running script from offset:', offset);
+    setBaseOffset(offset);
+    runScript(text, {
+      onSuccess: (data) => {
+        // Focus the failing statement, otherwise the last result
+        const errorIndex = data.results.findIndex(result => result.error);
+        const index = errorIndex !== -1 ? errorIndex : data.results.length - 1;
+        setActiveTab(String(Math.max(0, index)));
+      },
+    });
+  };
+
+  // Run the highlighted text if there is a selection, otherwise everything
+  const handleRunSelection = () => {
+    const textarea = textareaRef.current;
+    if (textarea && textarea.selectionStart !== textarea.selectionEnd) {
+      run(script.slice(textarea.selectionStart, textarea.selectionEnd), textarea.selectionStart);
+    } else {
+      run(script, 0);
+    }
+  };
+
+  const handleRunAll = () => {
+    run(script, 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      if (e.shiftKey) {
+        handleRunAll();
+      } else {
+        handleRunSelection();
+      }
+    }
+  };
+
+  const handleShowPosition = (position: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(position - 1, position);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Editor */}
+      <div className="px-4 py-5 sm:px-6 bg-white border-b border-neutral-200">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg leading-6 font-medium text-neutral-700">SQL Query</h3>
+          <div className="flex gap-2">
+            <Button onClick={handleRunSelection} disabled={isRunning || !script.trim()} size="sm">
+              {isRunning ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-2" />
+              )}
+              Run
+            </Button>
+            <Button onClick={handleRunAll} disabled={isRunning || !script.trim()} size="sm" variant="outline">
+              <PlayCircle className="h-4 w-4 mr-2" />
+              Run All
+            </Button>
+          </div>
+        </div>
+        <Textarea
+          ref={textareaRef}
+          value={script}
+          onChange={(e) => setScript(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="SELECT * FROM ...;"
+          className="font-mono text-sm min-h-[200px]"
+          spellCheck={false}
+        />
+        <p className="mt-1 text-xs text-neutral-500">
+          Ctrl+Enter runs the selection (or everything when nothing is selected), Ctrl+Shift+Enter runs all statements.
+        </p>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-auto bg-white">
+        {isRunning ? (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary mr-2" />
+            <span>Running query...</span>
+          </div>
+        ) : !results ? (
+          <div className="h-full flex items-center justify-center">
+            <p className="text-neutral-500">Run a query to see results</p>
+          </div>
+        ) : results.length === 0 ? (
+          <div className="h-full flex items-center justify-center">
+            <p className="text-neutral-500">No statements to run</p>
+          </div>
+        ) : (
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="p-4">
+            <TabsList className="flex-wrap h-auto">
+              {results.map((result, index) => (
+                <TabsTrigger key={index} value={String(index)} className="gap-2">
+                  {result.error && <AlertCircle className="h-3 w-3 text-error" />}
+                  Result {index + 1}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {results.map((result, index) => (
+              <TabsContent key={index} value={String(index)}>
+                <div className="flex flex-wrap items-center gap-2 py-2 text-sm text-neutral-500">
+                  {result.error ? (
+                    <Badge variant="destructive">Error</Badge>
+                  ) : (
+                    <Badge variant="secondary">{formatCommandTag(result)}</Badge>
+                  )}
+                  {!result.error && result.fields.length > 0 && (
+                    <span>{result.rows.length} rows</span>
+                  )}
+                  <span>{result.durationMs} ms</span>
+                  <code className="truncate max-w-md text-xs">{result.statement}</code>
+                  {!result.error && result.command === 'SELECT' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="ml-auto h-7"
+                      onClick={() => setExportQuery(result.statement)}
+                    >
+                      <Download className="h-3 w-3 mr-1" />
+                      Export
+                    </Button>
+                  )}
+                </div>
+                {result.error ? (
+                  <QueryErrorPanel
+                    error={result.error}
+                    script={script}
+                    baseOffset={baseOffset}
+                    onShowPosition={handleShowPosition}
+                  />
+                ) : (
+                  <ResultGrid result={result} />
+                )}
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+      </div>
+
+      {exportQuery !== null && (
+        <ExportDialog
+          isOpen
+          onClose={() => setExportQuery(null)}
+          connectionId={connectionId}
+          source={{ kind: 'query', query: exportQuery }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QueryEditor;
@@ -0,0 +1,293 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, Loader2, Play, RotateCcw, Save, Search } from 'lucide-react';
+import { ResultGrid } from './QueryEditor';
+import { useRoutines } from '@/hooks/useDatabase';
+import { CatalogSchema, RoutineArgument } from '@/types/database';
+
+interface RoutineBrowserProps {
+  connectionId: number;
+  selectedRoutine: number | null;
+  onSelectRoutine: (oid: number) => void;
+}
+
+// Form state of one input argument
+interface ArgumentInput {
+  value: string;
+  isNull: boolean;
+  useDefault: boolean;
+}
+
+const isInputArgument = (argument: RoutineArgument) =>
+  argument.mode === 'in' || argument.mode === 'inout' || argument.mode === 'variadic';
+
+const RoutineBrowser: React.FC<RoutineBrowserProps> = ({ connectionId, selectedRoutine, onSelectRoutine }) => {
+  const [schema, setSchema] = useState('public');
+  const [search, setSearch] = useState('');
+  const [source, setSource] = useState('');
+  const [inputs, setInputs] = useState<ArgumentInput[]>([]);
+
+  const { data: catalog } = useQuery<CatalogSchema[]>({
+    queryKey: ['/api/connections', connectionId, 'catalog'],
+  });
+  const {
+    routines,
+    isLoadingRoutines,
+    routinesError,
+    routine,
+    isLoadingRoutine,
+    routineError,
+    saveRoutine,
+    isSavingRoutine,
+    callRoutine,
+    callResult,
+    isCallingRoutine,
+    resetCall,
+  } = useRoutines(connectionId, schema, selectedRoutine ?? undefined);
+
+  const parameters = useMemo(() => (routine?.parameters ?? []).filter(isInputArgument), [routine]);
+  const visibleRoutines = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (routines ?? []).filter(candidate => !term || candidate.name.toLowerCase().includes(term));
+  }, [routines, search]);
+
+  // Follow a routine opened by link, e.g. from a trigger, into its schema
+  const routineSchema = routine?.schema;
+  useEffect(() => {
+    if (routineSchema) setSchema(routineSchema);
+  }, [selectedRoutine, routineSchema]);
+
+  useEffect(() => {
+    setSource(routine?.definition ?? '');
+  }, [routine?.definition]);
+
+  useEffect(() => {
+    setInputs(parameters.map(parameter => ({ value: '', isNull: false, useDefault: parameter.hasDefault })));
+    resetCall();
+  }, [parameters, resetCall]);
+
+  const updateInput = (index: number, change: Partial<ArgumentInput>) => {
+    setInputs(current => current.map((input, position) => (position === index ? { ...input, ...change } : input)));
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveRoutine(source);
+    } catch (error) {
+      // The hook reports the failure; the source is kept for corrections
+      console.error('Failed to save routine:', error);
+    }
+  };
+
+  const handleCall = () => {
+    callRoutine(inputs.map(input => ({ value: input.isNull ? null : input.value, useDefault: input.useDefault })));
+  };
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      <div className="w-80 flex flex-col border-r border-neutral-200 bg-white">
+        <div className="p-3 space-y-2 border-b border-neutral-200">
+          <Select value={schema} onValueChange={setSchema}>
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder="Schema" />
+            </SelectTrigger>
+            <SelectContent>
+              {(catalog ?? []).map(entry => (
+                <SelectItem key={entry.name} value={entry.name}>{entry.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2 h-4 w-4 text-neutral-400" />
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Filter routines..." className="h-8 pl-8" />
+          </div>
+        </div>
+        <div className="flex-1 overflow-auto">
+          {isLoadingRoutines ? (
+            <div className="py-6 flex items-center justify-center text-sm text-neutral-500">
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              Loading routines...
+            </div>
+          ) : routinesError ? (
+            <p className="p-3 text-sm text-error">{(routinesError as Error).message}</p>
+          ) : visibleRoutines.length === 0 ? (
+            <p className="p-3 text-sm text-neutral-500">No functions or procedures in {schema}</p>
+          ) : (
+            <ul className="divide-y divide-neutral-100">
+              {visibleRoutines.map(candidate => (
+                <li key={candidate.oid}>
+                  <button
+                    type="button"
+                    onClick={() => onSelectRoutine(candidate.oid)}
+                    className={`w-full text-left px-3 py-2 hover:bg-neutral-50 ${candidate.oid === selectedRoutine ? 'bg-neutral-100' : ''}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm truncate">{candidate.name}</span>
+                      {candidate.kind === 'procedure' && <Badge variant="outline" className="text-[10px]">procedure</Badge>}
+                    </div>
+                    <div className="font-mono text-xs text-neutral-500 truncate" title={candidate.identityArguments}>
+                      ({candidate.identityArguments}){candidate.result ? ` → ${candidate.result}` : ''}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6">
+        {!selectedRoutine ? (
+          <div className="text-center py-12">
+            <h2 className="text-lg font-medium text-neutral-700 mb-2">Select a routine</h2>
+            <p className="text-neutral-500">Pick a function or procedure to edit its source or call it</p>
+          </div>
+        ) : isLoadingRoutine ? (
+          <div className="py-12 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+            <span>Loading routine...</span>
+          </div>
+        ) : routineError || !routine ? (
+          <p className="text-sm text-error">{routineError ? (routineError as Error).message : 'Routine not found'}</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <h1 className="text-xl font-semibold text-neutral-700 break-all">
+                {routine.schema}.{routine.name}
+                <span className="font-mono text-base text-neutral-500">({routine.arguments})</span>
+              </h1>
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <Badge variant="secondary">{routine.kind}</Badge>
+                <Badge variant="outline">{routine.language}</Badge>
+                {routine.kind === 'function' && <Badge variant="outline">{routine.volatility}</Badge>}
+                {routine.securityDefiner && (
+                  <Badge variant="outline" className="border-amber-400 text-amber-700">security definer</Badge>
+                )}
+                {routine.result && <span className="font-mono text-xs text-neutral-500">returns {routine.result}</span>}
+              </div>
+              {routine.comment && <p className="mt-2 text-sm text-neutral-600">{routine.comment}</p>}
+            </div>
+
+            <Tabs defaultValue="source">
+              <TabsList>
+                <TabsTrigger value="source">Source</TabsTrigger>
+                <TabsTrigger value="call">Call</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="source" className="space-y-3">
+                <Textarea
+                  value={source}
+                  onChange={(e) => setSource(e.target.value)}
+                  spellCheck={false}
+                  className="font-mono text-xs min-h-[24rem]"
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-neutral-500">
+                    Saving runs the CREATE OR REPLACE statement as written; changing the name or argument types creates a new routine
+                  </p>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setSource(routine.definition)} disabled={source === routine.definition}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Reset
+                    </Button>
+                    <Button size="sm" onClick={handleSave} disabled={isSavingRoutine || source === routine.definition || !source.trim()}>
+                      {isSavingRoutine ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="call" className="space-y-4">
+                {parameters.length === 0 ? (
+                  <p className="text-sm text-neutral-500">This {routine.kind} takes no arguments</p>
+                ) : (
+                  <div className="space-y-2">
+                    {parameters.map((parameter, index) => (
+                      <div key={index} className="flex flex-wrap items-center gap-3">
+                        <label htmlFor={`routine-argument-${index}`} className="w-48 text-sm">
+                          <span className="font-medium">{parameter.name || `$${index + 1}`}</span>
+                          <span className="ml-2 font-mono text-xs text-neutral-500">
+                            {parameter.mode !== 'in' ? `${parameter.mode} ` : ''}{parameter.type}
+                          </span>
+                        </label>
+                        <Input
+                          id={`routine-argument-${index}`}
+                          className="h-8 flex-1 min-w-[12rem] font-mono text-sm"
+                          value={inputs[index]?.value ?? ''}
+                          onChange={(e) => updateInput(index, { value: e.target.value })}
+                          disabled={inputs[index]?.isNull || inputs[index]?.useDefault}
+                          placeholder={parameter.mode === 'variadic' ? 'Array literal, e.g. {a,b}' : ''}
+                        />
+                        <label className="flex items-center gap-1 text-sm">
+                          <Checkbox
+                            checked={inputs[index]?.isNull ?? false}
+                            disabled={inputs[index]?.useDefault}
+                            onCheckedChange={(checked) => updateInput(index, { isNull: checked === true })}
+                          />
+                          NULL
+                        </label>
+                        {parameter.hasDefault && (
+                          <label className="flex items-center gap-1 text-sm">
+                            <Checkbox
+                              checked={inputs[index]?.useDefault ?? false}
+                              onCheckedChange={(checked) => updateInput(index, { useDefault: checked === true })}
+                            />
+                            Default
+                          </label>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <Button size="sm" onClick={handleCall} disabled={isCallingRoutine}>
+                  {isCallingRoutine ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                  Call
+                </Button>
+
+                {callResult && (
+                  <div className="bg-white rounded-lg shadow-sm border border-neutral-200">
+                    <code className="block px-4 py-2 border-b border-neutral-200 text-xs break-all">{callResult.sql}</code>
+                    {callResult.results.map((result, index) => result.error ? (
+                      <div key={index} className="p-4 flex items-start gap-2 text-error">
+                        <AlertCircle className="h-5 w-5 mt-0.5 flex-shrink-0" />
+                        <div className="text-sm">
+                          <p className="font-medium">{result.error.message}</p>
+                          {result.error.detail && <p>Detail: {result.error.detail}</p>}
+                          {result.error.hint && <p>Hint: {result.error.hint}</p>}
+                          {result.error.where && <p className="text-xs text-neutral-500">{result.error.where}</p>}
+                        </div>
+                      </div>
+                    ) : (
+                      <div key={index}>
+                        <p className="px-4 pt-2 text-xs text-neutral-500">
+                          {result.fields.length > 0 ? `${result.rows.length} rows · ` : ''}{result.durationMs} ms
+                        </p>
+                        <ResultGrid result={result} />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoutineBrowser;
@@ -0,0 +1,155 @@
+import React from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from '@/components/ui/button';
+import { Loader2, ArrowUpRight } from 'lucide-react';
+import { FilterNode } from '@shared/filters';
+import { useReferencingRows } from '@/hooks/useDatabase';
+import { TableColumn, TableForeignKeys, ForeignKey } from '@/types/database';
+import { buildMatchFilter, formatTableReference } from '@/utils/database';
+import { formatCellValue } from './EditableCell';
+
+interface RowDetailPanelProps {
+  connectionId: number;
+  tableName: string;
+  row: Record<string, any> | null;
+  columns: TableColumn[];
+  foreignKeys: TableForeignKeys | undefined;
+  onClose: () => void;
+  onOpenTable: (tableName: string, filter: FilterNode | null) => void;
+}
+
+interface ReferencingRowsProps {
+  connectionId: number;
+  foreignKey: ForeignKey;
+  row: Record<string, any>;
+  onOpenTable: (tableName: string, filter: FilterNode | null) => void;
+}
+
+// Rows of one referencing table, with a link to browse all of them
+const ReferencingRows: React.FC<ReferencingRowsProps> = ({ connectionId, foreignKey, row, onOpenTable }) => {
+  const { referencingTable, filter, rows, total, isLoading, error } = useReferencingRows(connectionId, foreignKey, row);
+
+  return (
+    <div className="border border-neutral-200 rounded-md">
+      <div className="flex items-center justify-between px-3 py-2 bg-neutral-50 border-b border-neutral-200">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-neutral-700 truncate">
+            {foreignKey.schema}.{foreignKey.table}
+          </div>
+          <div className="text-xs text-neutral-500 truncate">
+            {foreignKey.columns.join(', ')} · {foreignKey.name}
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={!filter || total === 0}
+          onClick={() => onOpenTable(referencingTable, filter)}
+        >
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : `${total} row${total === 1 ? '' : 's'}`}
+          <ArrowUpRight className="h-4 w-4 ml-1" />
+        </Button>
+      </div>
+      {error ? (
+        <p className="px-3 py-2 text-xs text-error">{(error as Error).message}</p>
+      ) : rows.length > 0 && (
+        <ul className="divide-y divide-neutral-100">
+          {rows.map((referencingRow, index) => (
+            <li key={index} className="px-3 py-1.5 text-xs text-neutral-600 truncate">
+              {Object.entries(referencingRow)
+                .filter(([column]) => !column.startsWith('__'))
+                .slice(0, 4)
+                .map(([column, value]) => `${column}: ${formatCellValue(value)}`)
+                .join(' · ')}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const RowDetailPanel: React.FC<RowDetailPanelProps> = ({
+  connectionId,
+  tableName,
+  row,
+  columns,
+  foreignKeys,
+  onClose,
+  onOpenTable,
+}) => {
+  const outgoing = foreignKeys?.outgoing || [];
+  const incoming = foreignKeys?.incoming || [];
+
+  return (
+    <Sheet open={!!row} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Row details</SheetTitle>
+          <SheetDescription>{tableName}</SheetDescription>
+        </SheetHeader>
+
+        {row && (
+          <div className="mt-6 space-y-6">
+            <dl className="space-y-2">
+              {columns.map(column => {
+                const foreignKey = outgoing.find(key => key.columns.includes(column.column_name));
+                const filter = foreignKey
+                  ? buildMatchFilter(foreignKey.referencedColumns, foreignKey.columns.map(name => row[name]))
+                  : null;
+                return (
+                  <div key={column.column_name} className="grid grid-cols-3 gap-2 text-sm">
+                    <dt className="text-neutral-500 truncate">{column.column_name}</dt>
+                    <dd className="col-span-2 break-all">
+                      {foreignKey && filter ? (
+                        <button
+                          type="button"
+                          className="inline-flex items-center gap-0.5 text-primary hover:underline"
+                          onClick={() => onOpenTable(formatTableReference(foreignKey.referencedSchema, foreignKey.referencedTable), filter)}
+                        >
+                          {formatCellValue(row[column.column_name])}
+                          <ArrowUpRight className="h-3 w-3" />
+                        </button>
+                      ) : row[column.column_name] === null ? (
+                        <span className="italic text-neutral-400">NULL</span>
+                      ) : (
+                        formatCellValue(row[column.column_name])
+                      )}
+                    </dd>
+                  </div>
+                );
+              })}
+            </dl>
+
+            <div>
+              <h4 className="text-sm font-medium text-neutral-700 mb-2">Referenced by</h4>
+              {incoming.length === 0 ? (
+                <p className="text-sm text-neutral-500">No foreign keys point at this table</p>
+              ) : (
+                <div className="space-y-3">
+                  {incoming.map(foreignKey => (
+                    <ReferencingRows
+                      key={`${foreignKey.schema}.${foreignKey.table}.${foreignKey.name}`}
+                      connectionId={connectionId}
+                      foreignKey={foreignKey}
+                      row={row}
+                      onOpenTable={onOpenTable}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default RowDetailPanel;
@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeftRight, Copy, GitCompare, Loader2, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSchemaDiff } from '@/hooks/useDatabase';
+import { CatalogSchema, DbConnection, SchemaDiffItem } from '@/types/database';
+import { SchemaEndpoint } from '@shared/schemaDiff';
+
+interface SchemaDiffProps {
+  defaultConnectionId: number;
+}
+
+interface EndpointPickerProps {
+  id: string;
+  label: string;
+  connections: DbConnection[];
+  value: Partial<SchemaEndpoint>;
+  onChange: (value: Partial<SchemaEndpoint>) => void;
+}
+
+const changeStyles: Record<SchemaDiffItem['change'], string> = {
+  added: 'border-green-400 text-green-700',
+  removed: 'border-red-400 text-red-700',
+  changed: 'border-blue-400 text-blue-700',
+};
+
+const ALL_OBJECTS = '__all__';
+
+// Connection and schema for one side of the comparison
+const EndpointPicker: React.FC<EndpointPickerProps> = ({ id, label, connections, value, onChange }) => {
+  const { data: catalog } = useQuery<CatalogSchema[]>({
+    queryKey: ['/api/connections', value.connectionId, 'catalog'],
+    enabled: !!value.connectionId,
+  });
+
+  // Fall back to public, or the first schema, when the connection lacks the chosen one
+  useEffect(() => {
+    if (catalog && catalog.length > 0 && !catalog.some(entry => entry.name === value.schema)) {
+      onChange({ ...value, schema: catalog.some(entry => entry.name === 'public') ? 'public' : catalog[0].name });
+    }
+  }, [catalog, value, onChange]);
+
+  return (
+    <div className="flex-1 min-w-[16rem] space-y-2">
+      <h2 className="text-sm font-medium text-neutral-700">{label}</h2>
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <Label htmlFor={`${id}-connection`} className="text-xs text-neutral-500">Connection</Label>
+          <Select
+            value={value.connectionId ? String(value.connectionId) : undefined}
+            onValueChange={(connectionId) => onChange({ connectionId: parseInt(connectionId), schema: value.schema })}
+          >
+            <SelectTrigger id={`${id}-connection`} className="mt-1 h-8">
+              <SelectValue placeholder="Choose a connection" />
+            </SelectTrigger>
+            <SelectContent>
+              {connections.map(connection => (
+                <SelectItem key={connection.id} value={String(connection.id)}>{connection.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="w-40">
+          <Label htmlFor={`${id}-schema`} className="text-xs text-neutral-500">Schema</Label>
+          <Select value={value.schema} onValueChange={(schema) => onChange({ ...value, schema })} disabled={!catalog}>
+            <SelectTrigger id={`${id}-schema`} className="mt-1 h-8">
+              <SelectValue placeholder="Schema" />
+            </SelectTrigger>
+            <SelectContent>
+              {(catalog ?? []).map(entry => (
+                <SelectItem key={entry.name} value={entry.name}>{entry.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SchemaDiff: React.FC<SchemaDiffProps> = ({ defaultConnectionId }) => {
+  const { toast } = useToast();
+  const [source, setSource] = useState<Partial<SchemaEndpoint>>({ connectionId: defaultConnectionId, schema: 'public' });
+  const [target, setTarget] = useState<Partial<SchemaEndpoint>>({ schema: 'public' });
+  const [objectType, setObjectType] = useState<string>(ALL_OBJECTS);
+  const [migrationName, setMigrationName] = useState('');
+
+  const { data: connections } = useQuery<DbConnection[]>({
+    queryKey: ['/api/connections'],
+  });
+  const { compareSchemas, diff, diffError, isComparing, saveMigration, isSavingMigration } = useSchemaDiff();
+
+  const visibleItems = useMemo(
+    () => (diff?.items ?? []).filter(item => objectType === ALL_OBJECTS || item.objectType === objectType),
+    [diff, objectType]
+  );
+  const script = diff ? diff.sql.join('\n') : '';
+  const canCompare = !!(source.connectionId && source.schema && target.connectionId && target.schema);
+
+  useEffect(() => {
+    if (diff) {
+      setMigrationName(`sync_${diff.target.schema}_from_${diff.source.schema}`.replace(/[^A-Za-z0-9_-]/g, '_'));
+    }
+  }, [diff]);
+
+  const handleCompare = () => {
+    if (!canCompare) return;
+    setObjectType(ALL_OBJECTS);
+    compareSchemas({ source: source as SchemaEndpoint, target: target as SchemaEndpoint });
+  };
+
+  const handleSwap = () => {
+    setSource(target);
+    setTarget(source);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(script);
+      toast({ title: 'Migration copied', description: `${diff!.sql.length} statements` });
+    } catch (error) {
+      console.error('Failed to copy migration:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveMigration({ name: migrationName, sql: script });
+    } catch (error) {
+      // The hook reports the failure
+      console.error('Failed to save migration:', error);
+    }
+  };
+
+  const counts = (diff?.items ?? []).reduce<Record<string, number>>((totals, item) => {
+    totals[item.change] = (totals[item.change] ?? 0) + 1;
+    return totals;
+  }, {});
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="px-6 py-4 bg-white border-b border-neutral-200 space-y-4">
+        <h1 className="text-xl font-semibold text-neutral-700">Schema Diff</h1>
+        <div className="flex flex-wrap items-end gap-4">
+          <EndpointPicker
+            id="diff-source"
+            label="Source (reference)"
+            connections={connections ?? []}
+            value={source}
+            onChange={setSource}
+          />
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="Swap source and target" onClick={handleSwap}>
+            <ArrowLeftRight className="h-4 w-4" />
+          </Button>
+          <EndpointPicker
+            id="diff-target"
+            label="Target (to migrate)"
+            connections={connections ?? []}
+            value={target}
+            onChange={setTarget}
+          />
+          <Button onClick={handleCompare} disabled={!canCompare || isComparing}>
+            {isComparing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GitCompare className="mr-2 h-4 w-4" />}
+            Compare
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        {diffError ? (
+          <p className="text-sm text-error">{diffError.message}</p>
+        ) : !diff ? (
+          <div className="text-center py-12">
+            <h2 className="text-lg font-medium text-neutral-700 mb-2">Compare two schemas</h2>
+            <p className="text-neutral-500">
+              Pick a source and a target to list their differences and generate the SQL that makes the target match the source
+            </p>
+          </div>
+        ) : diff.items.length === 0 ? (
+          <div className="text-center py-12">
+            <h2 className="text-lg font-medium text-neutral-700 mb-2">No differences</h2>
+            <p className="text-neutral-500">
+              {diff.target.connectionName} / {diff.target.schema} matches {diff.source.connectionName} / {diff.source.schema}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-lg shadow-sm border border-neutral-200">
+              <div className="px-4 py-3 border-b border-neutral-200 flex flex-wrap items-center gap-3">
+                <h2 className="text-sm font-medium text-neutral-700 mr-auto">
+                  {diff.items.length} differences between {diff.source.connectionName} / {diff.source.schema} and {diff.target.connectionName} / {diff.target.schema}
+                </h2>
+                {(['added', 'changed', 'removed'] as const).map(change => counts[change] ? (
+                  <Badge key={change} variant="outline" className={changeStyles[change]}>{counts[change]} {change}</Badge>
+                ) : null)}
+                <Select value={objectType} onValueChange={setObjectType}>
+                  <SelectTrigger className="h-8 w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_OBJECTS}>All objects</SelectItem>
+                    {Array.from(new Set(diff.items.map(item => item.objectType))).map(type => (
+                      <SelectItem key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}s</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-24">Change</TableHead>
+                    <TableHead className="w-28">Object</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleItems.map(item => (
+                    <TableRow key={`${item.objectType}:${item.name}`} className="align-top">
+                      <TableCell>
+                        <Badge variant="outline" className={changeStyles[item.change]}>{item.change}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-neutral-600">{item.objectType}</TableCell>
+                      <TableCell className="font-mono text-xs">{item.name}</TableCell>
+                      <TableCell className="text-xs text-neutral-600">
+                        {item.details.map((detail, index) => (
+                          <div key={index} className="font-mono break-all">{detail}</div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm border border-neutral-200">
+              <div className="px-4 py-3 border-b border-neutral-200 flex flex-wrap items-center gap-2">
+                <h2 className="text-sm font-medium text-neutral-700 mr-auto">Migration for {diff.target.connectionName} / {diff.target.schema}</h2>
+                <Button variant="outline" size="sm" onClick={handleCopy}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+                <Input
+                  value={migrationName}
+                  onChange={(e) => setMigrationName(e.target.value)}
+                  placeholder="Migration name"
+                  className="h-8 w-64"
+                />
+                <Button size="sm" onClick={handleSave} disabled={isSavingMigration || !migrationName.trim()}>
+                  {isSavingMigration ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                  Save as migration
+                </Button>
+              </div>
+              <pre className="bg-neutral-900 text-neutral-100 text-xs rounded-b-lg p-4 overflow-x-auto max-h-[32rem]">
+                {script}
+              </pre>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SchemaDiff;
@@ -0,0 +1,300 @@
+import React, { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle, Loader2, Pencil, RotateCcw, Wand2 } from 'lucide-react';
+import { useSequences } from '@/hooks/useDatabase';
+import { formatTableReference } from '@/utils/database';
+import { CatalogSchema, Sequence } from '@/types/database';
+
+interface SequenceBrowserProps {
+  connectionId: number;
+  schema: string;
+  onSelectSchema: (schema: string) => void;
+}
+
+// Setting, restarting or resyncing a sequence, confirmed before it runs
+interface SequenceAction {
+  type: 'setval' | 'restart' | 'resync';
+  sequence: Sequence;
+}
+
+const actionTitles: Record<SequenceAction['type'], string> = {
+  setval: 'Set Sequence Value',
+  restart: 'Restart Sequence',
+  resync: 'Resync Sequence',
+};
+
+const SequenceBrowser: React.FC<SequenceBrowserProps> = ({ connectionId, schema, onSelectSchema }) => {
+  const [action, setAction] = useState<SequenceAction | null>(null);
+  const [value, setValue] = useState('');
+  const [isCalled, setIsCalled] = useState(true);
+
+  const { data: catalog } = useQuery<CatalogSchema[]>({
+    queryKey: ['/api/connections', connectionId, 'catalog'],
+  });
+  const {
+    sequences,
+    isLoadingSequences,
+    sequencesError,
+    setSequenceValue,
+    isSettingValue,
+    restartSequence,
+    isRestarting,
+    resyncSequence,
+    isResyncing,
+  } = useSequences(connectionId, schema);
+
+  const behind = (sequences ?? []).filter(sequence => sequence.isBehind);
+  const isRunning = isSettingValue || isRestarting || isResyncing;
+  const isValidValue = /^-?\d+$/.test(value.trim());
+
+  useEffect(() => {
+    if (action?.type === 'setval') setValue(action.sequence.lastValue ?? '');
+    else setValue('');
+    setIsCalled(true);
+  }, [action]);
+
+  const handleConfirm = async () => {
+    if (!action) return;
+    const name = action.sequence.name;
+    try {
+      if (action.type === 'setval') {
+        await setSequenceValue({ name, value: value.trim(), isCalled });
+      } else if (action.type === 'restart') {
+        await restartSequence({ name, value: value.trim() || undefined });
+      } else {
+        await resyncSequence(name);
+      }
+    } catch (error) {
+      // The hook reports the failure
+      console.error(`Failed to ${action.type} sequence:`, error);
+    } finally {
+      setAction(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="px-6 py-4 flex flex-wrap items-center justify-between gap-3 border-b border-neutral-200 bg-white">
+        <div>
+          <h1 className="text-xl font-semibold text-neutral-700">Sequences</h1>
+          <p className="text-sm text-neutral-500">
+            Bulk loads with explicit ids leave sequences behind; resync them before inserting through the grid
+          </p>
+        </div>
+        <Select value={schema} onValueChange={onSelectSchema}>
+          <SelectTrigger className="h-8 w-56">
+            <SelectValue placeholder="Schema" />
+          </SelectTrigger>
+          <SelectContent>
+            {(catalog ?? []).map(entry => (
+              <SelectItem key={entry.name} value={entry.name}>{entry.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {behind.length > 0 && (
+        <div className="px-6 py-2 flex items-center gap-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          {behind.length === 1 ? '1 sequence is' : `${behind.length} sequences are`} behind their column's values;
+          inserts using the default will fail with duplicate keys until resynced
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto bg-white">
+        {isLoadingSequences ? (
+          <div className="py-12 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+            <span>Loading sequences...</span>
+          </div>
+        ) : sequencesError ? (
+          <p className="px-6 py-6 text-sm text-error">{(sequencesError as Error).message}</p>
+        ) : !sequences || sequences.length === 0 ? (
+          <p className="px-6 py-6 text-sm text-neutral-500">No sequences in {schema}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sequence</TableHead>
+                <TableHead>Owned by</TableHead>
+                <TableHead>Current</TableHead>
+                <TableHead>Next</TableHead>
+                <TableHead>Increment</TableHead>
+                <TableHead>Range</TableHead>
+                <TableHead>Cycle</TableHead>
+                <TableHead className="relative">
+                  <span className="sr-only">Actions</span>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sequences.map(sequence => (
+                <TableRow key={sequence.name} className="hover:bg-neutral-50 align-top">
+                  <TableCell>
+                    <div className="flex flex-wrap items-center gap-1">
+                      <span className="font-medium">{sequence.name}</span>
+                      {sequence.isBehind && (
+                        <Badge
+                          variant="outline"
+                          className="border-amber-400 text-amber-700"
+                          title={`The column already holds ${sequence.columnExtreme}`}
+                        >
+                          behind column
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-neutral-500">{sequence.dataType}</div>
+                  </TableCell>
+                  <TableCell>
+                    {sequence.owner ? (
+                      <>
+                        <Link
+                          href={`/table-manager?table=${encodeURIComponent(formatTableReference(sequence.owner.schema, sequence.owner.table))}`}
+                          className="text-primary hover:underline"
+                        >
+                          {sequence.owner.table}.{sequence.owner.column}
+                        </Link>
+                        <div className="text-xs text-neutral-500">
+                          {sequence.owner.identity ? 'identity' : 'serial'}
+                          {sequence.columnExtreme !== null && ` · ${sequence.increment.startsWith('-') ? 'min' : 'max'} ${sequence.columnExtreme}`}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-neutral-400">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">
+                    {sequence.lastValue === null ? (
+                      <span className="text-neutral-400" title="No privilege to read this sequence">—</span>
+                    ) : sequence.isCalled ? (
+                      sequence.lastValue
+                    ) : (
+                      <span className="text-neutral-400" title="nextval() has not been called since the last restart">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{sequence.nextValue ?? <span className="text-neutral-400">—</span>}</TableCell>
+                  <TableCell className="font-mono text-sm">{sequence.increment}</TableCell>
+                  <TableCell className="font-mono text-xs whitespace-nowrap">
+                    {sequence.minValue} … {sequence.maxValue}
+                  </TableCell>
+                  <TableCell>{sequence.cycle ? 'Yes' : 'No'}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Set value"
+                      className="h-8 w-8"
+                      onClick={() => setAction({ type: 'setval', sequence })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Restart"
+                      className="h-8 w-8"
+                      onClick={() => setAction({ type: 'restart', sequence })}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={sequence.owner ? `Resync to the values in ${sequence.owner.column}` : 'Only sequences owned by a column can be resynced'}
+                      className="h-8 w-8"
+                      disabled={!sequence.owner}
+                      onClick={() => setAction({ type: 'resync', sequence })}
+                    >
+                      <Wand2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <AlertDialog open={!!action} onOpenChange={() => !isRunning && setAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{action ? actionTitles[action.type] : ''}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {action?.type === 'setval' && <>Move <strong>{action.sequence.name}</strong> to a new position.</>}
+              {action?.type === 'restart' && (
+                <>Restart <strong>{action.sequence.name}</strong> at the given value, or at its start value {action.sequence.startValue} when left empty.</>
+              )}
+              {action?.type === 'resync' && action.sequence.owner && (
+                <>
+                  Set <strong>{action.sequence.name}</strong> to the {action.sequence.increment.startsWith('-') ? 'lowest' : 'highest'} value
+                  in {action.sequence.owner.table}.{action.sequence.owner.column}, so the next insert gets a fresh one.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {action?.type !== 'resync' && (
+            <div className="space-y-2">
+              <Input
+                className="font-mono"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                placeholder={action?.type === 'restart' ? action.sequence.startValue : ''}
+              />
+              {action?.type === 'setval' && (
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={!isCalled} onCheckedChange={(checked) => setIsCalled(checked !== true)} />
+                  Hand out this value next (otherwise the next one is value + increment)
+                </label>
+              )}
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRunning}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+              disabled={isRunning || (action?.type === 'setval' && !isValidValue) || (action?.type === 'restart' && !!value.trim() && !isValidValue)}
+            >
+              {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {action?.type === 'setval' ? 'Set' : action?.type === 'restart' ? 'Restart' : 'Resync'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SequenceBrowser;
@@ -23,6 +23,7 @@ import { useToast } from '@/hooks/use-toast';
 import { DbConnection, AppSettings, DbConnectionForm } from '@/types/database';
 import { useDatabaseContext } from '@/context/DatabaseContext';
 import { useSettings } from '@/hooks/useDatabase';
+import MetadataSync from './MetadataSync';
 
 interface SettingsProps {
   activeConnection: DbConnection | null;
@@ -197,6 +198,8 @@ const Settings: React.FC<SettingsProps> = ({ activeConnection }) => {
         </CardContent>
       </Card>
 
+      {activeConnection && <MetadataSync connectionId={activeConnection.id} />}
+
       <Card>
         <CardContent className="p-0">
           <div className="px-4 py-5 sm:px-6">
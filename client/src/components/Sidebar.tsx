@@ -1,63 +1,128 @@
-import React, { useState, useEffect } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
 import { useToast } from '@/hooks/use-toast';
-import { Loader2 } from 'lucide-react';
-import { fetchTables } from '@/utils/database';
+import {
+  Loader2,
+  Search,
+  ChevronRight,
+  ChevronDown,
+  Folder,
+  Table,
+  Eye,
+  Layers,
+  Globe,
+  SquareSplitHorizontal,
+  Download,
+} from 'lucide-react';
+import { formatTableReference } from '@/utils/database';
+import { useSchemaDdlExport } from '@/hooks/useDatabase';
+import TableDesignerDialog from './modals/TableDesignerDialog';
 import { useDatabaseContext } from '@/context/DatabaseContext';
+import { CatalogSchema, CatalogObjectKind } from '@/types/database';
 
 interface SidebarProps {
+  selectedTable: string | null;
   onTableSelect: (tableName: string) => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ onTableSelect }) => {
+const objectIcons: Record<CatalogObjectKind, React.ComponentType<{ className?: string }>> = {
+  table: Table,
+  partitioned_table: SquareSplitHorizontal,
+  view: Eye,
+  materialized_view: Layers,
+  foreign_table: Globe,
+};
+
+const objectLabels: Record<CatalogObjectKind, string> = {
+  table: 'Table',
+  partitioned_table: 'Partitioned table',
+  view: 'View',
+  materialized_view: 'Materialized view',
+  foreign_table: 'Foreign table',
+};
+
+const Sidebar: React.FC<SidebarProps> = ({ selectedTable, onTableSelect }) => {
   const { toast } = useToast();
-  const queryClient = useQueryClient();
   const { activeConnection } = useDatabaseContext();
-  const [selectedTable, setSelectedTable] = useState<string | null>(null);
+  const [filterText, setFilterText] = useState('');
+  const [expandedSchemas, setExpandedSchemas] = useState<Set<string>>(new Set(['public']));
+  const [isDesignerOpen, setIsDesignerOpen] = useState(false);
+  const { exportSchemaDdl, isExportingSchema } = useSchemaDdlExport(activeConnection?.id);
 
-  // Fetch tables for active connection
-  const { 
-    data: tables, 
-    isLoading: isLoadingTables,
-    error: tablesError,
-    refetch: refetchTables
-  } = useQuery({
-    queryKey: ['/api/connections', activeConnection?.id, 'tables'],
+  // Fetch schemas and their objects for active connection
+  const {
+    data: catalog,
+    isLoading: isLoadingCatalog,
+    error: catalogError,
+    refetch: refetchCatalog
+  } = useQuery<CatalogSchema[]>({
+    queryKey: ['/api/connections', activeConnection?.id, 'catalog'],
     enabled: !!activeConnection?.id,
   });
 
-  // Handle table refresh
+  // Narrow the tree to objects whose name matches the filter box
+  const visibleSchemas = useMemo(() => {
+    if (!catalog) return [];
+    const term = filterText.trim().toLowerCase();
+    if (!term) return catalog;
+    return catalog
+      .map(schema => ({
+        ...schema,
+        objects: schema.name.toLowerCase().includes(term)
+          ? schema.objects
+          : schema.objects.filter(object => object.name.toLowerCase().includes(term)),
+      }))
+      .filter(schema => schema.objects.length > 0);
+  }, [catalog, filterText]);
+
+  // Handle catalog refresh
   const handleRefreshTables = () => {
-    console.log('Refreshing tables');
-    refetchTables();
+    console.log('Refreshing catalog');
+    refetchCatalog();
   };
 
-  // Handle create table (not implemented in this version)
+  // Open the table designer
   const handleCreateTable = () => {
     console.log('Create table clicked');
-    toast({
-      title: 'Create table',
-      description: 'This feature is not implemented in the current version',
-    });
+    setIsDesignerOpen(true);
   };
 
-  // Handle table selection
-  const handleTableSelect = (tableName: string) => {
-    setSelectedTable(tableName);
+  // Show the new table once it exists
+  const handleTableCreated = (tableName: string) => {
+    console.log(`Table ${tableName} created`);
+    refetchCatalog();
     onTableSelect(tableName);
   };
 
-  // Display error toast if tables fetch fails
+  const toggleSchema = (schemaName: string, open: boolean) => {
+    setExpandedSchemas(prev => {
+      const next = new Set(prev);
+      if (open) {
+        next.add(schemaName);
+      } else {
+        next.delete(schemaName);
+      }
+      return next;
+    });
+  };
+
+  // Display error toast if catalog fetch fails
   useEffect(() => {
-    if (tablesError) {
+    if (catalogError) {
       toast({
         title: 'Failed to load tables',
-        description: (tablesError as Error).message,
+        description: (catalogError as Error).message,
         variant: 'destructive',
       });
     }
-  }, [tablesError, toast]);
+  }, [catalogError, toast]);
 
   return (
     <div className="w-64 bg-white border-r border-neutral-200 shadow-sm hidden md:block">
@@ -65,46 +130,92 @@ const Sidebar: React.FC<SidebarProps> = ({ onTableSelect }) => {
         <div className="flex-1 flex flex-col pt-5 pb-4 overflow-y-auto">
           <div className="flex-shrink-0 px-4">
             <h2 className="text-lg font-medium text-neutral-700 mb-4">Database Browser</h2>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <Search className="h-4 w-4 text-neutral-400" />
+              </div>
+              <Input
+                placeholder="Filter objects..."
+                value={filterText}
+                onChange={(e) => setFilterText(e.target.value)}
+                className="pl-10 h-8"
+                disabled={!activeConnection}
+              />
+            </div>
           </div>
-          <nav className="mt-5 flex-1 px-2 space-y-1">
-            {isLoadingTables ? (
+          <nav className="mt-4 flex-1 px-2 space-y-1">
+            {isLoadingCatalog ? (
               <div className="flex justify-center py-4">
                 <Loader2 className="h-6 w-6 animate-spin text-primary" />
               </div>
-            ) : tables && tables.length > 0 ? (
-              tables.map((table: string) => (
-                <a
-                  key={table}
-                  href="#"
-                  onClick={(e) => {
-                    e.preventDefault();
-                    handleTableSelect(table);
-                  }}
-                  className={`group flex items-center px-2 py-2 text-sm font-medium rounded-md ${
-                    selectedTable === table
-                      ? 'bg-neutral-100 text-primary'
-                      : 'text-neutral-700 hover:text-primary hover:bg-neutral-100'
-                  }`}
+            ) : visibleSchemas.length > 0 ? (
+              visibleSchemas.map(schema => (
+                <Collapsible
+                  key={schema.name}
+                  // Filtering expands every schema with a match
+                  open={!!filterText.trim() || expandedSchemas.has(schema.name)}
+                  onOpenChange={(open) => toggleSchema(schema.name, open)}
                 >
-                  <svg
-                    className={`mr-3 h-5 w-5 ${
-                      selectedTable === table ? 'text-primary' : 'text-neutral-400 group-hover:text-primary'
-                    }`}
-                    xmlns="http://www.w3.org/2000/svg"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                  >
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2 1 3 3 3h10c2 0 3-1 3-3V7c0-2-1-3-3-3H7C5 4 4 5 4 7z" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7h16" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 4v6" />
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 4v6" />
-                  </svg>
-                  <span>{table}</span>
-                </a>
+                  <div className="group flex items-center rounded-md hover:bg-neutral-100">
+                    <CollapsibleTrigger className="flex-1 min-w-0 flex items-center px-2 py-1.5 text-sm font-medium text-neutral-700">
+                      {!!filterText.trim() || expandedSchemas.has(schema.name) ? (
+                        <ChevronDown className="mr-1 h-4 w-4 text-neutral-400" />
+                      ) : (
+                        <ChevronRight className="mr-1 h-4 w-4 text-neutral-400" />
+                      )}
+                      <Folder className="mr-2 h-4 w-4 text-neutral-400" />
+                      <span className="truncate">{schema.name}</span>
+                      <span className="ml-auto text-xs text-neutral-400">{schema.objects.length}</span>
+                    </CollapsibleTrigger>
+                    <button
+                      type="button"
+                      title={`Download DDL of schema ${schema.name}`}
+                      onClick={() => exportSchemaDdl(schema.name)}
+                      disabled={isExportingSchema}
+                      className="mr-1 p-1 rounded text-neutral-400 hover:text-primary opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    >
+                      <Download className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                  <CollapsibleContent className="ml-4 space-y-0.5">
+                    {schema.objects.length === 0 && (
+                      <div className="px-2 py-1 text-xs text-neutral-400">Empty schema</div>
+                    )}
+                    {schema.objects.map(object => {
+                      const reference = formatTableReference(schema.name, object.name);
+                      const isSelected = selectedTable === reference;
+                      const Icon = objectIcons[object.kind];
+                      return (
+                        <a
+                          key={object.name}
+                          href="#"
+                          title={`${objectLabels[object.kind]} ${schema.name}.${object.name}`}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            onTableSelect(reference);
+                          }}
+                          className={`group flex items-center px-2 py-1.5 text-sm font-medium rounded-md ${
+                            isSelected
+                              ? 'bg-neutral-100 text-primary'
+                              : 'text-neutral-700 hover:text-primary hover:bg-neutral-100'
+                          }`}
+                        >
+                          <Icon
+                            className={`mr-2 h-4 w-4 flex-shrink-0 ${
+                              isSelected ? 'text-primary' : 'text-neutral-400 group-hover:text-primary'
+                            }`}
+                          />
+                          <span className="truncate">{object.name}</span>
+                        </a>
+                      );
+                    })}
+                  </CollapsibleContent>
+                </Collapsible>
               ))
             ) : (
-              <div className="text-center py-4 text-neutral-500">No tables found</div>
+              <div className="text-center py-4 text-neutral-500">
+                {filterText.trim() ? 'No matching objects' : 'No tables found'}
+              </div>
             )}
           </nav>
         </div>
@@ -114,9 +225,9 @@ const Sidebar: React.FC<SidebarProps> = ({ onTableSelect }) => {
               variant="link"
               className="text-sm text-primary hover:text-primary-dark flex items-center"
               onClick={handleRefreshTables}
-              disabled={isLoadingTables || !activeConnection}
+              disabled={isLoadingCatalog || !activeConnection}
             >
-              {isLoadingTables ? (
+              {isLoadingCatalog ? (
                 <Loader2 className="h-4 w-4 mr-1 animate-spin" />
               ) : (
                 <svg
@@ -151,6 +262,16 @@ const Sidebar: React.FC<SidebarProps> = ({ onTableSelect }) => {
           </div>
         </div>
       </div>
+
+      {activeConnection && (
+        <TableDesignerDialog
+          isOpen={isDesignerOpen}
+          onClose={() => setIsDesignerOpen(false)}
+          connectionId={activeConnection.id}
+          catalog={catalog || []}
+          onCreated={handleTableCreated}
+        />
+      )}
     </div>
   );
 };
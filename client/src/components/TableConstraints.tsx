@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import AddConstraintDialog from './modals/AddConstraintDialog';
+import { useTableConstraints } from '@/hooks/useDatabase';
+import { TableColumn, TableConstraint } from '@/types/database';
+
+interface TableConstraintsProps {
+  connectionId: number;
+  tableName: string;
+  columns: TableColumn[];
+  canAlter: boolean;
+}
+
+const typeLabels: Record<TableConstraint['type'], string> = {
+  primary_key: 'PRIMARY KEY',
+  unique: 'UNIQUE',
+  foreign_key: 'FOREIGN KEY',
+  check: 'CHECK',
+  exclude: 'EXCLUDE',
+  trigger: 'TRIGGER',
+  not_null: 'NOT NULL',
+};
+
+const TableConstraints: React.FC<TableConstraintsProps> = ({ connectionId, tableName, columns, canAlter }) => {
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [dropping, setDropping] = useState<TableConstraint | null>(null);
+  const [cascade, setCascade] = useState(false);
+
+  const {
+    constraints,
+    isLoadingConstraints,
+    constraintsError,
+    previewConstraint,
+    constraintPreview,
+    constraintPreviewError,
+    isPreviewingConstraint,
+    resetConstraintPreview,
+    addConstraint,
+    isAddingConstraint,
+    validateConstraint,
+    isValidatingConstraint,
+    dropConstraint,
+    isDroppingConstraint,
+  } = useTableConstraints(connectionId, tableName);
+
+  useEffect(() => {
+    setCascade(false);
+  }, [dropping]);
+
+  const handleValidate = async (constraint: TableConstraint) => {
+    try {
+      await validateConstraint(constraint.name);
+    } catch (error) {
+      // The hook reports the failure
+      console.error('Failed to validate constraint:', error);
+    }
+  };
+
+  const handleDrop = async () => {
+    if (!dropping) return;
+    try {
+      await dropConstraint({ name: dropping.name, cascade });
+    } catch (error) {
+      // The hook reports the failure
+      console.error('Failed to drop constraint:', error);
+    } finally {
+      setDropping(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto bg-white">
+      <div className="px-4 py-3 flex items-center justify-between border-b border-neutral-200">
+        <p className="text-sm text-neutral-500">
+          Constraints added NOT VALID only check new rows until they are validated
+        </p>
+        <Button size="sm" variant="outline" onClick={() => setIsAddOpen(true)} disabled={!canAlter}>
+          <Plus className="h-4 w-4 mr-2" />
+          New constraint
+        </Button>
+      </div>
+
+      {isLoadingConstraints ? (
+        <div className="py-12 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading constraints...</span>
+        </div>
+      ) : constraintsError ? (
+        <p className="px-4 py-6 text-sm text-error">{(constraintsError as Error).message}</p>
+      ) : !constraints || constraints.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-neutral-500">This table has no constraints</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Constraint</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Definition</TableHead>
+              <TableHead className="relative">
+                <span className="sr-only">Actions</span>
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {constraints.map(constraint => (
+              <TableRow key={constraint.name} className="hover:bg-neutral-50 align-top">
+                <TableCell>
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="font-medium">{constraint.name}</span>
+                    {!constraint.validated && (
+                      <Badge variant="outline" className="border-amber-400 text-amber-700">not valid</Badge>
+                    )}
+                    {constraint.deferrable && (
+                      <Badge variant="secondary">
+                        {constraint.initiallyDeferred ? 'deferred' : 'deferrable'}
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{typeLabels[constraint.type] || constraint.type}</TableCell>
+                <TableCell className="font-mono text-xs text-neutral-600 break-all">{constraint.definition}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {!constraint.validated && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Validate existing rows"
+                      className="h-8 w-8"
+                      disabled={isValidatingConstraint}
+                      onClick={() => handleValidate(constraint)}
+                    >
+                      <ShieldCheck className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Drop constraint"
+                    className="text-error hover:text-red-700 h-8 w-8"
+                    disabled={!canAlter || constraint.type === 'trigger'}
+                    onClick={() => setDropping(constraint)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <AddConstraintDialog
+        isOpen={isAddOpen}
+        onClose={() => setIsAddOpen(false)}
+        connectionId={connectionId}
+        tableName={tableName}
+        columns={columns}
+        preview={constraintPreview}
+        previewError={constraintPreviewError}
+        isPreviewing={isPreviewingConstraint}
+        onPreview={previewConstraint}
+        onResetPreview={resetConstraintPreview}
+        onAdd={addConstraint}
+        isAdding={isAddingConstraint}
+      />
+
+      <AlertDialog open={!!dropping} onOpenChange={() => !isDroppingConstraint && setDropping(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Drop Constraint</AlertDialogTitle>
+            <AlertDialogDescription>
+              Drop <strong>{dropping?.name}</strong> from the <strong>{tableName}</strong> table? Rows will no longer be checked against it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={cascade} onCheckedChange={(checked) => setCascade(checked === true)} />
+            Also drop dependent objects (CASCADE)
+          </label>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDroppingConstraint}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDrop();
+              }}
+              disabled={isDroppingConstraint}
+              className="bg-error hover:bg-red-700 focus:ring-error"
+            >
+              {isDroppingConstraint && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Drop
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TableConstraints;
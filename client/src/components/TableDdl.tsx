@@ -0,0 +1,63 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Copy, Download, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useObjectDdl } from '@/hooks/useDatabase';
+import { downloadBlob } from '@/utils/database';
+
+interface TableDdlProps {
+  connectionId: number;
+  tableName: string;
+}
+
+const TableDdl: React.FC<TableDdlProps> = ({ connectionId, tableName }) => {
+  const { toast } = useToast();
+  const { ddl, isLoadingDdl, ddlError } = useObjectDdl(connectionId, tableName);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(ddl!);
+      toast({ title: 'DDL copied', description: tableName });
+    } catch (error) {
+      console.error('Failed to copy DDL:', error);
+    }
+  };
+
+  const handleDownload = () => {
+    const fileName = `${tableName.replace(/"/g, '').replace(/[^\w.-]/g, '_')}.sql`;
+    downloadBlob(new Blob([ddl!], { type: 'application/sql' }), fileName);
+  };
+
+  return (
+    <div className="flex-1 overflow-auto bg-white">
+      <div className="px-4 py-3 flex items-center justify-between border-b border-neutral-200">
+        <p className="text-sm text-neutral-500">
+          Reconstructed from the system catalog, including constraints, indexes, comments, owner and grants
+        </p>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={handleCopy} disabled={!ddl}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleDownload} disabled={!ddl}>
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+        </div>
+      </div>
+
+      {isLoadingDdl ? (
+        <div className="py-12 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading DDL...</span>
+        </div>
+      ) : ddlError ? (
+        <p className="px-4 py-6 text-sm text-error">{(ddlError as Error).message}</p>
+      ) : (
+        <pre className="m-4 bg-neutral-900 text-neutral-100 text-xs rounded-md p-4 overflow-x-auto">{ddl}</pre>
+      )}
+    </div>
+  );
+};
+
+export default TableDdl;
@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import CreateIndexDialog from './modals/CreateIndexDialog';
+import { useTableIndexes } from '@/hooks/useDatabase';
+import { TableColumn, TableIndex } from '@/types/database';
+
+interface TableIndexesProps {
+  connectionId: number;
+  tableName: string;
+  columns: TableColumn[];
+  // Tables and materialized views can be indexed; plain views cannot
+  canIndex: boolean;
+}
+
+// Reindexing or dropping, confirmed before it runs
+interface IndexAction {
+  type: 'reindex' | 'drop';
+  index: TableIndex;
+}
+
+const TableIndexes: React.FC<TableIndexesProps> = ({ connectionId, tableName, columns, canIndex }) => {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [action, setAction] = useState<IndexAction | null>(null);
+  const [concurrently, setConcurrently] = useState(false);
+  const [cascade, setCascade] = useState(false);
+
+  const {
+    indexes,
+    isLoadingIndexes,
+    indexesError,
+    previewIndex,
+    indexPreview,
+    indexPreviewError,
+    resetIndexPreview,
+    createIndex,
+    isCreatingIndex,
+    reindex,
+    isReindexing,
+    dropIndex,
+    isDroppingIndex,
+  } = useTableIndexes(connectionId, tableName);
+
+  useEffect(() => {
+    setConcurrently(false);
+    setCascade(false);
+  }, [action]);
+
+  const isRunning = isReindexing || isDroppingIndex;
+
+  const handleConfirm = async () => {
+    if (!action) return;
+    try {
+      if (action.type === 'reindex') {
+        await reindex({ name: action.index.name, concurrently });
+      } else {
+        await dropIndex({ name: action.index.name, concurrently, cascade });
+      }
+    } catch (error) {
+      // The hook reports the failure
+      console.error(`Failed to ${action.type} index:`, error);
+    } finally {
+      setAction(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto bg-white">
+      <div className="px-4 py-3 flex items-center justify-between border-b border-neutral-200">
+        <p className="text-sm text-neutral-500">
+          Usage counts come from the statistics collector since its last reset
+        </p>
+        <Button size="sm" variant="outline" onClick={() => setIsCreateOpen(true)} disabled={!canIndex}>
+          <Plus className="h-4 w-4 mr-2" />
+          New index
+        </Button>
+      </div>
+
+      {isLoadingIndexes ? (
+        <div className="py-12 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading indexes...</span>
+        </div>
+      ) : indexesError ? (
+        <p className="px-4 py-6 text-sm text-error">{(indexesError as Error).message}</p>
+      ) : !indexes || indexes.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-neutral-500">This table has no indexes</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Index</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead>Columns</TableHead>
+              <TableHead>Size</TableHead>
+              <TableHead>Scans</TableHead>
+              <TableHead className="relative">
+                <span className="sr-only">Actions</span>
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {indexes.map(index => (
+              <TableRow key={index.name} className="hover:bg-neutral-50 align-top">
+                <TableCell>
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="font-medium">{index.name}</span>
+                    {index.isPrimary && <Badge variant="secondary">primary</Badge>}
+                    {index.isUnique && !index.isPrimary && <Badge variant="secondary">unique</Badge>}
+                    {!index.isValid && <Badge variant="destructive">invalid</Badge>}
+                    {index.unused && <Badge variant="outline" className="border-amber-400 text-amber-700">unused</Badge>}
+                    {index.duplicateOf && (
+                      <Badge variant="outline" className="border-amber-400 text-amber-700">
+                        duplicate of {index.duplicateOf}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="mt-1 font-mono text-xs text-neutral-500 break-all">{index.definition}</div>
+                </TableCell>
+                <TableCell>{index.method}</TableCell>
+                <TableCell>
+                  {index.columns.join(', ')}
+                  {index.predicate && (
+                    <div className="mt-1 font-mono text-xs text-neutral-500">WHERE {index.predicate}</div>
+                  )}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{index.size}</TableCell>
+                <TableCell>{index.scans}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Rebuild index"
+                    className="h-8 w-8"
+                    onClick={() => setAction({ type: 'reindex', index })}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={index.constraint ? `Backs constraint ${index.constraint}; drop the constraint instead` : 'Drop index'}
+                    className="text-error hover:text-red-700 h-8 w-8"
+                    disabled={!!index.constraint}
+                    onClick={() => setAction({ type: 'drop', index })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <CreateIndexDialog
+        isOpen={isCreateOpen}
+        onClose={() => setIsCreateOpen(false)}
+        tableName={tableName}
+        columns={columns}
+        preview={indexPreview}
+        previewError={indexPreviewError}
+        onPreview={previewIndex}
+        onResetPreview={resetIndexPreview}
+        onCreate={createIndex}
+        isCreating={isCreatingIndex}
+      />
+
+      <AlertDialog open={!!action} onOpenChange={() => !isRunning && setAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{action?.type === 'drop' ? 'Drop Index' : 'Rebuild Index'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {action?.type === 'drop'
+                ? <>Drop <strong>{action.index.name}</strong>? Queries that relied on it may become slower.</>
+                : <>Rebuild <strong>{action?.index.name}</strong> from the table data. Without concurrently, writes to the table wait until it finishes.</>}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm" title="Runs outside a transaction">
+              <Checkbox
+                checked={concurrently}
+                disabled={cascade}
+                onCheckedChange={(checked) => setConcurrently(checked === true)}
+              />
+              Concurrently
+            </label>
+            {action?.type === 'drop' && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={cascade}
+                  disabled={concurrently}
+                  onCheckedChange={(checked) => setCascade(checked === true)}
+                />
+                Also drop dependent objects (CASCADE)
+              </label>
+            )}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRunning}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirm();
+              }}
+              disabled={isRunning}
+              className={action?.type === 'drop' ? 'bg-error hover:bg-red-700 focus:ring-error' : undefined}
+            >
+              {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {action?.type === 'drop' ? 'Drop' : 'Rebuild'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TableIndexes;
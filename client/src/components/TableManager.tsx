@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useTableManager } from '@/hooks/useDatabase';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -26,30 +27,57 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 import { Card } from '@/components/ui/card';
-import { Loader2, Plus, Search, SortAsc, SortDesc, Edit, Trash2, MoreVertical } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Plus, Search, SortAsc, SortDesc, Edit, Trash2, MoreVertical, RotateCcw, AlertCircle, Undo2, PanelRight, Upload, Download } from 'lucide-react';
 import EditRowModal from './modals/EditRowModal';
+import FilterBuilder from './FilterBuilder';
+import EditableCell from './EditableCell';
+import RowDetailPanel from './RowDetailPanel';
+import TableStructure from './TableStructure';
+import TableConstraints from './TableConstraints';
+import TableIndexes from './TableIndexes';
+import TableDdl from './TableDdl';
+import TableTriggers from './TableTriggers';
+import TableViewDefinition from './TableViewDefinition';
 import DeleteConfirmationModal from './modals/DeleteConfirmationModal';
+import ImportCsvDialog from './modals/ImportCsvDialog';
+import ExportDialog from './modals/ExportDialog';
 import { useToast } from '@/hooks/use-toast';
+import { usePendingRowChanges, rowKeyId } from '@/hooks/usePendingRowChanges';
+import { FilterNode } from '@shared/filters';
+import { getRowKey, buildMatchFilter, formatTableReference } from '@/utils/database';
+import { RowKey, CatalogSchema, AlterTableResponse } from '@/types/database';
 
 interface TableManagerProps {
   connectionId: number;
+  selectedTable: string | null;
+  filter: FilterNode | null;
+  onFilterChange: (filter: FilterNode | null) => void;
+  // Browse another table, e.g. the one a foreign key points at
+  onOpenTable: (tableName: string, filter: FilterNode | null) => void;
+  onTableDropped: () => void;
 }
 
-const TableManager: React.FC<TableManagerProps> = ({ connectionId }) => {
+type TableView = 'data' | 'structure' | 'constraints' | 'indexes' | 'triggers' | 'ddl' | 'definition';
+
+const TableManager: React.FC<TableManagerProps> = ({ connectionId, selectedTable, filter, onFilterChange, onOpenTable, onTableDropped }) => {
   const { toast } = useToast();
-  const [selectedTable, setSelectedTable] = useState<string | null>(null);
-  const [selectedColumnFilter, setSelectedColumnFilter] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isCommitConfirmOpen, setIsCommitConfirmOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [selectedRow, setSelectedRow] = useState<any>(null);
-  const [primaryKeyInfo, setPrimaryKeyInfo] = useState<{ key: string; value: any } | null>(null);
+  const [rowKey, setRowKey] = useState<RowKey | null>(null);
+  const [detailRow, setDetailRow] = useState<Record<string, any> | null>(null);
+  const [view, setView] = useState<TableView>('data');
 
   // Table manager hook
   const {
     tables,
     columns,
     tableData,
+    foreignKeys,
     isLoadingTables,
     isLoadingColumns,
     isLoadingTableData,
@@ -58,26 +86,59 @@ const TableManager: React.FC<TableManagerProps> = ({ connectionId }) => {
     tableDataError,
     page,
     pageSize,
+    search,
+    searchColumn,
     sortColumn,
     sortDirection,
     handlePageChange,
     handlePageSizeChange,
+    handleSearch,
+    handleSearchColumn,
     handleSort,
     insertRow,
     updateRow,
-    deleteRow,
     isInsertingRow,
     isUpdatingRow,
-    isDeletingRow,
-  } = useTableManager(connectionId, selectedTable || undefined);
-
-  // Handle table selection
-  const handleTableSelect = (tableName: string) => {
-    console.log('Table selected:', tableName);
-    setSelectedTable(tableName);
-    setSelectedColumnFilter(null);
+    commitChanges,
+    isCommittingChanges,
+  } = useTableManager(connectionId, selectedTable || undefined, filter);
+
+  // How rows of the current table are addressed for edits and deletes
+  const identity = tableData?.identity;
+  const canModifyRows = !!identity && identity.kind !== 'none';
+
+  // Inline edits, new rows and deletions waiting to be committed
+  const pending = usePendingRowChanges(selectedTable || undefined, columns || []);
+
+  // The sidebar's catalog tells tables apart from views
+  const { data: catalog } = useQuery<CatalogSchema[]>({
+    queryKey: ['/api/connections', connectionId, 'catalog'],
+    enabled: !!selectedTable,
+  });
+  const relationKind = useMemo(() => {
+    for (const schema of catalog || []) {
+      const object = schema.objects.find(candidate => formatTableReference(schema.name, candidate.name) === selectedTable);
+      if (object) return object.kind;
+    }
+    return undefined;
+  }, [catalog, selectedTable]);
+  const isView = relationKind === 'view' || relationKind === 'materialized_view';
+
+  // Only views have a Definition tab
+  useEffect(() => {
+    if (!isView && view === 'definition') setView('data');
+  }, [isView, view]);
+
+  // Clear the search box when switching tables
+  useEffect(() => {
     setSearchQuery('');
-  };
+  }, [selectedTable]);
+
+  // Send the search to the server once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => handleSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery, handleSearch]);
 
   // Handle search query change
   const handleSearchQueryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -86,8 +147,8 @@ const TableManager: React.FC<TableManagerProps> = ({ connectionId }) => {
 
   // Handle column filter change
   const handleColumnFilterChange = (value: string) => {
-    // If 'all_columns' is selected, set to null to indicate all columns
-    setSelectedColumnFilter(value === 'all_columns' ? null : value);
+    // If 'all_columns' is selected, set to null to search across all columns
+    handleSearchColumn(value === 'all_columns' ? null : value);
   };
 
   // Handle add row button click
@@ -99,37 +160,69 @@ const TableManager: React.FC<TableManagerProps> = ({ connectionId }) => {
   // Handle edit row button click
   const handleEditRow = (row: any) => {
     setSelectedRow(row);
-    
-    // Find primary key column
-    if (columns && columns.length > 0) {
-      const primaryKeyColumn = columns.find(col => col.primary_key === 'PRIMARY KEY');
-      if (primaryKeyColumn) {
-        setPrimaryKeyInfo({
-          key: primaryKeyColumn.column_name,
-          value: row[primaryKeyColumn.column_name]
-        });
-      }
-    }
-    
+    setRowKey(getRowKey(identity, row));
     setIsEditModalOpen(true);
   };
 
-  // Handle delete row button click
-  const handleDeleteRow = (row: any) => {
-    setSelectedRow(row);
-    
-    // Find primary key column
-    if (columns && columns.length > 0) {
-      const primaryKeyColumn = columns.find(col => col.primary_key === 'PRIMARY KEY');
-      if (primaryKeyColumn) {
-        setPrimaryKeyInfo({
-          key: primaryKeyColumn.column_name,
-          value: row[primaryKeyColumn.column_name]
-        });
+  // Follow a foreign key cell to the row it references
+  const referenceOpener = (row: Record<string, any>, columnName: string) => {
+    const foreignKey = foreignKeys?.outgoing.find(key => key.columns.includes(columnName));
+    if (!foreignKey) return undefined;
+    const referenceFilter = buildMatchFilter(foreignKey.referencedColumns, foreignKey.columns.map(name => row[name]));
+    if (!referenceFilter) return undefined;
+    return () => onOpenTable(formatTableReference(foreignKey.referencedSchema, foreignKey.referencedTable), referenceFilter);
+  };
+
+  // Clear the detail panel when switching tables
+  useEffect(() => {
+    setDetailRow(null);
+  }, [selectedTable]);
+
+  // Send all pending changes as one transaction
+  const handleCommit = async () => {
+    const { changes, sources } = pending.buildBatch();
+    setIsCommitConfirmOpen(false);
+    if (changes.length === 0) return;
+
+    try {
+      const result = await commitChanges(changes);
+      if (result.committed) {
+        pending.discard();
+      } else {
+        pending.recordResults(sources, result.results);
       }
+    } catch (error) {
+      // The hook reports request failures; pending edits are kept for a retry
+      console.error('Failed to commit changes:', error);
+    }
+  };
+
+  // Follow the table to its new name, or away once it is dropped
+  const handleStructureChanged = (result: AlterTableResponse) => {
+    pending.discard();
+    if (result.dropped) {
+      setView('data');
+      onTableDropped();
+      return;
+    }
+    const renamed = formatTableReference(result.schema, result.name);
+    if (renamed !== selectedTable) {
+      onOpenTable(renamed, null);
+    }
+  };
+
+  const handleViewDropped = () => {
+    setView('data');
+    onTableDropped();
+  };
+
+  // Deleting rows is confirmed before committing
+  const handleCommitClick = () => {
+    if (pending.deleteCount > 0) {
+      setIsCommitConfirmOpen(true);
+    } else {
+      handleCommit();
     }
-    
-    setIsDeleteModalOpen(true);
   };
 
   // Handle save row
@@ -139,36 +232,18 @@ const TableManager: React.FC<TableManagerProps> = ({ connectionId }) => {
     if (!selectedRow) {
       // Insert new row
       insertRow(data);
-    } else if (primaryKeyInfo) {
+    } else if (rowKey) {
       // Update existing row
-      updateRow({
-        primaryKey: primaryKeyInfo.key,
-        primaryKeyValue: primaryKeyInfo.value,
-        data
-      });
+      updateRow({ key: rowKey, data });
     }
     
     setIsEditModalOpen(false);
   };
 
-  // Handle confirm delete
-  const handleConfirmDelete = () => {
-    console.log('Deleting row:', selectedRow);
-    
-    if (primaryKeyInfo) {
-      deleteRow({
-        primaryKey: primaryKeyInfo.key,
-        primaryKeyValue: primaryKeyInfo.value
-      });
-    }
-    
-    setIsDeleteModalOpen(false);
-  };
-
   // Handle close modal
   const handleCloseModal = () => {
     setIsEditModalOpen(false);
-    setIsDeleteModalOpen(false);
+    setIsCommitConfirmOpen(false);
   };
 
   // Display error toasts
@@ -198,15 +273,6 @@ const TableManager: React.FC<TableManagerProps> = ({ connectionId }) => {
     }
   }, [tablesError, columnsError, tableDataError, toast]);
 
-  // Find primary key and set it when columns change
-  useEffect(() => {
-    if (columns && columns.length > 0) {
-      const primaryKeyColumn = columns.find(col => col.primary_key === 'PRIMARY KEY');
-      if (primaryKeyColumn) {
-        console.log('Primary key column found:', primaryKeyColumn.column_name);
-      }
-    }
-  }, [columns]);
 
   return (
     <div className="flex-1 flex flex-col overflow-hidden">
@@ -215,23 +281,64 @@ const TableManager: React.FC<TableManagerProps> = ({ connectionId }) => {
         <div className="flex items-center justify-between">
           <div>
             <h3 className="text-lg leading-6 font-medium text-neutral-700">
-              {selectedTable ? `${selectedTable} Table` : 'Select a Table'}
+              {selectedTable
+                ? `${selectedTable} ${relationKind === 'view' ? 'View' : relationKind === 'materialized_view' ? 'Materialized View' : 'Table'}`
+                : 'Select a Table'}
             </h3>
             {tableData && (
               <p className="mt-1 text-sm text-neutral-500">
                 {columns?.length || 0} columns · {tableData.pagination?.total || 0} rows
               </p>
             )}
+            {identity?.kind === 'ctid' && (
+              <p className="mt-1 text-xs text-neutral-400">
+                No primary key or unique index: rows are matched by physical location and edits fail if the row changed meanwhile
+              </p>
+            )}
+            {identity?.kind === 'none' && (
+              <p className="mt-1 text-xs text-neutral-400">
+                {isView ? 'Views are read-only here' : 'Rows of this relation cannot be edited or deleted individually'}
+              </p>
+            )}
+            <Tabs value={view} onValueChange={(value) => setView(value as TableView)} className="mt-3">
+              <TabsList>
+                <TabsTrigger value="data" disabled={!selectedTable}>Data</TabsTrigger>
+                <TabsTrigger value="structure" disabled={!selectedTable}>Structure</TabsTrigger>
+                <TabsTrigger value="constraints" disabled={!selectedTable}>Constraints</TabsTrigger>
+                <TabsTrigger value="indexes" disabled={!selectedTable}>Indexes</TabsTrigger>
+                <TabsTrigger value="triggers" disabled={!selectedTable}>Triggers</TabsTrigger>
+                <TabsTrigger value="ddl" disabled={!selectedTable}>DDL</TabsTrigger>
+                {isView && <TabsTrigger value="definition">Definition</TabsTrigger>}
+              </TabsList>
+            </Tabs>
           </div>
           <div className="flex gap-2">
             <Button 
               onClick={handleAddRow} 
-              disabled={!selectedTable || isLoadingTableData}
+              disabled={!selectedTable || isLoadingTableData || isView}
               size="sm"
             >
               <Plus className="h-4 w-4 mr-2" />
               Add Row
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsImportOpen(true)}
+              disabled={!selectedTable || !(relationKind === 'table' || relationKind === 'partitioned_table')}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsExportOpen(true)}
+              disabled={!selectedTable}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
             <Button 
               variant="outline" 
               size="icon" 
@@ -243,188 +350,349 @@ const TableManager: React.FC<TableManagerProps> = ({ connectionId }) => {
         </div>
       </div>
 
-      {/* Table Filters */}
-      <div className="px-4 py-3 bg-white border-b border-neutral-200">
-        <div className="flex flex-wrap items-center gap-4">
-          <div className="w-full sm:w-64">
-            <div className="relative">
-              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                <Search className="h-4 w-4 text-neutral-400" />
+      {view === 'structure' && selectedTable ? (
+        <TableStructure
+          connectionId={connectionId}
+          tableName={selectedTable}
+          columns={columns || []}
+          canAlter={relationKind === 'table' || relationKind === 'partitioned_table'}
+          onApplied={handleStructureChanged}
+        />
+      ) : view === 'constraints' && selectedTable ? (
+        <TableConstraints
+          connectionId={connectionId}
+          tableName={selectedTable}
+          columns={columns || []}
+          canAlter={relationKind === 'table' || relationKind === 'partitioned_table'}
+        />
+      ) : view === 'indexes' && selectedTable ? (
+        <TableIndexes
+          connectionId={connectionId}
+          tableName={selectedTable}
+          columns={columns || []}
+          canIndex={relationKind === 'table' || relationKind === 'partitioned_table' || relationKind === 'materialized_view'}
+        />
+      ) : view === 'triggers' && selectedTable ? (
+        <TableTriggers connectionId={connectionId} tableName={selectedTable} />
+      ) : view === 'ddl' && selectedTable ? (
+        <TableDdl connectionId={connectionId} tableName={selectedTable} />
+      ) : view === 'definition' && selectedTable ? (
+        <TableViewDefinition
+          connectionId={connectionId}
+          tableName={selectedTable}
+          onDropped={handleViewDropped}
+        />
+      ) : (
+        <>
+          {/* Table Filters */}
+          <div className="px-4 py-3 bg-white border-b border-neutral-200">
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="w-full sm:w-64">
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Search className="h-4 w-4 text-neutral-400" />
+                  </div>
+                  <Input
+                    placeholder="Search table..."
+                    value={searchQuery}
+                    onChange={handleSearchQueryChange}
+                    className="pl-10"
+                    disabled={!selectedTable}
+                  />
+                </div>
               </div>
-              <Input
-                placeholder="Search table..."
-                value={searchQuery}
-                onChange={handleSearchQueryChange}
-                className="pl-10"
-                disabled={!selectedTable || isLoadingTableData}
+          
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-neutral-700">Column:</span>
+                <Select 
+                  disabled={!selectedTable || isLoadingColumns}
+                  value={searchColumn || 'all_columns'}
+                  onValueChange={handleColumnFilterChange}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="All columns" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all_columns">All columns</SelectItem>
+                    {columns && columns.map((column) => (
+                      <SelectItem 
+                        key={column.column_name} 
+                        value={column.column_name}
+                      >
+                        {column.column_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <FilterBuilder
+                columns={columns || []}
+                filter={filter}
+                onApply={onFilterChange}
+                disabled={!selectedTable || isLoadingColumns}
               />
             </div>
           </div>
-          
-          <div className="flex items-center space-x-2">
-            <span className="text-sm text-neutral-700">Column:</span>
-            <Select 
-              disabled={!selectedTable || isLoadingColumns}
-              value={selectedColumnFilter || 'all_columns'}
-              onValueChange={handleColumnFilterChange}
-            >
-              <SelectTrigger className="w-[180px]">
-                <SelectValue placeholder="All columns" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all_columns">All columns</SelectItem>
-                {columns && columns.map((column) => (
-                  <SelectItem 
-                    key={column.column_name} 
-                    value={column.column_name}
-                  >
-                    {column.column_name}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-        </div>
-      </div>
 
-      {/* Table Content */}
-      <div className="flex-1 overflow-auto bg-white">
-        {isLoadingTableData ? (
-          <div className="h-full flex items-center justify-center">
-            <Loader2 className="h-8 w-8 animate-spin text-primary mr-2" />
-            <span>Loading table data...</span>
-          </div>
-        ) : !selectedTable ? (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-neutral-500">Please select a table from the sidebar</p>
-          </div>
-        ) : !tableData || !tableData.data || tableData.data.length === 0 ? (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-neutral-500">No data found in this table</p>
+          {/* Table Content */}
+          <div className="flex-1 overflow-auto bg-white">
+            {isLoadingTableData ? (
+              <div className="h-full flex items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-primary mr-2" />
+                <span>Loading table data...</span>
+              </div>
+            ) : !selectedTable ? (
+              <div className="h-full flex items-center justify-center">
+                <p className="text-neutral-500">Please select a table from the sidebar</p>
+              </div>
+            ) : !tableData || !tableData.data || (tableData.data.length === 0 && pending.inserts.length === 0) ? (
+              <div className="h-full flex flex-col items-center justify-center gap-2">
+                <p className="text-neutral-500">
+                  {searchQuery || filter ? 'No rows match your search or filters' : 'No data found in this table'}
+                </p>
+                {tableData && (
+                  <Button variant="outline" size="sm" onClick={pending.addInsert}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    New row
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {columns && columns.map((column) => (
+                      <TableHead 
+                        key={column.column_name}
+                        className="cursor-pointer hover:bg-neutral-200"
+                        onClick={() => handleSort(column.column_name)}
+                      >
+                        <div className="flex items-center space-x-1">
+                          <span>{column.column_name}</span>
+                          {sortColumn === column.column_name && (
+                            sortDirection === 'asc' ? (
+                              <SortAsc className="h-4 w-4 text-neutral-700" />
+                            ) : (
+                              <SortDesc className="h-4 w-4 text-neutral-700" />
+                            )
+                          )}
+                        </div>
+                        <div className="text-xs font-normal text-neutral-400 normal-case">{column.data_type}</div>
+                      </TableHead>
+                    ))}
+                    <TableHead className="relative">
+                      <span className="sr-only">Actions</span>
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tableData.data.map((row, rowIndex) => {
+                    const key = getRowKey(identity, row);
+                    const id = key ? rowKeyId(key) : null;
+                    const update = id ? pending.updates[id] : undefined;
+                    const isMarkedForDeletion = !!id && !!pending.deletes[id];
+                    const failure = id ? pending.failures[`update:${id}`] || pending.failures[`delete:${id}`] : undefined;
+
+                    return (
+                      <TableRow
+                        key={id || rowIndex}
+                        className={`hover:bg-neutral-50 ${isMarkedForDeletion ? 'bg-red-50 line-through text-neutral-400' : ''} ${failure ? 'border-l-2 border-l-red-500' : ''}`}
+                      >
+                        {columns && columns.map((column) => (
+                          <EditableCell
+                            key={column.column_name}
+                            column={column}
+                            value={row[column.column_name]}
+                            edit={update?.cells[column.column_name]}
+                            error={id ? pending.cellErrors[`update:${id}:${column.column_name}`] : undefined}
+                            disabled={!key || isMarkedForDeletion}
+                            onEdit={(value) => key && pending.setCell(key, column.column_name, value)}
+                            onOpenReference={referenceOpener(row, column.column_name)}
+                          />
+                        ))}
+                        <TableCell className="text-right whitespace-nowrap">
+                          {failure && (
+                            <span title={failure} className="inline-flex align-middle mr-1">
+                              <AlertCircle className="h-4 w-4 text-error" />
+                            </span>
+                          )}
+                          {update && key && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Revert changes to this row"
+                              onClick={() => pending.revertRow(key)}
+                              className="h-8 w-8"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Row details"
+                            onClick={() => setDetailRow(row)}
+                            className="h-8 w-8"
+                          >
+                            <PanelRight className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEditRow(row)}
+                            disabled={!canModifyRows || isMarkedForDeletion}
+                            className="text-primary hover:text-primary-dark h-8 w-8"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={isMarkedForDeletion ? 'Keep this row' : 'Mark for deletion'}
+                            onClick={() => key && pending.toggleDelete(key)}
+                            disabled={!canModifyRows}
+                            className="text-error hover:text-red-700 h-8 w-8"
+                          >
+                            {isMarkedForDeletion ? <Undo2 className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {pending.inserts.map(insert => {
+                    const failure = pending.failures[`insert:${insert.id}`];
+                    return (
+                      <TableRow
+                        key={`insert-${insert.id}`}
+                        className={`bg-green-50 ${failure ? 'border-l-2 border-l-red-500' : ''}`}
+                      >
+                        {columns && columns.map((column) => (
+                          <EditableCell
+                            key={column.column_name}
+                            column={column}
+                            value={undefined}
+                            edit={insert.cells[column.column_name]}
+                            error={pending.cellErrors[`insert:${insert.id}:${column.column_name}`]}
+                            isNewRow
+                            onEdit={(value) => pending.setInsertCell(insert.id, column.column_name, value)}
+                          />
+                        ))}
+                        <TableCell className="text-right whitespace-nowrap">
+                          {failure && (
+                            <span title={failure} className="inline-flex align-middle mr-1">
+                              <AlertCircle className="h-4 w-4 text-error" />
+                            </span>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Discard this new row"
+                            onClick={() => pending.removeInsert(insert.id)}
+                            className="text-error hover:text-red-700 h-8 w-8"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+            {tableData && (tableData.data.length > 0 || pending.inserts.length > 0) && (
+              <div className="px-4 py-2">
+                <Button variant="ghost" size="sm" onClick={pending.addInsert}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New row
+                </Button>
+              </div>
+            )}
           </div>
-        ) : (
-          <Table>
-            <TableHeader>
-              <TableRow>
-                {columns && columns.map((column) => (
-                  <TableHead 
-                    key={column.column_name}
-                    className="cursor-pointer hover:bg-neutral-200"
-                    onClick={() => handleSort(column.column_name)}
-                  >
-                    <div className="flex items-center space-x-1">
-                      <span>{column.column_name}</span>
-                      {sortColumn === column.column_name && (
-                        sortDirection === 'asc' ? (
-                          <SortAsc className="h-4 w-4 text-neutral-700" />
-                        ) : (
-                          <SortDesc className="h-4 w-4 text-neutral-700" />
-                        )
-                      )}
-                    </div>
-                    <div className="text-xs font-normal text-neutral-400 normal-case">{column.data_type}</div>
-                  </TableHead>
-                ))}
-                <TableHead className="relative">
-                  <span className="sr-only">Actions</span>
-                </TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {tableData.data.map((row, rowIndex) => (
-                <TableRow key={rowIndex} className="hover:bg-neutral-50">
-                  {columns && columns.map((column) => (
-                    <TableCell key={column.column_name}>
-                      {row[column.column_name] !== null ? String(row[column.column_name]) : 'NULL'}
-                    </TableCell>
-                  ))}
-                  <TableCell className="text-right">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleEditRow(row)}
-                      className="text-primary hover:text-primary-dark h-8 w-8"
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => handleDeleteRow(row)}
-                      className="text-error hover:text-red-700 h-8 w-8"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        )}
-      </div>
 
-      {/* Pagination */}
-      {tableData && tableData.pagination && (
-        <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-neutral-200 sm:px-6">
-          <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
-            <div>
+          {/* Pending changes */}
+          {pending.pendingCount > 0 && (
+            <div className="bg-amber-50 px-4 py-2 flex items-center justify-between border-t border-amber-200 sm:px-6">
               <p className="text-sm text-neutral-700">
-                Showing <span className="font-medium">{(tableData.pagination.page - 1) * tableData.pagination.pageSize + 1}</span> to{' '}
-                <span className="font-medium">
-                  {Math.min(tableData.pagination.page * tableData.pagination.pageSize, tableData.pagination.total)}
-                </span>{' '}
-                of <span className="font-medium">{tableData.pagination.total}</span> results
+                <span className="font-medium">{pending.pendingCount}</span> pending change{pending.pendingCount === 1 ? '' : 's'}
+                {pending.hasErrors && <span className="ml-2 text-error">Fix the highlighted cells before committing</span>}
               </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={pending.discard} disabled={isCommittingChanges}>
+                  Discard
+                </Button>
+                <Button size="sm" onClick={handleCommitClick} disabled={isCommittingChanges || pending.hasErrors}>
+                  {isCommittingChanges && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Commit
+                </Button>
+              </div>
             </div>
-            <Pagination>
-              <PaginationContent>
-                <PaginationItem>
-                  <PaginationPrevious 
-                    onClick={() => handlePageChange(Math.max(1, page - 1))}
-                    disabled={page === 1} 
-                  />
-                </PaginationItem>
-                
-                {Array.from({ length: Math.min(5, tableData.pagination.totalPages) }, (_, i) => {
-                  const pageNumber = i + 1;
-                  return (
-                    <PaginationItem key={pageNumber}>
-                      <PaginationLink
-                        onClick={() => handlePageChange(pageNumber)}
-                        isActive={page === pageNumber}
-                      >
-                        {pageNumber}
-                      </PaginationLink>
-                    </PaginationItem>
-                  );
-                })}
-                
-                {tableData.pagination.totalPages > 5 && (
-                  <>
+          )}
+
+          {/* Pagination */}
+          {tableData && tableData.pagination && (
+            <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-neutral-200 sm:px-6">
+              <div className="hidden sm:flex-1 sm:flex sm:items-center sm:justify-between">
+                <div>
+                  <p className="text-sm text-neutral-700">
+                    Showing <span className="font-medium">{(tableData.pagination.page - 1) * tableData.pagination.pageSize + 1}</span> to{' '}
+                    <span className="font-medium">
+                      {Math.min(tableData.pagination.page * tableData.pagination.pageSize, tableData.pagination.total)}
+                    </span>{' '}
+                    of <span className="font-medium">{tableData.pagination.total}</span> results
+                  </p>
+                </div>
+                <Pagination>
+                  <PaginationContent>
                     <PaginationItem>
-                      <span className="px-4 py-2">...</span>
+                      <PaginationPrevious 
+                        onClick={() => handlePageChange(Math.max(1, page - 1))}
+                        disabled={page === 1} 
+                      />
                     </PaginationItem>
+                
+                    {Array.from({ length: Math.min(5, tableData.pagination.totalPages) }, (_, i) => {
+                      const pageNumber = i + 1;
+                      return (
+                        <PaginationItem key={pageNumber}>
+                          <PaginationLink
+                            onClick={() => handlePageChange(pageNumber)}
+                            isActive={page === pageNumber}
+                          >
+                            {pageNumber}
+                          </PaginationLink>
+                        </PaginationItem>
+                      );
+                    })}
+                
+                    {tableData.pagination.totalPages > 5 && (
+                      <>
+                        <PaginationItem>
+                          <span className="px-4 py-2">...</span>
+                        </PaginationItem>
+                        <PaginationItem>
+                          <PaginationLink
+                            onClick={() => handlePageChange(tableData.pagination.totalPages)}
+                            isActive={page === tableData.pagination.totalPages}
+                          >
+                            {tableData.pagination.totalPages}
+                          </PaginationLink>
+                        </PaginationItem>
+                      </>
+                    )}
+                
                     <PaginationItem>
-                      <PaginationLink
-                        onClick={() => handlePageChange(tableData.pagination.totalPages)}
-                        isActive={page === tableData.pagination.totalPages}
-                      >
-                        {tableData.pagination.totalPages}
-                      </PaginationLink>
+                      <PaginationNext 
+                        onClick={() => handlePageChange(Math.min(tableData.pagination.totalPages, page + 1))}
+                        disabled={page === tableData.pagination.totalPages} 
+                      />
                     </PaginationItem>
-                  </>
-                )}
-                
-                <PaginationItem>
-                  <PaginationNext 
-                    onClick={() => handlePageChange(Math.min(tableData.pagination.totalPages, page + 1))}
-                    disabled={page === tableData.pagination.totalPages} 
-                  />
-                </PaginationItem>
-              </PaginationContent>
-            </Pagination>
-          </div>
-        </div>
+                  </PaginationContent>
+                </Pagination>
+              </div>
+            </div>
+          )}
+        </>
       )}
 
       {/* Modals */}
@@ -435,15 +703,50 @@ const TableManager: React.FC<TableManagerProps> = ({ connectionId }) => {
         row={selectedRow}
         columns={columns || []}
         isSaving={isInsertingRow || isUpdatingRow}
+        connectionId={connectionId}
+        foreignKeys={foreignKeys?.outgoing}
+      />
+
+      <RowDetailPanel
+        connectionId={connectionId}
+        tableName={selectedTable || ''}
+        row={detailRow}
+        columns={columns || []}
+        foreignKeys={foreignKeys}
+        onClose={() => setDetailRow(null)}
+        onOpenTable={(tableName, nextFilter) => {
+          setDetailRow(null);
+          onOpenTable(tableName, nextFilter);
+        }}
       />
       
       <DeleteConfirmationModal
-        isOpen={isDeleteModalOpen}
+        isOpen={isCommitConfirmOpen}
         onClose={handleCloseModal}
-        onConfirm={handleConfirmDelete}
-        isDeleting={isDeletingRow}
+        onConfirm={handleCommit}
+        isDeleting={isCommittingChanges}
         tableName={selectedTable || ''}
+        rowCount={pending.deleteCount}
       />
+
+      {selectedTable && (
+        <ImportCsvDialog
+          isOpen={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+          connectionId={connectionId}
+          tableName={selectedTable}
+          columns={columns || []}
+        />
+      )}
+
+      {selectedTable && (
+        <ExportDialog
+          isOpen={isExportOpen}
+          onClose={() => setIsExportOpen(false)}
+          connectionId={connectionId}
+          source={{ kind: 'table', tableName: selectedTable, view: { search, searchColumn, sortColumn, sortDirection, filter } }}
+        />
+      )}
     </div>
   );
 };
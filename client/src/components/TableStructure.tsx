@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Pencil, Trash2, Type, Eraser } from 'lucide-react';
+import AlterTableDialog, { AlterRequest } from './modals/AlterTableDialog';
+import { TableColumn, AlterTableResponse } from '@/types/database';
+import { formatColumnType, isGeneratedColumn } from '@/utils/columnTypes';
+
+interface TableStructureProps {
+  connectionId: number;
+  tableName: string;
+  columns: TableColumn[];
+  // Whether the relation is a table; views cannot be altered here
+  canAlter: boolean;
+  onApplied: (result: AlterTableResponse) => void;
+}
+
+const TableStructure: React.FC<TableStructureProps> = ({ connectionId, tableName, columns, canAlter, onApplied }) => {
+  const [request, setRequest] = useState<AlterRequest | null>(null);
+
+  return (
+    <div className="flex-1 overflow-auto bg-white">
+      <div className="px-4 py-3 flex items-center justify-between border-b border-neutral-200">
+        <p className="text-sm text-neutral-500">
+          Every change shows its DDL first and runs in its own transaction
+        </p>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setRequest({ action: 'add_column' })} disabled={!canAlter}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add column
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setRequest({ action: 'rename_table' })} disabled={!canAlter}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename table
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-error hover:text-red-700"
+            onClick={() => setRequest({ action: 'drop_table' })}
+            disabled={!canAlter}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Drop table
+          </Button>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Column</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Not null</TableHead>
+            <TableHead>Default</TableHead>
+            <TableHead className="relative">
+              <span className="sr-only">Actions</span>
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {columns.map(column => (
+            <TableRow key={column.column_name} className="hover:bg-neutral-50">
+              <TableCell className="font-medium">
+                {column.column_name}
+                {column.primary_key === 'PRIMARY KEY' && <span className="ml-1 text-xs text-primary">(Primary Key)</span>}
+              </TableCell>
+              <TableCell className="font-mono text-xs">
+                {formatColumnType(column)}
+                {column.is_identity === 'YES' && (
+                  <span className="ml-2 text-neutral-400">identity {column.identity_generation?.toLowerCase()}</span>
+                )}
+                {isGeneratedColumn(column) && <span className="ml-2 text-neutral-400">generated</span>}
+              </TableCell>
+              <TableCell>
+                <Switch
+                  checked={column.is_nullable === 'NO'}
+                  disabled={!canAlter}
+                  onCheckedChange={() => setRequest({ action: 'set_not_null', column })}
+                />
+              </TableCell>
+              <TableCell className="font-mono text-xs text-neutral-600">
+                {isGeneratedColumn(column) ? column.generation_expression : column.column_default ?? ''}
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Rename column"
+                  className="h-8 w-8"
+                  disabled={!canAlter}
+                  onClick={() => setRequest({ action: 'rename_column', column })}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Change type"
+                  className="h-8 w-8"
+                  disabled={!canAlter || isGeneratedColumn(column)}
+                  onClick={() => setRequest({ action: 'alter_column_type', column })}
+                >
+                  <Type className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Set or drop default"
+                  className="h-8 w-8"
+                  disabled={!canAlter || isGeneratedColumn(column) || column.is_identity === 'YES'}
+                  onClick={() => setRequest({ action: 'set_default', column })}
+                >
+                  <Eraser className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Drop column"
+                  className="text-error hover:text-red-700 h-8 w-8"
+                  disabled={!canAlter}
+                  onClick={() => setRequest({ action: 'drop_column', column })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <AlterTableDialog
+        request={request}
+        onClose={() => setRequest(null)}
+        connectionId={connectionId}
+        tableName={tableName}
+        onApplied={onApplied}
+      />
+    </div>
+  );
+};
+
+export default TableStructure;
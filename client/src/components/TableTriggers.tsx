@@ -0,0 +1,96 @@
+import React from 'react';
+import { Link } from 'wouter';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2 } from 'lucide-react';
+import { useTableTriggers } from '@/hooks/useDatabase';
+import { TableTrigger } from '@/types/database';
+
+interface TableTriggersProps {
+  connectionId: number;
+  tableName: string;
+}
+
+const TableTriggers: React.FC<TableTriggersProps> = ({ connectionId, tableName }) => {
+  const { triggers, isLoadingTriggers, triggersError, setTriggerEnabled, isUpdatingTrigger } = useTableTriggers(connectionId, tableName);
+
+  const handleToggle = async (trigger: TableTrigger, enabled: boolean) => {
+    try {
+      await setTriggerEnabled({ name: trigger.name, enabled });
+    } catch (error) {
+      // The hook reports the failure
+      console.error('Failed to update trigger:', error);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto bg-white">
+      <div className="px-4 py-3 border-b border-neutral-200">
+        <p className="text-sm text-neutral-500">
+          Disabled triggers stay defined but do not fire until enabled again
+        </p>
+      </div>
+
+      {isLoadingTriggers ? (
+        <div className="py-12 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+          <span>Loading triggers...</span>
+        </div>
+      ) : triggersError ? (
+        <p className="px-4 py-6 text-sm text-error">{(triggersError as Error).message}</p>
+      ) : !triggers || triggers.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-neutral-500">This table has no triggers</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Trigger</TableHead>
+              <TableHead>Fires</TableHead>
+              <TableHead>Function</TableHead>
+              <TableHead>Enabled</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {triggers.map(trigger => (
+              <TableRow key={trigger.name} className="hover:bg-neutral-50 align-top">
+                <TableCell>
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="font-medium">{trigger.name}</span>
+                    {trigger.isConstraint && <Badge variant="secondary">constraint</Badge>}
+                  </div>
+                  <div className="mt-1 font-mono text-xs text-neutral-500 break-all">{trigger.definition}</div>
+                </TableCell>
+                <TableCell className="whitespace-nowrap text-sm">
+                  {trigger.timing} {trigger.events.join(' OR ')}
+                  <div className="text-xs text-neutral-500">for each {trigger.level.toLowerCase()}</div>
+                </TableCell>
+                <TableCell>
+                  <Link href={`/routines?routine=${trigger.functionOid}`} className="font-mono text-xs text-primary hover:underline">
+                    {trigger.functionName}
+                  </Link>
+                </TableCell>
+                <TableCell>
+                  <Switch
+                    checked={trigger.enabled}
+                    disabled={isUpdatingTrigger}
+                    onCheckedChange={(checked) => handleToggle(trigger, checked)}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default TableTriggers;
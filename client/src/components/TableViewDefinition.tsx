@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, RefreshCw, RotateCcw, Save, Trash2 } from 'lucide-react';
+import DependentObjects from './DependentObjects';
+import { useViewDefinition } from '@/hooks/useDatabase';
+import { ViewRefresh } from '@/types/database';
+
+interface TableViewDefinitionProps {
+  connectionId: number;
+  tableName: string;
+  onDropped: () => void;
+}
+
+const describeRefresh = (refresh: ViewRefresh | null): string => {
+  if (!refresh) return 'Not refreshed from this app yet';
+  const duration = refresh.durationMs !== null ? ` in ${refresh.durationMs} ms` : '';
+  return `Last refreshed ${new Date(refresh.refreshedAt).toLocaleString()}${duration}${refresh.concurrently ? ' (concurrently)' : ''}`;
+};
+
+// Query of a view or materialized view, with refresh and drop actions. Only
+// plain views can be edited: materialized views have no CREATE OR REPLACE.
+const TableViewDefinition: React.FC<TableViewDefinitionProps> = ({ connectionId, tableName, onDropped }) => {
+  const [draft, setDraft] = useState('');
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isDropOpen, setIsDropOpen] = useState(false);
+  const [concurrently, setConcurrently] = useState(false);
+  const [cascade, setCascade] = useState(false);
+
+  const {
+    view,
+    isLoadingView,
+    viewError,
+    previewDefinition,
+    definitionPreview,
+    definitionPreviewError,
+    isPreviewingDefinition,
+    resetDefinitionPreview,
+    replaceDefinition,
+    isReplacingDefinition,
+    refreshView,
+    isRefreshingView,
+    dropView,
+    isDroppingView,
+  } = useViewDefinition(connectionId, tableName);
+
+  const isMaterialized = view?.kind === 'materialized_view';
+  const isChanged = !!view && draft.trim() !== view.definition.trim();
+
+  // Start over from the stored definition whenever it loads or changes
+  useEffect(() => {
+    setDraft(view?.definition ?? '');
+  }, [view?.definition]);
+
+  useEffect(() => {
+    if (!view?.canRefreshConcurrently) setConcurrently(false);
+  }, [view?.canRefreshConcurrently]);
+
+  useEffect(() => {
+    setCascade(false);
+  }, [isDropOpen]);
+
+  const handleReview = () => {
+    resetDefinitionPreview();
+    previewDefinition(draft);
+    setIsReviewOpen(true);
+  };
+
+  const handleReplace = async () => {
+    try {
+      await replaceDefinition(draft);
+    } catch (error) {
+      // The hook reports the failure; the draft is kept for corrections
+      console.error('Failed to replace view definition:', error);
+    } finally {
+      setIsReviewOpen(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    try {
+      await refreshView(concurrently);
+    } catch (error) {
+      // The hook reports the failure
+      console.error('Failed to refresh materialized view:', error);
+    }
+  };
+
+  const handleDrop = async () => {
+    try {
+      await dropView(cascade);
+      setIsDropOpen(false);
+      onDropped();
+    } catch (error) {
+      // The hook reports the failure
+      console.error('Failed to drop view:', error);
+      setIsDropOpen(false);
+    }
+  };
+
+  if (isLoadingView) {
+    return (
+      <div className="flex-1 py-12 flex items-center justify-center bg-white">
+        <Loader2 className="h-6 w-6 animate-spin text-primary mr-2" />
+        <span>Loading view...</span>
+      </div>
+    );
+  }
+  if (viewError || !view) {
+    return (
+      <div className="flex-1 bg-white">
+        <p className="px-4 py-6 text-sm text-error">{viewError ? (viewError as Error).message : 'View not found'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-auto bg-white">
+      <div className="px-4 py-3 flex flex-wrap items-center justify-between gap-2 border-b border-neutral-200">
+        <p className="text-sm text-neutral-500">
+          {isMaterialized
+            ? view.populated ? describeRefresh(view.lastRefresh) : 'Holds no data until it is refreshed'
+            : 'Saving runs CREATE OR REPLACE VIEW; existing columns must keep their names and types'}
+        </p>
+        <div className="flex items-center gap-2">
+          {isMaterialized && (
+            <>
+              <label
+                className="flex items-center gap-2 text-sm"
+                title={view.canRefreshConcurrently
+                  ? 'Readers are not locked out while the view refreshes'
+                  : 'Needs existing data and a unique index on plain columns'}
+              >
+                <Checkbox
+                  checked={concurrently}
+                  disabled={!view.canRefreshConcurrently || isRefreshingView}
+                  onCheckedChange={(checked) => setConcurrently(checked === true)}
+                />
+                Concurrently
+              </label>
+              <Button size="sm" variant="outline" onClick={handleRefresh} disabled={isRefreshingView}>
+                {isRefreshingView ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                Refresh
+              </Button>
+            </>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-error hover:text-red-700"
+            onClick={() => setIsDropOpen(true)}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Drop {isMaterialized ? 'materialized view' : 'view'}
+          </Button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          readOnly={isMaterialized}
+          spellCheck={false}
+          className="font-mono text-xs min-h-[20rem]"
+        />
+        {isMaterialized ? (
+          <p className="text-xs text-neutral-500">
+            Materialized views cannot be replaced in place; drop and recreate them from the query editor to change the query
+          </p>
+        ) : (
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" onClick={() => setDraft(view.definition)} disabled={!isChanged}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset
+            </Button>
+            <Button size="sm" onClick={handleReview} disabled={!isChanged || !draft.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={isReviewOpen} onOpenChange={() => !isReplacingDefinition && setIsReviewOpen(false)}>
+        <AlertDialogContent className="sm:max-w-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace View Definition</AlertDialogTitle>
+            <AlertDialogDescription>
+              The statement below runs in its own transaction.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {definitionPreviewError ? (
+            <p className="text-sm text-error">{definitionPreviewError.message}</p>
+          ) : definitionPreview ? (
+            <pre className="bg-neutral-900 text-neutral-100 text-xs rounded-md p-3 overflow-auto max-h-80">{definitionPreview}</pre>
+          ) : (
+            <div className="flex items-center text-sm text-neutral-500">
+              {isPreviewingDefinition && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Rendering statement...
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isReplacingDefinition}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleReplace();
+              }}
+              disabled={!definitionPreview || isReplacingDefinition}
+            >
+              {isReplacingDefinition && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={isDropOpen} onOpenChange={() => !isDroppingView && setIsDropOpen(false)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Drop {isMaterialized ? 'Materialized View' : 'View'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Drop <strong>{tableName}</strong>? Queries and applications reading from it will fail.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-3">
+            <DependentObjects connectionId={connectionId} tableName={tableName} enabled={isDropOpen} />
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={cascade} onCheckedChange={(checked) => setCascade(checked === true)} />
+              Also drop dependent objects (CASCADE)
+            </label>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDroppingView}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDrop();
+              }}
+              disabled={isDroppingView}
+              className="bg-error hover:bg-red-700 focus:ring-error"
+            >
+              {isDroppingView && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Drop
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TableViewDefinition;
@@ -0,0 +1,390 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Check, Loader2, Pencil, Plus, Search, X } from 'lucide-react';
+import CreateDomainDialog from './modals/CreateDomainDialog';
+import { useDataTypes } from '@/hooks/useDatabase';
+import { formatTableReference } from '@/utils/database';
+import { CatalogSchema, EnumType, DomainType, CompositeType } from '@/types/database';
+
+interface TypeBrowserProps {
+  connectionId: number;
+  schema: string;
+  selectedType: string | null;
+  onSelectType: (schema: string, typeName: string | null) => void;
+}
+
+type SelectedType =
+  | { kind: 'enum'; type: EnumType }
+  | { kind: 'domain'; type: DomainType }
+  | { kind: 'composite'; type: CompositeType };
+
+// Where a new enum label goes: 'end', or 'before:label' / 'after:label'
+const END = 'end';
+
+const TypeBrowser: React.FC<TypeBrowserProps> = ({ connectionId, schema, selectedType, onSelectType }) => {
+  const [search, setSearch] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [position, setPosition] = useState(END);
+  const [editingLabel, setEditingLabel] = useState<string | null>(null);
+  const [labelDraft, setLabelDraft] = useState('');
+  const [isDomainDialogOpen, setIsDomainDialogOpen] = useState(false);
+
+  const { data: catalog } = useQuery<CatalogSchema[]>({
+    queryKey: ['/api/connections', connectionId, 'catalog'],
+  });
+  const {
+    types,
+    isLoadingTypes,
+    typesError,
+    usages,
+    isLoadingUsages,
+    usagesError,
+    addEnumValue,
+    isAddingValue,
+    renameEnumValue,
+    isRenamingValue,
+    previewDomain,
+    domainPreview,
+    domainPreviewError,
+    resetDomainPreview,
+    createDomain,
+    isCreatingDomain,
+  } = useDataTypes(connectionId, schema, selectedType ?? undefined);
+
+  const matches = (name: string) => !search.trim() || name.toLowerCase().includes(search.trim().toLowerCase());
+  const sections = [
+    { title: 'Enums', names: (types?.enums ?? []).map(type => type.name).filter(matches) },
+    { title: 'Domains', names: (types?.domains ?? []).map(type => type.name).filter(matches) },
+    { title: 'Composite types', names: (types?.composites ?? []).map(type => type.name).filter(matches) },
+  ];
+
+  const selected = useMemo<SelectedType | null>(() => {
+    if (!types || !selectedType) return null;
+    const enumType = types.enums.find(type => type.name === selectedType);
+    if (enumType) return { kind: 'enum', type: enumType };
+    const domain = types.domains.find(type => type.name === selectedType);
+    if (domain) return { kind: 'domain', type: domain };
+    const composite = types.composites.find(type => type.name === selectedType);
+    return composite ? { kind: 'composite', type: composite } : null;
+  }, [types, selectedType]);
+
+  useEffect(() => {
+    setNewLabel('');
+    setPosition(END);
+    setEditingLabel(null);
+  }, [schema, selectedType]);
+
+  const handleAddValue = async () => {
+    const separator = position.indexOf(':');
+    const placement = position.slice(0, separator);
+    const label = position.slice(separator + 1);
+    try {
+      await addEnumValue({
+        value: newLabel,
+        before: placement === 'before' ? label : undefined,
+        after: placement === 'after' ? label : undefined,
+      });
+      setNewLabel('');
+      setPosition(END);
+    } catch (error) {
+      // The hook reports the failure; the label is kept for corrections
+      console.error('Failed to add enum value:', error);
+    }
+  };
+
+  const handleRename = async (label: string) => {
+    try {
+      await renameEnumValue({ label, newName: labelDraft });
+      setEditingLabel(null);
+    } catch (error) {
+      // The hook reports the failure
+      console.error('Failed to rename enum value:', error);
+    }
+  };
+
+  const renderEnum = (type: EnumType) => (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-neutral-700">Labels, in sort order</h3>
+      <ol className="divide-y divide-neutral-100 rounded-md border border-neutral-200 bg-white">
+        {type.labels.map((label, index) => (
+          <li key={label} className="flex items-center gap-3 px-3 py-1.5">
+            <span className="w-6 text-xs text-neutral-400">{index + 1}</span>
+            {editingLabel === label ? (
+              <>
+                <Input
+                  className="h-7 flex-1 font-mono text-sm"
+                  value={labelDraft}
+                  onChange={(e) => setLabelDraft(e.target.value)}
+                  autoFocus
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  onClick={() => handleRename(label)}
+                  disabled={isRenamingValue || !labelDraft || labelDraft === label}
+                  title="Rename"
+                >
+                  {isRenamingValue ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                </Button>
+                <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={() => setEditingLabel(null)} title="Cancel">
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              <>
+                <span className="flex-1 font-mono text-sm">{label}</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  onClick={() => {
+                    setEditingLabel(label);
+                    setLabelDraft(label);
+                  }}
+                  title="Rename"
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+              </>
+            )}
+          </li>
+        ))}
+      </ol>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="h-8 w-48 font-mono text-sm"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder="New label"
+        />
+        <Select value={position} onValueChange={setPosition}>
+          <SelectTrigger className="h-8 w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={END}>At the end</SelectItem>
+            {type.labels.map(label => (
+              <SelectItem key={`before:${label}`} value={`before:${label}`}>Before {label}</SelectItem>
+            ))}
+            {type.labels.map(label => (
+              <SelectItem key={`after:${label}`} value={`after:${label}`}>After {label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" onClick={handleAddValue} disabled={!newLabel || isAddingValue}>
+          {isAddingValue ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          Add Value
+        </Button>
+      </div>
+      <p className="text-xs text-neutral-500">Labels cannot be removed or reordered once added</p>
+    </div>
+  );
+
+  const renderDomain = (type: DomainType) => (
+    <dl className="grid grid-cols-[8rem_1fr] gap-y-2 text-sm">
+      <dt className="text-neutral-500">Base type</dt>
+      <dd className="font-mono">{type.baseType}</dd>
+      <dt className="text-neutral-500">Nullable</dt>
+      <dd>{type.notNull ? 'No' : 'Yes'}</dd>
+      <dt className="text-neutral-500">Default</dt>
+      <dd className="font-mono">{type.defaultValue ?? '—'}</dd>
+      <dt className="text-neutral-500">Checks</dt>
+      <dd>
+        {type.checks.length === 0 ? '—' : (
+          <ul className="space-y-1">
+            {type.checks.map(check => (
+              <li key={check.name}>
+                <span className="font-medium">{check.name}</span>
+                <span className="ml-2 font-mono text-xs text-neutral-600">{check.definition}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </dd>
+    </dl>
+  );
+
+  const renderComposite = (type: CompositeType) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Attribute</TableHead>
+          <TableHead>Type</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {type.attributes.map(attribute => (
+          <TableRow key={attribute.name}>
+            <TableCell className="font-medium">{attribute.name}</TableCell>
+            <TableCell className="font-mono text-xs">{attribute.type}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      <div className="w-72 flex flex-col border-r border-neutral-200 bg-white">
+        <div className="p-3 space-y-2 border-b border-neutral-200">
+          <Select value={schema} onValueChange={(value) => onSelectType(value, null)}>
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder="Schema" />
+            </SelectTrigger>
+            <SelectContent>
+              {(catalog ?? []).map(entry => (
+                <SelectItem key={entry.name} value={entry.name}>{entry.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2 h-4 w-4 text-neutral-400" />
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Filter types..." className="h-8 pl-8" />
+          </div>
+          <Button size="sm" variant="outline" className="w-full" onClick={() => setIsDomainDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Domain
+          </Button>
+        </div>
+        <div className="flex-1 overflow-auto">
+          {isLoadingTypes ? (
+            <div className="py-6 flex items-center justify-center text-sm text-neutral-500">
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              Loading types...
+            </div>
+          ) : typesError ? (
+            <p className="p-3 text-sm text-error">{(typesError as Error).message}</p>
+          ) : (
+            sections.map(section => (
+              <div key={section.title}>
+                <h3 className="px-3 pt-3 pb-1 text-xs font-semibold uppercase text-neutral-500">{section.title}</h3>
+                {section.names.length === 0 ? (
+                  <p className="px-3 pb-2 text-xs text-neutral-400">None</p>
+                ) : (
+                  <ul>
+                    {section.names.map(name => (
+                      <li key={name}>
+                        <button
+                          type="button"
+                          onClick={() => onSelectType(schema, name)}
+                          className={`w-full text-left px-3 py-1.5 text-sm truncate hover:bg-neutral-50 ${name === selectedType ? 'bg-neutral-100 font-medium' : ''}`}
+                        >
+                          {name}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6">
+        {!selectedType ? (
+          <div className="text-center py-12">
+            <h2 className="text-lg font-medium text-neutral-700 mb-2">Select a type</h2>
+            <p className="text-neutral-500">Pick an enum, domain or composite type to see its definition and the columns using it</p>
+          </div>
+        ) : isLoadingTypes ? null : !selected ? (
+          <p className="text-sm text-error">Type {schema}.{selectedType} not found</p>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <h1 className="text-xl font-semibold text-neutral-700 break-all">{schema}.{selected.type.name}</h1>
+              <div className="mt-2">
+                <Badge variant="secondary">{selected.kind === 'composite' ? 'composite type' : selected.kind}</Badge>
+              </div>
+              {selected.type.comment && <p className="mt-2 text-sm text-neutral-600">{selected.type.comment}</p>}
+            </div>
+
+            {selected.kind === 'enum' && renderEnum(selected.type)}
+            {selected.kind === 'domain' && renderDomain(selected.type)}
+            {selected.kind === 'composite' && renderComposite(selected.type)}
+
+            <div>
+              <h3 className="text-sm font-medium text-neutral-700 mb-2">Used by</h3>
+              {isLoadingUsages ? (
+                <div className="flex items-center text-sm text-neutral-500">
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Finding columns...
+                </div>
+              ) : usagesError ? (
+                <p className="text-sm text-error">{(usagesError as Error).message}</p>
+              ) : !usages || usages.length === 0 ? (
+                <p className="text-sm text-neutral-500">No columns use this type</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Table</TableHead>
+                      <TableHead>Column</TableHead>
+                      <TableHead>Declared as</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usages.map(usage => (
+                      <TableRow key={`${usage.schema}.${usage.table}.${usage.column}`}>
+                        <TableCell>
+                          <Link
+                            href={`/table-manager?table=${encodeURIComponent(formatTableReference(usage.schema, usage.table))}`}
+                            className="text-primary hover:underline"
+                          >
+                            {usage.schema}.{usage.table}
+                          </Link>
+                          {usage.kind !== 'table' && (
+                            <Badge variant="outline" className="ml-2 text-[10px]">{usage.kind.replace('_', ' ')}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{usage.column}</TableCell>
+                        <TableCell className="font-mono text-xs">{usage.type}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <CreateDomainDialog
+        isOpen={isDomainDialogOpen}
+        onClose={() => setIsDomainDialogOpen(false)}
+        schema={schema}
+        preview={domainPreview}
+        previewError={domainPreviewError}
+        onPreview={previewDomain}
+        onResetPreview={resetDomainPreview}
+        onCreate={async (domain) => {
+          await createDomain(domain);
+          onSelectType(domain.schema, domain.name);
+        }}
+        isCreating={isCreatingDomain}
+      />
+    </div>
+  );
+};
+
+export default TypeBrowser;
@@ -0,0 +1,440 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, X } from 'lucide-react';
+import { fetchTableColumns, formatTableReference } from '@/utils/database';
+import { TableColumn, CatalogSchema, AddConstraintResponse } from '@/types/database';
+import { ConstraintDesign, ConstraintType } from '@shared/constraints';
+import { ForeignKeyAction, foreignKeyActions } from '@shared/tableDesign';
+
+interface AddConstraintDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  connectionId: number;
+  tableName: string;
+  columns: TableColumn[];
+  preview: AddConstraintResponse | undefined;
+  previewError: Error | null;
+  isPreviewing: boolean;
+  onPreview: (constraint: ConstraintDesign) => void;
+  onResetPreview: () => void;
+  onAdd: (constraint: ConstraintDesign) => Promise<unknown>;
+  isAdding: boolean;
+}
+
+// One column of the key and the column it references, or the operator it is compared with
+interface ConstraintElement {
+  column: string;
+  // Referenced column for foreign keys, operator for exclusion constraints
+  partner: string;
+}
+
+const typeLabels: Record<ConstraintType, string> = {
+  check: 'CHECK',
+  unique: 'UNIQUE',
+  foreign_key: 'FOREIGN KEY',
+  exclude: 'EXCLUDE',
+};
+
+const AddConstraintDialog: React.FC<AddConstraintDialogProps> = ({
+  isOpen,
+  onClose,
+  connectionId,
+  tableName,
+  columns,
+  preview,
+  previewError,
+  isPreviewing,
+  onPreview,
+  onResetPreview,
+  onAdd,
+  isAdding,
+}) => {
+  const [type, setType] = useState<ConstraintType>('check');
+  const [name, setName] = useState('');
+  const [expression, setExpression] = useState('');
+  const [elements, setElements] = useState<ConstraintElement[]>([{ column: '', partner: '' }]);
+  const [referencedTable, setReferencedTable] = useState('');
+  const [onUpdate, setOnUpdate] = useState<ForeignKeyAction>('NO ACTION');
+  const [onDelete, setOnDelete] = useState<ForeignKeyAction>('NO ACTION');
+  const [method, setMethod] = useState<'gist' | 'btree' | 'hash' | 'spgist'>('gist');
+  const [where, setWhere] = useState('');
+  const [notValid, setNotValid] = useState(false);
+  const [deferrable, setDeferrable] = useState(false);
+  const [initiallyDeferred, setInitiallyDeferred] = useState(false);
+
+  // Start from a blank constraint each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setType('check');
+      setName('');
+      setExpression('');
+      setElements([{ column: '', partner: '' }]);
+      setReferencedTable('');
+      setOnUpdate('NO ACTION');
+      setOnDelete('NO ACTION');
+      setMethod('gist');
+      setWhere('');
+      setNotValid(false);
+      setDeferrable(false);
+      setInitiallyDeferred(false);
+    }
+  }, [isOpen]);
+
+  // Exclusion elements default to equality; foreign keys pick their partner column
+  useEffect(() => {
+    setElements([{ column: '', partner: type === 'exclude' ? '=' : '' }]);
+  }, [type]);
+
+  const { data: catalog } = useQuery<CatalogSchema[]>({
+    queryKey: ['/api/connections', connectionId, 'catalog'],
+    enabled: isOpen && type === 'foreign_key',
+  });
+  const tables = useMemo(
+    () => (catalog || []).flatMap(schema => schema.objects
+      .filter(object => object.kind === 'table' || object.kind === 'partitioned_table')
+      .map(object => ({ schema: schema.name, name: object.name, reference: formatTableReference(schema.name, object.name) }))),
+    [catalog]
+  );
+  const referenced = tables.find(table => table.reference === referencedTable);
+
+  const { data: referencedColumns } = useQuery<TableColumn[]>({
+    queryKey: ['/api/connections', connectionId, 'tables', referencedTable, 'columns'],
+    queryFn: () => fetchTableColumns(connectionId, referencedTable),
+    enabled: !!referencedTable,
+  });
+
+  const constraint = useMemo<ConstraintDesign | null>(() => {
+    const constraintName = name.trim() || undefined;
+    const picked = elements.filter(element => element.column);
+    const deferral = { deferrable, initiallyDeferred: deferrable && initiallyDeferred };
+
+    switch (type) {
+      case 'check':
+        return expression.trim() ? { type, name: constraintName, expression: expression.trim(), notValid } : null;
+      case 'unique':
+        return picked.length > 0 ? { type, name: constraintName, columns: picked.map(element => element.column), ...deferral } : null;
+      case 'foreign_key':
+        return referenced && picked.length > 0 && picked.every(element => element.partner)
+          ? {
+              type,
+              name: constraintName,
+              columns: picked.map(element => element.column),
+              referencedSchema: referenced.schema,
+              referencedTable: referenced.name,
+              referencedColumns: picked.map(element => element.partner),
+              onUpdate,
+              onDelete,
+              notValid,
+              ...deferral,
+            }
+          : null;
+      case 'exclude':
+        return picked.length > 0 && picked.every(element => element.partner.trim())
+          ? {
+              type,
+              name: constraintName,
+              method,
+              elements: picked.map(element => ({ column: element.column, operator: element.partner.trim() })),
+              where: where.trim() || undefined,
+              ...deferral,
+            }
+          : null;
+    }
+  }, [type, name, expression, elements, referenced, onUpdate, onDelete, method, where, notValid, deferrable, initiallyDeferred]);
+
+  // Preview once typing pauses; counting violations scans the table
+  useEffect(() => {
+    onResetPreview();
+    if (!constraint || !isOpen) return;
+    const timeout = setTimeout(() => onPreview(constraint), 500);
+    return () => clearTimeout(timeout);
+  }, [constraint, isOpen, onPreview, onResetPreview]);
+
+  const updateElement = (index: number, update: Partial<ConstraintElement>) => {
+    setElements(prev => prev.map((element, i) => (i === index ? { ...element, ...update } : element)));
+  };
+
+  const handleAdd = async () => {
+    if (!constraint) return;
+    try {
+      await onAdd(constraint);
+      onClose();
+    } catch (error) {
+      // The hook reports the failure; keep the dialog open for corrections
+      console.error('Failed to add constraint:', error);
+    }
+  };
+
+  const supportsNotValid = type === 'check' || type === 'foreign_key';
+  const supportsDeferrable = type !== 'check';
+  const violations = preview?.violations;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={() => !isAdding && onClose()}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Constraint</DialogTitle>
+          <DialogDescription>{tableName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="constraint-type">Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as ConstraintType)}>
+                <SelectTrigger id="constraint-type" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(typeLabels) as ConstraintType[]).map(option => (
+                    <SelectItem key={option} value={option}>{typeLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="constraint-name">Name</Label>
+              <Input id="constraint-name" className="mt-1" value={name} onChange={(e) => setName(e.target.value)} placeholder="Generated when empty" />
+            </div>
+          </div>
+
+          {type === 'check' && (
+            <div>
+              <Label htmlFor="constraint-expression">Expression</Label>
+              <Input
+                id="constraint-expression"
+                className="mt-1 font-mono text-sm"
+                value={expression}
+                onChange={(e) => setExpression(e.target.value)}
+                placeholder="e.g. price >= 0"
+              />
+            </div>
+          )}
+
+          {type === 'foreign_key' && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <Label>References</Label>
+                <Select
+                  value={referencedTable}
+                  onValueChange={(value) => {
+                    setReferencedTable(value);
+                    setElements(prev => prev.map(element => ({ ...element, partner: '' })));
+                  }}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Table" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tables.map(table => (
+                      <SelectItem key={table.reference} value={table.reference}>{table.reference}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>On update</Label>
+                <Select value={onUpdate} onValueChange={(value) => setOnUpdate(value as ForeignKeyAction)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {foreignKeyActions.map(action => <SelectItem key={action} value={action}>{action}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>On delete</Label>
+                <Select value={onDelete} onValueChange={(value) => setOnDelete(value as ForeignKeyAction)}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {foreignKeyActions.map(action => <SelectItem key={action} value={action}>{action}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {type === 'exclude' && (
+            <div>
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as typeof method)}>
+                <SelectTrigger className="mt-1 w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="gist">GiST</SelectItem>
+                  <SelectItem value="spgist">SP-GiST</SelectItem>
+                  <SelectItem value="btree">B-tree</SelectItem>
+                  <SelectItem value="hash">Hash</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {type !== 'check' && (
+            <div>
+              <Label>
+                {type === 'foreign_key' ? 'Columns and referenced columns' : type === 'exclude' ? 'Columns and operators' : 'Columns'}
+              </Label>
+              <div className="mt-1 space-y-2">
+                {elements.map((element, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select value={element.column} onValueChange={(column) => updateElement(index, { column })}>
+                      <SelectTrigger className="h-8 flex-1">
+                        <SelectValue placeholder="Column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {columns.map(column => (
+                          <SelectItem key={column.column_name} value={column.column_name}>{column.column_name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {type === 'foreign_key' && (
+                      <Select
+                        value={element.partner}
+                        onValueChange={(partner) => updateElement(index, { partner })}
+                        disabled={!referencedTable}
+                      >
+                        <SelectTrigger className="h-8 flex-1">
+                          <SelectValue placeholder="Referenced column" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(referencedColumns || []).map(column => (
+                            <SelectItem key={column.column_name} value={column.column_name}>{column.column_name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {type === 'exclude' && (
+                      <Input
+                        className="h-8 w-24 font-mono text-sm"
+                        value={element.partner}
+                        onChange={(e) => updateElement(index, { partner: e.target.value })}
+                        placeholder="&&"
+                      />
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={elements.length === 1}
+                      onClick={() => setElements(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setElements(prev => [...prev, { column: '', partner: type === 'exclude' ? '=' : '' }])}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Column
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {type === 'exclude' && (
+            <div>
+              <Label htmlFor="constraint-where">WHERE</Label>
+              <Input
+                id="constraint-where"
+                className="mt-1 font-mono text-sm"
+                value={where}
+                onChange={(e) => setWhere(e.target.value)}
+                placeholder="Optional predicate"
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-6">
+            {supportsNotValid && (
+              <label className="flex items-center gap-2 text-sm" title="Existing rows are not checked until the constraint is validated">
+                <Checkbox checked={notValid} onCheckedChange={(checked) => setNotValid(checked === true)} />
+                NOT VALID
+              </label>
+            )}
+            {supportsDeferrable && (
+              <>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox checked={deferrable} onCheckedChange={(checked) => setDeferrable(checked === true)} />
+                  Deferrable
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={deferrable && initiallyDeferred}
+                    disabled={!deferrable}
+                    onCheckedChange={(checked) => setInitiallyDeferred(checked === true)}
+                  />
+                  Initially deferred
+                </label>
+              </>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-neutral-700 mb-2">DDL</h4>
+            {previewError ? (
+              <p className="text-sm text-error">{previewError.message}</p>
+            ) : preview ? (
+              <>
+                <pre className="bg-neutral-900 text-neutral-100 text-xs rounded-md p-3 overflow-x-auto">{preview.sql}</pre>
+                <p className={`mt-2 text-sm ${violations ? 'text-error' : 'text-neutral-600'}`}>
+                  {violations === null || violations === undefined
+                    ? 'Counting existing violations timed out'
+                    : violations === 0
+                      ? 'No existing rows violate this constraint'
+                      : `${violations} existing row${violations === 1 ? '' : 's'} violate${violations === 1 ? 's' : ''} this constraint` +
+                        (supportsNotValid && notValid ? '; they are kept until the constraint is validated' : '; adding it will fail')}
+                </p>
+              </>
+            ) : (
+              <div className="flex items-center text-sm text-neutral-500">
+                {isPreviewing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {constraint ? 'Checking existing rows...' : 'Fill in the form to see the statement'}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isAdding}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleAdd} disabled={!constraint || !preview || isAdding}>
+            {isAdding && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add Constraint
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddConstraintDialog;
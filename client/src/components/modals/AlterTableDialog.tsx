@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from 'lucide-react';
+import DependentObjects from '../DependentObjects';
+import { useTableStructure } from '@/hooks/useDatabase';
+import { TableColumn, AlterTableResponse } from '@/types/database';
+import { commonColumnTypes, formatColumnType } from '@/utils/columnTypes';
+import { AlterTableOperation } from '@shared/tableDesign';
+
+export type AlterAction = AlterTableOperation['action'];
+
+// The change being prepared: its action, and the column it applies to
+export interface AlterRequest {
+  action: AlterAction;
+  column?: TableColumn;
+}
+
+interface AlterTableDialogProps {
+  request: AlterRequest | null;
+  onClose: () => void;
+  connectionId: number;
+  tableName: string;
+  onApplied: (result: AlterTableResponse) => void;
+}
+
+const titles: Record<AlterAction, string> = {
+  add_column: 'Add column',
+  rename_column: 'Rename column',
+  drop_column: 'Drop column',
+  alter_column_type: 'Change column type',
+  set_not_null: 'Change nullability',
+  set_default: 'Change default',
+  rename_table: 'Rename table',
+  drop_table: 'Drop table',
+};
+
+const isDestructive = (action: AlterAction) => action === 'drop_column' || action === 'drop_table';
+
+const AlterTableDialog: React.FC<AlterTableDialogProps> = ({
+  request,
+  onClose,
+  connectionId,
+  tableName,
+  onApplied,
+}) => {
+  const [name, setName] = useState('');
+  const [type, setType] = useState('text');
+  const [using, setUsing] = useState('');
+  const [defaultValue, setDefaultValue] = useState('');
+  const [nullable, setNullable] = useState(true);
+  const [identity, setIdentity] = useState<'none' | 'always' | 'by_default'>('none');
+  const [cascade, setCascade] = useState(false);
+
+  const {
+    previewChanges,
+    preview,
+    previewError,
+    isPreviewing,
+    resetPreview,
+    alterTable,
+    isAlteringTable,
+  } = useTableStructure(connectionId, tableName);
+
+  // Prefill the form from the column being changed
+  useEffect(() => {
+    if (!request) return;
+    const column = request.column;
+    setName(request.action === 'rename_column' && column ? column.column_name : '');
+    setType(column ? formatColumnType(column) : 'text');
+    setUsing('');
+    setDefaultValue(column?.column_default ?? '');
+    setNullable(true);
+    setIdentity('none');
+    setCascade(false);
+    resetPreview();
+  }, [request, resetPreview]);
+
+  // The operation described by the form, or null while it is incomplete
+  const operation = useMemo<AlterTableOperation | null>(() => {
+    if (!request) return null;
+    const column = request.column?.column_name || '';
+
+    switch (request.action) {
+      case 'add_column':
+        return name.trim() && type.trim()
+          ? { action: 'add_column', column: { name: name.trim(), type: type.trim(), nullable, defaultValue: defaultValue.trim() || null, identity } }
+          : null;
+      case 'rename_column':
+        return name.trim() && name.trim() !== column ? { action: 'rename_column', column, newName: name.trim() } : null;
+      case 'drop_column':
+        return { action: 'drop_column', column, cascade };
+      case 'alter_column_type':
+        return type.trim() ? { action: 'alter_column_type', column, type: type.trim(), using: using.trim() || undefined } : null;
+      case 'set_not_null':
+        return { action: 'set_not_null', column, notNull: request.column?.is_nullable === 'YES' };
+      case 'set_default':
+        return { action: 'set_default', column, defaultValue: defaultValue.trim() || null };
+      case 'rename_table':
+        return name.trim() ? { action: 'rename_table', newName: name.trim() } : null;
+      case 'drop_table':
+        return { action: 'drop_table', cascade };
+    }
+  }, [request, name, type, using, defaultValue, nullable, identity, cascade]);
+
+  // Show the DDL for the current form once typing pauses
+  useEffect(() => {
+    resetPreview();
+    if (!operation) return;
+    const timeout = setTimeout(() => previewChanges([operation]), 300);
+    return () => clearTimeout(timeout);
+  }, [operation, previewChanges, resetPreview]);
+
+  const handleApply = async () => {
+    if (!operation) return;
+    try {
+      const result = await alterTable([operation]);
+      onApplied(result);
+      onClose();
+    } catch (error) {
+      // The hook reports the failure; keep the dialog open for corrections
+      console.error('Failed to alter table:', error);
+    }
+  };
+
+  if (!request) return null;
+  const column = request.column;
+
+  return (
+    <Dialog open={!!request} onOpenChange={() => !isAlteringTable && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{titles[request.action]}</DialogTitle>
+          <DialogDescription>
+            {column ? `${tableName}.${column.column_name}` : tableName}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {(request.action === 'add_column' || request.action === 'rename_column' || request.action === 'rename_table') && (
+            <div>
+              <Label htmlFor="alter-name">{request.action === 'add_column' ? 'Name' : 'New name'}</Label>
+              <Input id="alter-name" className="mt-1" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+            </div>
+          )}
+
+          {(request.action === 'add_column' || request.action === 'alter_column_type') && (
+            <div>
+              <Label htmlFor="alter-type">Type</Label>
+              <Input id="alter-type" className="mt-1" list="alter-types" value={type} onChange={(e) => setType(e.target.value)} />
+              <datalist id="alter-types">
+                {commonColumnTypes.map(option => <option key={option} value={option} />)}
+              </datalist>
+            </div>
+          )}
+
+          {request.action === 'alter_column_type' && (
+            <div>
+              <Label htmlFor="alter-using">USING expression</Label>
+              <Input
+                id="alter-using"
+                className="mt-1 font-mono text-sm"
+                value={using}
+                onChange={(e) => setUsing(e.target.value)}
+                placeholder={column ? `${column.column_name}::${type || 'type'}` : ''}
+              />
+              <p className="mt-1 text-xs text-neutral-500">Optional; converts existing values when there is no automatic cast</p>
+            </div>
+          )}
+
+          {(request.action === 'add_column' || request.action === 'set_default') && (
+            <div>
+              <Label htmlFor="alter-default">Default</Label>
+              <Input
+                id="alter-default"
+                className="mt-1 font-mono text-sm"
+                value={defaultValue}
+                onChange={(e) => setDefaultValue(e.target.value)}
+                placeholder="e.g. now()"
+                disabled={identity !== 'none'}
+              />
+              {request.action === 'set_default' && (
+                <p className="mt-1 text-xs text-neutral-500">Leave empty to drop the default</p>
+              )}
+            </div>
+          )}
+
+          {request.action === 'add_column' && (
+            <div className="flex items-center gap-6">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={nullable && identity === 'none'}
+                  disabled={identity !== 'none'}
+                  onCheckedChange={(checked) => setNullable(checked === true)}
+                />
+                Nullable
+              </label>
+              <div className="flex items-center gap-2 text-sm">
+                <span>Identity</span>
+                <Select value={identity} onValueChange={(value) => setIdentity(value as typeof identity)}>
+                  <SelectTrigger className="h-8 w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="always">Always</SelectItem>
+                    <SelectItem value="by_default">By default</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {request.action === 'set_not_null' && column && (
+            <p className="text-sm text-neutral-600">
+              {column.is_nullable === 'YES'
+                ? 'Existing NULL values make this change fail.'
+                : 'The column will accept NULL values.'}
+            </p>
+          )}
+
+          {isDestructive(request.action) && (
+            <>
+              <p className="text-sm text-error">
+                {request.action === 'drop_table'
+                  ? 'The table and all of its rows will be permanently removed.'
+                  : 'The column and its values will be permanently removed.'}
+              </p>
+              {request.action === 'drop_table' && (
+                <DependentObjects connectionId={connectionId} tableName={tableName} enabled />
+              )}
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={cascade} onCheckedChange={(checked) => setCascade(checked === true)} />
+                Also drop dependent objects (CASCADE)
+              </label>
+            </>
+          )}
+
+          <div>
+            <h4 className="text-sm font-medium text-neutral-700 mb-2">DDL</h4>
+            {previewError ? (
+              <p className="text-sm text-error">{previewError.message}</p>
+            ) : preview ? (
+              <pre className="bg-neutral-900 text-neutral-100 text-xs rounded-md p-3 overflow-x-auto">{preview.join('\n')}</pre>
+            ) : (
+              <div className="flex items-center text-sm text-neutral-500">
+                {isPreviewing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {operation ? 'Rendering statement...' : 'Fill in the form to see the statement'}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isAlteringTable}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant={isDestructive(request.action) ? 'destructive' : 'default'}
+            onClick={handleApply}
+            disabled={!operation || !preview || isAlteringTable}
+          >
+            {isAlteringTable && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlterTableDialog;
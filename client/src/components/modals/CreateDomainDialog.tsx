@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2 } from 'lucide-react';
+import { commonColumnTypes } from '@/utils/columnTypes';
+import { DomainDesign } from '@shared/dataTypes';
+
+interface CreateDomainDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  schema: string;
+  preview: string | undefined;
+  previewError: Error | null;
+  onPreview: (domain: DomainDesign) => void;
+  onResetPreview: () => void;
+  onCreate: (domain: DomainDesign) => Promise<unknown>;
+  isCreating: boolean;
+}
+
+const CreateDomainDialog: React.FC<CreateDomainDialogProps> = ({
+  isOpen,
+  onClose,
+  schema,
+  preview,
+  previewError,
+  onPreview,
+  onResetPreview,
+  onCreate,
+  isCreating,
+}) => {
+  const [name, setName] = useState('');
+  const [baseType, setBaseType] = useState('text');
+  const [notNull, setNotNull] = useState(false);
+  const [defaultValue, setDefaultValue] = useState('');
+  const [check, setCheck] = useState('');
+
+  // Start from a blank domain each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setBaseType('text');
+      setNotNull(false);
+      setDefaultValue('');
+      setCheck('');
+    }
+  }, [isOpen]);
+
+  const domain = useMemo<DomainDesign | null>(() => {
+    if (!name.trim() || !baseType.trim()) return null;
+    return {
+      schema,
+      name: name.trim(),
+      baseType: baseType.trim(),
+      notNull,
+      defaultValue: defaultValue.trim() || undefined,
+      check: check.trim() || undefined,
+    };
+  }, [schema, name, baseType, notNull, defaultValue, check]);
+
+  // Show the DDL for the current form once typing pauses
+  useEffect(() => {
+    onResetPreview();
+    if (!domain || !isOpen) return;
+    const timeout = setTimeout(() => onPreview(domain), 300);
+    return () => clearTimeout(timeout);
+  }, [domain, isOpen, onPreview, onResetPreview]);
+
+  const handleCreate = async () => {
+    if (!domain) return;
+    try {
+      await onCreate(domain);
+      onClose();
+    } catch (error) {
+      // The hook reports the failure; keep the dialog open for corrections
+      console.error('Failed to create domain:', error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={() => !isCreating && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Domain</DialogTitle>
+          <DialogDescription>A base type with its own default and checks, in schema {schema}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="domain-name">Name</Label>
+              <Input id="domain-name" className="mt-1" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. postal_code" />
+            </div>
+            <div>
+              <Label htmlFor="domain-type">Base type</Label>
+              <Input id="domain-type" className="mt-1" list="domain-types" value={baseType} onChange={(e) => setBaseType(e.target.value)} />
+              <datalist id="domain-types">
+                {commonColumnTypes.map(option => <option key={option} value={option} />)}
+              </datalist>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="domain-default">Default</Label>
+            <Input
+              id="domain-default"
+              className="mt-1 font-mono text-sm"
+              value={defaultValue}
+              onChange={(e) => setDefaultValue(e.target.value)}
+              placeholder="Optional expression"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="domain-check">CHECK</Label>
+            <Input
+              id="domain-check"
+              className="mt-1 font-mono text-sm"
+              value={check}
+              onChange={(e) => setCheck(e.target.value)}
+              placeholder="Optional condition on VALUE, e.g. VALUE ~ '^\d{5}$'"
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={notNull} onCheckedChange={(checked) => setNotNull(checked === true)} />
+            Not null
+          </label>
+
+          <div>
+            <h4 className="text-sm font-medium text-neutral-700 mb-2">DDL</h4>
+            {previewError ? (
+              <p className="text-sm text-error">{previewError.message}</p>
+            ) : preview ? (
+              <pre className="bg-neutral-900 text-neutral-100 text-xs rounded-md p-3 overflow-x-auto">{preview}</pre>
+            ) : (
+              <p className="text-sm text-neutral-500">Enter a name and base type to see the statement</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isCreating}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleCreate} disabled={!domain || !preview || isCreating}>
+            {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Domain
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateDomainDialog;
@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from 'lucide-react';
+import { TableColumn } from '@/types/database';
+import { IndexDesign, IndexMethod, indexMethods } from '@shared/indexes';
+
+interface CreateIndexDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tableName: string;
+  columns: TableColumn[];
+  preview: string | undefined;
+  previewError: Error | null;
+  onPreview: (index: IndexDesign) => void;
+  onResetPreview: () => void;
+  onCreate: (index: IndexDesign) => Promise<unknown>;
+  isCreating: boolean;
+}
+
+const methodLabels: Record<IndexMethod, string> = {
+  btree: 'B-tree',
+  gin: 'GIN',
+  gist: 'GiST',
+  brin: 'BRIN',
+  hash: 'Hash',
+};
+
+const CreateIndexDialog: React.FC<CreateIndexDialogProps> = ({
+  isOpen,
+  onClose,
+  tableName,
+  columns,
+  preview,
+  previewError,
+  onPreview,
+  onResetPreview,
+  onCreate,
+  isCreating,
+}) => {
+  const [name, setName] = useState('');
+  const [method, setMethod] = useState<IndexMethod>('btree');
+  // Key columns in the order they were picked
+  const [selected, setSelected] = useState<string[]>([]);
+  const [unique, setUnique] = useState(false);
+  const [concurrently, setConcurrently] = useState(false);
+  const [where, setWhere] = useState('');
+
+  // Start from a blank index each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setMethod('btree');
+      setSelected([]);
+      setUnique(false);
+      setConcurrently(false);
+      setWhere('');
+    }
+  }, [isOpen]);
+
+  const index = useMemo<IndexDesign | null>(() => {
+    if (selected.length === 0) return null;
+    return {
+      name: name.trim() || undefined,
+      method,
+      columns: selected,
+      unique: unique && method === 'btree',
+      concurrently,
+      where: where.trim() || undefined,
+    };
+  }, [name, method, selected, unique, concurrently, where]);
+
+  // Show the DDL for the current form once typing pauses
+  useEffect(() => {
+    onResetPreview();
+    if (!index || !isOpen) return;
+    const timeout = setTimeout(() => onPreview(index), 300);
+    return () => clearTimeout(timeout);
+  }, [index, isOpen, onPreview, onResetPreview]);
+
+  const toggleColumn = (columnName: string, checked: boolean) => {
+    setSelected(prev => (checked ? [...prev, columnName] : prev.filter(name => name !== columnName)));
+  };
+
+  const handleCreate = async () => {
+    if (!index) return;
+    try {
+      await onCreate(index);
+      onClose();
+    } catch (error) {
+      // The hook reports the failure; keep the dialog open for corrections
+      console.error('Failed to create index:', error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={() => !isCreating && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Index</DialogTitle>
+          <DialogDescription>{tableName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="index-name">Name</Label>
+              <Input id="index-name" className="mt-1" value={name} onChange={(e) => setName(e.target.value)} placeholder="Generated when empty" />
+            </div>
+            <div>
+              <Label htmlFor="index-method">Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as IndexMethod)}>
+                <SelectTrigger id="index-method" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {indexMethods.map(option => (
+                    <SelectItem key={option} value={option}>{methodLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Columns</Label>
+            <div className="mt-1 grid grid-cols-2 gap-2 max-h-40 overflow-y-auto rounded-md border border-neutral-200 p-2">
+              {columns.map(column => {
+                const position = selected.indexOf(column.column_name);
+                return (
+                  <label key={column.column_name} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={position !== -1}
+                      onCheckedChange={(checked) => toggleColumn(column.column_name, checked === true)}
+                    />
+                    <span className="truncate">{column.column_name}</span>
+                    {position !== -1 && selected.length > 1 && (
+                      <span className="text-xs text-neutral-400">#{position + 1}</span>
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="index-where">WHERE</Label>
+            <Input
+              id="index-where"
+              className="mt-1 font-mono text-sm"
+              value={where}
+              onChange={(e) => setWhere(e.target.value)}
+              placeholder="Optional predicate for a partial index"
+            />
+          </div>
+
+          <div className="flex items-center gap-6">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={unique && method === 'btree'}
+                disabled={method !== 'btree'}
+                onCheckedChange={(checked) => setUnique(checked === true)}
+              />
+              Unique
+            </label>
+            <label className="flex items-center gap-2 text-sm" title="Builds without blocking writes; runs outside a transaction">
+              <Checkbox checked={concurrently} onCheckedChange={(checked) => setConcurrently(checked === true)} />
+              Concurrently
+            </label>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-neutral-700 mb-2">DDL</h4>
+            {previewError ? (
+              <p className="text-sm text-error">{previewError.message}</p>
+            ) : preview ? (
+              <pre className="bg-neutral-900 text-neutral-100 text-xs rounded-md p-3 overflow-x-auto">{preview}</pre>
+            ) : (
+              <p className="text-sm text-neutral-500">Pick at least one column to see the statement</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isCreating}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleCreate} disabled={!index || !preview || isCreating}>
+            {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Index
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateIndexDialog;
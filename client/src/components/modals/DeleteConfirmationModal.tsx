@@ -17,6 +17,7 @@ interface DeleteConfirmationModalProps {
   onConfirm: () => void;
   isDeleting: boolean;
   tableName: string;
+  rowCount?: number;
 }
 
 const DeleteConfirmationModal: React.FC<DeleteConfirmationModalProps> = ({
@@ -24,7 +25,8 @@ const DeleteConfirmationModal: React.FC<DeleteConfirmationModalProps> = ({
   onClose,
   onConfirm,
   isDeleting,
-  tableName
+  tableName,
+  rowCount = 1
 }) => {
   return (
     <AlertDialog open={isOpen} onOpenChange={() => !isDeleting && onClose()}>
@@ -45,10 +47,10 @@ const DeleteConfirmationModal: React.FC<DeleteConfirmationModalProps> = ({
                 d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
               />
             </svg>
-            Delete Row
+            {rowCount === 1 ? 'Delete Row' : `Delete ${rowCount} Rows`}
           </AlertDialogTitle>
           <AlertDialogDescription>
-            Are you sure you want to delete this row from the <strong>{tableName}</strong> table? All of its data will be permanently removed.
+            Are you sure you want to delete {rowCount === 1 ? 'this row' : `these ${rowCount} rows`} from the <strong>{tableName}</strong> table? All of {rowCount === 1 ? 'its' : 'their'} data will be permanently removed.
             This action cannot be undone.
           </AlertDialogDescription>
         </AlertDialogHeader>
@@ -7,129 +7,340 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Loader2 } from 'lucide-react';
-
-interface ColumnInfo {
-  column_name: string;
-  data_type: string;
-  is_nullable: string;
-  primary_key?: string;
-}
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2, Plus, X } from 'lucide-react';
+import { TableColumn, ForeignKey } from '@/types/database';
+import ColumnValueEditor from '../ColumnValueEditor';
+import ForeignKeyPicker from '../ForeignKeyPicker';
+import {
+  editorKindFor,
+  isArrayColumn,
+  hasDatabaseDefault,
+  isGeneratedColumn,
+  formatColumnType,
+  toEditorText,
+  toEditorItems,
+  fromEditorText,
+  validateEditorText,
+} from '@/utils/columnTypes';
 
 interface EditRowModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (data: Record<string, any>) => void;
   row: Record<string, any> | null;
-  columns: ColumnInfo[];
+  columns: TableColumn[];
   isSaving: boolean;
+  connectionId?: number;
+  // Keys this table holds to others; their columns get a lookup picker
+  foreignKeys?: ForeignKey[];
 }
 
+// Editing state of one column
+interface FieldState {
+  text: string;
+  // Elements of array columns
+  items: string[];
+  isNull: boolean;
+  // New rows only: leave the column out so the database fills it in
+  useDefault: boolean;
+  changed: boolean;
+}
+
+// Identity columns declared GENERATED ALWAYS only accept DEFAULT in updates
+const isReadOnly = (column: TableColumn, isNewRow: boolean): boolean => {
+  return isGeneratedColumn(column) || (!isNewRow && column.identity_generation === 'ALWAYS');
+};
+
 const EditRowModal: React.FC<EditRowModalProps> = ({
   isOpen,
   onClose,
   onSave,
   row,
   columns,
-  isSaving
+  isSaving,
+  connectionId,
+  foreignKeys = []
 }) => {
-  const [formData, setFormData] = useState<Record<string, any>>({});
-  
-  // Initialize form data when the row or columns change
+  const [fields, setFields] = useState<Record<string, FieldState>>({});
+  const isNewRow = !row;
+
+  // Initialize form state when the row or columns change
   useEffect(() => {
-    if (row) {
-      // Editing existing row
-      setFormData({ ...row });
-    } else {
-      // Adding new row, initialize with empty values
-      const initialData: Record<string, any> = {};
-      columns.forEach(column => {
-        // Skip primary keys with auto-increment for new rows
-        if (column.primary_key === 'PRIMARY KEY' && column.column_name.toLowerCase() === 'id') {
-          return;
-        }
-        initialData[column.column_name] = '';
+    const initial: Record<string, FieldState> = {};
+    columns.forEach(column => {
+      const kind = editorKindFor(column);
+      if (row) {
+        // Editing existing row
+        const value = row[column.column_name];
+        initial[column.column_name] = {
+          text: isArrayColumn(column) ? '' : toEditorText(kind, value),
+          items: isArrayColumn(column) ? toEditorItems(kind, value) : [],
+          isNull: value === null,
+          useDefault: false,
+          changed: false,
+        };
+      } else {
+        // Adding new row; columns with defaults are left to the database
+        const useDefault = hasDatabaseDefault(column);
+        initial[column.column_name] = {
+          text: '',
+          items: [],
+          isNull: !useDefault && column.is_nullable === 'YES',
+          useDefault,
+          changed: false,
+        };
+      }
+    });
+    setFields(initial);
+  }, [row, columns]);
+
+  const updateField = (columnName: string, update: Partial<FieldState>) => {
+    setFields(prev => ({
+      ...prev,
+      [columnName]: { ...prev[columnName], ...update, changed: true },
+    }));
+  };
+
+  // Picking a referenced row fills every column of the key
+  const pickReferencedRow = (foreignKey: ForeignKey, referencedRow: Record<string, any>) => {
+    setFields(prev => {
+      const next = { ...prev };
+      foreignKey.columns.forEach((columnName, index) => {
+        const column = columns.find(col => col.column_name === columnName);
+        if (!column || !next[columnName]) return;
+        next[columnName] = {
+          ...next[columnName],
+          text: toEditorText(editorKindFor(column), referencedRow[foreignKey.referencedColumns[index]]),
+          isNull: false,
+          useDefault: false,
+          changed: true,
+        };
       });
-      setFormData(initialData);
+      return next;
+    });
+  };
+
+  // Whether a column's value is part of the saved data
+  const isIncluded = (column: TableColumn, field: FieldState | undefined): boolean => {
+    if (!field || isReadOnly(column, isNewRow)) return false;
+    return isNewRow ? !field.useDefault : field.changed;
+  };
+
+  const validateField = (column: TableColumn, field: FieldState | undefined): string | null => {
+    if (!field || !isIncluded(column, field) || field.isNull) return null;
+    const kind = editorKindFor(column);
+    if (isArrayColumn(column)) {
+      for (const [index, item] of Array.from(field.items.entries())) {
+        const error = validateEditorText(kind, item, column, column.element_type || 'text');
+        if (error) return `Element ${index + 1}: ${error}`;
+      }
+      return null;
     }
-  }, [row, columns]);
-  
-  // Handle input change
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({ ...prev, [name]: value }));
+    return validateEditorText(kind, field.text, column);
   };
-  
+
+  const errors = Object.fromEntries(
+    columns.map(column => [column.column_name, validateField(column, fields[column.column_name])])
+  );
+  const hasErrors = Object.values(errors).some(error => error !== null);
+
   // Handle form submission
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    // Convert string values to appropriate types based on column data type
+    if (hasErrors) return;
+
+    // Only send what the user set: new values for inserts, changes for updates
     const processedData: Record<string, any> = {};
-    
-    for (const key in formData) {
-      const column = columns.find(col => col.column_name === key);
-      if (!column) continue;
-      
-      const value = formData[key];
-      
-      // Skip empty values for nullable columns
-      if (value === '' && column.is_nullable === 'YES') {
-        processedData[key] = null;
-        continue;
-      }
-      
-      // Convert to appropriate type based on PostgreSQL data type
-      if (column.data_type.includes('int') && value !== '') {
-        processedData[key] = parseInt(value, 10);
-      } else if (column.data_type.includes('float') || column.data_type.includes('numeric') || column.data_type.includes('decimal')) {
-        processedData[key] = parseFloat(value);
-      } else if (column.data_type.includes('bool')) {
-        processedData[key] = value === 'true';
+
+    columns.forEach(column => {
+      const field = fields[column.column_name];
+      if (!isIncluded(column, field)) return;
+
+      const kind = editorKindFor(column);
+      if (field.isNull) {
+        processedData[column.column_name] = null;
+      } else if (isArrayColumn(column)) {
+        processedData[column.column_name] = field.items.map(item => fromEditorText(kind, item));
       } else {
-        processedData[key] = value;
+        processedData[column.column_name] = fromEditorText(kind, field.text);
       }
+    });
+
+    if (!isNewRow && Object.keys(processedData).length === 0) {
+      onClose();
+      return;
     }
-    
+
     onSave(processedData);
   };
-  
+
+  const renderValue = (column: TableColumn, field: FieldState) => {
+    const kind = editorKindFor(column);
+    const inputId = `edit-${column.column_name}`;
+
+    if (isGeneratedColumn(column)) {
+      return (
+        <div className="mt-1 rounded-md border border-neutral-200 bg-neutral-100 px-3 py-2 text-sm text-neutral-500 font-mono">
+          {row ? String(row[column.column_name] ?? 'NULL') : `GENERATED ALWAYS AS ${column.generation_expression}`}
+        </div>
+      );
+    }
+    if (field.useDefault) {
+      return (
+        <div className="mt-1 rounded-md border border-neutral-200 bg-neutral-100 px-3 py-2 text-sm text-neutral-500 font-mono">
+          DEFAULT {column.column_default ?? (column.is_identity === 'YES' ? 'identity' : '')}
+        </div>
+      );
+    }
+    if (field.isNull) {
+      return (
+        <div className="mt-1 rounded-md border border-dashed border-neutral-300 px-3 py-2 text-sm italic text-neutral-400">
+          NULL
+        </div>
+      );
+    }
+
+    const readOnly = isReadOnly(column, isNewRow);
+
+    if (isArrayColumn(column)) {
+      return (
+        <div className="mt-1 space-y-2">
+          {field.items.map((item, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex-1">
+                <ColumnValueEditor
+                  kind={kind}
+                  column={column}
+                  value={item}
+                  disabled={readOnly}
+                  onChange={(value) => updateField(column.column_name, {
+                    items: field.items.map((existing, i) => (i === index ? value : existing)),
+                  })}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={readOnly}
+                onClick={() => updateField(column.column_name, {
+                  items: field.items.filter((_, i) => i !== index),
+                })}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={readOnly}
+            onClick={() => updateField(column.column_name, { items: [...field.items, ''] })}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add element
+          </Button>
+        </div>
+      );
+    }
+
+    const foreignKey = foreignKeys.find(key => key.columns.includes(column.column_name));
+    if (foreignKey && connectionId) {
+      return (
+        <div className="mt-1">
+          <ForeignKeyPicker
+            id={inputId}
+            connectionId={connectionId}
+            foreignKey={foreignKey}
+            referencedColumn={foreignKey.referencedColumns[foreignKey.columns.indexOf(column.column_name)]}
+            value={field.text}
+            disabled={readOnly}
+            onPick={(referencedRow) => pickReferencedRow(foreignKey, referencedRow)}
+          />
+        </div>
+      );
+    }
+
+    return (
+      <div className="mt-1">
+        <ColumnValueEditor
+          id={inputId}
+          kind={kind}
+          column={column}
+          value={field.text}
+          disabled={readOnly}
+          onChange={(value) => updateField(column.column_name, { text: value })}
+        />
+      </div>
+    );
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={() => !isSaving && onClose()}>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{row ? 'Edit Row' : 'Add Row'}</DialogTitle>
         </DialogHeader>
-        
+
         <form onSubmit={handleSubmit} className="mt-4 space-y-4">
           {columns.map(column => {
+            const field = fields[column.column_name];
+            if (!field) return null;
+
             const isPrimary = column.primary_key === 'PRIMARY KEY';
-            // For new rows, skip primary key with auto-increment
-            if (!row && isPrimary && column.column_name.toLowerCase() === 'id') return null;
-            
+            const readOnly = isReadOnly(column, isNewRow);
+            const canUseDefault = isNewRow && hasDatabaseDefault(column) && !isGeneratedColumn(column);
+            const canBeNull = column.is_nullable === 'YES' && !readOnly && !field.useDefault;
+            const error = errors[column.column_name];
+
             return (
               <div key={column.column_name}>
-                <Label htmlFor={`edit-${column.column_name}`} className="block text-sm font-medium text-neutral-700">
-                  {column.column_name}
-                  {isPrimary && <span className="ml-1 text-xs text-primary">(Primary Key)</span>}
-                </Label>
-                <Input
-                  type="text"
-                  name={column.column_name}
-                  id={`edit-${column.column_name}`}
-                  value={formData[column.column_name] || ''}
-                  onChange={handleInputChange}
-                  disabled={isPrimary && row}
-                  className={`mt-1 ${isPrimary && row ? 'bg-neutral-100' : ''}`}
-                />
-                <p className="mt-1 text-xs text-neutral-500">
-                  {column.data_type} {column.is_nullable === 'YES' ? '(nullable)' : '(required)'}
-                </p>
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor={`edit-${column.column_name}`} className="block text-sm font-medium text-neutral-700">
+                    {column.column_name}
+                    {isPrimary && <span className="ml-1 text-xs text-primary">(Primary Key)</span>}
+                  </Label>
+                  <div className="flex items-center gap-3 text-xs text-neutral-600">
+                    {canUseDefault && (
+                      <label className="flex items-center gap-1">
+                        <Checkbox
+                          checked={field.useDefault}
+                          onCheckedChange={(checked) => updateField(column.column_name, {
+                            useDefault: checked === true,
+                            isNull: false,
+                          })}
+                        />
+                        Default
+                      </label>
+                    )}
+                    {canBeNull && (
+                      <label className="flex items-center gap-1">
+                        <Checkbox
+                          checked={field.isNull}
+                          onCheckedChange={(checked) => updateField(column.column_name, { isNull: checked === true })}
+                        />
+                        NULL
+                      </label>
+                    )}
+                  </div>
+                </div>
+                {renderValue(column, field)}
+                {error ? (
+                  <p className="mt-1 text-xs text-error">{error}</p>
+                ) : (
+                  <p className="mt-1 text-xs text-neutral-500">
+                    {formatColumnType(column)} {column.is_nullable === 'YES' ? '(nullable)' : '(required)'}
+                    {column.is_identity === 'YES' && ` · identity ${column.identity_generation?.toLowerCase()}`}
+                    {isGeneratedColumn(column) && ' · generated'}
+                  </p>
+                )}
               </div>
             );
           })}
-          
+
           <DialogFooter className="mt-6">
             <Button
               type="button"
@@ -141,7 +352,7 @@ const EditRowModal: React.FC<EditRowModalProps> = ({
             </Button>
             <Button
               type="submit"
-              disabled={isSaving}
+              disabled={isSaving || hasErrors}
             >
               {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Save
@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from 'lucide-react';
+import { useDataExport } from '@/hooks/useDatabase';
+import { TableDataOptions } from '@/types/database';
+import { delimiterLabels } from '@/utils/csv';
+import {
+  exportFormats,
+  exportDelimiters,
+  csvQuotingModes,
+  ExportFormat,
+  ExportOptions,
+  CsvQuoting,
+} from '@shared/dataExport';
+
+// What to export: a table, optionally narrowed to the grid's current view, or a query
+export type ExportSource =
+  | { kind: 'table'; tableName: string; view: TableDataOptions }
+  | { kind: 'query'; query: string };
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  connectionId: number;
+  source: ExportSource;
+}
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON (array of objects)',
+  ndjson: 'NDJSON (one object per line)',
+  sql: 'SQL INSERT statements',
+  xlsx: 'Excel workbook (XLSX)',
+};
+
+const quotingLabels: Record<CsvQuoting, string> = {
+  minimal: 'Only where needed',
+  strings: 'All but numbers and booleans',
+  all: 'Every value',
+};
+
+// The grid narrows the rows when any of these are set; paging does not apply to exports
+const hasViewOptions = (view: TableDataOptions) => !!(view.search || view.filter || view.sortColumn);
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose, connectionId, source }) => {
+  const [scope, setScope] = useState<'table' | 'view'>('table');
+  const [options, setOptions] = useState<ExportOptions>({
+    format: 'csv',
+    delimiter: ',',
+    quoting: 'minimal',
+    header: true,
+  });
+  const { exportTable, exportQuery, isExporting } = useDataExport(connectionId);
+
+  const canUseView = source.kind === 'table' && hasViewOptions(source.view);
+
+  // Only when the dialog opens; later view changes keep the user's choice
+  const wasOpen = useRef(false);
+  useEffect(() => {
+    if (isOpen && !wasOpen.current) setScope(canUseView ? 'view' : 'table');
+    wasOpen.current = isOpen;
+  }, [isOpen, canUseView]);
+
+  const updateOptions = (changes: Partial<ExportOptions>) => setOptions(current => ({ ...current, ...changes }));
+
+  const handleExport = async () => {
+    const request = { ...options, target: options.target?.trim() || undefined };
+    try {
+      if (source.kind === 'table') {
+        await exportTable({ tableName: source.tableName, options: request, view: scope === 'view' ? source.view : undefined });
+      } else {
+        await exportQuery({ query: source.query, options: request });
+      }
+      onClose();
+    } catch (error) {
+      // The hook reports the failure
+      console.error('Failed to export:', error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={() => !isExporting && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export {source.kind === 'table' ? source.tableName : 'Query Result'}</DialogTitle>
+          <DialogDescription>
+            {source.kind === 'table'
+              ? 'Rows are read through a cursor, so tables of any size can be exported'
+              : 'The query runs again, read-only, and every row it returns is exported'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {source.kind === 'table' && (
+            <RadioGroup value={scope} onValueChange={(value) => setScope(value as 'table' | 'view')}>
+              <label className="flex items-center gap-2 text-sm">
+                <RadioGroupItem value="table" />
+                Whole table
+              </label>
+              <label className={`flex items-center gap-2 text-sm ${canUseView ? '' : 'text-neutral-400'}`}>
+                <RadioGroupItem value="view" disabled={!canUseView} />
+                Current view: rows matching the search and filter, in the current sort order
+              </label>
+            </RadioGroup>
+          )}
+
+          <div>
+            <Label htmlFor="export-format">Format</Label>
+            <Select value={options.format} onValueChange={(value) => updateOptions({ format: value as ExportFormat })}>
+              <SelectTrigger id="export-format" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {exportFormats.map(format => <SelectItem key={format} value={format}>{formatLabels[format]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {options.format === 'csv' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="export-delimiter">Delimiter</Label>
+                <Select value={options.delimiter} onValueChange={(value) => updateOptions({ delimiter: value as ExportOptions['delimiter'] })}>
+                  <SelectTrigger id="export-delimiter" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {exportDelimiters.map(delimiter => <SelectItem key={delimiter} value={delimiter}>{delimiterLabels[delimiter]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="export-quoting">Quote</Label>
+                <Select value={options.quoting} onValueChange={(value) => updateOptions({ quoting: value as CsvQuoting })}>
+                  <SelectTrigger id="export-quoting" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {csvQuotingModes.map(quoting => <SelectItem key={quoting} value={quoting}>{quotingLabels[quoting]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {(options.format === 'csv' || options.format === 'xlsx') && (
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={options.header} onCheckedChange={(checked) => updateOptions({ header: checked === true })} />
+              Column names in the first row
+            </label>
+          )}
+
+          {options.format === 'sql' && (
+            <div>
+              <Label htmlFor="export-target">Insert into</Label>
+              <Input
+                id="export-target"
+                className="mt-1 font-mono"
+                value={options.target ?? ''}
+                onChange={(e) => updateOptions({ target: e.target.value })}
+                placeholder={source.kind === 'table' ? source.tableName : 'query_result'}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isExporting}>Cancel</Button>
+          <Button type="button" onClick={handleExport} disabled={isExporting}>
+            {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
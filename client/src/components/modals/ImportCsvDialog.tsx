@@ -0,0 +1,466 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { useTableImport } from '@/hooks/useDatabase';
+import { TableColumn } from '@/types/database';
+import { isGeneratedColumn } from '@/utils/columnTypes';
+import {
+  csvEncodings,
+  csvDelimiters,
+  delimiterLabels,
+  detectEncoding,
+  decodeBytes,
+  detectDelimiter,
+  detectHeader,
+  parseDelimited,
+  matchColumns,
+  CsvEncoding,
+  CsvDelimiter,
+} from '@/utils/csv';
+import { ImportMode, ImportRequest, ImportRowError } from '@shared/csvImport';
+
+interface ImportCsvDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  connectionId: number;
+  tableName: string;
+  columns: TableColumn[];
+}
+
+type ImportStep = 'file' | 'columns' | 'check' | 'load';
+
+const modeLabels: Record<ImportMode, string> = {
+  append: 'Append rows',
+  truncate: 'Empty the table, then load',
+  upsert: 'Upsert on a key',
+};
+
+// Select items cannot have an empty value
+const SKIP = '__skip__';
+
+// Rows of the file shown while choosing how to read it
+const SAMPLE_ROWS = 5;
+
+const ImportCsvDialog: React.FC<ImportCsvDialogProps> = ({ isOpen, onClose, connectionId, tableName, columns }) => {
+  const [step, setStep] = useState<ImportStep>('file');
+  const [file, setFile] = useState<{ name: string; bytes: Uint8Array } | null>(null);
+  const [encoding, setEncoding] = useState<CsvEncoding>('utf-8');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<(string | null)[]>([]);
+  const [mode, setMode] = useState<ImportMode>('append');
+  const [key, setKey] = useState<string[]>([]);
+  const [emptyAsNull, setEmptyAsNull] = useState(true);
+  const [skipInvalidRows, setSkipInvalidRows] = useState(false);
+
+  const {
+    previewImport,
+    importPreview,
+    importPreviewError,
+    isPreviewingImport,
+    startImport,
+    isStartingImport,
+    importStatus,
+    importError,
+    resetImport,
+  } = useTableImport(connectionId, tableName);
+
+  const writableColumns = useMemo(() => columns.filter(column => !isGeneratedColumn(column)), [columns]);
+  const columnNames = useMemo(() => writableColumns.map(column => column.column_name), [writableColumns]);
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setStep('file');
+      setFile(null);
+      setMode('append');
+      setKey([]);
+      setEmptyAsNull(true);
+      setSkipInvalidRows(false);
+      resetImport();
+    }
+  }, [isOpen, resetImport]);
+
+  const rows = useMemo(() => (file ? parseDelimited(decodeBytes(file.bytes, encoding), delimiter) : []), [file, encoding, delimiter]);
+  const header = hasHeader ? rows[0] ?? null : null;
+  const dataRows = useMemo(() => (hasHeader ? rows.slice(1) : rows), [rows, hasHeader]);
+  const fieldCount = useMemo(() => Math.max(0, ...rows.slice(0, 50).map(row => row.length)), [rows]);
+
+  // Map file columns to table columns again whenever the file is read differently
+  useEffect(() => {
+    setMapping(matchColumns(hasHeader ? rows[0] ?? null : null, fieldCount, columnNames));
+  }, [rows, hasHeader, fieldCount, columnNames]);
+
+  const mappedNames = mapping.filter((name): name is string => name !== null);
+  useEffect(() => {
+    setKey(current => current.filter(name => mapping.includes(name)));
+  }, [mapping]);
+
+  const request = useMemo<ImportRequest>(() => ({
+    fileName: file?.name,
+    columns: mapping,
+    rows: dataRows,
+    firstLine: hasHeader ? 2 : 1,
+    mode,
+    key: mode === 'upsert' ? key : [],
+    emptyAsNull,
+    skipInvalidRows,
+  }), [file, mapping, dataRows, hasHeader, mode, key, emptyAsNull, skipInvalidRows]);
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const bytes = new Uint8Array(await selected.arrayBuffer());
+    const detected = detectEncoding(bytes);
+    const text = decodeBytes(bytes, detected);
+    const detectedDelimiter = detectDelimiter(text, selected.name);
+    setEncoding(detected);
+    setDelimiter(detectedDelimiter);
+    setHasHeader(detectHeader(parseDelimited(text, detectedDelimiter).slice(0, 20), columnNames));
+    setFile({ name: selected.name, bytes });
+  };
+
+  const setMappedColumn = (index: number, name: string) => {
+    setMapping(current => current.map((value, position) => {
+      if (position === index) return name === SKIP ? null : name;
+      // A table column takes values from one file column only
+      return value === name ? null : value;
+    }));
+  };
+
+  const handleCheck = () => {
+    resetImport();
+    previewImport(request);
+    setStep('check');
+  };
+
+  const handleImport = async () => {
+    try {
+      await startImport(request);
+      setStep('load');
+    } catch (error) {
+      // The hook reports the failure
+      console.error('Failed to start import:', error);
+    }
+  };
+
+  const renderErrors = (errors: ImportRowError[], rejected: number) => (
+    <div>
+      <p className="text-sm text-neutral-700 mb-2">
+        {rejected} {rejected === 1 ? 'row' : 'rows'} rejected
+        {errors.length < rejected && ` (showing the first ${errors.length} problems)`}
+      </p>
+      <div className="max-h-64 overflow-auto rounded-md border border-neutral-200">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Row</TableHead>
+              <TableHead>Column</TableHead>
+              <TableHead>Value</TableHead>
+              <TableHead>Problem</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {errors.map((error, index) => (
+              <TableRow key={index} className="align-top">
+                <TableCell className="text-xs">{error.line}</TableCell>
+                <TableCell className="text-xs">{error.column ?? '—'}</TableCell>
+                <TableCell className="font-mono text-xs max-w-[12rem] truncate" title={error.value ?? undefined}>{error.value ?? ''}</TableCell>
+                <TableCell className="text-xs text-error">{error.message}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+
+  const isRunning = importStatus?.status === 'RUNNING' || (step === 'load' && !importStatus && !importError);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={() => !isStartingImport && onClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import CSV</DialogTitle>
+          <DialogDescription>Load rows from a CSV or TSV file into {tableName}</DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-4">
+            <Input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={(e) => handleFile(e.target.files?.[0])} />
+
+            {file && (
+              <>
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="import-encoding">Encoding</Label>
+                    <Select value={encoding} onValueChange={(value) => setEncoding(value as CsvEncoding)}>
+                      <SelectTrigger id="import-encoding" className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {csvEncodings.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="import-delimiter">Delimiter</Label>
+                    <Select value={delimiter} onValueChange={(value) => setDelimiter(value as CsvDelimiter)}>
+                      <SelectTrigger id="import-delimiter" className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {csvDelimiters.map(option => <SelectItem key={option} value={option}>{delimiterLabels[option]}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <label className="flex items-center gap-2 text-sm pt-6">
+                    <Checkbox checked={hasHeader} onCheckedChange={(checked) => setHasHeader(checked === true)} />
+                    First row is a header
+                  </label>
+                </div>
+
+                <p className="text-sm text-neutral-500">
+                  {dataRows.length} rows · {fieldCount} columns
+                </p>
+                <div className="max-h-56 overflow-auto rounded-md border border-neutral-200">
+                  <Table>
+                    {header && (
+                      <TableHeader>
+                        <TableRow>
+                          {header.map((name, index) => <TableHead key={index}>{name}</TableHead>)}
+                        </TableRow>
+                      </TableHeader>
+                    )}
+                    <TableBody>
+                      {dataRows.slice(0, SAMPLE_ROWS).map((row, rowIndex) => (
+                        <TableRow key={rowIndex}>
+                          {row.map((cell, index) => <TableCell key={index} className="text-xs whitespace-nowrap">{cell}</TableCell>)}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {step === 'columns' && (
+          <div className="space-y-4">
+            <div className="max-h-72 overflow-auto rounded-md border border-neutral-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File column</TableHead>
+                    <TableHead>First value</TableHead>
+                    <TableHead>Table column</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {mapping.map((name, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="text-sm">{header?.[index] || `Column ${index + 1}`}</TableCell>
+                      <TableCell className="font-mono text-xs max-w-[12rem] truncate">{dataRows[0]?.[index] ?? ''}</TableCell>
+                      <TableCell>
+                        <Select value={name ?? SKIP} onValueChange={(value) => setMappedColumn(index, value)}>
+                          <SelectTrigger className="h-8 w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={SKIP}>Skip</SelectItem>
+                            {columnNames.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="import-mode">Mode</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+                  <SelectTrigger id="import-mode" className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(modeLabels) as ImportMode[]).map(option => (
+                      <SelectItem key={option} value={option}>{modeLabels[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {mode === 'truncate' && (
+                  <p className="mt-1 text-xs text-neutral-500">
+                    Every current row is removed in the same transaction; fails if other tables reference this one
+                  </p>
+                )}
+              </div>
+              {mode === 'upsert' && (
+                <div>
+                  <Label>Key</Label>
+                  <div className="mt-1 grid grid-cols-2 gap-2 max-h-28 overflow-y-auto rounded-md border border-neutral-200 p-2">
+                    {mappedNames.map(name => (
+                      <label key={name} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={key.includes(name)}
+                          onCheckedChange={(checked) => setKey(current => (checked === true ? [...current, name] : current.filter(item => item !== name)))}
+                        />
+                        <span className="truncate">{name}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="mt-1 text-xs text-neutral-500">Needs a unique index over exactly these columns</p>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={emptyAsNull} onCheckedChange={(checked) => setEmptyAsNull(checked === true)} />
+                Empty cells are NULL (or the column default)
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={skipInvalidRows} onCheckedChange={(checked) => setSkipInvalidRows(checked === true)} />
+                Skip rows that cannot be loaded
+              </label>
+            </div>
+          </div>
+        )}
+
+        {step === 'check' && (
+          <div className="space-y-4">
+            {isPreviewingImport ? (
+              <div className="py-8 flex items-center justify-center text-sm text-neutral-500">
+                <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                Checking {dataRows.length} rows...
+              </div>
+            ) : importPreviewError ? (
+              <p className="text-sm text-error">{importPreviewError.message}</p>
+            ) : importPreview && (
+              <>
+                <p className="text-sm text-neutral-700">
+                  {importPreview.valid} of {importPreview.total} rows are ready to load
+                </p>
+                <pre className="bg-neutral-900 text-neutral-100 text-xs rounded-md p-3 overflow-x-auto whitespace-pre-wrap">{importPreview.sql}</pre>
+                {importPreview.rejected > 0 && (
+                  <>
+                    {renderErrors(importPreview.errors, importPreview.rejected)}
+                    {!skipInvalidRows && (
+                      <p className="text-sm text-neutral-500">Correct the file, or go back and choose to skip rows that cannot be loaded</p>
+                    )}
+                  </>
+                )}
+                <p className="text-xs text-neutral-500">
+                  The database can still refuse rows, e.g. for foreign keys or duplicate keys; those are reported after loading
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {step === 'load' && (
+          <div className="space-y-4">
+            {importError ? (
+              <p className="text-sm text-error">{importError.message}</p>
+            ) : (
+              <>
+                <Progress value={importStatus && importStatus.total > 0 ? (importStatus.processed / importStatus.total) * 100 : 0} />
+                <p className="text-sm text-neutral-600">
+                  {importStatus ? `${importStatus.processed} of ${importStatus.total} rows processed` : 'Starting...'}
+                </p>
+                {importStatus?.status === 'SUCCESS' && (
+                  <p className="flex items-center gap-2 text-sm text-success">
+                    <CheckCircle2 className="h-4 w-4" />
+                    Loaded {importStatus.loaded} rows
+                  </p>
+                )}
+                {importStatus?.status === 'ERROR' && (
+                  <p className="flex items-center gap-2 text-sm text-error">
+                    <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                    {importStatus.error ?? 'The import failed'}; the transaction was rolled back
+                  </p>
+                )}
+                {importStatus && importStatus.rejected > 0 && renderErrors(importStatus.errors, importStatus.rejected)}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="mt-6">
+          {step === 'file' && (
+            <>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="button" onClick={() => setStep('columns')} disabled={!file || dataRows.length === 0}>Next</Button>
+            </>
+          )}
+          {step === 'columns' && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep('file')}>Back</Button>
+              <Button
+                type="button"
+                onClick={handleCheck}
+                disabled={mappedNames.length === 0 || (mode === 'upsert' && key.length === 0)}
+              >
+                Check Values
+              </Button>
+            </>
+          )}
+          {step === 'check' && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep('columns')} disabled={isStartingImport}>Back</Button>
+              <Button
+                type="button"
+                onClick={handleImport}
+                disabled={
+                  !importPreview ||
+                  isStartingImport ||
+                  importPreview.valid === 0 ||
+                  (importPreview.rejected > 0 && !skipInvalidRows)
+                }
+              >
+                {isStartingImport && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {importPreview ? importPreview.valid : ''} Rows
+              </Button>
+            </>
+          )}
+          {step === 'load' && (
+            <Button type="button" onClick={onClose}>
+              {isRunning ? 'Continue in Background' : 'Close'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportCsvDialog;
@@ -0,0 +1,476 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, X } from 'lucide-react';
+import { useTableDesigner } from '@/hooks/useDatabase';
+import { fetchTableColumns, formatTableReference } from '@/utils/database';
+import { commonColumnTypes } from '@/utils/columnTypes';
+import { CatalogSchema, TableColumn } from '@/types/database';
+import {
+  TableDesign,
+  ColumnDesign,
+  ForeignKeyAction,
+  foreignKeyActions,
+} from '@shared/tableDesign';
+
+interface TableDesignerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  connectionId: number;
+  catalog: CatalogSchema[];
+  // Called with the "schema.table" reference of the created table
+  onCreated: (tableName: string) => void;
+}
+
+interface DesignerColumn extends ColumnDesign {
+  isPrimary: boolean;
+}
+
+interface DesignerForeignKey {
+  column: string;
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumn: string;
+  onUpdate: ForeignKeyAction;
+  onDelete: ForeignKeyAction;
+}
+
+const newColumn = (name: string = '', type: string = 'text'): DesignerColumn => ({
+  name,
+  type,
+  nullable: true,
+  defaultValue: '',
+  identity: 'none',
+  isPrimary: false,
+});
+
+const initialColumns = (): DesignerColumn[] => [
+  { ...newColumn('id', 'bigint'), nullable: false, identity: 'always', isPrimary: true },
+];
+
+interface ForeignKeyEditorProps {
+  connectionId: number;
+  foreignKey: DesignerForeignKey;
+  columnNames: string[];
+  tables: { schema: string; name: string }[];
+  onChange: (foreignKey: DesignerForeignKey) => void;
+  onRemove: () => void;
+}
+
+const ForeignKeyEditor: React.FC<ForeignKeyEditorProps> = ({
+  connectionId,
+  foreignKey,
+  columnNames,
+  tables,
+  onChange,
+  onRemove,
+}) => {
+  const reference = foreignKey.referencedTable
+    ? formatTableReference(foreignKey.referencedSchema, foreignKey.referencedTable)
+    : '';
+
+  // Columns of the referenced table to choose the target from
+  const { data: referencedColumns } = useQuery<TableColumn[]>({
+    queryKey: ['/api/connections', connectionId, 'tables', reference, 'columns'],
+    queryFn: () => fetchTableColumns(connectionId, reference),
+    enabled: !!reference,
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={foreignKey.column} onValueChange={(column) => onChange({ ...foreignKey, column })}>
+        <SelectTrigger className="h-8 w-36">
+          <SelectValue placeholder="Column" />
+        </SelectTrigger>
+        <SelectContent>
+          {columnNames.map(name => (
+            <SelectItem key={name} value={name}>{name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="text-xs text-neutral-500">references</span>
+      <Select
+        value={reference}
+        onValueChange={(value) => {
+          const table = tables.find(t => formatTableReference(t.schema, t.name) === value);
+          if (table) {
+            onChange({ ...foreignKey, referencedSchema: table.schema, referencedTable: table.name, referencedColumn: '' });
+          }
+        }}
+      >
+        <SelectTrigger className="h-8 w-44">
+          <SelectValue placeholder="Table" />
+        </SelectTrigger>
+        <SelectContent>
+          {tables.map(table => {
+            const value = formatTableReference(table.schema, table.name);
+            return <SelectItem key={value} value={value}>{value}</SelectItem>;
+          })}
+        </SelectContent>
+      </Select>
+      <Select
+        value={foreignKey.referencedColumn}
+        onValueChange={(referencedColumn) => onChange({ ...foreignKey, referencedColumn })}
+        disabled={!reference}
+      >
+        <SelectTrigger className="h-8 w-36">
+          <SelectValue placeholder="Column" />
+        </SelectTrigger>
+        <SelectContent>
+          {(referencedColumns || []).map(column => (
+            <SelectItem key={column.column_name} value={column.column_name}>{column.column_name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="text-xs text-neutral-500">on delete</span>
+      <Select
+        value={foreignKey.onDelete}
+        onValueChange={(onDelete) => onChange({ ...foreignKey, onDelete: onDelete as ForeignKeyAction })}
+      >
+        <SelectTrigger className="h-8 w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {foreignKeyActions.map(action => (
+            <SelectItem key={action} value={action}>{action}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+const TableDesignerDialog: React.FC<TableDesignerDialogProps> = ({
+  isOpen,
+  onClose,
+  connectionId,
+  catalog,
+  onCreated,
+}) => {
+  const [schema, setSchema] = useState('public');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [columns, setColumns] = useState<DesignerColumn[]>(initialColumns());
+  const [uniqueConstraints, setUniqueConstraints] = useState<string[][]>([]);
+  const [foreignKeys, setForeignKeys] = useState<DesignerForeignKey[]>([]);
+
+  const {
+    previewTable,
+    preview,
+    previewError,
+    isPreviewing,
+    resetPreview,
+    createTable,
+    isCreatingTable,
+  } = useTableDesigner(connectionId);
+
+  // Start from a blank design each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setSchema('public');
+      setName('');
+      setDescription('');
+      setColumns(initialColumns());
+      setUniqueConstraints([]);
+      setForeignKeys([]);
+      resetPreview();
+    }
+  }, [isOpen, resetPreview]);
+
+  const columnNames = columns.map(column => column.name).filter(columnName => columnName.trim() !== '');
+  const tables = useMemo(
+    () => catalog.flatMap(s => s.objects
+      .filter(object => object.kind === 'table' || object.kind === 'partitioned_table')
+      .map(object => ({ schema: s.name, name: object.name }))),
+    [catalog]
+  );
+
+  const design: TableDesign = useMemo(() => ({
+    schema,
+    name: name.trim(),
+    description: description.trim() || undefined,
+    columns: columns.map(({ isPrimary, ...column }) => ({
+      ...column,
+      name: column.name.trim(),
+      defaultValue: column.defaultValue?.trim() || null,
+    })),
+    primaryKey: columns.filter(column => column.isPrimary).map(column => column.name.trim()),
+    uniqueConstraints: uniqueConstraints
+      .filter(unique => unique.length > 0)
+      .map(unique => ({ columns: unique })),
+    foreignKeys: foreignKeys
+      .filter(foreignKey => foreignKey.column && foreignKey.referencedTable && foreignKey.referencedColumn)
+      .map(foreignKey => ({
+        columns: [foreignKey.column],
+        referencedSchema: foreignKey.referencedSchema,
+        referencedTable: foreignKey.referencedTable,
+        referencedColumns: [foreignKey.referencedColumn],
+        onUpdate: foreignKey.onUpdate,
+        onDelete: foreignKey.onDelete,
+      })),
+  }), [schema, name, description, columns, uniqueConstraints, foreignKeys]);
+
+  // A preview describes one version of the design; drop it once that changes
+  useEffect(() => {
+    resetPreview();
+  }, [design, resetPreview]);
+
+  const isValid = design.name !== '' && design.columns.length > 0 && design.columns.every(column => column.name !== '' && column.type.trim() !== '');
+
+  const updateColumn = (index: number, update: Partial<DesignerColumn>) => {
+    setColumns(prev => prev.map((column, i) => (i === index ? { ...column, ...update } : column)));
+  };
+
+  const handleCreate = async () => {
+    try {
+      await createTable(design);
+      onCreated(formatTableReference(design.schema, design.name));
+      onClose();
+    } catch (error) {
+      // The hook reports the failure; keep the dialog open for corrections
+      console.error('Failed to create table:', error);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={() => !isCreatingTable && onClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Table</DialogTitle>
+          <DialogDescription>Design the table, preview its DDL and create it.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="designer-schema">Schema</Label>
+              <Select value={schema} onValueChange={setSchema}>
+                <SelectTrigger id="designer-schema" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(catalog.length > 0 ? catalog.map(s => s.name) : ['public']).map(schemaName => (
+                    <SelectItem key={schemaName} value={schemaName}>{schemaName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="designer-name">Name</Label>
+              <Input id="designer-name" className="mt-1" value={name} onChange={(e) => setName(e.target.value)} placeholder="orders" />
+            </div>
+            <div>
+              <Label htmlFor="designer-description">Description</Label>
+              <Input id="designer-description" className="mt-1" value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-neutral-700 mb-2">Columns</h4>
+            <datalist id="designer-types">
+              {commonColumnTypes.map(type => <option key={type} value={type} />)}
+            </datalist>
+            <div className="space-y-2">
+              <div className="grid grid-cols-12 gap-2 text-xs text-neutral-500">
+                <span className="col-span-3">Name</span>
+                <span className="col-span-2">Type</span>
+                <span className="col-span-3">Default</span>
+                <span className="col-span-2">Identity</span>
+                <span className="col-span-2">Null / PK</span>
+              </div>
+              {columns.map((column, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <Input
+                    className="col-span-3 h-8"
+                    value={column.name}
+                    onChange={(e) => updateColumn(index, { name: e.target.value })}
+                    placeholder="column_name"
+                  />
+                  <Input
+                    className="col-span-2 h-8"
+                    list="designer-types"
+                    value={column.type}
+                    onChange={(e) => updateColumn(index, { type: e.target.value })}
+                  />
+                  <Input
+                    className="col-span-3 h-8 font-mono text-xs"
+                    value={column.defaultValue || ''}
+                    onChange={(e) => updateColumn(index, { defaultValue: e.target.value })}
+                    placeholder="e.g. now()"
+                    disabled={column.identity !== 'none'}
+                  />
+                  <Select
+                    value={column.identity}
+                    onValueChange={(identity) => updateColumn(index, {
+                      identity: identity as DesignerColumn['identity'],
+                      defaultValue: identity === 'none' ? column.defaultValue : '',
+                    })}
+                  >
+                    <SelectTrigger className="col-span-2 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="always">Always</SelectItem>
+                      <SelectItem value="by_default">By default</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <div className="col-span-2 flex items-center gap-3">
+                    <label className="flex items-center gap-1 text-xs" title="Nullable">
+                      <Checkbox
+                        checked={column.nullable && !column.isPrimary && column.identity === 'none'}
+                        disabled={column.isPrimary || column.identity !== 'none'}
+                        onCheckedChange={(checked) => updateColumn(index, { nullable: checked === true })}
+                      />
+                      Null
+                    </label>
+                    <label className="flex items-center gap-1 text-xs" title="Part of the primary key">
+                      <Checkbox
+                        checked={column.isPrimary}
+                        onCheckedChange={(checked) => updateColumn(index, { isPrimary: checked === true })}
+                      />
+                      PK
+                    </label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 ml-auto"
+                      onClick={() => setColumns(prev => prev.filter((_, i) => i !== index))}
+                      disabled={columns.length === 1}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => setColumns(prev => [...prev, newColumn()])}>
+                <Plus className="h-3 w-3 mr-1" />
+                Column
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-neutral-700 mb-2">Unique constraints</h4>
+            <div className="space-y-2">
+              {uniqueConstraints.map((unique, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-3">
+                  {columnNames.map(columnName => (
+                    <label key={columnName} className="flex items-center gap-1 text-xs">
+                      <Checkbox
+                        checked={unique.includes(columnName)}
+                        onCheckedChange={(checked) => setUniqueConstraints(prev => prev.map((existing, i) => (
+                          i !== index
+                            ? existing
+                            : checked === true
+                              ? [...existing, columnName]
+                              : existing.filter(name => name !== columnName)
+                        )))}
+                      />
+                      {columnName}
+                    </label>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setUniqueConstraints(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => setUniqueConstraints(prev => [...prev, []])}>
+                <Plus className="h-3 w-3 mr-1" />
+                Unique constraint
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-neutral-700 mb-2">Foreign keys</h4>
+            <div className="space-y-2">
+              {foreignKeys.map((foreignKey, index) => (
+                <ForeignKeyEditor
+                  key={index}
+                  connectionId={connectionId}
+                  foreignKey={foreignKey}
+                  columnNames={columnNames}
+                  tables={tables}
+                  onChange={(next) => setForeignKeys(prev => prev.map((existing, i) => (i === index ? next : existing)))}
+                  onRemove={() => setForeignKeys(prev => prev.filter((_, i) => i !== index))}
+                />
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setForeignKeys(prev => [...prev, {
+                  column: '',
+                  referencedSchema: '',
+                  referencedTable: '',
+                  referencedColumn: '',
+                  onUpdate: 'NO ACTION',
+                  onDelete: 'NO ACTION',
+                }])}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Foreign key
+              </Button>
+            </div>
+          </div>
+
+          {(preview || previewError) && (
+            <div>
+              <h4 className="text-sm font-medium text-neutral-700 mb-2">DDL preview</h4>
+              {previewError ? (
+                <p className="text-sm text-error">{previewError.message}</p>
+              ) : (
+                <pre className="bg-neutral-900 text-neutral-100 text-xs rounded-md p-3 overflow-x-auto">{preview}</pre>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isCreatingTable}>
+            Cancel
+          </Button>
+          <Button type="button" variant="outline" onClick={() => previewTable(design)} disabled={!isValid || isPreviewing}>
+            {isPreviewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Preview SQL
+          </Button>
+          <Button type="button" onClick={handleCreate} disabled={!isValid || isCreatingTable}>
+            {isCreatingTable && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Table
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TableDesignerDialog;
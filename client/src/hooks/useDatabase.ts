@@ -11,9 +11,71 @@ import {
   updateRow,
   deleteRow,
   getActivityLogs,
-  updateConnection
+  updateConnection,
+  executeScript,
+  applyRowChanges,
+  fetchForeignKeys,
+  buildMatchFilter,
+  formatTableReference,
+  createDatabaseTable,
+  alterDatabaseTable,
+  fetchIndexes,
+  createIndex,
+  reindexIndex,
+  dropIndex,
+  fetchConstraints,
+  addConstraint,
+  validateConstraint,
+  dropConstraint,
+  syncMetadata,
+  fetchDictionary,
+  fetchColumnSamples,
+  updateDescription,
+  exportDictionary,
+  fetchSchemaDiagram,
+  diffSchemas,
+  generateMigration,
+  fetchObjectDdl,
+  exportSchemaDdl,
+  fetchDependents,
+  fetchViewDetails,
+  replaceViewDefinition,
+  refreshMaterializedView,
+  dropView,
+  fetchTriggers,
+  setTriggerEnabled,
+  fetchRoutines,
+  fetchRoutine,
+  saveRoutine,
+  callRoutine,
+  fetchTypes,
+  fetchTypeUsages,
+  addEnumValue,
+  renameEnumValue,
+  createDomain,
+  fetchSequences,
+  setSequenceValue,
+  restartSequence,
+  resyncSequence,
+  previewImport,
+  startImport,
+  fetchImport,
+  exportTableRows,
+  exportQueryResult
 } from '@/utils/database';
-import { DbConnectionForm, TableDataResponse } from '@/types/database';
+import { RowChange } from '@shared/rowChanges';
+import { TableDesign, AlterTableOperation } from '@shared/tableDesign';
+import { IndexDesign } from '@shared/indexes';
+import { ConstraintDesign } from '@shared/constraints';
+import { CommentDirection } from '@shared/metadataSync';
+import { DescriptionUpdate, DictionaryFormat } from '@shared/dictionary';
+import { SchemaDiffRequest } from '@shared/schemaDiff';
+import { RoutineArgumentValue } from '@shared/routines';
+import { AddEnumValueRequest, DomainDesign } from '@shared/dataTypes';
+import { ImportRequest } from '@shared/csvImport';
+import { ExportOptions } from '@shared/dataExport';
+import { DbConnectionForm, TableDataOptions, TableDataResponse, TableColumn, RowKey, TableForeignKeys, ForeignKey, TableIndex, TableConstraint, DictionaryTable, SchemaDiagram, RelationDependent, ViewDetails, TableTrigger, Routine, RoutineDetails, SchemaTypes, TypeUsage, Sequence, ImportStatus } from '@/types/database';
+import { FilterNode, encodeFilter } from '@shared/filters';
 
 export const useSetupWizard = () => {
   const { toast } = useToast();
@@ -91,12 +153,17 @@ export const useSetupWizard = () => {
   };
 };
 
-export const useTableManager = (connectionId: number | undefined, tableName: string | undefined) => {
+export const useTableManager = (
+  connectionId: number | undefined,
+  tableName: string | undefined,
+  filter: FilterNode | null = null
+) => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
   const [search, setSearch] = useState('');
+  const [searchColumn, setSearchColumn] = useState<string | null>(null);
   const [sortColumn, setSortColumn] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   
@@ -115,8 +182,16 @@ export const useTableManager = (connectionId: number | undefined, tableName: str
     data: columns,
     isLoading: isLoadingColumns,
     error: columnsError,
-  } = useQuery({
+  } = useQuery<TableColumn[]>({
     queryKey: ['/api/connections', connectionId, 'tables', tableName, 'columns'],
+    queryFn: () => fetchTableColumns(connectionId!, tableName!),
+    enabled: !!connectionId && !!tableName,
+  });
+  
+  // Get foreign keys from and to a table
+  const { data: foreignKeys } = useQuery<TableForeignKeys>({
+    queryKey: ['/api/connections', connectionId, 'tables', tableName, 'foreign-keys'],
+    queryFn: () => fetchForeignKeys(connectionId!, tableName!),
     enabled: !!connectionId && !!tableName,
   });
   
@@ -127,7 +202,16 @@ export const useTableManager = (connectionId: number | undefined, tableName: str
     error: tableDataError,
     refetch: refetchTableData,
   } = useQuery<TableDataResponse>({
-    queryKey: ['/api/connections', connectionId, 'tables', tableName, 'data', page, pageSize, search, sortColumn, sortDirection],
+    queryKey: ['/api/connections', connectionId, 'tables', tableName, 'data', page, pageSize, search, searchColumn, sortColumn, sortDirection, filter ? encodeFilter(filter) : null],
+    queryFn: () => fetchTableData(connectionId!, tableName!, {
+      page,
+      pageSize,
+      search,
+      searchColumn,
+      sortColumn,
+      sortDirection,
+      filter,
+    }),
     enabled: !!connectionId && !!tableName,
   });
   
@@ -158,11 +242,11 @@ export const useTableManager = (connectionId: number | undefined, tableName: str
   
   // Update row mutation
   const updateRowMutation = useMutation({
-    mutationFn: ({ primaryKey, primaryKeyValue, data }: { primaryKey: string; primaryKeyValue: any; data: Record<string, any> }) => {
+    mutationFn: ({ key, data }: { key: RowKey; data: Record<string, any> }) => {
       if (!connectionId || !tableName) {
         throw new Error('Connection ID and table name are required');
       }
-      return updateRow(connectionId, tableName, primaryKey, primaryKeyValue, data);
+      return updateRow(connectionId, tableName, key, data);
     },
     onSuccess: () => {
       toast({
@@ -183,11 +267,11 @@ export const useTableManager = (connectionId: number | undefined, tableName: str
   
   // Delete row mutation
   const deleteRowMutation = useMutation({
-    mutationFn: ({ primaryKey, primaryKeyValue }: { primaryKey: string; primaryKeyValue: any }) => {
+    mutationFn: ({ key }: { key: RowKey }) => {
       if (!connectionId || !tableName) {
         throw new Error('Connection ID and table name are required');
       }
-      return deleteRow(connectionId, tableName, primaryKey, primaryKeyValue);
+      return deleteRow(connectionId, tableName, key);
     },
     onSuccess: () => {
       toast({
@@ -206,6 +290,40 @@ export const useTableManager = (connectionId: number | undefined, tableName: str
     },
   });
   
+  // Commit pending grid edits as one batch
+  const commitChangesMutation = useMutation({
+    mutationFn: (changes: RowChange[]) => {
+      if (!connectionId || !tableName) {
+        throw new Error('Connection ID and table name are required');
+      }
+      return applyRowChanges(connectionId, tableName, changes);
+    },
+    onSuccess: (result) => {
+      if (result.committed) {
+        toast({
+          title: 'Changes committed',
+          description: `${result.results.length} change${result.results.length === 1 ? '' : 's'} saved`,
+          variant: 'default',
+        });
+        refetchTableData();
+      } else {
+        const failed = result.results.filter(change => change.status === 'failed').length;
+        toast({
+          title: 'Changes rolled back',
+          description: `${failed} change${failed === 1 ? '' : 's'} failed, so nothing was saved`,
+          variant: 'destructive',
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to commit changes',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
   // Get activity logs for a connection
   const {
     data: activityLogs,
@@ -233,6 +351,26 @@ export const useTableManager = (connectionId: number | undefined, tableName: str
     setPage(1); // Reset to first page when searching
   }, []);
   
+  // Handle search column change
+  const handleSearchColumn = useCallback((column: string | null) => {
+    setSearchColumn(column);
+    setPage(1); // Reset to first page when changing the searched column
+  }, []);
+  
+  // Filtered results start from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [filter]);
+  
+  // Reset browsing state when switching tables
+  useEffect(() => {
+    setPage(1);
+    setSearch('');
+    setSearchColumn(null);
+    setSortColumn(null);
+    setSortDirection('asc');
+  }, [tableName]);
+  
   // Handle sort
   const handleSort = useCallback((column: string) => {
     if (sortColumn === column) {
@@ -248,6 +386,7 @@ export const useTableManager = (connectionId: number | undefined, tableName: str
     tables,
     columns,
     tableData,
+    foreignKeys,
     activityLogs,
     isLoadingTables,
     isLoadingColumns,
@@ -260,11 +399,13 @@ export const useTableManager = (connectionId: number | undefined, tableName: str
     page,
     pageSize,
     search,
+    searchColumn,
     sortColumn,
     sortDirection,
     handlePageChange,
     handlePageSizeChange,
     handleSearch,
+    handleSearchColumn,
     handleSort,
     insertRow: insertRowMutation.mutate,
     updateRow: updateRowMutation.mutate,
@@ -272,6 +413,8 @@ export const useTableManager = (connectionId: number | undefined, tableName: str
     isInsertingRow: insertRowMutation.isPending,
     isUpdatingRow: updateRowMutation.isPending,
     isDeletingRow: deleteRowMutation.isPending,
+    commitChanges: commitChangesMutation.mutateAsync,
+    isCommittingChanges: commitChangesMutation.isPending,
     refetchTableData,
   };
 };
@@ -356,6 +499,1059 @@ export const useSettings = (connectionId: number | undefined) => {
   };
 };
 
+// Search the table a foreign key points at, for picking a referenced row
+export const useForeignKeyLookup = (
+  connectionId: number | undefined,
+  foreignKey: ForeignKey | null,
+  search: string
+) => {
+  const referencedTable = foreignKey
+    ? formatTableReference(foreignKey.referencedSchema, foreignKey.referencedTable)
+    : undefined;
+  
+  const { data, isLoading } = useQuery<TableDataResponse>({
+    queryKey: ['/api/connections', connectionId, 'tables', referencedTable, 'data', 'lookup', search],
+    queryFn: () => fetchTableData(connectionId!, referencedTable!, { page: 1, pageSize: 20, search }),
+    enabled: !!connectionId && !!referencedTable,
+  });
+  
+  return {
+    rows: data?.data || [],
+    total: data?.pagination.total || 0,
+    isLoading,
+  };
+};
+
+// Rows of another table that reference the given row through a foreign key
+export const useReferencingRows = (
+  connectionId: number | undefined,
+  foreignKey: ForeignKey,
+  row: Record<string, any> | null,
+  limit: number = 5
+) => {
+  const referencingTable = formatTableReference(foreignKey.schema, foreignKey.table);
+  const filter = row
+    ? buildMatchFilter(foreignKey.columns, foreignKey.referencedColumns.map(column => row[column]))
+    : null;
+  
+  const { data, isLoading, error } = useQuery<TableDataResponse>({
+    queryKey: ['/api/connections', connectionId, 'tables', referencingTable, 'data', 'referencing', filter ? encodeFilter(filter) : null, limit],
+    queryFn: () => fetchTableData(connectionId!, referencingTable, { page: 1, pageSize: limit, filter }),
+    enabled: !!connectionId && !!filter,
+  });
+  
+  return {
+    referencingTable,
+    filter,
+    rows: data?.data || [],
+    total: data?.pagination.total || 0,
+    isLoading,
+    error,
+  };
+};
+
+export const useTableDesigner = (connectionId: number | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  // Render the CREATE TABLE statement without running it
+  const previewMutation = useMutation({
+    mutationFn: (design: TableDesign) => {
+      if (!connectionId) {
+        throw new Error('Connection ID is required');
+      }
+      return createDatabaseTable(connectionId, design, true);
+    },
+  });
+  
+  const createTableMutation = useMutation({
+    mutationFn: (design: TableDesign) => {
+      if (!connectionId) {
+        throw new Error('Connection ID is required');
+      }
+      return createDatabaseTable(connectionId, design);
+    },
+    onSuccess: (_result, design) => {
+      toast({
+        title: 'Table created',
+        description: `${design.schema}.${design.name} has been created`,
+        variant: 'default',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'catalog'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'tables'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to create table',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  return {
+    previewTable: previewMutation.mutate,
+    preview: previewMutation.data?.sql,
+    previewError: previewMutation.error as Error | null,
+    isPreviewing: previewMutation.isPending,
+    resetPreview: previewMutation.reset,
+    createTable: createTableMutation.mutateAsync,
+    isCreatingTable: createTableMutation.isPending,
+  };
+};
+
+export const useTableStructure = (connectionId: number | undefined, tableName: string | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  // Render the DDL for a change without running it
+  const previewMutation = useMutation({
+    mutationFn: (operations: AlterTableOperation[]) => {
+      if (!connectionId || !tableName) {
+        throw new Error('Connection ID and table name are required');
+      }
+      return alterDatabaseTable(connectionId, tableName, operations, true);
+    },
+  });
+  
+  const alterTableMutation = useMutation({
+    mutationFn: (operations: AlterTableOperation[]) => {
+      if (!connectionId || !tableName) {
+        throw new Error('Connection ID and table name are required');
+      }
+      return alterDatabaseTable(connectionId, tableName, operations);
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.dropped ? 'Table dropped' : 'Table altered',
+        description: result.sql.join('\n'),
+        variant: 'default',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'catalog'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'tables'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to alter table',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  return {
+    previewChanges: previewMutation.mutate,
+    preview: previewMutation.data?.sql,
+    previewError: previewMutation.error as Error | null,
+    isPreviewing: previewMutation.isPending,
+    resetPreview: previewMutation.reset,
+    alterTable: alterTableMutation.mutateAsync,
+    isAlteringTable: alterTableMutation.isPending,
+  };
+};
+
+export const useTableIndexes = (connectionId: number | undefined, tableName: string | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const indexesKey = ['/api/connections', connectionId, 'tables', tableName, 'indexes'];
+  
+  const {
+    data: indexes,
+    isLoading: isLoadingIndexes,
+    error: indexesError,
+  } = useQuery<TableIndex[]>({
+    queryKey: indexesKey,
+    queryFn: () => fetchIndexes(connectionId!, tableName!),
+    enabled: !!connectionId && !!tableName,
+  });
+  
+  const onSuccess = (title: string) => (result: { sql: string }) => {
+    toast({ title, description: result.sql, variant: 'default' });
+    queryClient.invalidateQueries({ queryKey: indexesKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+  };
+  
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+    // A failed concurrent build leaves an invalid index behind
+    queryClient.invalidateQueries({ queryKey: indexesKey });
+  };
+  
+  const requireTable = () => {
+    if (!connectionId || !tableName) {
+      throw new Error('Connection ID and table name are required');
+    }
+    return { connectionId, tableName };
+  };
+  
+  // Render the CREATE INDEX statement without running it
+  const previewMutation = useMutation({
+    mutationFn: (index: IndexDesign) => {
+      const target = requireTable();
+      return createIndex(target.connectionId, target.tableName, index, true);
+    },
+  });
+  
+  const createIndexMutation = useMutation({
+    mutationFn: (index: IndexDesign) => {
+      const target = requireTable();
+      return createIndex(target.connectionId, target.tableName, index);
+    },
+    onSuccess: onSuccess('Index created'),
+    onError: onError('Failed to create index'),
+  });
+  
+  const reindexMutation = useMutation({
+    mutationFn: ({ name, concurrently }: { name: string; concurrently: boolean }) => {
+      const target = requireTable();
+      return reindexIndex(target.connectionId, target.tableName, name, concurrently);
+    },
+    onSuccess: onSuccess('Index rebuilt'),
+    onError: onError('Failed to reindex'),
+  });
+  
+  const dropIndexMutation = useMutation({
+    mutationFn: ({ name, concurrently, cascade }: { name: string; concurrently: boolean; cascade: boolean }) => {
+      const target = requireTable();
+      return dropIndex(target.connectionId, target.tableName, name, concurrently, cascade);
+    },
+    onSuccess: onSuccess('Index dropped'),
+    onError: onError('Failed to drop index'),
+  });
+  
+  return {
+    indexes,
+    isLoadingIndexes,
+    indexesError,
+    previewIndex: previewMutation.mutate,
+    indexPreview: previewMutation.data?.sql,
+    indexPreviewError: previewMutation.error as Error | null,
+    resetIndexPreview: previewMutation.reset,
+    createIndex: createIndexMutation.mutateAsync,
+    isCreatingIndex: createIndexMutation.isPending,
+    reindex: reindexMutation.mutateAsync,
+    isReindexing: reindexMutation.isPending,
+    dropIndex: dropIndexMutation.mutateAsync,
+    isDroppingIndex: dropIndexMutation.isPending,
+  };
+};
+
+export const useTableConstraints = (connectionId: number | undefined, tableName: string | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const constraintsKey = ['/api/connections', connectionId, 'tables', tableName, 'constraints'];
+  
+  const {
+    data: constraints,
+    isLoading: isLoadingConstraints,
+    error: constraintsError,
+  } = useQuery<TableConstraint[]>({
+    queryKey: constraintsKey,
+    queryFn: () => fetchConstraints(connectionId!, tableName!),
+    enabled: !!connectionId && !!tableName,
+  });
+  
+  const requireTable = () => {
+    if (!connectionId || !tableName) {
+      throw new Error('Connection ID and table name are required');
+    }
+    return { connectionId, tableName };
+  };
+  
+  // Constraints change what the grid and other panels show about the table
+  const onSuccess = (title: string) => (result: { sql: string }) => {
+    toast({ title, description: result.sql, variant: 'default' });
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'tables', tableName] });
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+  };
+  
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+  
+  // Render the DDL and count the rows that would violate the constraint
+  const previewMutation = useMutation({
+    mutationFn: (constraint: ConstraintDesign) => {
+      const target = requireTable();
+      return addConstraint(target.connectionId, target.tableName, constraint, true);
+    },
+  });
+  
+  const addConstraintMutation = useMutation({
+    mutationFn: (constraint: ConstraintDesign) => {
+      const target = requireTable();
+      return addConstraint(target.connectionId, target.tableName, constraint);
+    },
+    onSuccess: onSuccess('Constraint added'),
+    onError: onError('Failed to add constraint'),
+  });
+  
+  const validateConstraintMutation = useMutation({
+    mutationFn: (name: string) => {
+      const target = requireTable();
+      return validateConstraint(target.connectionId, target.tableName, name);
+    },
+    onSuccess: onSuccess('Constraint validated'),
+    onError: onError('Failed to validate constraint'),
+  });
+  
+  const dropConstraintMutation = useMutation({
+    mutationFn: ({ name, cascade }: { name: string; cascade: boolean }) => {
+      const target = requireTable();
+      return dropConstraint(target.connectionId, target.tableName, name, cascade);
+    },
+    onSuccess: onSuccess('Constraint dropped'),
+    onError: onError('Failed to drop constraint'),
+  });
+  
+  return {
+    constraints,
+    isLoadingConstraints,
+    constraintsError,
+    previewConstraint: previewMutation.mutate,
+    constraintPreview: previewMutation.data,
+    constraintPreviewError: previewMutation.error as Error | null,
+    isPreviewingConstraint: previewMutation.isPending,
+    resetConstraintPreview: previewMutation.reset,
+    addConstraint: addConstraintMutation.mutateAsync,
+    isAddingConstraint: addConstraintMutation.isPending,
+    validateConstraint: validateConstraintMutation.mutateAsync,
+    isValidatingConstraint: validateConstraintMutation.isPending,
+    dropConstraint: dropConstraintMutation.mutateAsync,
+    isDroppingConstraint: dropConstraintMutation.isPending,
+  };
+};
+
+// Loaded only while a drop is being confirmed
+export const useDependents = (connectionId: number | undefined, tableName: string | undefined, enabled: boolean) => {
+  const { data: dependents, isLoading: isLoadingDependents, error: dependentsError } = useQuery<RelationDependent[]>({
+    queryKey: ['/api/connections', connectionId, 'tables', tableName, 'dependents'],
+    queryFn: () => fetchDependents(connectionId!, tableName!),
+    enabled: enabled && !!connectionId && !!tableName,
+    // Views may have been created since the last drop dialog
+    staleTime: 0,
+  });
+  
+  return { dependents, isLoadingDependents, dependentsError };
+};
+
+export const useViewDefinition = (connectionId: number | undefined, tableName: string | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  const {
+    data: view,
+    isLoading: isLoadingView,
+    error: viewError,
+  } = useQuery<ViewDetails>({
+    queryKey: ['/api/connections', connectionId, 'tables', tableName, 'view'],
+    queryFn: () => fetchViewDetails(connectionId!, tableName!),
+    enabled: !!connectionId && !!tableName,
+  });
+  
+  const requireView = () => {
+    if (!connectionId || !tableName) {
+      throw new Error('Connection ID and view name are required');
+    }
+    return { connectionId, tableName };
+  };
+  
+  // The view's columns, rows, DDL and refresh info all change
+  const invalidateView = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'tables', tableName] });
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+  };
+  
+  // Render the CREATE OR REPLACE VIEW statement without running it
+  const previewMutation = useMutation({
+    mutationFn: (definition: string) => {
+      const target = requireView();
+      return replaceViewDefinition(target.connectionId, target.tableName, definition, true);
+    },
+  });
+  
+  const replaceMutation = useMutation({
+    mutationFn: (definition: string) => {
+      const target = requireView();
+      return replaceViewDefinition(target.connectionId, target.tableName, definition);
+    },
+    onSuccess: (result) => {
+      toast({ title: 'View updated', description: result.sql, variant: 'default' });
+      invalidateView();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to update view', description: error.message, variant: 'destructive' });
+    },
+  });
+  
+  const refreshMutation = useMutation({
+    mutationFn: (concurrently: boolean) => {
+      const target = requireView();
+      return refreshMaterializedView(target.connectionId, target.tableName, concurrently);
+    },
+    onSuccess: (result) => {
+      const duration = result.lastRefresh?.durationMs;
+      toast({
+        title: 'Materialized view refreshed',
+        description: duration !== null && duration !== undefined ? `${result.sql} (${duration} ms)` : result.sql,
+        variant: 'default',
+      });
+      invalidateView();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to refresh materialized view', description: error.message, variant: 'destructive' });
+    },
+  });
+  
+  const dropMutation = useMutation({
+    mutationFn: (cascade: boolean) => {
+      const target = requireView();
+      return dropView(target.connectionId, target.tableName, cascade);
+    },
+    onSuccess: (result) => {
+      toast({ title: 'View dropped', description: result.sql, variant: 'default' });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'catalog'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'tables'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to drop view', description: error.message, variant: 'destructive' });
+    },
+  });
+  
+  return {
+    view,
+    isLoadingView,
+    viewError,
+    previewDefinition: previewMutation.mutate,
+    definitionPreview: previewMutation.data?.sql,
+    definitionPreviewError: previewMutation.error as Error | null,
+    isPreviewingDefinition: previewMutation.isPending,
+    resetDefinitionPreview: previewMutation.reset,
+    replaceDefinition: replaceMutation.mutateAsync,
+    isReplacingDefinition: replaceMutation.isPending,
+    refreshView: refreshMutation.mutateAsync,
+    isRefreshingView: refreshMutation.isPending,
+    dropView: dropMutation.mutateAsync,
+    isDroppingView: dropMutation.isPending,
+  };
+};
+
+export const useTableTriggers = (connectionId: number | undefined, tableName: string | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const triggersKey = ['/api/connections', connectionId, 'tables', tableName, 'triggers'];
+  
+  const {
+    data: triggers,
+    isLoading: isLoadingTriggers,
+    error: triggersError,
+  } = useQuery<TableTrigger[]>({
+    queryKey: triggersKey,
+    queryFn: () => fetchTriggers(connectionId!, tableName!),
+    enabled: !!connectionId && !!tableName,
+  });
+  
+  const toggleMutation = useMutation({
+    mutationFn: ({ name, enabled }: { name: string; enabled: boolean }) => {
+      if (!connectionId || !tableName) {
+        throw new Error('Connection ID and table name are required');
+      }
+      return setTriggerEnabled(connectionId, tableName, name, enabled);
+    },
+    onSuccess: (result, { enabled }) => {
+      toast({ title: enabled ? 'Trigger enabled' : 'Trigger disabled', description: result.sql, variant: 'default' });
+      queryClient.invalidateQueries({ queryKey: triggersKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to update trigger', description: error.message, variant: 'destructive' });
+    },
+  });
+  
+  return {
+    triggers,
+    isLoadingTriggers,
+    triggersError,
+    setTriggerEnabled: toggleMutation.mutateAsync,
+    isUpdatingTrigger: toggleMutation.isPending,
+  };
+};
+
+export const useMetadataSync = (connectionId: number | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  // List what a sync would change without saving anything
+  const previewMutation = useMutation({
+    mutationFn: (comments: CommentDirection) => {
+      if (!connectionId) {
+        throw new Error('Connection ID is required');
+      }
+      return syncMetadata(connectionId, comments, true);
+    },
+  });
+  
+  const syncMutation = useMutation({
+    mutationFn: (comments: CommentDirection) => {
+      if (!connectionId) {
+        throw new Error('Connection ID is required');
+      }
+      return syncMetadata(connectionId, comments);
+    },
+    onSuccess: (result) => {
+      toast({
+        title: 'Metadata synchronized',
+        description: result.changes.length === 0
+          ? 'Stored metadata already matched the database'
+          : `${result.changes.length} changes applied`,
+        variant: 'default',
+      });
+      previewMutation.reset();
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'stored-tables'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'dictionary'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to sync metadata',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  return {
+    previewSync: previewMutation.mutate,
+    syncPreview: previewMutation.data,
+    syncPreviewError: previewMutation.error as Error | null,
+    isPreviewingSync: previewMutation.isPending,
+    resetSyncPreview: previewMutation.reset,
+    syncMetadata: syncMutation.mutateAsync,
+    isSyncing: syncMutation.isPending,
+  };
+};
+
+export const useDataDictionary = (connectionId: number | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const dictionaryKey = ['/api/connections', connectionId, 'dictionary'];
+  
+  const {
+    data: dictionary,
+    isLoading: isLoadingDictionary,
+    error: dictionaryError,
+  } = useQuery<DictionaryTable[]>({
+    queryKey: dictionaryKey,
+    queryFn: () => fetchDictionary(connectionId!),
+    enabled: !!connectionId,
+  });
+  
+  const descriptionMutation = useMutation({
+    mutationFn: (update: DescriptionUpdate) => {
+      if (!connectionId) {
+        throw new Error('Connection ID is required');
+      }
+      return updateDescription(connectionId, update);
+    },
+    onSuccess: (result) => {
+      toast({
+        title: 'Description saved',
+        description: result.sql ?? 'Stored in the data dictionary',
+        variant: 'default',
+      });
+      queryClient.invalidateQueries({ queryKey: dictionaryKey });
+      if (result.sql) {
+        queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to save description',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const exportMutation = useMutation({
+    mutationFn: ({ format, samples }: { format: DictionaryFormat; samples: boolean }) => {
+      if (!connectionId) {
+        throw new Error('Connection ID is required');
+      }
+      return exportDictionary(connectionId, format, samples);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to export data dictionary',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  return {
+    dictionary,
+    isLoadingDictionary,
+    dictionaryError,
+    updateDescription: descriptionMutation.mutateAsync,
+    isUpdatingDescription: descriptionMutation.isPending,
+    exportDictionary: exportMutation.mutate,
+    isExporting: exportMutation.isPending,
+  };
+};
+
+// Sample values of one table's columns, for the data dictionary
+export const useColumnSamples = (connectionId: number | undefined, tableName: string | undefined) => {
+  const { data: samples, isLoading: isLoadingSamples } = useQuery<Record<string, string[]>>({
+    queryKey: ['/api/connections', connectionId, 'tables', tableName, 'samples'],
+    queryFn: () => fetchColumnSamples(connectionId!, tableName!),
+    enabled: !!connectionId && !!tableName,
+    // Samples are illustrative; a failure just leaves the column empty
+    retry: false,
+  });
+  
+  return { samples, isLoadingSamples };
+};
+
+export const useSchemaDiagram = (connectionId: number | undefined, schema: string | undefined) => {
+  const { data: diagram, isLoading: isLoadingDiagram, error: diagramError } = useQuery<SchemaDiagram>({
+    queryKey: ['/api/connections', connectionId, 'schemas', schema, 'diagram'],
+    queryFn: () => fetchSchemaDiagram(connectionId!, schema!),
+    enabled: !!connectionId && !!schema,
+  });
+  
+  return { diagram, isLoadingDiagram, diagramError };
+};
+
+export const useObjectDdl = (connectionId: number | undefined, tableName: string | undefined) => {
+  const { data, isLoading: isLoadingDdl, error: ddlError } = useQuery<{ sql: string }>({
+    queryKey: ['/api/connections', connectionId, 'tables', tableName, 'ddl'],
+    queryFn: () => fetchObjectDdl(connectionId!, tableName!),
+    enabled: !!connectionId && !!tableName,
+    // Index, constraint and structure edits all change the DDL; reload it
+    // whenever the tab opens
+    staleTime: 0,
+  });
+  
+  return { ddl: data?.sql, isLoadingDdl, ddlError };
+};
+
+export const useSchemaDdlExport = (connectionId: number | undefined) => {
+  const { toast } = useToast();
+  
+  const exportMutation = useMutation({
+    mutationFn: (schema: string) => {
+      if (!connectionId) {
+        throw new Error('Connection ID is required');
+      }
+      return exportSchemaDdl(connectionId, schema);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to export schema DDL',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  return {
+    exportSchemaDdl: exportMutation.mutate,
+    isExportingSchema: exportMutation.isPending,
+  };
+};
+
+export const useSchemaDiff = () => {
+  const { toast } = useToast();
+  
+  const diffMutation = useMutation({
+    mutationFn: (request: SchemaDiffRequest) => diffSchemas(request),
+  });
+  
+  const migrationMutation = useMutation({
+    mutationFn: ({ name, sql }: { name: string; sql: string }) => {
+      if (!name.trim()) {
+        throw new Error('Migration name is required');
+      }
+      return generateMigration(name.trim(), sql);
+    },
+    onSuccess: (result) => {
+      toast({
+        title: 'Migration saved',
+        description: `Written to migrations/${result.fileName}`,
+        variant: 'default',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to save migration',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  return {
+    compareSchemas: diffMutation.mutate,
+    diff: diffMutation.data,
+    diffError: diffMutation.error as Error | null,
+    isComparing: diffMutation.isPending,
+    saveMigration: migrationMutation.mutateAsync,
+    isSavingMigration: migrationMutation.isPending,
+  };
+};
+
+export const useRoutines = (connectionId: number | undefined, schema: string | undefined, oid: number | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  const {
+    data: routines,
+    isLoading: isLoadingRoutines,
+    error: routinesError,
+  } = useQuery<Routine[]>({
+    queryKey: ['/api/connections', connectionId, 'schemas', schema, 'routines'],
+    queryFn: () => fetchRoutines(connectionId!, schema!),
+    enabled: !!connectionId && !!schema,
+  });
+  
+  const {
+    data: routine,
+    isLoading: isLoadingRoutine,
+    error: routineError,
+  } = useQuery<RoutineDetails>({
+    queryKey: ['/api/connections', connectionId, 'routines', oid],
+    queryFn: () => fetchRoutine(connectionId!, oid!),
+    enabled: !!connectionId && !!oid,
+  });
+  
+  const saveMutation = useMutation({
+    mutationFn: (source: string) => {
+      if (!connectionId) {
+        throw new Error('Connection ID is required');
+      }
+      return saveRoutine(connectionId, source);
+    },
+    onSuccess: () => {
+      toast({ title: 'Routine saved', variant: 'default' });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'schemas'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'routines'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to save routine', description: error.message, variant: 'destructive' });
+    },
+  });
+  
+  // Statement errors come back in the results; only request failures land here
+  const callMutation = useMutation({
+    mutationFn: (values: RoutineArgumentValue[]) => {
+      if (!connectionId || !oid) {
+        throw new Error('Connection ID and routine are required');
+      }
+      return callRoutine(connectionId, oid, values);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to call routine', description: error.message, variant: 'destructive' });
+    },
+  });
+  
+  return {
+    routines,
+    isLoadingRoutines,
+    routinesError,
+    routine,
+    isLoadingRoutine,
+    routineError,
+    saveRoutine: saveMutation.mutateAsync,
+    isSavingRoutine: saveMutation.isPending,
+    callRoutine: callMutation.mutate,
+    callResult: callMutation.data,
+    isCallingRoutine: callMutation.isPending,
+    resetCall: callMutation.reset,
+  };
+};
+
+export const useDataTypes = (connectionId: number | undefined, schema: string | undefined, typeName: string | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  const {
+    data: types,
+    isLoading: isLoadingTypes,
+    error: typesError,
+  } = useQuery<SchemaTypes>({
+    queryKey: ['/api/connections', connectionId, 'schemas', schema, 'types'],
+    queryFn: () => fetchTypes(connectionId!, schema!),
+    enabled: !!connectionId && !!schema,
+  });
+  
+  const {
+    data: usages,
+    isLoading: isLoadingUsages,
+    error: usagesError,
+  } = useQuery<TypeUsage[]>({
+    queryKey: ['/api/connections', connectionId, 'schemas', schema, 'types', typeName, 'usages'],
+    queryFn: () => fetchTypeUsages(connectionId!, schema!, typeName!),
+    enabled: !!connectionId && !!schema && !!typeName,
+  });
+  
+  const requireType = () => {
+    if (!connectionId || !schema || !typeName) {
+      throw new Error('Connection ID and type are required');
+    }
+    return { connectionId, schema, typeName };
+  };
+  
+  // Labels show up in the types list and in the pickers of enum columns
+  const onSuccess = (title: string) => (result: { sql: string }) => {
+    toast({ title, description: result.sql, variant: 'default' });
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'schemas'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'tables'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+  };
+  
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+  
+  const addValueMutation = useMutation({
+    mutationFn: (request: AddEnumValueRequest) => {
+      const target = requireType();
+      return addEnumValue(target.connectionId, target.schema, target.typeName, request);
+    },
+    onSuccess: onSuccess('Enum value added'),
+    onError: onError('Failed to add enum value'),
+  });
+  
+  const renameValueMutation = useMutation({
+    mutationFn: ({ label, newName }: { label: string; newName: string }) => {
+      const target = requireType();
+      return renameEnumValue(target.connectionId, target.schema, target.typeName, label, newName);
+    },
+    onSuccess: onSuccess('Enum value renamed'),
+    onError: onError('Failed to rename enum value'),
+  });
+  
+  // Render the CREATE DOMAIN statement without running it
+  const previewDomainMutation = useMutation({
+    mutationFn: (domain: DomainDesign) => {
+      if (!connectionId) {
+        throw new Error('Connection ID is required');
+      }
+      return createDomain(connectionId, domain, true);
+    },
+  });
+  
+  const createDomainMutation = useMutation({
+    mutationFn: (domain: DomainDesign) => {
+      if (!connectionId) {
+        throw new Error('Connection ID is required');
+      }
+      return createDomain(connectionId, domain);
+    },
+    onSuccess: onSuccess('Domain created'),
+    onError: onError('Failed to create domain'),
+  });
+  
+  return {
+    types,
+    isLoadingTypes,
+    typesError,
+    usages,
+    isLoadingUsages,
+    usagesError,
+    addEnumValue: addValueMutation.mutateAsync,
+    isAddingValue: addValueMutation.isPending,
+    renameEnumValue: renameValueMutation.mutateAsync,
+    isRenamingValue: renameValueMutation.isPending,
+    previewDomain: previewDomainMutation.mutate,
+    domainPreview: previewDomainMutation.data?.sql,
+    domainPreviewError: previewDomainMutation.error as Error | null,
+    resetDomainPreview: previewDomainMutation.reset,
+    createDomain: createDomainMutation.mutateAsync,
+    isCreatingDomain: createDomainMutation.isPending,
+  };
+};
+
+export const useSequences = (connectionId: number | undefined, schema: string | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  const {
+    data: sequences,
+    isLoading: isLoadingSequences,
+    error: sequencesError,
+  } = useQuery<Sequence[]>({
+    queryKey: ['/api/connections', connectionId, 'schemas', schema, 'sequences'],
+    queryFn: () => fetchSequences(connectionId!, schema!),
+    enabled: !!connectionId && !!schema,
+    // Inserts elsewhere move sequences on
+    staleTime: 0,
+  });
+  
+  const requireSchema = () => {
+    if (!connectionId || !schema) {
+      throw new Error('Connection ID and schema are required');
+    }
+    return { connectionId, schema };
+  };
+  
+  const onSuccess = (title: string) => (result: { sql: string }) => {
+    toast({ title, description: result.sql, variant: 'default' });
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'schemas', schema, 'sequences'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+  };
+  
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+  
+  const setValueMutation = useMutation({
+    mutationFn: ({ name, value, isCalled }: { name: string; value: string; isCalled: boolean }) => {
+      const target = requireSchema();
+      return setSequenceValue(target.connectionId, target.schema, name, value, isCalled);
+    },
+    onSuccess: onSuccess('Sequence value set'),
+    onError: onError('Failed to set sequence value'),
+  });
+  
+  const restartMutation = useMutation({
+    mutationFn: ({ name, value }: { name: string; value?: string }) => {
+      const target = requireSchema();
+      return restartSequence(target.connectionId, target.schema, name, value);
+    },
+    onSuccess: onSuccess('Sequence restarted'),
+    onError: onError('Failed to restart sequence'),
+  });
+  
+  const resyncMutation = useMutation({
+    mutationFn: (name: string) => {
+      const target = requireSchema();
+      return resyncSequence(target.connectionId, target.schema, name);
+    },
+    onSuccess: onSuccess('Sequence resynced'),
+    onError: onError('Failed to resync sequence'),
+  });
+  
+  return {
+    sequences,
+    isLoadingSequences,
+    sequencesError,
+    setSequenceValue: setValueMutation.mutateAsync,
+    isSettingValue: setValueMutation.isPending,
+    restartSequence: restartMutation.mutateAsync,
+    isRestarting: restartMutation.isPending,
+    resyncSequence: resyncMutation.mutateAsync,
+    isResyncing: resyncMutation.isPending,
+  };
+};
+
+export const useTableImport = (connectionId: number | undefined, tableName: string | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [importId, setImportId] = useState<number | null>(null);
+  
+  const requireTable = () => {
+    if (!connectionId || !tableName) {
+      throw new Error('Connection ID and table name are required');
+    }
+    return { connectionId, tableName };
+  };
+  
+  // Check every value against the table without loading anything
+  const previewMutation = useMutation({
+    mutationFn: (request: ImportRequest) => {
+      const target = requireTable();
+      return previewImport(target.connectionId, target.tableName, request);
+    },
+  });
+  
+  const startMutation = useMutation({
+    mutationFn: (request: ImportRequest) => {
+      const target = requireTable();
+      return startImport(target.connectionId, target.tableName, request);
+    },
+    onSuccess: (result) => setImportId(result.importId),
+    onError: (error: Error) => {
+      toast({ title: 'Failed to start import', description: error.message, variant: 'destructive' });
+    },
+  });
+  
+  // Poll the import's activity log entry until it stops running
+  const { data: importStatus, error: importError } = useQuery<ImportStatus>({
+    queryKey: ['/api/connections', connectionId, 'imports', importId],
+    queryFn: () => fetchImport(connectionId!, importId!),
+    enabled: !!connectionId && importId !== null,
+    refetchInterval: (query) => (!query.state.data || query.state.data.status === 'RUNNING' ? 1000 : false),
+  });
+  
+  const finishedStatus = importStatus && importStatus.status !== 'RUNNING' ? importStatus.status : null;
+  useEffect(() => {
+    if (!finishedStatus) return;
+    // Loaded rows change the grid, and explicit ids can leave sequences behind
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'tables', tableName] });
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'schemas'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId, 'activity'] });
+  }, [finishedStatus, connectionId, tableName, queryClient]);
+  
+  const reset = useCallback(() => {
+    previewMutation.reset();
+    startMutation.reset();
+    setImportId(null);
+  }, [previewMutation.reset, startMutation.reset]);
+  
+  return {
+    previewImport: previewMutation.mutate,
+    importPreview: previewMutation.data,
+    importPreviewError: previewMutation.error as Error | null,
+    isPreviewingImport: previewMutation.isPending,
+    startImport: startMutation.mutateAsync,
+    isStartingImport: startMutation.isPending,
+    importStatus,
+    importError: importError as Error | null,
+    resetImport: reset,
+  };
+};
+
+export const useQueryEditor = (connectionId: number | undefined) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  // Execute script mutation
+  const executeScriptMutation = useMutation({
+    mutationFn: (script: string) => {
+      if (!connectionId) {
+        throw new Error('Connection ID is required');
+      }
+      return executeScript(connectionId, script);
+    },
+    onSuccess: () => {
+      // Statements may have changed tables or data shown elsewhere
+      queryClient.invalidateQueries({ queryKey: ['/api/connections', connectionId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to run query',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  return {
+    runScript: executeScriptMutation.mutate,
+    results: executeScriptMutation.data?.results,
+    isRunning: executeScriptMutation.isPending,
+    reset: executeScriptMutation.reset,
+  };
+};
+
 export const useDashboard = (connectionId: number | undefined) => {
   const [stats, setStats] = useState({
     totalTables: 0,
@@ -411,3 +1607,42 @@ export const useDashboard = (connectionId: number | undefined) => {
     isLoadingActivityLogs,
   };
 };
+
+export const useDataExport = (connectionId: number | undefined) => {
+  const { toast } = useToast();
+  
+  const requireConnection = () => {
+    if (!connectionId) {
+      throw new Error('Connection ID is required');
+    }
+    return connectionId;
+  };
+  
+  const onError = (error: Error) => {
+    toast({
+      title: 'Export failed',
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+  
+  const tableMutation = useMutation({
+    mutationFn: ({ tableName, options, view }: { tableName: string; options: ExportOptions; view?: TableDataOptions }) => {
+      return exportTableRows(requireConnection(), tableName, options, view);
+    },
+    onError,
+  });
+  
+  const queryMutation = useMutation({
+    mutationFn: ({ query, options }: { query: string; options: ExportOptions }) => {
+      return exportQueryResult(requireConnection(), query, options);
+    },
+    onError,
+  });
+  
+  return {
+    exportTable: tableMutation.mutateAsync,
+    exportQuery: queryMutation.mutateAsync,
+    isExporting: tableMutation.isPending || queryMutation.isPending,
+  };
+};
@@ -0,0 +1,173 @@
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { RowChange } from '@shared/rowChanges';
+import { RowKey, RowChangeResult, TableColumn } from '@/types/database';
+import { editorKindFor, fromEditorText, validateEditorText } from '@/utils/columnTypes';
+
+// Editor text of a changed cell, or null for SQL NULL
+export type CellEdit = string | null;
+
+interface PendingUpdate {
+  key: RowKey;
+  cells: Record<string, CellEdit>;
+}
+
+interface PendingInsert {
+  id: number;
+  cells: Record<string, CellEdit>;
+}
+
+// Rows are tracked by their serialized key so edits survive paging and refetches
+export const rowKeyId = (key: RowKey): string => JSON.stringify(key);
+
+const validateCell = (column: TableColumn | undefined, value: CellEdit): string | null => {
+  if (!column) return 'Unknown column';
+  if (value === null) {
+    return column.is_nullable === 'YES' ? null : 'Column does not accept NULL';
+  }
+  return validateEditorText(editorKindFor(column), value, column);
+};
+
+const toRowData = (columns: TableColumn[], cells: Record<string, CellEdit>): Record<string, any> => {
+  const data: Record<string, any> = {};
+  for (const [name, value] of Object.entries(cells)) {
+    const column = columns.find(col => col.column_name === name);
+    data[name] = value === null || !column ? value : fromEditorText(editorKindFor(column), value);
+  }
+  return data;
+};
+
+// Spreadsheet-style edits to a table that are held in the browser until committed
+export const usePendingRowChanges = (tableName: string | undefined, columns: TableColumn[]) => {
+  const [updates, setUpdates] = useState<Record<string, PendingUpdate>>({});
+  const [deletes, setDeletes] = useState<Record<string, RowKey>>({});
+  const [inserts, setInserts] = useState<PendingInsert[]>([]);
+  const [nextInsertId, setNextInsertId] = useState(1);
+  // Errors from the last commit, by 'update:<key>', 'delete:<key>' or 'insert:<id>'
+  const [failures, setFailures] = useState<Record<string, string>>({});
+
+  const discard = useCallback(() => {
+    setUpdates({});
+    setDeletes({});
+    setInserts([]);
+    setFailures({});
+  }, []);
+
+  // Edits belong to one table
+  useEffect(() => {
+    discard();
+  }, [tableName, discard]);
+
+  const setCell = useCallback((key: RowKey, column: string, value: CellEdit) => {
+    const id = rowKeyId(key);
+    setUpdates(prev => ({
+      ...prev,
+      [id]: { key, cells: { ...(prev[id]?.cells || {}), [column]: value } },
+    }));
+  }, []);
+
+  const revertRow = useCallback((key: RowKey) => {
+    const id = rowKeyId(key);
+    setUpdates(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const toggleDelete = useCallback((key: RowKey) => {
+    const id = rowKeyId(key);
+    setDeletes(prev => {
+      if (prev[id]) {
+        const { [id]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [id]: key };
+    });
+  }, []);
+
+  const addInsert = useCallback(() => {
+    setInserts(prev => [...prev, { id: nextInsertId, cells: {} }]);
+    setNextInsertId(id => id + 1);
+  }, [nextInsertId]);
+
+  const setInsertCell = useCallback((insertId: number, column: string, value: CellEdit) => {
+    setInserts(prev => prev.map(insert => (
+      insert.id === insertId ? { ...insert, cells: { ...insert.cells, [column]: value } } : insert
+    )));
+  }, []);
+
+  const removeInsert = useCallback((insertId: number) => {
+    setInserts(prev => prev.filter(insert => insert.id !== insertId));
+  }, []);
+
+  // Cell validation errors, keyed like failures plus ':<column>'
+  const cellErrors = useMemo(() => {
+    const errors: Record<string, string> = {};
+    const check = (prefix: string, cells: Record<string, CellEdit>) => {
+      for (const [name, value] of Object.entries(cells)) {
+        const error = validateCell(columns.find(col => col.column_name === name), value);
+        if (error) errors[`${prefix}:${name}`] = error;
+      }
+    };
+    Object.entries(updates).forEach(([id, update]) => check(`update:${id}`, update.cells));
+    inserts.forEach(insert => check(`insert:${insert.id}`, insert.cells));
+    return errors;
+  }, [updates, inserts, columns]);
+
+  // Build the batch in a stable order and remember which entry each change came from
+  const buildBatch = useCallback((): { changes: RowChange[]; sources: string[] } => {
+    const changes: RowChange[] = [];
+    const sources: string[] = [];
+
+    Object.entries(updates).forEach(([id, update]) => {
+      // Deleting a row supersedes editing it
+      if (deletes[id] || Object.keys(update.cells).length === 0) return;
+      changes.push({ type: 'update', key: update.key, data: toRowData(columns, update.cells) });
+      sources.push(`update:${id}`);
+    });
+    inserts.forEach(insert => {
+      changes.push({ type: 'insert', data: toRowData(columns, insert.cells) });
+      sources.push(`insert:${insert.id}`);
+    });
+    Object.entries(deletes).forEach(([id, key]) => {
+      changes.push({ type: 'delete', key });
+      sources.push(`delete:${id}`);
+    });
+
+    return { changes, sources };
+  }, [updates, inserts, deletes, columns]);
+
+  const recordResults = useCallback((sources: string[], results: RowChangeResult[]) => {
+    const next: Record<string, string> = {};
+    results.forEach(result => {
+      if (result.status === 'failed' && result.error) {
+        next[sources[result.index]] = result.error.message;
+      }
+    });
+    setFailures(next);
+  }, []);
+
+  const pendingCount =
+    Object.keys(updates).filter(id => !deletes[id]).length +
+    inserts.length +
+    Object.keys(deletes).length;
+
+  return {
+    updates,
+    deletes,
+    inserts,
+    failures,
+    cellErrors,
+    pendingCount,
+    deleteCount: Object.keys(deletes).length,
+    hasErrors: Object.keys(cellErrors).length > 0,
+    setCell,
+    revertRow,
+    toggleDelete,
+    addInsert,
+    setInsertCell,
+    removeInsert,
+    buildBatch,
+    recordResults,
+    discard,
+  };
+};
@@ -1,19 +1,62 @@
-import React, { useState } from 'react';
+import React, { useMemo } from 'react';
+import { useLocation, useSearch } from 'wouter';
 import Sidebar from '@/components/Sidebar';
 import TableManager from '@/components/TableManager';
 import { useDatabaseContext } from '@/context/DatabaseContext';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2 } from 'lucide-react';
+import { FilterNode, encodeFilter, decodeFilter } from '@shared/filters';
 
 const TableManagerPage: React.FC = () => {
   const { toast } = useToast();
   const { activeConnection, isLoading, error } = useDatabaseContext();
-  const [selectedTable, setSelectedTable] = useState<string | null>(null);
+  const [, navigate] = useLocation();
+  const search = useSearch();
+
+  // The selected table and filter live in the URL so views can be shared
+  const searchParams = useMemo(() => new URLSearchParams(search), [search]);
+  const selectedTable = searchParams.get('table');
+  const filter = useMemo<FilterNode | null>(() => {
+    const encoded = searchParams.get('filter');
+    if (!encoded) return null;
+    try {
+      return decodeFilter(encoded);
+    } catch (decodeError) {
+      console.error('Ignoring invalid filter in URL:', decodeError);
+      return null;
+    }
+  }, [searchParams]);
+
+  const updateUrl = (tableName: string | null, nextFilter: FilterNode | null) => {
+    const params = new URLSearchParams();
+    if (tableName) params.set('table', tableName);
+    if (nextFilter) params.set('filter', encodeFilter(nextFilter));
+    const query = params.toString();
+    navigate(query ? `/table-manager?${query}` : '/table-manager');
+  };
 
   // Handle table selection from sidebar
   const handleTableSelect = (tableName: string) => {
     console.log('Selected table:', tableName);
-    setSelectedTable(tableName);
+    updateUrl(tableName, null);
+  };
+
+  // Handle filter changes from the filter builder
+  const handleFilterChange = (nextFilter: FilterNode | null) => {
+    console.log('Filter changed:', nextFilter);
+    updateUrl(selectedTable, nextFilter);
+  };
+
+  // Open another table, e.g. following a foreign key to the rows it points at
+  const handleOpenTable = (tableName: string, nextFilter: FilterNode | null) => {
+    console.log('Opening table:', tableName);
+    updateUrl(tableName, nextFilter);
+  };
+
+  // Leave a table that was just dropped
+  const handleTableDropped = () => {
+    console.log('Table dropped:', selectedTable);
+    updateUrl(null, null);
   };
 
   if (isLoading) {
@@ -49,8 +92,15 @@ const TableManagerPage: React.FC = () => {
 
   return (
     <div className="flex-1 flex">
-      <Sidebar onTableSelect={handleTableSelect} />
-      <TableManager connectionId={activeConnection.id} />
+      <Sidebar selectedTable={selectedTable} onTableSelect={handleTableSelect} />
+      <TableManager
+        connectionId={activeConnection.id}
+        selectedTable={selectedTable}
+        filter={filter}
+        onFilterChange={handleFilterChange}
+        onOpenTable={handleOpenTable}
+        onTableDropped={handleTableDropped}
+      />
     </div>
   );
 };
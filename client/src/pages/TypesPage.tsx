@@ -0,0 +1,64 @@
+import React from 'react';
+import { useLocation, useSearch } from 'wouter';
+import TypeBrowser from '@/components/TypeBrowser';
+import { useDatabaseContext } from '@/context/DatabaseContext';
+import { Loader2 } from 'lucide-react';
+
+const TypesPage: React.FC = () => {
+  const { activeConnection, isLoading, error } = useDatabaseContext();
+  const [, navigate] = useLocation();
+  const search = useSearch();
+
+  // The schema and selected type live in the URL so they can be linked to
+  const searchParams = new URLSearchParams(search);
+  const schema = searchParams.get('schema') || 'public';
+  const selectedType = searchParams.get('type');
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <Loader2 className="h-10 w-10 animate-spin text-primary" />
+        <span className="ml-3 text-lg">Loading connection data...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-lg font-medium text-error mb-2">Connection Error</h2>
+          <p className="text-neutral-500">{error.message}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!activeConnection) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-lg font-medium text-neutral-700 mb-2">No active database connection</h2>
+          <p className="text-neutral-500">Please go to Settings to configure a database connection</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex">
+      <TypeBrowser
+        connectionId={activeConnection.id}
+        schema={schema}
+        selectedType={selectedType}
+        onSelectType={(nextSchema, typeName) => {
+          const params = new URLSearchParams({ schema: nextSchema });
+          if (typeName) params.set('type', typeName);
+          navigate(`/types?${params}`);
+        }}
+      />
+    </div>
+  );
+};
+
+export default TypesPage;
@@ -1,3 +1,6 @@
+import type { FilterNode } from '@shared/filters';
+import type { ImportProgress, ImportRowError } from '@shared/csvImport';
+
 export interface DbConnection {
   id: number;
   name: string;
@@ -30,6 +33,8 @@ export interface DbTable {
   name: string;
   schema: string;
   description?: string;
+  // Set once metadata sync finds the table gone from the database
+  droppedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -44,6 +49,7 @@ export interface DbColumn {
   isUnique: boolean;
   defaultValue?: string;
   description?: string;
+  droppedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -54,12 +60,58 @@ export interface ActivityLog {
   tableId?: number;
   operation: string;
   details?: string;
-  status: 'SUCCESS' | 'ERROR';
+  // RUNNING while an import is still loading
+  status: 'SUCCESS' | 'ERROR' | 'RUNNING';
   userId?: number;
   metadata?: any;
   createdAt: string;
 }
 
+export type CatalogObjectKind = 'table' | 'partitioned_table' | 'view' | 'materialized_view' | 'foreign_table';
+
+export interface CatalogObject {
+  name: string;
+  kind: CatalogObjectKind;
+}
+
+export interface CatalogSchema {
+  name: string;
+  objects: CatalogObject[];
+}
+
+// Column as introspected from the live database
+export interface TableColumn {
+  column_name: string;
+  data_type: string;
+  is_nullable: string;
+  column_default: string | null;
+  primary_key: string | null;
+  udt_name: string;
+  // Domain the column is declared with; udt_name is then the domain's base type
+  domain_name: string | null;
+  // Element type of ARRAY columns, e.g. 'integer' or 'mood'
+  element_type: string | null;
+  // Labels of enum columns (or enum array elements) in declaration order
+  enum_values: string[] | null;
+  is_identity: 'YES' | 'NO';
+  identity_generation: 'ALWAYS' | 'BY DEFAULT' | null;
+  is_generated: 'ALWAYS' | 'NEVER';
+  generation_expression: string | null;
+  character_maximum_length: number | null;
+  numeric_precision: number | null;
+  numeric_scale: number | null;
+}
+
+export interface TableDataOptions {
+  page?: number;
+  pageSize?: number;
+  search?: string;
+  searchColumn?: string | null;
+  sortColumn?: string | null;
+  sortDirection?: 'asc' | 'desc';
+  filter?: FilterNode | null;
+}
+
 export interface Pagination {
   page: number;
   pageSize: number;
@@ -67,11 +119,353 @@ export interface Pagination {
   totalPages: number;
 }
 
+// How rows are addressed for updates and deletes, see server/utils/rowIdentity.ts
+export interface RowIdentity {
+  kind: 'primary_key' | 'unique_index' | 'ctid' | 'none';
+  columns: string[];
+}
+
+export type RowKey = Record<string, any>;
+
+// A foreign key constraint, see server/storage.ts
+export interface ForeignKey {
+  name: string;
+  schema: string;
+  table: string;
+  columns: string[];
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumns: string[];
+  onUpdate: string;
+  onDelete: string;
+}
+
+// Tables of one schema and the foreign keys touching it; keys may lead to
+// tables in other schemas that are not listed
+export interface SchemaDiagram {
+  schema: string;
+  tables: {
+    schema: string;
+    name: string;
+    kind: CatalogObjectKind;
+    columns: { name: string; type: string; nullable: boolean; isPrimary: boolean }[];
+  }[];
+  foreignKeys: ForeignKey[];
+}
+
+export interface TableForeignKeys {
+  outgoing: ForeignKey[];
+  incoming: ForeignKey[];
+}
+
+// An index with its size and usage; see fetchIndexes in server/storage.ts
+export interface TableIndex {
+  name: string;
+  definition: string;
+  method: string;
+  columns: string[];
+  isUnique: boolean;
+  isPrimary: boolean;
+  isValid: boolean;
+  predicate: string | null;
+  constraint: string | null;
+  sizeBytes: number;
+  size: string;
+  scans: number;
+  unused: boolean;
+  duplicateOf: string | null;
+}
+
+// A constraint of a table; see fetchConstraints in server/storage.ts
+export interface TableConstraint {
+  name: string;
+  type: 'primary_key' | 'unique' | 'foreign_key' | 'check' | 'exclude' | 'trigger' | 'not_null';
+  definition: string;
+  columns: string[];
+  validated: boolean;
+  deferrable: boolean;
+  initiallyDeferred: boolean;
+  referencedSchema: string | null;
+  referencedTable: string | null;
+}
+
+// Something DROP ... CASCADE would also remove; see fetchDependents in
+// server/storage.ts. table is set for foreign keys.
+export interface RelationDependent {
+  kind: CatalogObjectKind | 'foreign_key';
+  schema: string;
+  name: string;
+  table: string | null;
+  depth: number;
+}
+
+// The last refresh of a materialized view run from this app
+export interface ViewRefresh {
+  refreshedAt: string;
+  durationMs: number | null;
+  concurrently: boolean;
+}
+
+// Definition and refresh state of a view; see fetchViewDetails in server/storage.ts
+export interface ViewDetails {
+  schema: string;
+  name: string;
+  kind: 'view' | 'materialized_view';
+  definition: string;
+  populated: boolean;
+  canRefreshConcurrently: boolean;
+  lastRefresh: ViewRefresh | null;
+}
+
+// A user-defined trigger; see fetchTriggers in server/storage.ts
+export interface TableTrigger {
+  name: string;
+  timing: string;
+  events: string[];
+  level: string;
+  enabled: boolean;
+  isConstraint: boolean;
+  functionOid: number;
+  functionName: string;
+  definition: string;
+}
+
+// A function or procedure; see fetchRoutines in server/storage.ts
+export interface Routine {
+  oid: number;
+  schema: string;
+  name: string;
+  kind: 'function' | 'procedure';
+  arguments: string;
+  identityArguments: string;
+  result: string | null;
+  language: string;
+  volatility: 'immutable' | 'stable' | 'volatile';
+  securityDefiner: boolean;
+  comment: string | null;
+}
+
+export interface RoutineArgument {
+  name: string | null;
+  type: string;
+  mode: 'in' | 'out' | 'inout' | 'variadic' | 'table';
+  hasDefault: boolean;
+}
+
+export interface RoutineDetails extends Routine {
+  definition: string;
+  parameters: RoutineArgument[];
+}
+
+// The statement a routine call ran and its result, as the query editor shows it
+export interface RoutineCallResponse {
+  sql: string;
+  results: StatementResult[];
+}
+
+// Enums, domains and composite types of a schema; see fetchTypes in server/storage.ts
+export interface EnumType {
+  name: string;
+  labels: string[];
+  comment: string | null;
+}
+
+export interface DomainType {
+  name: string;
+  baseType: string;
+  notNull: boolean;
+  defaultValue: string | null;
+  checks: { name: string; definition: string }[];
+  comment: string | null;
+}
+
+export interface CompositeType {
+  name: string;
+  attributes: { name: string; type: string }[];
+  comment: string | null;
+}
+
+export interface SchemaTypes {
+  enums: EnumType[];
+  domains: DomainType[];
+  composites: CompositeType[];
+}
+
+// A column declared with a type, an array of it or a domain over it
+export interface TypeUsage {
+  schema: string;
+  table: string;
+  kind: CatalogObjectKind;
+  column: string;
+  type: string;
+}
+
+// A sequence and where it stands; see fetchSequences in server/storage.ts.
+// Values are bigint, kept as strings.
+export interface Sequence {
+  schema: string;
+  name: string;
+  dataType: string;
+  startValue: string;
+  increment: string;
+  minValue: string;
+  maxValue: string;
+  cacheSize: string;
+  cycle: boolean;
+  // Null when the role may not read the sequence
+  lastValue: string | null;
+  isCalled: boolean;
+  nextValue: string | null;
+  owner: { schema: string; table: string; column: string; identity: boolean } | null;
+  columnExtreme: string | null;
+  // nextval() would return a value the owning column already holds
+  isBehind: boolean;
+}
+
+// Values checked before an import loads; see previewImport in server/storage.ts
+export interface ImportPreview {
+  sql: string;
+  total: number;
+  valid: number;
+  rejected: number;
+  errors: ImportRowError[];
+}
+
+// An import as its activity log entry records it
+export interface ImportStatus extends ImportProgress {
+  id: number;
+  status: 'RUNNING' | 'SUCCESS' | 'ERROR';
+  createdAt: string;
+}
+
+// DDL for a new constraint; previews also count the rows violating it,
+// null when counting timed out
+export interface AddConstraintResponse {
+  sql: string;
+  violations?: number | null;
+}
+
+// A difference between the live catalog and the stored metadata; object is
+// schema.table or schema.table.column
+export interface MetadataChange {
+  object: string;
+  action: 'added' | 'dropped' | 'restored' | 'updated' | 'commented';
+  fields?: string[];
+}
+
+// Changes from a metadata sync and the COMMENT ON statements it runs
+export interface MetadataSyncResponse {
+  changes: MetadataChange[];
+  sql: string[];
+  applied: boolean;
+}
+
+// One difference between two schemas. added objects exist only in the source
+// and removed ones only in the target; sql is this object's part of the migration
+export interface SchemaDiffItem {
+  objectType: 'enum' | 'function' | 'table' | 'column' | 'constraint' | 'index' | 'view';
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  details: string[];
+  sql: string[];
+}
+
+// Differences between two schemas and the migration bringing the target in
+// line with the source
+export interface SchemaDiffResponse {
+  source: { connectionId: number; connectionName: string; schema: string };
+  target: { connectionId: number; connectionName: string; schema: string };
+  items: SchemaDiffItem[];
+  sql: string[];
+}
+
+// A stored column in the data dictionary; samples are only filled in exports
+export interface DictionaryColumn {
+  id: number;
+  name: string;
+  type: string;
+  nullable: boolean;
+  isPrimary: boolean;
+  isUnique: boolean;
+  defaultValue: string | null;
+  description: string | null;
+  samples?: string[];
+}
+
+// A stored table in the data dictionary with its live constraints
+export interface DictionaryTable {
+  id: number;
+  schema: string;
+  name: string;
+  description: string | null;
+  columns: DictionaryColumn[];
+  constraints: Pick<TableConstraint, 'name' | 'type' | 'definition' | 'columns' | 'referencedSchema' | 'referencedTable'>[];
+}
+
+// DDL of a designed table, plus its db_tables record once created
+export interface CreateTableResponse {
+  sql: string;
+  table?: { id: number; name: string; schema: string | null };
+}
+
+// DDL for Structure tab changes and the table they leave behind
+export interface AlterTableResponse {
+  sql: string[];
+  schema: string;
+  name: string;
+  dropped: boolean;
+  applied: boolean;
+}
+
+// Outcome of one change sent to the batch endpoint
+export interface RowChangeResult {
+  index: number;
+  type: 'insert' | 'update' | 'delete';
+  status: 'applied' | 'failed' | 'rolled_back';
+  row?: any;
+  error?: QueryErrorDetails;
+}
+
+export interface RowChangeBatchResult {
+  committed: boolean;
+  results: RowChangeResult[];
+}
+
 export interface TableDataResponse {
   data: any[];
+  identity: RowIdentity;
   pagination: Pagination;
 }
 
+export interface QueryErrorDetails {
+  message: string;
+  code?: string;
+  severity?: string;
+  position?: number;
+  detail?: string;
+  hint?: string;
+  where?: string;
+  schema?: string;
+  table?: string;
+  column?: string;
+  constraint?: string;
+}
+
+export interface StatementResult {
+  statement: string;
+  offset: number;
+  command: string | null;
+  rowCount: number | null;
+  fields: { name: string; dataTypeID: number }[];
+  rows: any[][];
+  durationMs: number;
+  error?: QueryErrorDetails;
+}
+
+export interface ScriptExecutionResponse {
+  results: StatementResult[];
+}
+
 export interface AppSettings {
   autoRefresh: boolean;
   saveHistory: boolean;
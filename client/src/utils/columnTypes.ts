@@ -0,0 +1,237 @@
+import { TableColumn } from '@/types/database';
+
+// Editors offered for a column, chosen from its Postgres type
+export type EditorKind =
+  | 'enum'
+  | 'boolean'
+  | 'integer'
+  | 'numeric'
+  | 'float'
+  | 'date'
+  | 'time'
+  | 'timestamp'
+  | 'timestamptz'
+  | 'json'
+  | 'uuid'
+  | 'text';
+
+const integerRanges: Record<string, [bigint, bigint]> = {
+  smallint: [BigInt(-32768), BigInt(32767)],
+  integer: [BigInt(-2147483648), BigInt(2147483647)],
+  bigint: [BigInt('-9223372036854775808'), BigInt('9223372036854775807')],
+};
+
+// Pick the editor for a scalar type name as reported by information_schema
+// (or format_type for array elements)
+export const editorKindForType = (dataType: string, enumValues?: string[] | null): EditorKind => {
+  const type = dataType.toLowerCase();
+
+  if (enumValues && enumValues.length > 0) return 'enum';
+  if (type === 'boolean') return 'boolean';
+  if (type in integerRanges) return 'integer';
+  if (type === 'numeric' || type.startsWith('numeric(')) return 'numeric';
+  if (type === 'real' || type === 'double precision') return 'float';
+  if (type === 'date') return 'date';
+  if (type === 'time without time zone' || type === 'time') return 'time';
+  if (type === 'timestamp without time zone' || type === 'timestamp') return 'timestamp';
+  if (type === 'timestamp with time zone' || type === 'timestamptz') return 'timestamptz';
+  if (type === 'json' || type === 'jsonb') return 'json';
+  if (type === 'uuid') return 'uuid';
+  return 'text';
+};
+
+export const isArrayColumn = (column: TableColumn): boolean => column.data_type === 'ARRAY';
+
+// Editor for the column itself, or for each element of an array column
+export const editorKindFor = (column: TableColumn): EditorKind => {
+  const type = isArrayColumn(column) ? column.element_type || 'text' : column.data_type;
+  return editorKindForType(type, column.enum_values);
+};
+
+// Columns the database fills in when an insert leaves them out
+export const hasDatabaseDefault = (column: TableColumn): boolean => {
+  return column.column_default !== null || column.is_identity === 'YES' || column.is_generated === 'ALWAYS';
+};
+
+export const isGeneratedColumn = (column: TableColumn): boolean => column.is_generated === 'ALWAYS';
+
+// Type as it would be written in DDL, e.g. varchar(40), numeric(10,2) or text[]
+export const formatColumnType = (column: TableColumn): string => {
+  if (column.domain_name) return column.domain_name;
+  if (isArrayColumn(column)) return `${column.element_type || column.udt_name.replace(/^_/, '')}[]`;
+  if (column.data_type === 'USER-DEFINED') return column.udt_name;
+  if (column.character_maximum_length !== null) return `${column.data_type}(${column.character_maximum_length})`;
+  if (column.data_type === 'numeric' && column.numeric_precision !== null) {
+    return `numeric(${column.numeric_precision},${column.numeric_scale ?? 0})`;
+  }
+  return column.data_type;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Format a Date as the value of a datetime-local input in the browser's time zone
+const toLocalDateTime = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+// Turn a value read from the database into editor text
+export const toEditorText = (kind: EditorKind, value: any): string => {
+  if (value === null || value === undefined) return '';
+
+  switch (kind) {
+    case 'json':
+      return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+    case 'timestamp':
+      // '2024-01-31 10:15:00.123456' -> '2024-01-31T10:15:00'
+      return String(value).replace(' ', 'T').slice(0, 19);
+    case 'timestamptz': {
+      // Offsets such as +02 need minutes before Date can parse them
+      const iso = String(value).replace(' ', 'T').replace(/([+-]\d{2})$/, '$1:00');
+      const date = new Date(iso);
+      return isNaN(date.getTime()) ? String(value) : toLocalDateTime(date);
+    }
+    case 'time':
+      return String(value).slice(0, 8);
+    default:
+      return String(value);
+  }
+};
+
+// Turn editor text into the value sent to the server
+export const fromEditorText = (kind: EditorKind, text: string): any => {
+  if (kind === 'timestamptz') {
+    // datetime-local is in the browser's zone; send an absolute instant
+    return new Date(text).toISOString();
+  }
+  // Everything else, JSON included, goes as text for Postgres to parse
+  return text;
+};
+
+// Split a one-dimensional Postgres array literal such as {a,"b c",NULL}
+export const parseArrayLiteral = (literal: string): (string | null)[] => {
+  const body = literal.trim().replace(/^\{/, '').replace(/\}$/, '');
+  const items: (string | null)[] = [];
+  if (body.length === 0) return items;
+
+  let current = '';
+  let quoted = false;
+  let wasQuoted = false;
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (quoted) {
+      if (char === '\\') {
+        current += body[++i] ?? '';
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+      wasQuoted = true;
+    } else if (char === ',') {
+      items.push(!wasQuoted && current === 'NULL' ? null : current);
+      current = '';
+      wasQuoted = false;
+    } else {
+      current += char;
+    }
+  }
+  items.push(!wasQuoted && current === 'NULL' ? null : current);
+  return items;
+};
+
+// Array values arrive parsed for built-in types and as literals for others
+export const toEditorItems = (kind: EditorKind, value: any): string[] => {
+  if (value === null || value === undefined) return [];
+  const items = Array.isArray(value) ? value : parseArrayLiteral(String(value));
+  return items.map(item => toEditorText(kind, item));
+};
+
+// Check editor text against the column type; returns an error message or null
+export const validateEditorText = (kind: EditorKind, text: string, column: TableColumn, dataType?: string): string | null => {
+  const type = (dataType || column.data_type).toLowerCase();
+
+  switch (kind) {
+    case 'integer': {
+      if (!/^[-+]?\d+$/.test(text.trim())) return 'Must be a whole number';
+      const range = integerRanges[type];
+      const value = BigInt(text.trim());
+      if (range && (value < range[0] || value > range[1])) {
+        return `Must be between ${range[0]} and ${range[1]}`;
+      }
+      return null;
+    }
+    case 'numeric': {
+      const match = /^[-+]?(\d*)(?:\.(\d*))?$/.exec(text.trim());
+      if (!match || (match[1] + (match[2] || '')).length === 0) {
+        return text.trim() === 'NaN' ? null : 'Must be a number';
+      }
+      // Precision and scale only apply to the column itself, not array elements
+      if (type === 'numeric' && column.numeric_precision !== null && column.numeric_scale !== null) {
+        const integerDigits = match[1].replace(/^0+/, '').length;
+        const fractionDigits = (match[2] || '').length;
+        const maxIntegerDigits = column.numeric_precision - column.numeric_scale;
+        if (integerDigits > maxIntegerDigits) {
+          return `At most ${maxIntegerDigits} digits before the decimal point (numeric(${column.numeric_precision},${column.numeric_scale}))`;
+        }
+        if (fractionDigits > column.numeric_scale) {
+          return `At most ${column.numeric_scale} decimal places (numeric(${column.numeric_precision},${column.numeric_scale}))`;
+        }
+      }
+      return null;
+    }
+    case 'float':
+      return ['NaN', 'Infinity', '-Infinity'].includes(text.trim()) || (text.trim() !== '' && !isNaN(Number(text)))
+        ? null
+        : 'Must be a number';
+    case 'json':
+      try {
+        JSON.parse(text);
+        return null;
+      } catch (error) {
+        return `Invalid JSON: ${(error as Error).message}`;
+      }
+    case 'uuid':
+      return /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i.test(text.trim())
+        ? null
+        : 'Must be a UUID';
+    case 'date':
+    case 'time':
+    case 'timestamp':
+    case 'timestamptz':
+    case 'enum':
+    case 'boolean':
+      return text === '' ? 'A value is required' : null;
+    default:
+      if (column.character_maximum_length !== null && text.length > column.character_maximum_length) {
+        return `At most ${column.character_maximum_length} characters`;
+      }
+      return null;
+  }
+};
+
+// Suggestions for type inputs when designing or altering tables
+export const commonColumnTypes = [
+  'integer',
+  'bigint',
+  'smallint',
+  'numeric(12, 2)',
+  'real',
+  'double precision',
+  'text',
+  'varchar(255)',
+  'boolean',
+  'date',
+  'time',
+  'timestamp',
+  'timestamptz',
+  'interval',
+  'uuid',
+  'json',
+  'jsonb',
+  'bytea',
+  'text[]',
+  'integer[]',
+];
@@ -0,0 +1,121 @@
+// Reading CSV and TSV files in the browser for the import wizard
+
+export const csvEncodings = ['utf-8', 'utf-16le', 'utf-16be', 'windows-1252', 'iso-8859-1'] as const;
+export type CsvEncoding = typeof csvEncodings[number];
+
+export const csvDelimiters = [',', ';', '\t', '|'] as const;
+export type CsvDelimiter = typeof csvDelimiters[number];
+
+export const delimiterLabels: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+// A byte order mark settles it; otherwise UTF-8 if the bytes are valid UTF-8,
+// else the Windows code page spreadsheets usually save in
+export const detectEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+// TextDecoder drops the byte order mark
+export const decodeBytes = (bytes: Uint8Array, encoding: CsvEncoding): string => {
+  return new TextDecoder(encoding).decode(bytes);
+};
+
+// The delimiter that splits the first lines into the same, largest number of
+// fields; quoted sections are ignored
+export const detectDelimiter = (text: string, fileName?: string): CsvDelimiter => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 20);
+  let best: CsvDelimiter = fileName && /\.tsv$/i.test(fileName) ? '\t' : ',';
+  let bestScore = 0;
+
+  for (const delimiter of csvDelimiters) {
+    const counts = lines.map(line => line.replace(/"[^"]*"/g, '').split(delimiter).length - 1);
+    if (counts.length === 0 || counts[0] === 0) continue;
+    const consistent = counts.filter(count => count === counts[0]).length / counts.length;
+    const score = counts[0] * consistent;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// RFC 4180 parsing: quoted fields may hold delimiters, doubled quotes and line
+// breaks. A trailing line break does not start another row.
+export const parseDelimited = (text: string, delimiter: CsvDelimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no data
+  return rows.filter(candidate => candidate.length > 1 || candidate[0] !== '');
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/[\s\-.]+/g, '_');
+
+const looksLikeData = (value: string) => /^[+-]?\d[\d.,:/\- ]*$/.test(value.trim()) || /^(true|false)$/i.test(value.trim());
+
+// A first row naming table columns, or holding only text above rows with
+// numbers or dates in the same places, is taken as a header
+export const detectHeader = (rows: string[][], columnNames: string[]): boolean => {
+  if (rows.length === 0) return false;
+  const first = rows[0];
+  const names = new Set(columnNames.map(normalizeName));
+  if (first.some(cell => names.has(normalizeName(cell)))) return true;
+  if (first.some(cell => cell.trim() === '' || looksLikeData(cell))) return false;
+  return rows.slice(1, 20).some(row => row.some((cell, index) => index < first.length && looksLikeData(cell)));
+};
+
+// Table column for each file column: the one with the same name, ignoring case
+// and separators, or by position when the file has no header
+export const matchColumns = (header: string[] | null, fieldCount: number, columnNames: string[]): (string | null)[] => {
+  return Array.from({ length: fieldCount }, (_, index) => {
+    if (!header) return columnNames[index] ?? null;
+    const name = header[index] ?? '';
+    return columnNames.find(column => normalizeName(column) === normalizeName(name)) ?? null;
+  });
+};
@@ -1,5 +1,48 @@
 import { apiRequest } from '@/lib/queryClient';
-import { DbConnectionForm, TableDataResponse, DbConnection } from '@/types/database';
+import { encodeFilter, FilterNode } from '@shared/filters';
+import {
+  DbConnectionForm,
+  TableDataResponse,
+  TableDataOptions,
+  DbConnection,
+  ScriptExecutionResponse,
+  RowIdentity,
+  RowKey,
+  RowChangeBatchResult,
+  TableForeignKeys,
+  CreateTableResponse,
+  AlterTableResponse,
+  TableIndex,
+  TableConstraint,
+  AddConstraintResponse,
+  MetadataSyncResponse,
+  DictionaryTable,
+  SchemaDiagram,
+  SchemaDiffResponse,
+  RelationDependent,
+  ViewDetails,
+  ViewRefresh,
+  TableTrigger,
+  Routine,
+  RoutineDetails,
+  RoutineCallResponse,
+  SchemaTypes,
+  TypeUsage,
+  Sequence,
+  ImportPreview,
+  ImportStatus,
+} from '@/types/database';
+import { TableDesign, AlterTableOperation } from '@shared/tableDesign';
+import { RowChange } from '@shared/rowChanges';
+import { IndexDesign } from '@shared/indexes';
+import { ConstraintDesign } from '@shared/constraints';
+import { CommentDirection } from '@shared/metadataSync';
+import { DescriptionUpdate, DictionaryFormat } from '@shared/dictionary';
+import { SchemaDiffRequest } from '@shared/schemaDiff';
+import { RoutineArgumentValue } from '@shared/routines';
+import { AddEnumValueRequest, DomainDesign } from '@shared/dataTypes';
+import { ImportRequest } from '@shared/csvImport';
+import { ExportOptions } from '@shared/dataExport';
 
 export const testDatabaseConnection = async (connectionData: DbConnectionForm) => {
   console.log('Testing database connection:', connectionData);
@@ -47,7 +90,7 @@ export const fetchTableColumns = async (connectionId: number, tableName: string)
   console.log(`Fetching columns for table ${tableName}, connection:`, connectionId);
   
   try {
-    const response = await apiRequest('GET', `/api/connections/${connectionId}/tables/${tableName}/columns`);
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/columns`);
     const result = await response.json();
     console.log('Columns fetched:', result);
     return result;
@@ -60,13 +103,22 @@ export const fetchTableColumns = async (connectionId: number, tableName: string)
 export const fetchTableData = async (
   connectionId: number, 
   tableName: string, 
-  page: number = 1, 
-  pageSize: number = 10
+  options: TableDataOptions = {}
 ): Promise<TableDataResponse> => {
+  const { page = 1, pageSize = 10, search, searchColumn, sortColumn, sortDirection, filter } = options;
   console.log(`Fetching data for table ${tableName}, connection: ${connectionId}, page: ${page}, pageSize: ${pageSize}`);
   
+  const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+  if (search) params.set('search', search);
+  if (searchColumn) params.set('searchColumn', searchColumn);
+  if (sortColumn) {
+    params.set('sortColumn', sortColumn);
+    params.set('sortDirection', sortDirection || 'asc');
+  }
+  if (filter) params.set('filter', encodeFilter(filter));
+  
   try {
-    const response = await apiRequest('GET', `/api/connections/${connectionId}/tables/${tableName}/data?page=${page}&pageSize=${pageSize}`);
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/data?${params}`);
     const result = await response.json();
     console.log('Table data fetched:', result);
     return result;
@@ -80,7 +132,7 @@ export const insertRow = async (connectionId: number, tableName: string, data: R
   console.log(`Inserting row into table ${tableName}, connection:`, connectionId);
   
   try {
-    const response = await apiRequest('POST', `/api/connections/${connectionId}/tables/${tableName}/rows`, data);
+    const response = await apiRequest('POST', `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/rows`, data);
     const result = await response.json();
     console.log('Row inserted:', result);
     return result;
@@ -93,17 +145,16 @@ export const insertRow = async (connectionId: number, tableName: string, data: R
 export const updateRow = async (
   connectionId: number, 
   tableName: string, 
-  primaryKey: string, 
-  primaryKeyValue: any, 
+  key: RowKey, 
   data: Record<string, any>
 ) => {
-  console.log(`Updating row in table ${tableName} where ${primaryKey} = ${primaryKeyValue}, connection:`, connectionId);
+  console.log(`Updating row in table ${tableName} where ${JSON.stringify(key)}, connection:`, connectionId);
   
   try {
     const response = await apiRequest(
       'PUT', 
-      `/api/connections/${connectionId}/tables/${tableName}/rows/${primaryKey}/${primaryKeyValue}`, 
-      data
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/rows`, 
+      { key, data }
     );
     const result = await response.json();
     console.log('Row updated:', result);
@@ -117,15 +168,15 @@ export const updateRow = async (
 export const deleteRow = async (
   connectionId: number, 
   tableName: string, 
-  primaryKey: string, 
-  primaryKeyValue: any
+  key: RowKey
 ) => {
-  console.log(`Deleting row from table ${tableName} where ${primaryKey} = ${primaryKeyValue}, connection:`, connectionId);
+  console.log(`Deleting row from table ${tableName} where ${JSON.stringify(key)}, connection:`, connectionId);
   
   try {
     const response = await apiRequest(
       'DELETE', 
-      `/api/connections/${connectionId}/tables/${tableName}/rows/${primaryKey}/${primaryKeyValue}`
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/rows`,
+      { key }
     );
     const result = await response.json();
     console.log('Row deleted:', result);
@@ -136,6 +187,836 @@ export const deleteRow = async (
   }
 };
 
+export const fetchForeignKeys = async (connectionId: number, tableName: string): Promise<TableForeignKeys> => {
+  console.log(`Fetching foreign keys for table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/foreign-keys`);
+    const result = await response.json();
+    console.log('Foreign keys fetched:', result);
+    return result;
+  } catch (error) {
+    console.error('Failed to fetch foreign keys:', error);
+    throw error;
+  }
+};
+
+export const fetchIndexes = async (connectionId: number, tableName: string): Promise<TableIndex[]> => {
+  console.log(`Fetching indexes for table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/indexes`);
+    const result = await response.json();
+    console.log('Indexes fetched:', result);
+    return result;
+  } catch (error) {
+    console.error('Failed to fetch indexes:', error);
+    throw error;
+  }
+};
+
+// Create an index, or with preview only render its DDL
+export const createIndex = async (
+  connectionId: number,
+  tableName: string,
+  index: IndexDesign,
+  preview: boolean = false
+): Promise<{ sql: string }> => {
+  console.log(`${preview ? 'Previewing' : 'Creating'} index on table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'POST',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/indexes`,
+      { index, preview }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to create index:', error);
+    throw error;
+  }
+};
+
+export const reindexIndex = async (
+  connectionId: number,
+  tableName: string,
+  indexName: string,
+  concurrently: boolean
+): Promise<{ sql: string }> => {
+  console.log(`Reindexing ${indexName} on table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'POST',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/indexes/${encodeURIComponent(indexName)}/reindex`,
+      { concurrently }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to reindex:', error);
+    throw error;
+  }
+};
+
+export const dropIndex = async (
+  connectionId: number,
+  tableName: string,
+  indexName: string,
+  concurrently: boolean,
+  cascade: boolean
+): Promise<{ sql: string }> => {
+  console.log(`Dropping index ${indexName} on table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'DELETE',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/indexes/${encodeURIComponent(indexName)}`,
+      { concurrently, cascade }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to drop index:', error);
+    throw error;
+  }
+};
+
+// Objects that dropping the table or view with CASCADE would also remove
+export const fetchDependents = async (connectionId: number, tableName: string): Promise<RelationDependent[]> => {
+  console.log(`Fetching dependents of ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/dependents`);
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch dependents:', error);
+    throw error;
+  }
+};
+
+export const fetchViewDetails = async (connectionId: number, tableName: string): Promise<ViewDetails> => {
+  console.log(`Fetching view ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/view`);
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch view:', error);
+    throw error;
+  }
+};
+
+// Replace a view's query, or with preview only render the DDL
+export const replaceViewDefinition = async (
+  connectionId: number,
+  tableName: string,
+  definition: string,
+  preview: boolean = false
+): Promise<{ sql: string }> => {
+  console.log(`${preview ? 'Previewing' : 'Replacing'} definition of view ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'PUT',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/view`,
+      { definition, preview }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to replace view definition:', error);
+    throw error;
+  }
+};
+
+export const refreshMaterializedView = async (
+  connectionId: number,
+  tableName: string,
+  concurrently: boolean
+): Promise<{ sql: string; lastRefresh: ViewRefresh | null }> => {
+  console.log(`Refreshing materialized view ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'POST',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/view/refresh`,
+      { concurrently }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to refresh materialized view:', error);
+    throw error;
+  }
+};
+
+export const dropView = async (connectionId: number, tableName: string, cascade: boolean): Promise<{ sql: string }> => {
+  console.log(`Dropping view ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'DELETE',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/view`,
+      { cascade }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to drop view:', error);
+    throw error;
+  }
+};
+
+export const fetchTriggers = async (connectionId: number, tableName: string): Promise<TableTrigger[]> => {
+  console.log(`Fetching triggers for table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/triggers`);
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch triggers:', error);
+    throw error;
+  }
+};
+
+export const setTriggerEnabled = async (
+  connectionId: number,
+  tableName: string,
+  triggerName: string,
+  enabled: boolean
+): Promise<{ sql: string }> => {
+  console.log(`${enabled ? 'Enabling' : 'Disabling'} trigger ${triggerName} on table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'PATCH',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/triggers/${encodeURIComponent(triggerName)}`,
+      { enabled }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to update trigger:', error);
+    throw error;
+  }
+};
+
+export const fetchConstraints = async (connectionId: number, tableName: string): Promise<TableConstraint[]> => {
+  console.log(`Fetching constraints for table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/constraints`);
+    const result = await response.json();
+    console.log('Constraints fetched:', result);
+    return result;
+  } catch (error) {
+    console.error('Failed to fetch constraints:', error);
+    throw error;
+  }
+};
+
+// Add a constraint, or with preview render its DDL and count the rows violating it
+export const addConstraint = async (
+  connectionId: number,
+  tableName: string,
+  constraint: ConstraintDesign,
+  preview: boolean = false
+): Promise<AddConstraintResponse> => {
+  console.log(`${preview ? 'Previewing' : 'Adding'} ${constraint.type} constraint on table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'POST',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/constraints`,
+      { constraint, preview }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to add constraint:', error);
+    throw error;
+  }
+};
+
+export const validateConstraint = async (
+  connectionId: number,
+  tableName: string,
+  constraintName: string
+): Promise<{ sql: string }> => {
+  console.log(`Validating constraint ${constraintName} on table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'POST',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/constraints/${encodeURIComponent(constraintName)}/validate`
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to validate constraint:', error);
+    throw error;
+  }
+};
+
+export const dropConstraint = async (
+  connectionId: number,
+  tableName: string,
+  constraintName: string,
+  cascade: boolean
+): Promise<{ sql: string }> => {
+  console.log(`Dropping constraint ${constraintName} on table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'DELETE',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/constraints/${encodeURIComponent(constraintName)}`,
+      { cascade }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to drop constraint:', error);
+    throw error;
+  }
+};
+
+// Sync stored table and column metadata with the live catalog, or with
+// preview only list what would change
+export const syncMetadata = async (
+  connectionId: number,
+  comments: CommentDirection,
+  preview: boolean = false
+): Promise<MetadataSyncResponse> => {
+  console.log(`${preview ? 'Previewing' : 'Running'} metadata sync (comments: ${comments}), connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('POST', `/api/connections/${connectionId}/metadata/sync`, { comments, preview });
+    const result = await response.json();
+    console.log('Metadata changes:', result.changes.length);
+    return result;
+  } catch (error) {
+    console.error('Failed to sync metadata:', error);
+    throw error;
+  }
+};
+
+export const fetchSchemaDiagram = async (connectionId: number, schema: string): Promise<SchemaDiagram> => {
+  console.log(`Fetching diagram of schema ${schema}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'GET',
+      `/api/connections/${connectionId}/schemas/${encodeURIComponent(schema)}/diagram`
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch schema diagram:', error);
+    throw error;
+  }
+};
+
+// CREATE statements of a table or view, with its constraints, indexes,
+// comments, owner and grants
+export const fetchObjectDdl = async (connectionId: number, tableName: string): Promise<{ sql: string }> => {
+  console.log(`Fetching DDL of ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'GET',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/ddl`
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch DDL:', error);
+    throw error;
+  }
+};
+
+// Download a script recreating every object of a schema
+export const exportSchemaDdl = async (connectionId: number, schema: string): Promise<void> => {
+  console.log(`Exporting DDL of schema ${schema}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/schemas/${encodeURIComponent(schema)}/ddl`);
+    await downloadResponse(response, `${schema}.sql`);
+  } catch (error) {
+    console.error('Failed to export schema DDL:', error);
+    throw error;
+  }
+};
+
+// Compare two schemas; the migration in the result brings the target in line
+// with the source
+export const diffSchemas = async (request: SchemaDiffRequest): Promise<SchemaDiffResponse> => {
+  console.log('Comparing schemas:', request);
+  
+  try {
+    const response = await apiRequest('POST', '/api/schema-diff', request);
+    const result = await response.json();
+    console.log('Schema differences:', result.items.length);
+    return result;
+  } catch (error) {
+    console.error('Failed to compare schemas:', error);
+    throw error;
+  }
+};
+
+// Write a migration file on the server, with sql as its body
+export const generateMigration = async (name: string, sql?: string): Promise<{ fileName: string }> => {
+  console.log('Generating migration:', name);
+  
+  try {
+    const response = await apiRequest('POST', '/api/migrations/generate', { name, sql });
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to generate migration:', error);
+    throw error;
+  }
+};
+
+export const fetchDictionary = async (connectionId: number): Promise<DictionaryTable[]> => {
+  console.log('Fetching data dictionary for connection:', connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/dictionary`);
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch data dictionary:', error);
+    throw error;
+  }
+};
+
+// A few distinct values per column, read from the first rows of the table
+export const fetchColumnSamples = async (connectionId: number, tableName: string): Promise<Record<string, string[]>> => {
+  console.log(`Fetching sample values for table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'GET',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/samples`
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch sample values:', error);
+    throw error;
+  }
+};
+
+export const updateDescription = async (
+  connectionId: number,
+  update: DescriptionUpdate
+): Promise<{ description: string | null; sql: string | null }> => {
+  console.log('Updating description:', update);
+  
+  try {
+    const response = await apiRequest('PUT', `/api/connections/${connectionId}/dictionary/descriptions`, update);
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to update description:', error);
+    throw error;
+  }
+};
+
+export const fetchRoutines = async (connectionId: number, schema: string): Promise<Routine[]> => {
+  console.log(`Fetching routines of schema ${schema}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/schemas/${encodeURIComponent(schema)}/routines`);
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch routines:', error);
+    throw error;
+  }
+};
+
+export const fetchRoutine = async (connectionId: number, oid: number): Promise<RoutineDetails> => {
+  console.log(`Fetching routine ${oid}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/routines/${oid}`);
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch routine:', error);
+    throw error;
+  }
+};
+
+// Run a CREATE OR REPLACE FUNCTION/PROCEDURE statement
+export const saveRoutine = async (connectionId: number, source: string): Promise<{ sql: string }> => {
+  console.log('Saving routine source, connection:', connectionId);
+  
+  try {
+    const response = await apiRequest('POST', `/api/connections/${connectionId}/routines`, { source });
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to save routine:', error);
+    throw error;
+  }
+};
+
+export const callRoutine = async (
+  connectionId: number,
+  oid: number,
+  values: RoutineArgumentValue[]
+): Promise<RoutineCallResponse> => {
+  console.log(`Calling routine ${oid}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('POST', `/api/connections/${connectionId}/routines/${oid}/call`, { arguments: values });
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to call routine:', error);
+    throw error;
+  }
+};
+
+export const fetchTypes = async (connectionId: number, schema: string): Promise<SchemaTypes> => {
+  console.log(`Fetching types of schema ${schema}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/schemas/${encodeURIComponent(schema)}/types`);
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch types:', error);
+    throw error;
+  }
+};
+
+// Columns declared with a type, directly, as an array or through a domain
+export const fetchTypeUsages = async (connectionId: number, schema: string, typeName: string): Promise<TypeUsage[]> => {
+  console.log(`Fetching columns using type ${schema}.${typeName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'GET',
+      `/api/connections/${connectionId}/schemas/${encodeURIComponent(schema)}/types/${encodeURIComponent(typeName)}/usages`
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch type usages:', error);
+    throw error;
+  }
+};
+
+export const addEnumValue = async (
+  connectionId: number,
+  schema: string,
+  typeName: string,
+  request: AddEnumValueRequest
+): Promise<{ sql: string }> => {
+  console.log(`Adding value to enum ${schema}.${typeName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'POST',
+      `/api/connections/${connectionId}/schemas/${encodeURIComponent(schema)}/types/${encodeURIComponent(typeName)}/values`,
+      request
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to add enum value:', error);
+    throw error;
+  }
+};
+
+export const renameEnumValue = async (
+  connectionId: number,
+  schema: string,
+  typeName: string,
+  label: string,
+  newName: string
+): Promise<{ sql: string }> => {
+  console.log(`Renaming value ${label} of enum ${schema}.${typeName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'PATCH',
+      `/api/connections/${connectionId}/schemas/${encodeURIComponent(schema)}/types/${encodeURIComponent(typeName)}/values/${encodeURIComponent(label)}`,
+      { newName }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to rename enum value:', error);
+    throw error;
+  }
+};
+
+export const createDomain = async (
+  connectionId: number,
+  domain: DomainDesign,
+  preview: boolean = false
+): Promise<{ sql: string }> => {
+  console.log(`${preview ? 'Previewing' : 'Creating'} domain ${domain.schema}.${domain.name}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('POST', `/api/connections/${connectionId}/domains`, { domain, preview });
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to create domain:', error);
+    throw error;
+  }
+};
+
+export const fetchSequences = async (connectionId: number, schema: string): Promise<Sequence[]> => {
+  console.log(`Fetching sequences of schema ${schema}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/schemas/${encodeURIComponent(schema)}/sequences`);
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch sequences:', error);
+    throw error;
+  }
+};
+
+const sequencePath = (connectionId: number, schema: string, name: string) =>
+  `/api/connections/${connectionId}/schemas/${encodeURIComponent(schema)}/sequences/${encodeURIComponent(name)}`;
+
+export const setSequenceValue = async (
+  connectionId: number,
+  schema: string,
+  name: string,
+  value: string,
+  isCalled: boolean = true
+): Promise<{ sql: string }> => {
+  console.log(`Setting sequence ${schema}.${name} to ${value}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('POST', `${sequencePath(connectionId, schema, name)}/setval`, { value, isCalled });
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to set sequence value:', error);
+    throw error;
+  }
+};
+
+// Restart at value, or at the sequence's start value when none is given
+export const restartSequence = async (connectionId: number, schema: string, name: string, value?: string): Promise<{ sql: string }> => {
+  console.log(`Restarting sequence ${schema}.${name}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('POST', `${sequencePath(connectionId, schema, name)}/restart`, { value });
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to restart sequence:', error);
+    throw error;
+  }
+};
+
+// Move a serial or identity sequence past the highest value in its column
+export const resyncSequence = async (connectionId: number, schema: string, name: string): Promise<{ sql: string }> => {
+  console.log(`Resyncing sequence ${schema}.${name}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('POST', `${sequencePath(connectionId, schema, name)}/resync`);
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to resync sequence:', error);
+    throw error;
+  }
+};
+
+// Check parsed file rows against a table without loading anything
+export const previewImport = async (connectionId: number, tableName: string, request: ImportRequest): Promise<ImportPreview> => {
+  console.log(`Checking import of ${request.rows.length} rows into ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'POST',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/import`,
+      { ...request, preview: true }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to check import:', error);
+    throw error;
+  }
+};
+
+// Start loading; the server answers before the rows are in, with the id to poll
+export const startImport = async (connectionId: number, tableName: string, request: ImportRequest): Promise<{ importId: number }> => {
+  console.log(`Importing ${request.rows.length} rows into ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'POST',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/import`,
+      { ...request, preview: false }
+    );
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to start import:', error);
+    throw error;
+  }
+};
+
+export const fetchImport = async (connectionId: number, importId: number): Promise<ImportStatus> => {
+  console.log(`Fetching import ${importId}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/imports/${importId}`);
+    return await response.json();
+  } catch (error) {
+    console.error('Failed to fetch import:', error);
+    throw error;
+  }
+};
+
+// Offer a blob to the browser as a file download
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Save a response body as a file, named by its Content-Disposition header
+export const downloadResponse = async (response: Response, fallbackName: string): Promise<void> => {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+  downloadBlob(await response.blob(), fileName);
+};
+
+export const exportDictionary = async (
+  connectionId: number,
+  format: DictionaryFormat,
+  samples: boolean
+): Promise<void> => {
+  console.log(`Exporting data dictionary as ${format}, connection:`, connectionId);
+  
+  try {
+    const params = new URLSearchParams({ format, samples: String(samples) });
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/dictionary/export?${params}`);
+    await downloadResponse(response, `dictionary.${format === 'html' ? 'html' : 'md'}`);
+  } catch (error) {
+    console.error('Failed to export data dictionary:', error);
+    throw error;
+  }
+};
+
+// Download a whole table, or with view set the rows matching its search, filter and sort
+export const exportTableRows = async (
+  connectionId: number,
+  tableName: string,
+  options: ExportOptions,
+  view?: TableDataOptions
+): Promise<void> => {
+  console.log(`Exporting table ${tableName} as ${options.format}, connection:`, connectionId);
+  
+  const params = new URLSearchParams({
+    format: options.format,
+    delimiter: options.delimiter,
+    quoting: options.quoting,
+    header: String(options.header),
+  });
+  if (options.target) params.set('target', options.target);
+  if (view?.search) params.set('search', view.search);
+  if (view?.searchColumn) params.set('searchColumn', view.searchColumn);
+  if (view?.sortColumn) {
+    params.set('sortColumn', view.sortColumn);
+    params.set('sortDirection', view.sortDirection || 'asc');
+  }
+  if (view?.filter) params.set('filter', encodeFilter(view.filter));
+  
+  try {
+    const response = await apiRequest('GET', `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/export?${params}`);
+    await downloadResponse(response, `${tableName}.${options.format}`);
+  } catch (error) {
+    console.error('Failed to export table:', error);
+    throw error;
+  }
+};
+
+// Download the result of a query; the server runs it again behind a cursor
+export const exportQueryResult = async (connectionId: number, query: string, options: ExportOptions): Promise<void> => {
+  console.log(`Exporting query result as ${options.format}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('POST', '/api/query/export', { ...options, connectionId, query });
+    await downloadResponse(response, `query-result.${options.format}`);
+  } catch (error) {
+    console.error('Failed to export query result:', error);
+    throw error;
+  }
+};
+
+// Create a table from the designer, or with preview only render its DDL
+export const createDatabaseTable = async (
+  connectionId: number,
+  design: TableDesign,
+  preview: boolean = false
+): Promise<CreateTableResponse> => {
+  console.log(`${preview ? 'Previewing' : 'Creating'} table ${design.schema}.${design.name}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest('POST', `/api/connections/${connectionId}/tables`, { design, preview });
+    const result = await response.json();
+    console.log('Table DDL:', result.sql);
+    return result;
+  } catch (error) {
+    console.error('Failed to create table:', error);
+    throw error;
+  }
+};
+
+// Run Structure tab changes in one transaction, or with preview only render their DDL
+export const alterDatabaseTable = async (
+  connectionId: number,
+  tableName: string,
+  operations: AlterTableOperation[],
+  preview: boolean = false
+): Promise<AlterTableResponse> => {
+  console.log(`${preview ? 'Previewing' : 'Applying'} ${operations.length} changes to table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'POST',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/alter`,
+      { operations, preview }
+    );
+    const result = await response.json();
+    console.log('Table DDL:', result.sql);
+    return result;
+  } catch (error) {
+    console.error('Failed to alter table:', error);
+    throw error;
+  }
+};
+
+// Apply inserts, updates and deletes in one transaction; nothing is saved if any fails
+export const applyRowChanges = async (
+  connectionId: number,
+  tableName: string,
+  changes: RowChange[]
+): Promise<RowChangeBatchResult> => {
+  console.log(`Applying ${changes.length} row changes to table ${tableName}, connection:`, connectionId);
+  
+  try {
+    const response = await apiRequest(
+      'POST',
+      `/api/connections/${connectionId}/tables/${encodeURIComponent(tableName)}/batch`,
+      { changes }
+    );
+    const result = await response.json();
+    console.log('Row changes applied:', result);
+    return result;
+  } catch (error) {
+    console.error('Failed to apply row changes:', error);
+    throw error;
+  }
+};
+
+// Hidden columns the server adds to rows of tables addressed by ctid
+export const CTID_COLUMN = '__ctid';
+export const XMIN_COLUMN = '__xmin';
+
+// Build the key that addresses a row, or null when rows cannot be addressed
+export const getRowKey = (identity: RowIdentity | undefined, row: Record<string, any>): RowKey | null => {
+  if (!identity || identity.kind === 'none') {
+    return null;
+  }
+  if (identity.kind === 'ctid') {
+    return { ctid: row[CTID_COLUMN], xmin: row[XMIN_COLUMN] };
+  }
+  return Object.fromEntries(identity.columns.map(column => [column, row[column]]));
+};
+
 export const executeQuery = async (connectionId: number, query: string, params: any[] = []) => {
   console.log(`Executing query for connection ${connectionId}:`, query);
   
@@ -150,6 +1031,20 @@ export const executeQuery = async (connectionId: number, query: string, params:
   }
 };
 
+export const executeScript = async (connectionId: number, script: string): Promise<ScriptExecutionResponse> => {
+  console.log(`Executing script for connection ${connectionId}`);
+  
+  try {
+    const response = await apiRequest('POST', '/api/query/script', { connectionId, script });
+    const result = await response.json();
+    console.log('Script executed:', result);
+    return result;
+  } catch (error) {
+    console.error('Script execution failed:', error);
+    throw error;
+  }
+};
+
 export const getActivityLogs = async (connectionId: number, limit: number = 10) => {
   console.log(`Getting activity logs for connection ${connectionId}, limit: ${limit}`);
   
@@ -181,6 +1076,13 @@ export const updateConnection = async (
   }
 };
 
+// Build the "schema.table" reference the API expects, quoting parts that
+// contain dots or quotes so they can't be misread
+export const formatTableReference = (schema: string, name: string): string => {
+  const quote = (part: string) => /[."]/.test(part) ? `"${part.replace(/"/g, '""')}"` : part;
+  return `${quote(schema)}.${quote(name)}`;
+};
+
 export const formatTimestamp = (timestamp: string): string => {
   const date = new Date(timestamp);
   return new Intl.DateTimeFormat('en-US', {
@@ -192,3 +1094,21 @@ export const formatTimestamp = (timestamp: string): string => {
     second: '2-digit',
   }).format(date);
 };
+
+// Filter matching rows whose columns equal the given values, e.g. the row a
+// foreign key points at; null when any value is NULL since nothing matches
+export const buildMatchFilter = (columns: string[], values: any[]): FilterNode | null => {
+  if (values.some(value => value === null || value === undefined)) {
+    return null;
+  }
+  return {
+    type: 'group',
+    combinator: 'and',
+    children: columns.map((column, index) => ({
+      type: 'condition',
+      column,
+      operator: 'eq',
+      value: values[index],
+    })),
+  };
+};
@@ -0,0 +1,167 @@
+// Layered auto-layout for the ER diagram. Referenced tables sit left of the
+// tables pointing at them; nodes within a column are ordered by the average
+// position of their neighbors to cut down on crossing edges. Tables without
+// foreign keys are laid out in a grid underneath.
+
+export interface LayoutNode {
+  id: string;
+  width: number;
+  height: number;
+}
+
+// from holds the foreign key, to is the table it references
+export interface LayoutEdge {
+  from: string;
+  to: string;
+}
+
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+export interface Layout {
+  positions: Record<string, NodePosition>;
+  width: number;
+  height: number;
+}
+
+const COLUMN_GAP = 120;
+const ROW_GAP = 40;
+const MARGIN = 40;
+const ORDERING_PASSES = 4;
+
+// Longest path from each node to a node that references nothing. Edges that
+// close a cycle are ignored, so mutually referencing tables still get layers.
+const assignLayers = (ids: string[], edges: LayoutEdge[]): Map<string, number> => {
+  const referenced = new Map<string, string[]>(ids.map(id => [id, []]));
+  for (const edge of edges) {
+    if (edge.from !== edge.to) referenced.get(edge.from)?.push(edge.to);
+  }
+
+  const layers = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const visit = (id: string): number => {
+    const known = layers.get(id);
+    if (known !== undefined) return known;
+    visiting.add(id);
+    let layer = 0;
+    for (const target of referenced.get(id) ?? []) {
+      if (visiting.has(target)) continue;
+      layer = Math.max(layer, visit(target) + 1);
+    }
+    visiting.delete(id);
+    layers.set(id, layer);
+    return layer;
+  };
+
+  ids.forEach(visit);
+  return layers;
+};
+
+// Reorder each column by the mean index of its neighbors, sweeping left to
+// right and back a few times
+const orderLayers = (columns: string[][], edges: LayoutEdge[]): void => {
+  const neighbors = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (edge.from === edge.to) continue;
+    neighbors.set(edge.from, [...(neighbors.get(edge.from) ?? []), edge.to]);
+    neighbors.set(edge.to, [...(neighbors.get(edge.to) ?? []), edge.from]);
+  }
+
+  const sortByBarycenter = (column: string[], reference: string[]) => {
+    const index = new Map(reference.map((id, position) => [id, position]));
+    const current = new Map(column.map((id, position) => [id, position]));
+    const barycenter = (id: string) => {
+      const positions = (neighbors.get(id) ?? [])
+        .map(neighbor => index.get(neighbor))
+        .filter((position): position is number => position !== undefined);
+      if (positions.length === 0) return current.get(id)!;
+      return positions.reduce((sum, position) => sum + position, 0) / positions.length;
+    };
+    const weights = new Map(column.map(id => [id, barycenter(id)]));
+    column.sort((a, b) => weights.get(a)! - weights.get(b)!);
+  };
+
+  for (let pass = 0; pass < ORDERING_PASSES; pass++) {
+    for (let i = 1; i < columns.length; i++) sortByBarycenter(columns[i], columns[i - 1]);
+    for (let i = columns.length - 2; i >= 0; i--) sortByBarycenter(columns[i], columns[i + 1]);
+  }
+};
+
+export const layoutDiagram = (nodes: LayoutNode[], edges: LayoutEdge[]): Layout => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const linkedEdges = edges.filter(edge => byId.has(edge.from) && byId.has(edge.to));
+  const linked = new Set(linkedEdges.filter(edge => edge.from !== edge.to).flatMap(edge => [edge.from, edge.to]));
+  const linkedIds = nodes.map(node => node.id).filter(id => linked.has(id)).sort();
+  const isolated = nodes.filter(node => !linked.has(node.id)).sort((a, b) => a.id.localeCompare(b.id));
+
+  const layers = assignLayers(linkedIds, linkedEdges);
+  const columns: string[][] = [];
+  for (const id of linkedIds) {
+    const layer = layers.get(id)!;
+    (columns[layer] = columns[layer] ?? []).push(id);
+  }
+  orderLayers(columns, linkedEdges);
+
+  const positions: Record<string, NodePosition> = {};
+  const columnHeights = columns.map(column =>
+    column.reduce((sum, id) => sum + byId.get(id)!.height, 0) + ROW_GAP * Math.max(0, column.length - 1)
+  );
+  const graphHeight = Math.max(0, ...columnHeights);
+
+  // Columns are centered vertically against the tallest one
+  let x = MARGIN;
+  columns.forEach((column, index) => {
+    let y = MARGIN + (graphHeight - columnHeights[index]) / 2;
+    const columnWidth = Math.max(...column.map(id => byId.get(id)!.width));
+    for (const id of column) {
+      positions[id] = { x, y };
+      y += byId.get(id)!.height + ROW_GAP;
+    }
+    x += columnWidth + COLUMN_GAP;
+  });
+  let width = columns.length > 0 ? x - COLUMN_GAP + MARGIN : MARGIN * 2;
+  let height = columns.length > 0 ? graphHeight + MARGIN * 2 : MARGIN;
+
+  // Unrelated tables fill rows as wide as the graph, at least four across
+  if (isolated.length > 0) {
+    const rowWidth = Math.max(0, width - MARGIN * 2);
+    const perRow = Math.max(4, Math.floor((rowWidth + COLUMN_GAP / 2) / (isolated[0].width + COLUMN_GAP / 2)));
+    let top = height;
+    for (let start = 0; start < isolated.length; start += perRow) {
+      const row = isolated.slice(start, start + perRow);
+      let left = MARGIN;
+      for (const node of row) {
+        positions[node.id] = { x: left, y: top };
+        left += node.width + COLUMN_GAP / 2;
+      }
+      width = Math.max(width, left - COLUMN_GAP / 2 + MARGIN);
+      top += Math.max(...row.map(node => node.height)) + ROW_GAP;
+    }
+    height = top - ROW_GAP + MARGIN;
+  }
+
+  return { positions, width, height };
+};
+
+// Tables within the given number of foreign key hops of a table, in either
+// direction
+export const neighborhood = (start: string, edges: LayoutEdge[], depth: number): Set<string> => {
+  const reached = new Set([start]);
+  let frontier = [start];
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const edge of edges) {
+      for (const [from, to] of [[edge.from, edge.to], [edge.to, edge.from]]) {
+        if (frontier.includes(from) && !reached.has(to)) {
+          reached.add(to);
+          next.push(to);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return reached;
+};
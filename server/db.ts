@@ -46,25 +46,31 @@ try {
 export const pool = poolInstance;
 export const db = dbInstance;
 
+// Create a pool for an arbitrary database, choosing the driver by host
+export const createPool = (config: pg.PoolConfig): pg.Pool => {
+  const target = config.connectionString || config.host || '';
+  
+  // Check if this is a localhost connection
+  const isLocalConnection = target.includes('localhost') || 
+                           target.includes('127.0.0.1');
+  
+  if (isLocalConnection) {
+    // For local connections, use standard pg Pool without WebSockets
+    return new pg.Pool(config);
+  }
+  
+  // For remote connections, use the serverless Pool with WebSockets
+  return new Pool(config);
+};
+
 // Function to test database connection
 export const testConnection = async (connectionString: string): Promise<boolean> => {
   console.log("Testing database connection...");
   
-  // Check if this is a localhost connection
-  const isLocalConnection = connectionString.includes('localhost') || 
-                           connectionString.includes('127.0.0.1');
-  
   let testPool;
   
   try {
-    if (isLocalConnection) {
-      // For local connections, use standard pg Pool without WebSockets
-      const localPool = new pg.Pool({ connectionString });
-      testPool = localPool;
-    } else {
-      // For remote connections, use the serverless Pool with WebSockets
-      testPool = new Pool({ connectionString });
-    }
+    testPool = createPool({ connectionString });
     
     const client = await testPool.connect();
     console.log("Test connection successful");
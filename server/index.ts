@@ -1,9 +1,16 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { connectionPools } from "./utils/connectionPools";
 
 const app = express();
-app.use(express.json());
+// The CSV import route reads its larger body with its own parser
+const CSV_IMPORT_PATH = /^\/api\/connections\/[^/]+\/tables\/[^/]+\/import$/;
+const jsonBody = express.json();
+app.use((req, res, next) => {
+  if (req.method === "POST" && CSV_IMPORT_PATH.test(req.path)) return next();
+  jsonBody(req, res, next);
+});
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -67,4 +74,13 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Stop accepting requests and close the pools to the target databases
+  const shutdown = (signal: string) => {
+    log(`${signal} received, shutting down`);
+    server.close();
+    connectionPools.closeAll().finally(() => process.exit(0));
+  };
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+  process.once("SIGINT", () => shutdown("SIGINT"));
 })();
@@ -1,12 +1,90 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type ExportHandler } from "./storage";
 import { saveToSecretsFile, loadDatabaseConfig, generateConnectionString } from "./config";
 import { testConnection } from "./db";
 import { insertConnectionSchema, insertTableSchema, insertColumnSchema } from "@shared/schema";
 import { runMigrations, generateMigration } from "./utils/migrations";
+import { describeQueryError } from "./utils/queryErrors";
+import { decodeFilter, type FilterNode } from "@shared/filters";
+import { rowChangeBatchSchema } from "@shared/rowChanges";
+import { importRequestSchema } from "@shared/csvImport";
+import { exportOptionsSchema, queryExportRequestSchema, type ExportOptions } from "@shared/dataExport";
+import { createTableRequestSchema, alterTableRequestSchema } from "@shared/tableDesign";
+import { createIndexRequestSchema, reindexRequestSchema, dropIndexRequestSchema } from "@shared/indexes";
+import { addConstraintRequestSchema, dropConstraintRequestSchema } from "@shared/constraints";
+import { replaceViewRequestSchema, refreshMaterializedViewRequestSchema, dropViewRequestSchema } from "@shared/views";
+import { saveRoutineRequestSchema, callRoutineRequestSchema, setTriggerEnabledRequestSchema } from "@shared/routines";
+import { addEnumValueRequestSchema, renameEnumValueRequestSchema, createDomainRequestSchema } from "@shared/dataTypes";
+import { setSequenceValueRequestSchema, restartSequenceRequestSchema } from "@shared/sequences";
+import { syncMetadataRequestSchema } from "@shared/metadataSync";
+import { descriptionUpdateSchema, dictionaryExportQuerySchema } from "@shared/dictionary";
+import { schemaDiffRequestSchema, generateMigrationSchema } from "@shared/schemaDiff";
+import { buildCreateTable } from "./utils/ddl";
+import { renderDictionary } from "./utils/dataDictionary";
+import { createExportWriter, type ExportWriter } from "./utils/dataExport";
+import { IdentifierError } from "./utils/identifiers";
+import { StaleRowError } from "./utils/rowIdentity";
 import { z } from "zod";
 
+// CSV imports send the parsed rows of a whole file in one request
+const IMPORT_BODY_LIMIT = '50mb';
+
+// Bad or unknown table and column names are client errors, not server failures
+const errorStatus = (error: unknown): number => {
+  if (error instanceof IdentifierError || error instanceof StaleRowError) {
+    return error.status;
+  }
+  return 500;
+};
+
+// Write to the response, waiting while its buffer is full; fails once the
+// client has gone away so the export stops reading rows
+const writeChunk = async (res: Response, chunk: string | Buffer): Promise<void> => {
+  if (chunk.length > 0 && !res.write(chunk)) {
+    await new Promise<void>(resolve => {
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.on('drain', done);
+      res.on('close', done);
+    });
+  }
+  if (res.destroyed) {
+    throw new Error('The download was cancelled');
+  }
+};
+
+// Stream an export into the response. Headers go out with the first batch, so
+// a query that fails outright still gets a JSON error; a failure after that
+// can only cut the download short.
+const streamExport = async (
+  res: Response,
+  options: ExportOptions,
+  target: string,
+  fileName: string,
+  run: (handler: ExportHandler) => Promise<number>
+): Promise<void> => {
+  let writer: ExportWriter | null = null;
+  
+  await run({
+    start: async (fields) => {
+      writer = createExportWriter(fields, options, target);
+      res.setHeader('Content-Type', writer.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName.replace(/[^\w.-]/g, '_')}.${writer.extension}"`);
+      await writeChunk(res, writer.begin());
+    },
+    rows: async (rows) => {
+      await writeChunk(res, writer!.write(rows));
+    },
+  });
+  
+  await writeChunk(res, writer!.end());
+  res.end();
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   console.log("Registering API routes...");
   
@@ -402,7 +480,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(result);
     } catch (error) {
       console.error('Query execution failed:', error);
-      res.status(500).json({ message: `Error: ${(error as Error).message}` });
+      res.status(500).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+    }
+  });
+  
+  // Download the result of a single query, read through a cursor
+  app.post('/api/query/export', async (req, res) => {
+    console.log(`Exporting query result for connection id: ${req.body?.connectionId}`);
+    
+    try {
+      const request = queryExportRequestSchema.parse(req.body);
+      await streamExport(res, request, request.target ?? 'query_result', 'query-result', handler =>
+        storage.exportQuery(request.connectionId, request.query, handler)
+      );
+    } catch (error) {
+      console.error('Query export failed:', error);
+      if (res.headersSent) {
+        res.destroy(error as Error);
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid export options', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  // Run a multi-statement script, one result per statement
+  app.post('/api/query/script', async (req, res) => {
+    const { connectionId, script } = req.body;
+    console.log(`Executing script for connection id: ${connectionId}`);
+    
+    if (typeof script !== 'string' || script.trim().length === 0) {
+      return res.status(400).json({ message: 'Script is required' });
+    }
+    
+    try {
+      const results = await storage.executeScript(connectionId, script);
+      res.json({ results });
+    } catch (error) {
+      console.error('Script execution failed:', error);
+      res.status(500).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
     }
   });
   
@@ -420,6 +537,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  app.get('/api/connections/:connectionId/catalog', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    console.log(`Fetching catalog for connection id: ${connectionId}`);
+    
+    try {
+      const catalog = await storage.fetchCatalog(connectionId);
+      res.json(catalog);
+    } catch (error) {
+      console.error(`Failed to fetch catalog for connection ${connectionId}:`, error);
+      res.status(500).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Sync db_tables/db_columns with the live catalog; preview only lists the changes
+  app.post('/api/connections/:connectionId/metadata/sync', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    console.log(`Syncing metadata, connection id: ${connectionId}`);
+    
+    try {
+      const { comments, preview } = syncMetadataRequestSchema.parse(req.body ?? {});
+      const result = await storage.syncMetadata(connectionId, comments, preview);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to sync metadata for connection ${connectionId}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid sync options', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  // Tables and foreign keys of one schema for the ER diagram
+  app.get('/api/connections/:connectionId/schemas/:schema/diagram', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const schema = req.params.schema;
+    console.log(`Fetching diagram of schema ${schema}, connection id: ${connectionId}`);
+    
+    try {
+      const diagram = await storage.fetchSchemaDiagram(connectionId, schema);
+      res.json(diagram);
+    } catch (error) {
+      console.error(`Failed to fetch diagram of schema ${schema}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Every object of a schema as a downloadable .sql script
+  app.get('/api/connections/:connectionId/schemas/:schema/ddl', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const schema = req.params.schema;
+    console.log(`Exporting DDL of schema ${schema}, connection id: ${connectionId}`);
+    
+    try {
+      const sql = await storage.fetchSchemaDdl(connectionId, schema);
+      res.setHeader('Content-Type', 'application/sql; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${schema.replace(/[^\w.-]/g, '_')}.sql"`);
+      res.send(sql);
+    } catch (error) {
+      console.error(`Failed to export DDL of schema ${schema}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Data dictionary built from the stored metadata
+  app.get('/api/connections/:connectionId/dictionary', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    console.log(`Fetching data dictionary, connection id: ${connectionId}`);
+    
+    try {
+      const dictionary = await storage.fetchDictionary(connectionId);
+      res.json(dictionary);
+    } catch (error) {
+      console.error(`Failed to fetch data dictionary for connection ${connectionId}:`, error);
+      res.status(500).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Edit a table or column description; writeComment also runs COMMENT ON
+  app.put('/api/connections/:connectionId/dictionary/descriptions', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    console.log(`Updating description, connection id: ${connectionId}`);
+    
+    try {
+      const update = descriptionUpdateSchema.parse(req.body);
+      const result = await storage.updateDescription(connectionId, update);
+      res.json(result);
+    } catch (error) {
+      console.error('Failed to update description:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid description', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  // Download the dictionary as a single Markdown or HTML document
+  app.get('/api/connections/:connectionId/dictionary/export', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    console.log(`Exporting data dictionary, connection id: ${connectionId}`);
+    
+    try {
+      const { format, samples } = dictionaryExportQuerySchema.parse(req.query);
+      const connection = await storage.getConnection(connectionId);
+      if (!connection) {
+        res.status(404).json({ message: 'Connection not found' });
+        return;
+      }
+      
+      const dictionary = await storage.fetchDictionary(connectionId, samples);
+      const extension = format === 'html' ? 'html' : 'md';
+      res.setHeader('Content-Type', format === 'html' ? 'text/html; charset=utf-8' : 'text/markdown; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${connection.database.replace(/[^\w.-]/g, '_')}-dictionary.${extension}"`);
+      res.send(renderDictionary(format, connection.database, dictionary));
+    } catch (error) {
+      console.error(`Failed to export data dictionary for connection ${connectionId}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid export options', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+      }
+    }
+  });
+  
+  // Create a table from the table designer; with preview set only the DDL is returned
+  app.post('/api/connections/:connectionId/tables', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    console.log(`Creating table, connection id: ${connectionId}`);
+    
+    try {
+      const { design, preview } = createTableRequestSchema.parse(req.body);
+      if (preview) {
+        res.json({ sql: buildCreateTable(design) });
+        return;
+      }
+      const result = await storage.createDatabaseTable(connectionId, design);
+      res.status(201).json(result);
+    } catch (error) {
+      console.error('Failed to create table:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid table design', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
   app.get('/api/connections/:connectionId/tables/:tableName/columns', async (req, res) => {
     const connectionId = parseInt(req.params.connectionId);
     const tableName = req.params.tableName;
@@ -430,24 +695,626 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(columns);
     } catch (error) {
       console.error(`Failed to fetch columns for table ${tableName}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  app.get('/api/connections/:connectionId/tables/:tableName/foreign-keys', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Fetching foreign keys for table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const foreignKeys = await storage.fetchForeignKeys(connectionId, tableName);
+      res.json(foreignKeys);
+    } catch (error) {
+      console.error(`Failed to fetch foreign keys for table ${tableName}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  app.get('/api/connections/:connectionId/tables/:tableName/samples', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Fetching sample values for table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const samples = await storage.fetchColumnSamples(connectionId, tableName);
+      res.json(samples);
+    } catch (error) {
+      console.error(`Failed to fetch sample values for table ${tableName}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  app.get('/api/connections/:connectionId/tables/:tableName/indexes', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Fetching indexes for table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const indexes = await storage.fetchIndexes(connectionId, tableName);
+      res.json(indexes);
+    } catch (error) {
+      console.error(`Failed to fetch indexes for table ${tableName}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Create an index; with preview set only the DDL is returned
+  app.post('/api/connections/:connectionId/tables/:tableName/indexes', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Creating index on table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const { index, preview } = createIndexRequestSchema.parse(req.body);
+      const result = await storage.createIndex(connectionId, tableName, index, preview);
+      res.status(preview ? 200 : 201).json(result);
+    } catch (error) {
+      console.error(`Failed to create index on table ${tableName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid index definition', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.post('/api/connections/:connectionId/tables/:tableName/indexes/:indexName/reindex', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const { tableName, indexName } = req.params;
+    console.log(`Reindexing ${indexName} on table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const { concurrently } = reindexRequestSchema.parse(req.body ?? {});
+      const result = await storage.reindexIndex(connectionId, tableName, indexName, concurrently);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to reindex ${indexName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid reindex options', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.delete('/api/connections/:connectionId/tables/:tableName/indexes/:indexName', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const { tableName, indexName } = req.params;
+    console.log(`Dropping index ${indexName} on table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const { concurrently, cascade } = dropIndexRequestSchema.parse(req.body ?? {});
+      const result = await storage.dropIndex(connectionId, tableName, indexName, concurrently, cascade);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to drop index ${indexName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid drop options', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.get('/api/connections/:connectionId/tables/:tableName/constraints', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Fetching constraints for table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const constraints = await storage.fetchConstraints(connectionId, tableName);
+      res.json(constraints);
+    } catch (error) {
+      console.error(`Failed to fetch constraints for table ${tableName}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Add a constraint; with preview set the DDL and the number of violating rows are returned
+  app.post('/api/connections/:connectionId/tables/:tableName/constraints', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Adding constraint to table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const { constraint, preview } = addConstraintRequestSchema.parse(req.body);
+      const result = await storage.addConstraint(connectionId, tableName, constraint, preview);
+      res.status(preview ? 200 : 201).json(result);
+    } catch (error) {
+      console.error(`Failed to add constraint to table ${tableName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid constraint definition', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.post('/api/connections/:connectionId/tables/:tableName/constraints/:constraintName/validate', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const { tableName, constraintName } = req.params;
+    console.log(`Validating constraint ${constraintName} on table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const result = await storage.validateConstraint(connectionId, tableName, constraintName);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to validate constraint ${constraintName}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+    }
+  });
+  
+  app.delete('/api/connections/:connectionId/tables/:tableName/constraints/:constraintName', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const { tableName, constraintName } = req.params;
+    console.log(`Dropping constraint ${constraintName} on table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const { cascade } = dropConstraintRequestSchema.parse(req.body ?? {});
+      const result = await storage.dropConstraint(connectionId, tableName, constraintName, cascade);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to drop constraint ${constraintName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid drop options', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  // Objects that dropping the relation with CASCADE would also remove
+  app.get('/api/connections/:connectionId/tables/:tableName/dependents', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Fetching dependents of ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const dependents = await storage.fetchDependents(connectionId, tableName);
+      res.json(dependents);
+    } catch (error) {
+      console.error(`Failed to fetch dependents of ${tableName}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Views and materialized views
+  app.get('/api/connections/:connectionId/tables/:tableName/view', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Fetching view ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const view = await storage.fetchViewDetails(connectionId, tableName);
+      res.json(view);
+    } catch (error) {
+      console.error(`Failed to fetch view ${tableName}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Replace a view's query; with preview set only the DDL is returned
+  app.put('/api/connections/:connectionId/tables/:tableName/view', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Replacing definition of view ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const { definition, preview } = replaceViewRequestSchema.parse(req.body);
+      const result = await storage.replaceViewDefinition(connectionId, tableName, definition, preview);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to replace definition of view ${tableName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid view definition', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.post('/api/connections/:connectionId/tables/:tableName/view/refresh', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Refreshing materialized view ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const { concurrently } = refreshMaterializedViewRequestSchema.parse(req.body ?? {});
+      const result = await storage.refreshMaterializedView(connectionId, tableName, concurrently);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to refresh materialized view ${tableName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid refresh options', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.delete('/api/connections/:connectionId/tables/:tableName/view', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Dropping view ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const { cascade } = dropViewRequestSchema.parse(req.body ?? {});
+      const result = await storage.dropView(connectionId, tableName, cascade);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to drop view ${tableName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid drop options', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.get('/api/connections/:connectionId/tables/:tableName/triggers', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Fetching triggers for table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const triggers = await storage.fetchTriggers(connectionId, tableName);
+      res.json(triggers);
+    } catch (error) {
+      console.error(`Failed to fetch triggers for table ${tableName}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  app.patch('/api/connections/:connectionId/tables/:tableName/triggers/:triggerName', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const { tableName, triggerName } = req.params;
+    console.log(`Updating trigger ${triggerName} on table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const { enabled } = setTriggerEnabledRequestSchema.parse(req.body);
+      const result = await storage.setTriggerEnabled(connectionId, tableName, triggerName, enabled);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to update trigger ${triggerName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid trigger update', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  // Functions and procedures
+  app.get('/api/connections/:connectionId/schemas/:schema/routines', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const schema = req.params.schema;
+    console.log(`Fetching routines of schema ${schema}, connection id: ${connectionId}`);
+    
+    try {
+      const routines = await storage.fetchRoutines(connectionId, schema);
+      res.json(routines);
+    } catch (error) {
+      console.error(`Failed to fetch routines of schema ${schema}:`, error);
       res.status(500).json({ message: `Error: ${(error as Error).message}` });
     }
   });
   
+  app.get('/api/connections/:connectionId/routines/:oid', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const oid = parseInt(req.params.oid);
+    console.log(`Fetching routine ${oid}, connection id: ${connectionId}`);
+    
+    try {
+      const routine = await storage.fetchRoutine(connectionId, oid);
+      res.json(routine);
+    } catch (error) {
+      console.error(`Failed to fetch routine ${oid}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Save a CREATE OR REPLACE FUNCTION/PROCEDURE statement from the source editor
+  app.post('/api/connections/:connectionId/routines', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    console.log(`Saving routine source, connection id: ${connectionId}`);
+    
+    try {
+      const { source } = saveRoutineRequestSchema.parse(req.body);
+      const result = await storage.saveRoutine(connectionId, source);
+      res.json(result);
+    } catch (error) {
+      console.error('Failed to save routine:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid routine source', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.post('/api/connections/:connectionId/routines/:oid/call', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const oid = parseInt(req.params.oid);
+    console.log(`Calling routine ${oid}, connection id: ${connectionId}`);
+    
+    try {
+      const { arguments: values } = callRoutineRequestSchema.parse(req.body ?? {});
+      const result = await storage.callRoutine(connectionId, oid, values);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to call routine ${oid}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid routine arguments', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  // Enums, domains and composite types
+  app.get('/api/connections/:connectionId/schemas/:schema/types', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const schema = req.params.schema;
+    console.log(`Fetching types of schema ${schema}, connection id: ${connectionId}`);
+    
+    try {
+      const types = await storage.fetchTypes(connectionId, schema);
+      res.json(types);
+    } catch (error) {
+      console.error(`Failed to fetch types of schema ${schema}:`, error);
+      res.status(500).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  app.get('/api/connections/:connectionId/schemas/:schema/types/:typeName/usages', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const { schema, typeName } = req.params;
+    console.log(`Fetching columns using type ${schema}.${typeName}, connection id: ${connectionId}`);
+    
+    try {
+      const usages = await storage.fetchTypeUsages(connectionId, schema, typeName);
+      res.json(usages);
+    } catch (error) {
+      console.error(`Failed to fetch usages of type ${schema}.${typeName}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  app.post('/api/connections/:connectionId/schemas/:schema/types/:typeName/values', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const { schema, typeName } = req.params;
+    console.log(`Adding value to enum ${schema}.${typeName}, connection id: ${connectionId}`);
+    
+    try {
+      const request = addEnumValueRequestSchema.parse(req.body);
+      const result = await storage.addEnumValue(connectionId, schema, typeName, request);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to add value to enum ${schema}.${typeName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid enum value', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.patch('/api/connections/:connectionId/schemas/:schema/types/:typeName/values/:label', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const { schema, typeName, label } = req.params;
+    console.log(`Renaming value ${label} of enum ${schema}.${typeName}, connection id: ${connectionId}`);
+    
+    try {
+      const { newName } = renameEnumValueRequestSchema.parse(req.body);
+      const result = await storage.renameEnumValue(connectionId, schema, typeName, label, newName);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to rename value ${label} of enum ${schema}.${typeName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid enum value', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.post('/api/connections/:connectionId/domains', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    console.log(`Creating domain, connection id: ${connectionId}`);
+    
+    try {
+      const { domain, preview } = createDomainRequestSchema.parse(req.body);
+      const result = await storage.createDomain(connectionId, domain, preview);
+      res.json(result);
+    } catch (error) {
+      console.error('Failed to create domain:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid domain', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  // Sequences, including those behind serial and identity columns
+  app.get('/api/connections/:connectionId/schemas/:schema/sequences', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const schema = req.params.schema;
+    console.log(`Fetching sequences of schema ${schema}, connection id: ${connectionId}`);
+    
+    try {
+      const sequences = await storage.fetchSequences(connectionId, schema);
+      res.json(sequences);
+    } catch (error) {
+      console.error(`Failed to fetch sequences of schema ${schema}:`, error);
+      res.status(500).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  app.post('/api/connections/:connectionId/schemas/:schema/sequences/:name/setval', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const { schema, name } = req.params;
+    console.log(`Setting sequence ${schema}.${name}, connection id: ${connectionId}`);
+    
+    try {
+      const { value, isCalled } = setSequenceValueRequestSchema.parse(req.body);
+      const result = await storage.setSequenceValue(connectionId, schema, name, value, isCalled);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to set sequence ${schema}.${name}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid sequence value', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.post('/api/connections/:connectionId/schemas/:schema/sequences/:name/restart', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const { schema, name } = req.params;
+    console.log(`Restarting sequence ${schema}.${name}, connection id: ${connectionId}`);
+    
+    try {
+      const { value } = restartSequenceRequestSchema.parse(req.body ?? {});
+      const result = await storage.restartSequence(connectionId, schema, name, value);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to restart sequence ${schema}.${name}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid sequence value', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.post('/api/connections/:connectionId/schemas/:schema/sequences/:name/resync', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const { schema, name } = req.params;
+    console.log(`Resyncing sequence ${schema}.${name}, connection id: ${connectionId}`);
+    
+    try {
+      const result = await storage.resyncSequence(connectionId, schema, name);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to resync sequence ${schema}.${name}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+    }
+  });
+  
+  // CREATE statements of one table or view for the DDL tab
+  app.get('/api/connections/:connectionId/tables/:tableName/ddl', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Fetching DDL of ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const ddl = await storage.fetchObjectDdl(connectionId, tableName);
+      res.json(ddl);
+    } catch (error) {
+      console.error(`Failed to fetch DDL of ${tableName}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Structure tab changes; all operations run in one transaction, preview only returns the DDL
+  app.post('/api/connections/:connectionId/tables/:tableName/alter', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Altering table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const { operations, preview } = alterTableRequestSchema.parse(req.body);
+      const result = await storage.alterDatabaseTable(connectionId, tableName, operations, preview);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to alter table ${tableName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid table change', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
   app.get('/api/connections/:connectionId/tables/:tableName/data', async (req, res) => {
     const connectionId = parseInt(req.params.connectionId);
     const tableName = req.params.tableName;
     const page = req.query.page ? parseInt(req.query.page as string) : 1;
     const pageSize = req.query.pageSize ? parseInt(req.query.pageSize as string) : 10;
+    const search = req.query.search ? String(req.query.search) : undefined;
+    const searchColumn = req.query.searchColumn ? String(req.query.searchColumn) : undefined;
+    const sortColumn = req.query.sortColumn ? String(req.query.sortColumn) : undefined;
+    const sortDirection = req.query.sortDirection === 'desc' ? 'desc' : 'asc';
     
     console.log(`Fetching data for table ${tableName}, connection id: ${connectionId}, page: ${page}, pageSize: ${pageSize}`);
     
+    let filter: FilterNode | undefined;
+    if (req.query.filter) {
+      try {
+        filter = decodeFilter(String(req.query.filter));
+      } catch (error) {
+        console.error('Invalid filter:', error);
+        return res.status(400).json({ message: 'Invalid filter' });
+      }
+    }
+    
     try {
-      const result = await storage.fetchTableData(connectionId, tableName, page, pageSize);
+      const result = await storage.fetchTableData(connectionId, tableName, {
+        page,
+        pageSize,
+        search,
+        searchColumn,
+        sortColumn,
+        sortDirection,
+        filter,
+      });
       res.json(result);
     } catch (error) {
       console.error(`Failed to fetch data for table ${tableName}:`, error);
-      res.status(500).json({ message: `Error: ${(error as Error).message}` });
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Download a whole table, or with search, filter and sort the rows the grid shows
+  app.get('/api/connections/:connectionId/tables/:tableName/export', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    const search = req.query.search ? String(req.query.search) : undefined;
+    const searchColumn = req.query.searchColumn ? String(req.query.searchColumn) : undefined;
+    const sortColumn = req.query.sortColumn ? String(req.query.sortColumn) : undefined;
+    const sortDirection = req.query.sortDirection === 'desc' ? 'desc' : 'asc';
+    
+    console.log(`Exporting table ${tableName}, connection id: ${connectionId}`);
+    
+    let filter: FilterNode | undefined;
+    if (req.query.filter) {
+      try {
+        filter = decodeFilter(String(req.query.filter));
+      } catch (error) {
+        console.error('Invalid filter:', error);
+        return res.status(400).json({ message: 'Invalid filter' });
+      }
+    }
+    
+    try {
+      const options = exportOptionsSchema.parse(req.query);
+      await streamExport(res, options, options.target ?? tableName, tableName, handler =>
+        storage.exportTable(connectionId, tableName, { search, searchColumn, sortColumn, sortDirection, filter }, handler)
+      );
+    } catch (error) {
+      console.error(`Failed to export table ${tableName}:`, error);
+      if (res.headersSent) {
+        res.destroy(error as Error);
+      } else if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid export options', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+      }
     }
   });
   
@@ -463,21 +1330,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(201).json(result);
     } catch (error) {
       console.error(`Failed to insert row into table ${tableName}:`, error);
-      res.status(500).json({ message: `Error: ${(error as Error).message}` });
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
     }
   });
   
-  app.put('/api/connections/:connectionId/tables/:tableName/rows/:primaryKey/:primaryKeyValue', async (req, res) => {
+  // Rows are addressed by a key object in the body, shaped by the table's row identity
+  app.put('/api/connections/:connectionId/tables/:tableName/rows', async (req, res) => {
     const connectionId = parseInt(req.params.connectionId);
     const tableName = req.params.tableName;
-    const primaryKey = req.params.primaryKey;
-    const primaryKeyValue = req.params.primaryKeyValue;
-    const data = req.body;
+    const { key, data } = req.body;
     
-    console.log(`Updating row in table ${tableName} where ${primaryKey} = ${primaryKeyValue}, connection id: ${connectionId}`);
+    console.log(`Updating row in table ${tableName} where ${JSON.stringify(key)}, connection id: ${connectionId}`);
     
     try {
-      const result = await storage.updateRow(connectionId, tableName, primaryKey, primaryKeyValue, data);
+      const result = await storage.updateRow(connectionId, tableName, key, data || {});
       if (result) {
         res.json(result);
       } else {
@@ -485,20 +1351,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     } catch (error) {
       console.error(`Failed to update row in table ${tableName}:`, error);
-      res.status(500).json({ message: `Error: ${(error as Error).message}` });
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
     }
   });
   
-  app.delete('/api/connections/:connectionId/tables/:tableName/rows/:primaryKey/:primaryKeyValue', async (req, res) => {
+  app.delete('/api/connections/:connectionId/tables/:tableName/rows', async (req, res) => {
     const connectionId = parseInt(req.params.connectionId);
     const tableName = req.params.tableName;
-    const primaryKey = req.params.primaryKey;
-    const primaryKeyValue = req.params.primaryKeyValue;
+    const { key } = req.body;
     
-    console.log(`Deleting row from table ${tableName} where ${primaryKey} = ${primaryKeyValue}, connection id: ${connectionId}`);
+    console.log(`Deleting row from table ${tableName} where ${JSON.stringify(key)}, connection id: ${connectionId}`);
     
     try {
-      const success = await storage.deleteRow(connectionId, tableName, primaryKey, primaryKeyValue);
+      const success = await storage.deleteRow(connectionId, tableName, key);
       if (success) {
         res.json({ success });
       } else {
@@ -506,7 +1371,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     } catch (error) {
       console.error(`Failed to delete row from table ${tableName}:`, error);
-      res.status(500).json({ message: `Error: ${(error as Error).message}` });
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+    }
+  });
+  
+  // Apply pending grid edits in one transaction
+  app.post('/api/connections/:connectionId/tables/:tableName/batch', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    
+    console.log(`Applying row changes to table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const { changes } = rowChangeBatchSchema.parse(req.body);
+      const result = await storage.applyRowChanges(connectionId, tableName, changes);
+      res.json(result);
+    } catch (error) {
+      console.error(`Failed to apply row changes to table ${tableName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid row changes', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
+      }
+    }
+  });
+  
+  // Check a parsed CSV file against the table, or start loading it. Loading
+  // runs in the background; poll the import for progress.
+  app.post('/api/connections/:connectionId/tables/:tableName/import', express.json({ limit: IMPORT_BODY_LIMIT }), async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const tableName = req.params.tableName;
+    console.log(`Importing into table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const request = importRequestSchema.parse(req.body);
+      if (request.preview) {
+        const preview = await storage.previewImport(connectionId, tableName, request);
+        res.json(preview);
+      } else {
+        const result = await storage.startImport(connectionId, tableName, request);
+        res.status(202).json(result);
+      }
+    } catch (error) {
+      console.error(`Failed to import into table ${tableName}:`, error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid import', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
+    }
+  });
+  
+  app.get('/api/connections/:connectionId/imports/:importId', async (req, res) => {
+    const connectionId = parseInt(req.params.connectionId);
+    const importId = parseInt(req.params.importId);
+    console.log(`Getting import ${importId}, connection id: ${connectionId}`);
+    
+    try {
+      const status = await storage.getImport(connectionId, importId);
+      res.json(status);
+    } catch (error) {
+      console.error(`Failed to get import ${importId}:`, error);
+      res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}` });
     }
   });
   
@@ -523,16 +1449,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Optional sql fills the new file, e.g. with a script from the schema diff
   app.post('/api/migrations/generate', async (req, res) => {
-    const { name } = req.body;
-    console.log(`Generating migration: ${name}`);
+    console.log(`Generating migration: ${req.body?.name}`);
     
     try {
-      const fileName = generateMigration(name);
+      const { name, sql } = generateMigrationSchema.parse(req.body ?? {});
+      const fileName = generateMigration(name, sql);
       res.json({ success: true, fileName });
     } catch (error) {
       console.error('Failed to generate migration:', error);
-      res.status(500).json({ success: false, message: `Error: ${(error as Error).message}` });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ success: false, message: 'Invalid migration name', errors: error.format() });
+      } else {
+        res.status(500).json({ success: false, message: `Error: ${(error as Error).message}` });
+      }
+    }
+  });
+  
+  // Schema diff between two saved connections, or two schemas of one
+  app.post('/api/schema-diff', async (req, res) => {
+    console.log('Comparing schemas');
+    
+    try {
+      const { source, target } = schemaDiffRequestSchema.parse(req.body ?? {});
+      const diff = await storage.diffSchemas(source, target);
+      res.json(diff);
+    } catch (error) {
+      console.error('Failed to compare schemas:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: 'Invalid schema diff request', errors: error.format() });
+      } else {
+        res.status(errorStatus(error)).json({ message: `Error: ${(error as Error).message}`, error: describeQueryError(error) });
+      }
     }
   });
 
@@ -6,9 +6,430 @@ import {
   activityLogs, type ActivityLog, type InsertActivityLog,
   appSettings, type AppSetting, type InsertAppSetting
 } from "@shared/schema";
-import { db, pool } from "./db";
-import { eq, and, desc, sql } from "drizzle-orm";
+import type { PoolClient } from "pg";
+import { db } from "./db";
+import { eq, and, desc, inArray } from "drizzle-orm";
 import { Logger } from "./utils/migrations";
+import { connectionPools, rawTextTypes } from "./utils/connectionPools";
+import { splitStatements } from "./utils/sqlSplitter";
+import { describeQueryError, type QueryErrorDetails } from "./utils/queryErrors";
+import {
+  IdentifierError,
+  quoteIdentifier,
+  quoteQualifiedName,
+  parseTableReference,
+  escapeLikePattern,
+  type TableReference,
+} from "./utils/identifiers";
+import {
+  StaleRowError,
+  buildKeyCondition,
+  CTID_COLUMN,
+  XMIN_COLUMN,
+  type RowIdentity,
+  type RowKey,
+} from "./utils/rowIdentity";
+import type { FilterNode } from "@shared/filters";
+import type { RowChange, RowChangeType } from "@shared/rowChanges";
+import type { TableDesign, AlterTableOperation } from "@shared/tableDesign";
+import type { IndexDesign } from "@shared/indexes";
+import type { ConstraintDesign } from "@shared/constraints";
+import type { CommentDirection } from "@shared/metadataSync";
+import type { DescriptionUpdate } from "@shared/dictionary";
+import {
+  buildCreateTable,
+  buildAlterTable,
+  buildCreateIndex,
+  buildReindex,
+  buildDropIndex,
+  buildAddConstraint,
+  buildViolationCount,
+  buildValidateConstraint,
+  buildDropConstraint,
+  buildReplaceView,
+  buildRefreshMaterializedView,
+  buildDropView,
+  buildSetTriggerEnabled,
+  buildAddEnumValue,
+  buildRenameEnumValue,
+  buildCreateDomain,
+  buildTableComment,
+  buildColumnComment,
+} from "./utils/ddl";
+import {
+  planMetadataSync,
+  newTableRecord,
+  newColumnRecord,
+  type LiveRelation,
+  type MetadataChange,
+} from "./utils/metadataSync";
+import type { DictionaryTable } from "./utils/dataDictionary";
+import { diffSchemas, type SchemaDiff, type SchemaSnapshot } from "./utils/schemaDiff";
+import { renderSchemaDdl, type SchemaDdl, type DdlGrant } from "./utils/ddlExport";
+import type { SchemaEndpoint } from "@shared/schemaDiff";
+import type { RoutineArgumentValue } from "@shared/routines";
+import type { AddEnumValueRequest, DomainDesign } from "@shared/dataTypes";
+import {
+  argumentModes,
+  buildRoutineCall,
+  checkRoutineSource,
+  describeTriggerType,
+  isInputArgument,
+  type RoutineArgument,
+} from "./utils/routines";
+import {
+  buildSetSequenceValue,
+  buildRestartSequence,
+  buildResyncSequence,
+  columnExtremeExpression,
+  nextSequenceValue,
+  isSequenceBehind,
+  type SequenceOwner,
+} from "./utils/sequences";
+import type { ImportRequest, ImportRowError, ImportProgress } from "@shared/csvImport";
+import {
+  prepareImportValue,
+  importChunkSize,
+  buildImportInsert,
+  type ImportColumn,
+  type ImportValue,
+} from "./utils/csvImport";
+import type { ExportField, ExportRow } from "./utils/dataExport";
+
+// Paging, sorting and search options for browsing table data
+export interface TableDataOptions {
+  page?: number;
+  pageSize?: number;
+  search?: string;
+  searchColumn?: string;
+  sortColumn?: string;
+  sortDirection?: 'asc' | 'desc';
+  filter?: FilterNode;
+}
+
+export type CatalogObjectKind = 'table' | 'partitioned_table' | 'view' | 'materialized_view' | 'foreign_table';
+
+// Schema with the relations it contains, for the sidebar tree
+export interface CatalogSchema {
+  name: string;
+  objects: { name: string; kind: CatalogObjectKind }[];
+}
+
+// pg_class.relkind values of browsable relations
+const relationKinds: Record<string, CatalogObjectKind> = {
+  r: 'table',
+  p: 'partitioned_table',
+  v: 'view',
+  m: 'materialized_view',
+  f: 'foreign_table',
+};
+
+// A table confirmed to exist in the target database's catalog
+export interface ResolvedTable extends TableReference {
+  // pg_class.relkind: r, p, v, m or f
+  kind: string;
+  // Quoted "schema"."name", safe to interpolate
+  qualifiedName: string;
+  columns: any[];
+}
+
+// Outcome of one statement in a script run from the query editor
+export interface StatementResult {
+  statement: string;
+  offset: number;
+  command: string | null;
+  rowCount: number | null;
+  fields: { name: string; dataTypeID: number }[];
+  rows: any[][];
+  durationMs: number;
+  error?: QueryErrorDetails;
+}
+
+// A foreign key constraint between two tables
+export interface ForeignKey {
+  name: string;
+  schema: string;
+  table: string;
+  columns: string[];
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumns: string[];
+  onUpdate: string;
+  onDelete: string;
+}
+
+// Keys this table holds to others, and keys other tables hold to it
+export interface TableForeignKeys {
+  outgoing: ForeignKey[];
+  incoming: ForeignKey[];
+}
+
+// An index of a table with its size and usage. Unused indexes have never been
+// scanned and enforce no constraint; duplicates index the same keys, method
+// and predicate as another index.
+export interface TableIndex {
+  name: string;
+  definition: string;
+  method: string;
+  columns: string[];
+  isUnique: boolean;
+  isPrimary: boolean;
+  isValid: boolean;
+  predicate: string | null;
+  // Constraint the index backs, if any
+  constraint: string | null;
+  sizeBytes: number;
+  size: string;
+  scans: number;
+  unused: boolean;
+  duplicateOf: string | null;
+}
+
+// A constraint of a table. Constraints added NOT VALID stay unvalidated until
+// VALIDATE CONSTRAINT checks the existing rows.
+export interface TableConstraint {
+  name: string;
+  type: 'primary_key' | 'unique' | 'foreign_key' | 'check' | 'exclude' | 'trigger' | 'not_null';
+  definition: string;
+  columns: string[];
+  validated: boolean;
+  deferrable: boolean;
+  initiallyDeferred: boolean;
+  referencedSchema: string | null;
+  referencedTable: string | null;
+}
+
+// DDL for a new constraint; previews also count the rows that violate it,
+// null when counting timed out
+export interface AddConstraintResult {
+  sql: string;
+  violations?: number | null;
+}
+
+// Outcome of one change in a batch; applied changes become rolled_back when
+// another change in the batch failed
+export interface RowChangeResult {
+  index: number;
+  type: RowChangeType;
+  status: 'applied' | 'failed' | 'rolled_back';
+  row?: any;
+  error?: QueryErrorDetails;
+}
+
+export interface RowChangeBatchResult {
+  committed: boolean;
+  results: RowChangeResult[];
+}
+
+// DDL for a set of Structure tab changes and the table they leave behind;
+// applied is false for previews
+export interface AlterTableResult {
+  sql: string[];
+  schema: string;
+  name: string;
+  dropped: boolean;
+  applied: boolean;
+}
+
+// Tables of one schema and the foreign keys touching it, for the ER diagram.
+// Keys to or from other schemas are included; their far ends are not in tables.
+export interface SchemaDiagram {
+  schema: string;
+  tables: {
+    schema: string;
+    name: string;
+    kind: CatalogObjectKind;
+    columns: { name: string; type: string; nullable: boolean; isPrimary: boolean }[];
+  }[];
+  foreignKeys: ForeignKey[];
+}
+
+// Differences found between the live catalog and db_tables/db_columns, with
+// the COMMENT ON statements an export runs; applied is false for previews
+export interface MetadataSyncResult {
+  changes: MetadataChange[];
+  sql: string[];
+  applied: boolean;
+}
+
+// Structured differences between two schemas and the migration that brings
+// the target in line with the source
+export interface SchemaDiffResult extends SchemaDiff {
+  source: SchemaEndpoint & { connectionName: string };
+  target: SchemaEndpoint & { connectionName: string };
+}
+
+// The last refresh of a materialized view run from this app, as recorded in
+// the activity log; Postgres itself does not track refresh times
+export interface ViewRefresh {
+  refreshedAt: Date;
+  durationMs: number | null;
+  concurrently: boolean;
+}
+
+// Definition and refresh state of a view or materialized view
+export interface ViewDetails {
+  schema: string;
+  name: string;
+  kind: 'view' | 'materialized_view';
+  definition: string;
+  // False for a materialized view created or refreshed WITH NO DATA
+  populated: boolean;
+  // Concurrent refreshes need existing data and a unique index on plain columns
+  canRefreshConcurrently: boolean;
+  lastRefresh: ViewRefresh | null;
+}
+
+// An object that dropping a relation with CASCADE would remove: a view
+// reading from it, directly or through other views (depth > 1), or a foreign
+// key of another table referencing it
+export interface RelationDependent {
+  kind: CatalogObjectKind | 'foreign_key';
+  schema: string;
+  name: string;
+  // Table holding a foreign key; null for views
+  table: string | null;
+  depth: number;
+}
+
+// A function or procedure from pg_proc
+export interface Routine {
+  oid: number;
+  schema: string;
+  name: string;
+  kind: 'function' | 'procedure';
+  // Argument list as written in CREATE, with names and defaults
+  arguments: string;
+  identityArguments: string;
+  // Return type; null for procedures
+  result: string | null;
+  language: string;
+  volatility: 'immutable' | 'stable' | 'volatile';
+  securityDefiner: boolean;
+  comment: string | null;
+}
+
+// A routine with its CREATE OR REPLACE source and arguments one by one
+export interface RoutineDetails extends Routine {
+  definition: string;
+  parameters: RoutineArgument[];
+}
+
+// A user-defined trigger on a table; internal ones backing foreign keys are left out
+export interface TableTrigger {
+  name: string;
+  timing: string;
+  events: string[];
+  level: string;
+  enabled: boolean;
+  // Constraint triggers can be deferred like constraints
+  isConstraint: boolean;
+  functionOid: number;
+  functionName: string;
+  definition: string;
+}
+
+// Enum with its labels in sort order
+export interface EnumType {
+  name: string;
+  labels: string[];
+  comment: string | null;
+}
+
+export interface DomainType {
+  name: string;
+  baseType: string;
+  notNull: boolean;
+  defaultValue: string | null;
+  checks: { name: string; definition: string }[];
+  comment: string | null;
+}
+
+// A standalone composite type (CREATE TYPE ... AS), not a table's row type
+export interface CompositeType {
+  name: string;
+  attributes: { name: string; type: string }[];
+  comment: string | null;
+}
+
+export interface SchemaTypes {
+  enums: EnumType[];
+  domains: DomainType[];
+  composites: CompositeType[];
+}
+
+// A column declared with a type, an array of it or a domain over it
+export interface TypeUsage {
+  schema: string;
+  table: string;
+  kind: CatalogObjectKind;
+  column: string;
+  // The column's declared type, e.g. mood[] for an array of the enum mood
+  type: string;
+}
+
+// A sequence with its settings, where it stands, and for serial and identity
+// sequences the column it feeds. Values are bigint, kept as strings.
+export interface Sequence {
+  schema: string;
+  name: string;
+  dataType: string;
+  startValue: string;
+  increment: string;
+  minValue: string;
+  maxValue: string;
+  cacheSize: string;
+  cycle: boolean;
+  // Null when the role may not read the sequence
+  lastValue: string | null;
+  isCalled: boolean;
+  nextValue: string | null;
+  owner: SequenceOwner | null;
+  // MAX (MIN for descending sequences) of the owning column when it is an integer
+  columnExtreme: string | null;
+  isBehind: boolean;
+}
+
+// Outcome of checking an import's values before anything is loaded
+export interface ImportPreview {
+  // The INSERT for the first row, as each chunk will run it
+  sql: string;
+  total: number;
+  valid: number;
+  rejected: number;
+  errors: ImportRowError[];
+}
+
+// An import as recorded in its activity log entry
+export interface ImportStatus extends ImportProgress {
+  id: number;
+  status: 'RUNNING' | 'SUCCESS' | 'ERROR';
+  createdAt: Date;
+}
+
+// Rejected values kept for the error report; the count covers the rest
+const MAX_IMPORT_ERRORS = 1000;
+
+// Mapped columns in file order and the rows whose values all passed the checks
+interface PreparedImport {
+  columns: ImportColumn[];
+  rows: { line: number; values: ImportValue[] }[];
+  errors: ImportRowError[];
+  rejected: number;
+}
+
+// Receives an export batch by batch. start runs once the first batch has been
+// fetched, so a query that fails outright fails before anything is written.
+export interface ExportHandler {
+  start(fields: ExportField[]): Promise<void>;
+  rows(rows: ExportRow[]): Promise<void>;
+}
+
+// Rows fetched from an export cursor at a time
+const EXPORT_BATCH_ROWS = 1000;
+
+// Every value arrives as Postgres's text output, with nothing parsed into JS types
+const textTypes = rawTextTypes();
 
 // Storage interface for database operations
 export interface IStorage {
@@ -45,6 +466,7 @@ export interface IStorage {
   // Activity Log methods
   createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
   getActivityLogs(connectionId: number, limit?: number): Promise<ActivityLog[]>;
+  updateActivityLog(id: number, changes: Partial<InsertActivityLog>): Promise<ActivityLog | undefined>;
   
   // App Settings methods
   getSetting(key: string): Promise<AppSetting | undefined>;
@@ -52,18 +474,291 @@ export interface IStorage {
   
   // Raw SQL execution
   executeRawQuery(connectionId: number, sql: string, params?: any[]): Promise<any>;
+  executeScript(connectionId: number, script: string): Promise<StatementResult[]>;
   
   // Database schema introspection
   fetchDatabaseTables(connectionId: number): Promise<string[]>;
+  fetchCatalog(connectionId: number): Promise<CatalogSchema[]>;
+  resolveTable(connectionId: number, tableName: string): Promise<ResolvedTable>;
+  fetchRowIdentity(connectionId: number, tableName: string): Promise<RowIdentity>;
   fetchTableColumns(connectionId: number, tableName: string): Promise<any[]>;
-  fetchTableData(connectionId: number, tableName: string, page?: number, pageSize?: number): Promise<any>;
+  fetchForeignKeys(connectionId: number, tableName: string): Promise<TableForeignKeys>;
+  fetchIndexes(connectionId: number, tableName: string): Promise<TableIndex[]>;
+  fetchConstraints(connectionId: number, tableName: string): Promise<TableConstraint[]>;
+  fetchSchemaDiagram(connectionId: number, schema: string): Promise<SchemaDiagram>;
+  fetchTableData(connectionId: number, tableName: string, options?: TableDataOptions): Promise<any>;
   
   // Data manipulation operations
   insertRow(connectionId: number, tableName: string, data: Record<string, any>): Promise<any>;
-  updateRow(connectionId: number, tableName: string, primaryKey: string, primaryKeyValue: any, data: Record<string, any>): Promise<any>;
-  deleteRow(connectionId: number, tableName: string, primaryKey: string, primaryKeyValue: any): Promise<boolean>;
+  updateRow(connectionId: number, tableName: string, key: RowKey, data: Record<string, any>): Promise<any>;
+  deleteRow(connectionId: number, tableName: string, key: RowKey): Promise<boolean>;
+  applyRowChanges(connectionId: number, tableName: string, changes: RowChange[]): Promise<RowChangeBatchResult>;
+  
+  // CSV import
+  previewImport(connectionId: number, tableName: string, request: ImportRequest): Promise<ImportPreview>;
+  startImport(connectionId: number, tableName: string, request: ImportRequest): Promise<{ importId: number }>;
+  getImport(connectionId: number, importId: number): Promise<ImportStatus>;
+  
+  // Export
+  exportTable(connectionId: number, tableName: string, options: TableDataOptions, handler: ExportHandler): Promise<number>;
+  exportQuery(connectionId: number, query: string, handler: ExportHandler): Promise<number>;
+  
+  // Schema changes
+  createDatabaseTable(connectionId: number, design: TableDesign): Promise<{ sql: string; table: DbTable }>;
+  alterDatabaseTable(connectionId: number, tableName: string, operations: AlterTableOperation[], preview?: boolean): Promise<AlterTableResult>;
+  ensureTableRecord(connectionId: number, schema: string, name: string): Promise<DbTable>;
+  createIndex(connectionId: number, tableName: string, index: IndexDesign, preview?: boolean): Promise<{ sql: string }>;
+  reindexIndex(connectionId: number, tableName: string, indexName: string, concurrently: boolean): Promise<{ sql: string }>;
+  dropIndex(connectionId: number, tableName: string, indexName: string, concurrently: boolean, cascade: boolean): Promise<{ sql: string }>;
+  addConstraint(connectionId: number, tableName: string, constraint: ConstraintDesign, preview?: boolean): Promise<AddConstraintResult>;
+  validateConstraint(connectionId: number, tableName: string, constraintName: string): Promise<{ sql: string }>;
+  dropConstraint(connectionId: number, tableName: string, constraintName: string, cascade: boolean): Promise<{ sql: string }>;
+  fetchDependents(connectionId: number, tableName: string): Promise<RelationDependent[]>;
+  
+  // Views and materialized views
+  fetchViewDetails(connectionId: number, tableName: string): Promise<ViewDetails>;
+  replaceViewDefinition(connectionId: number, tableName: string, definition: string, preview?: boolean): Promise<{ sql: string }>;
+  refreshMaterializedView(connectionId: number, tableName: string, concurrently: boolean): Promise<{ sql: string; lastRefresh: ViewRefresh | null }>;
+  dropView(connectionId: number, tableName: string, cascade: boolean): Promise<{ sql: string }>;
+  
+  // Routines and triggers
+  fetchRoutines(connectionId: number, schema: string): Promise<Routine[]>;
+  fetchRoutine(connectionId: number, oid: number): Promise<RoutineDetails>;
+  saveRoutine(connectionId: number, source: string): Promise<{ sql: string }>;
+  callRoutine(connectionId: number, oid: number, values: RoutineArgumentValue[]): Promise<{ sql: string; results: StatementResult[] }>;
+  fetchTriggers(connectionId: number, tableName: string): Promise<TableTrigger[]>;
+  setTriggerEnabled(connectionId: number, tableName: string, triggerName: string, enabled: boolean): Promise<{ sql: string }>;
+  
+  // Enums, domains and composite types
+  fetchTypes(connectionId: number, schema: string): Promise<SchemaTypes>;
+  fetchTypeUsages(connectionId: number, schema: string, typeName: string): Promise<TypeUsage[]>;
+  addEnumValue(connectionId: number, schema: string, typeName: string, request: AddEnumValueRequest): Promise<{ sql: string }>;
+  renameEnumValue(connectionId: number, schema: string, typeName: string, label: string, newLabel: string): Promise<{ sql: string }>;
+  createDomain(connectionId: number, domain: DomainDesign, preview?: boolean): Promise<{ sql: string }>;
+  
+  // Sequences
+  fetchSequences(connectionId: number, schema: string): Promise<Sequence[]>;
+  setSequenceValue(connectionId: number, schema: string, name: string, value: string, isCalled: boolean): Promise<{ sql: string }>;
+  restartSequence(connectionId: number, schema: string, name: string, value?: string): Promise<{ sql: string }>;
+  resyncSequence(connectionId: number, schema: string, name: string): Promise<{ sql: string }>;
+  
+  // Metadata sync
+  syncMetadata(connectionId: number, comments: CommentDirection, preview?: boolean): Promise<MetadataSyncResult>;
+  
+  // Data dictionary
+  fetchDictionary(connectionId: number, includeSamples?: boolean): Promise<DictionaryTable[]>;
+  fetchColumnSamples(connectionId: number, tableName: string): Promise<Record<string, string[]>>;
+  updateDescription(connectionId: number, update: DescriptionUpdate): Promise<{ description: string | null; sql: string | null }>;
+  
+  // Schema diff
+  diffSchemas(source: SchemaEndpoint, target: SchemaEndpoint): Promise<SchemaDiffResult>;
+  
+  // DDL export
+  fetchObjectDdl(connectionId: number, tableName: string): Promise<{ sql: string }>;
+  fetchSchemaDdl(connectionId: number, schema: string): Promise<string>;
+}
+
+// Compile a filter tree into a boolean SQL expression. Operands are pushed onto
+// params and referenced by placeholder; column names are checked and quoted.
+const compileFilter = (node: FilterNode, columnTypes: Map<string, string>, params: any[]): string => {
+  if (node.type === 'group') {
+    const parts = node.children.map(child => compileFilter(child, columnTypes, params));
+    if (parts.length === 0) {
+      return 'TRUE';
+    }
+    return `(${parts.join(node.combinator === 'or' ? ' OR ' : ' AND ')})`;
+  }
+  
+  const dataType = columnTypes.get(node.column);
+  if (dataType === undefined) {
+    throw new IdentifierError(`Unknown filter column: ${node.column}`);
+  }
+  
+  const column = quoteIdentifier(node.column);
+  const placeholder = (value: any) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  const values = (count?: number) => {
+    if (!Array.isArray(node.values) || node.values.length === 0 || (count && node.values.length !== count)) {
+      throw new IdentifierError(`Filter on ${node.column} needs ${count ?? 'at least one'} value(s) for ${node.operator}`);
+    }
+    return node.values;
+  };
+  const jsonColumn = dataType === 'jsonb' ? column : `${column}::jsonb`;
+  
+  switch (node.operator) {
+    case 'eq': return `${column} = ${placeholder(node.value)}`;
+    case 'neq': return `${column} <> ${placeholder(node.value)}`;
+    case 'lt': return `${column} < ${placeholder(node.value)}`;
+    case 'lte': return `${column} <= ${placeholder(node.value)}`;
+    case 'gt': return `${column} > ${placeholder(node.value)}`;
+    case 'gte': return `${column} >= ${placeholder(node.value)}`;
+    case 'like': return `${column}::text LIKE ${placeholder(node.value)}`;
+    case 'ilike': return `${column}::text ILIKE ${placeholder(node.value)}`;
+    case 'not_like': return `${column}::text NOT LIKE ${placeholder(node.value)}`;
+    case 'not_ilike': return `${column}::text NOT ILIKE ${placeholder(node.value)}`;
+    case 'in': return `${column} = ANY(${placeholder(values())})`;
+    case 'not_in': return `NOT (${column} = ANY(${placeholder(values())}))`;
+    case 'is_null': return `${column} IS NULL`;
+    case 'is_not_null': return `${column} IS NOT NULL`;
+    case 'between': {
+      const [low, high] = values(2);
+      return `${column} BETWEEN ${placeholder(low)} AND ${placeholder(high)}`;
+    }
+    case 'json_path': return `${jsonColumn} @? ${placeholder(node.value)}::jsonpath`;
+    case 'json_has_key': return `${jsonColumn} ? ${placeholder(node.value)}`;
+    case 'json_contains': {
+      const document = typeof node.value === 'string' ? node.value : JSON.stringify(node.value);
+      return `${jsonColumn} @> ${placeholder(document)}::jsonb`;
+    }
+    default: {
+      // Every operator is handled above; this catches ones added to the schema later
+      const operator: never = node.operator;
+      throw new IdentifierError(`Unsupported filter operator: ${operator}`);
+    }
+  }
+};
+
+// pg_constraint.confupdtype / confdeltype codes
+const foreignKeyActions: Record<string, string> = {
+  a: 'NO ACTION',
+  r: 'RESTRICT',
+  c: 'CASCADE',
+  n: 'SET NULL',
+  d: 'SET DEFAULT',
+};
+
+// pg_constraint.contype codes
+const constraintTypes: Record<string, TableConstraint['type']> = {
+  p: 'primary_key',
+  u: 'unique',
+  f: 'foreign_key',
+  c: 'check',
+  x: 'exclude',
+  t: 'trigger',
+  n: 'not_null',
+};
+
+// Reject column names that are not part of the resolved table
+const assertKnownColumns = (table: ResolvedTable, names: string[]): void => {
+  const known = new Set(table.columns.map((column: any) => column.column_name));
+  for (const name of names) {
+    if (!known.has(name)) {
+      throw new IdentifierError(`Column ${name} does not exist in ${table.schema}.${table.name}`);
+    }
+  }
+};
+
+// Generated columns are computed by the database and can never be written
+const assertWritableColumns = (table: ResolvedTable, names: string[]): void => {
+  assertKnownColumns(table, names);
+  for (const name of names) {
+    const column = table.columns.find((col: any) => col.column_name === name);
+    if (column.is_generated === 'ALWAYS') {
+      throw new IdentifierError(`Column ${name} is generated and cannot be written`);
+    }
+  }
+};
+
+// WHERE and ORDER BY for the rows of a table matching a search, filter and sort,
+// as browsed in the grid
+const buildRowSelection = (
+  table: ResolvedTable,
+  options: TableDataOptions
+): { whereClause: string; orderClause: string; params: any[] } => {
+  const { search, searchColumn, sortColumn, sortDirection = 'asc', filter } = options;
+  
+  // Sort and search columns come from the URL, so only accept real column names
+  assertKnownColumns(table, [sortColumn, searchColumn].filter((name): name is string => !!name));
+  
+  const params: any[] = [];
+  const conditions: string[] = [];
+  
+  if (search) {
+    const searchParam = `$${params.push(`%${escapeLikePattern(search)}%`)}`;
+    
+    // Binary columns don't have a meaningful text form to search in
+    const searchColumns = searchColumn
+      ? [searchColumn]
+      : table.columns
+          .filter((column: any) => column.data_type !== 'bytea')
+          .map((column: any) => column.column_name as string);
+    
+    if (searchColumns.length > 0) {
+      conditions.push(`(${searchColumns
+        .map(column => `${quoteIdentifier(column)}::text ILIKE ${searchParam}`)
+        .join(' OR ')})`);
+    }
+  }
+  
+  if (filter) {
+    const columnTypes = new Map<string, string>(
+      table.columns.map((column: any) => [column.column_name, column.data_type])
+    );
+    conditions.push(compileFilter(filter, columnTypes, params));
+  }
+  
+  return {
+    whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    orderClause: sortColumn
+      ? `ORDER BY ${quoteIdentifier(sortColumn)} ${sortDirection === 'desc' ? 'DESC' : 'ASC'}`
+      : '',
+    params,
+  };
+};
+
+interface SqlCommand {
+  text: string;
+  values: any[];
 }
 
+const buildInsert = (table: ResolvedTable, data: Record<string, any>): SqlCommand => {
+  const columns = Object.keys(data);
+  assertWritableColumns(table, columns);
+  const values = columns.map(col => data[col]);
+  const placeholders = columns.map((_, index) => `$${index + 1}`).join(', ');
+  
+  // Explicit values for GENERATED ALWAYS identity columns must be forced
+  const overridesIdentity = table.columns.some(
+    (col: any) => columns.includes(col.column_name) && col.identity_generation === 'ALWAYS'
+  );
+  const overriding = overridesIdentity ? ' OVERRIDING SYSTEM VALUE' : '';
+  
+  const text = columns.length > 0
+    ? `INSERT INTO ${table.qualifiedName} (${columns.map(quoteIdentifier).join(', ')})${overriding} VALUES (${placeholders}) RETURNING *`
+    : `INSERT INTO ${table.qualifiedName} DEFAULT VALUES RETURNING *`;
+  
+  return { text, values };
+};
+
+const buildUpdate = (table: ResolvedTable, identity: RowIdentity, key: RowKey, data: Record<string, any>): SqlCommand => {
+  const columns = Object.keys(data);
+  assertWritableColumns(table, columns);
+  if (columns.length === 0) {
+    throw new IdentifierError('No columns to update');
+  }
+  const values = columns.map(col => data[col]);
+  
+  const setClause = columns.map((col, index) => `${quoteIdentifier(col)} = $${index + 1}`).join(', ');
+  const keyCondition = buildKeyCondition(identity, key, values);
+  
+  return {
+    text: `UPDATE ${table.qualifiedName} SET ${setClause} WHERE ${keyCondition} RETURNING *`,
+    values,
+  };
+};
+
+const buildDelete = (table: ResolvedTable, identity: RowIdentity, key: RowKey): SqlCommand => {
+  const values: any[] = [];
+  const keyCondition = buildKeyCondition(identity, key, values);
+  
+  return {
+    text: `DELETE FROM ${table.qualifiedName} WHERE ${keyCondition}`,
+    values,
+  };
+};
+
 export class DatabaseStorage implements IStorage {
   // User methods (original from template)
   async getUser(id: number): Promise<User | undefined> {
@@ -121,6 +816,12 @@ export class DatabaseStorage implements IStorage {
       })
       .where(eq(dbConnections.id, id))
       .returning();
+    
+    // Drop the cached pool so the next query connects with the new settings
+    if (updatedConnection) {
+      await connectionPools.invalidate(updatedConnection);
+    }
+    
     return updatedConnection;
   }
   
@@ -130,6 +831,9 @@ export class DatabaseStorage implements IStorage {
       .delete(dbConnections)
       .where(eq(dbConnections.id, id))
       .returning({ id: dbConnections.id });
+    
+    await connectionPools.evict(id);
+    
     return result.length > 0;
   }
   
@@ -323,6 +1027,17 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
   
+  async updateActivityLog(id: number, changes: Partial<InsertActivityLog>): Promise<ActivityLog | undefined> {
+    console.log(`Updating activity log with id: ${id}`);
+    const [updated] = await db
+      .update(activityLogs)
+      .set(changes)
+      .where(eq(activityLogs.id, id))
+      .returning();
+    
+    return updated;
+  }
+  
   // App Settings methods
   async getSetting(key: string): Promise<AppSetting | undefined> {
     console.log(`Getting setting with key: ${key}`);
@@ -379,17 +1094,8 @@ export class DatabaseStorage implements IStorage {
         throw new Error(`Connection with id ${connectionId} not found`);
       }
       
-      // We're using the environment database directly
-      // In a production application, we would use the connection info to create a new connection
-      let result;
-      
-      if (params && params.length > 0) {
-        // For parameterized queries, use the pool directly
-        result = await pool.query(query, params);
-      } else {
-        // For non-parameterized queries, use Drizzle
-        result = await db.execute(sql.raw(query));
-      }
+      // Run against the database this connection points at
+      const result = await connectionPools.getPool(connection).query(query, params);
       
       // Log the activity
       await this.createActivityLog({
@@ -420,19 +1126,136 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  async executeScript(connectionId: number, script: string): Promise<StatementResult[]> {
+    console.log(`Executing script for connection id: ${connectionId}`);
+    
+    const connection = await this.getConnection(connectionId);
+    if (!connection) {
+      throw new Error(`Connection with id ${connectionId} not found`);
+    }
+    
+    const statements = splitStatements(script);
+    const results: StatementResult[] = [];
+    
+    // Statements share one session so SET, temp tables and transactions carry over
+    const client = await connectionPools.getPool(connection).connect();
+    
+    // now() is fixed when a transaction block starts, so it only differs from the
+    // check's own start time inside one; an aborted block rejects the check itself
+    const inTransaction = async (): Promise<boolean> => {
+      try {
+        const state = await client.query('SELECT now() <> statement_timestamp() AS open');
+        return state.rows[0].open;
+      } catch {
+        return true;
+      }
+    };
+    // Activity logs of statements whose transaction has not committed yet
+    let uncommitted: number[] = [];
+    
+    try {
+      for (const statement of statements) {
+        const startedAt = Date.now();
+        
+        try {
+          // Array rows keep duplicate column names such as "SELECT 1 a, 2 a"
+          const result = await client.query({ text: statement.text, rowMode: 'array' });
+          
+          results.push({
+            statement: statement.text,
+            offset: statement.offset,
+            command: result.command ?? null,
+            rowCount: result.rowCount ?? null,
+            fields: (result.fields || []).map(field => ({ name: field.name, dataTypeID: field.dataTypeID })),
+            rows: result.rows || [],
+            durationMs: Date.now() - startedAt,
+          });
+          
+          const log = await this.createActivityLog({
+            connectionId,
+            operation: result.command || statement.text.split(/\s+/)[0].toUpperCase(),
+            details: statement.text,
+            status: 'SUCCESS',
+          });
+          uncommitted = (await inTransaction()) ? [...uncommitted, log.id] : [];
+        } catch (error) {
+          const details = describeQueryError(error, statement.offset);
+          
+          results.push({
+            statement: statement.text,
+            offset: statement.offset,
+            command: null,
+            rowCount: null,
+            fields: [],
+            rows: [],
+            durationMs: Date.now() - startedAt,
+            error: details,
+          });
+          
+          await this.createActivityLog({
+            connectionId,
+            operation: statement.text.split(/\s+/)[0].toUpperCase(),
+            details: statement.text,
+            status: 'ERROR',
+            metadata: { error: details.message },
+          });
+          
+          // Later statements usually depend on earlier ones, so stop here
+          break;
+        }
+      }
+      
+      // A transaction the script left open is rolled back below, so report it
+      // and stop its statements from being logged as done
+      if (await inTransaction()) {
+        results.push({
+          statement: 'ROLLBACK',
+          offset: script.length,
+          command: 'ROLLBACK',
+          rowCount: null,
+          fields: [],
+          rows: [],
+          durationMs: 0,
+          error: { message: 'The script ended inside a transaction that was not committed, so it was rolled back' },
+        });
+        
+        for (const id of uncommitted) {
+          await this.updateActivityLog(id, {
+            status: 'ERROR',
+            metadata: { error: 'Rolled back: the transaction was never committed' },
+          });
+        }
+      }
+    } finally {
+      try {
+        // Don't hand an open transaction or changed settings back to the pool
+        await client.query('ROLLBACK');
+        await client.query('DISCARD ALL');
+        client.release();
+      } catch (resetError) {
+        console.error('Failed to reset session, discarding client:', resetError);
+        client.release(true);
+      }
+    }
+    
+    return results;
+  }
+  
   // Database schema introspection
   async fetchDatabaseTables(connectionId: number): Promise<string[]> {
     console.log(`Fetching tables for connection id: ${connectionId}`);
     
     try {
+      // information_schema.tables leaves out materialized views
       const result = await this.executeRawQuery(
         connectionId,
         `
-        SELECT table_name 
-        FROM information_schema.tables 
-        WHERE table_schema = 'public' 
-        AND table_type = 'BASE TABLE'
-        ORDER BY table_name
+        SELECT c.relname AS table_name
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = 'public'
+        AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+        ORDER BY c.relname
         `
       );
       
@@ -443,64 +1266,473 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  async fetchCatalog(connectionId: number): Promise<CatalogSchema[]> {
+    console.log(`Fetching catalog for connection id: ${connectionId}`);
+    
+    try {
+      const result = await this.executeRawQuery(
+        connectionId,
+        `
+        SELECT n.nspname AS schema, c.relname AS name, c.relkind AS kind
+        FROM pg_namespace n
+        LEFT JOIN pg_class c
+          ON c.relnamespace = n.oid
+          AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+        WHERE n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        AND n.nspname NOT LIKE 'pg_temp_%'
+        AND n.nspname NOT LIKE 'pg_toast_temp_%'
+        ORDER BY n.nspname, c.relname
+        `
+      );
+      
+      // Group rows by schema, keeping schemas that have no objects
+      const schemas = new Map<string, CatalogSchema>();
+      for (const row of result.rows) {
+        if (!schemas.has(row.schema)) {
+          schemas.set(row.schema, { name: row.schema, objects: [] });
+        }
+        if (row.name) {
+          schemas.get(row.schema)!.objects.push({
+            name: row.name,
+            kind: relationKinds[row.kind as string],
+          });
+        }
+      }
+      
+      return Array.from(schemas.values());
+    } catch (error) {
+      console.error('Failed to fetch catalog:', error);
+      throw error;
+    }
+  }
+  
+  // Look up a table in the live catalog, so every name used in dynamic SQL
+  // is known to exist before it is quoted into a query
+  async resolveTable(connectionId: number, tableName: string): Promise<ResolvedTable> {
+    const reference = parseTableReference(tableName);
+    
+    const tableResult = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT c.relkind AS kind
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1
+      AND c.relname = $2
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      `,
+      [reference.schema, reference.name]
+    );
+    
+    if (tableResult.rows.length === 0) {
+      throw new IdentifierError(`Table ${reference.schema}.${reference.name} does not exist`, 404);
+    }
+    
+    const columnsResult = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT 
+        c.column_name, 
+        c.data_type, 
+        c.is_nullable, 
+        c.column_default,
+        (
+          SELECT 'PRIMARY KEY'
+          FROM pg_index i
+          JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+          WHERE i.indrelid = (quote_ident(c.table_schema) || '.' || quote_ident(c.table_name))::regclass
+          AND i.indisprimary
+          AND a.attname = c.column_name
+        ) as primary_key,
+        c.udt_name,
+        c.domain_name,
+        (
+          SELECT format_type(t.typelem, NULL)
+          FROM pg_type t
+          JOIN pg_namespace tn ON tn.oid = t.typnamespace
+          WHERE tn.nspname = c.udt_schema
+          AND t.typname = c.udt_name
+          AND c.data_type = 'ARRAY'
+        ) as element_type,
+        (
+          SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder)
+          FROM pg_type t
+          JOIN pg_namespace tn ON tn.oid = t.typnamespace
+          JOIN pg_enum e ON e.enumtypid = CASE WHEN t.typelem <> 0 THEN t.typelem ELSE t.oid END
+          WHERE tn.nspname = c.udt_schema
+          AND t.typname = c.udt_name
+        ) as enum_values,
+        c.is_identity,
+        c.identity_generation,
+        c.is_generated,
+        c.generation_expression,
+        c.character_maximum_length,
+        c.numeric_precision,
+        c.numeric_scale
+      FROM information_schema.columns c
+      WHERE c.table_schema = $1
+      AND c.table_name = $2
+      ORDER BY c.ordinal_position
+      `,
+      [reference.schema, reference.name]
+    );
+    
+    return {
+      ...reference,
+      kind: tableResult.rows[0].kind,
+      qualifiedName: quoteQualifiedName(reference),
+      columns: columnsResult.rows,
+    };
+  }
+  
+  async fetchRowIdentity(connectionId: number, tableName: string): Promise<RowIdentity> {
+    console.log(`Fetching row identity for table ${tableName}, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTable(connectionId, tableName);
+    return this.identifyRows(connectionId, table);
+  }
+  
+  // Prefer the primary key, then the narrowest unique index over NOT NULL
+  // columns, then the physical row location for plain tables
+  private async identifyRows(connectionId: number, table: ResolvedTable): Promise<RowIdentity> {
+    if (table.kind !== 'r' && table.kind !== 'p') {
+      return { kind: 'none', columns: [] };
+    }
+    
+    const result = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT i.indisprimary AS is_primary, array_agg(a.attname::text ORDER BY k.ordinality) AS columns
+      FROM pg_index i
+      CROSS JOIN LATERAL unnest(i.indkey) WITH ORDINALITY AS k(attnum, ordinality)
+      JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = k.attnum
+      WHERE i.indrelid = $1::regclass
+      AND (i.indisprimary OR i.indisunique)
+      AND i.indpred IS NULL
+      AND i.indexprs IS NULL
+      GROUP BY i.indexrelid, i.indisprimary
+      HAVING bool_and(a.attnotnull)
+      ORDER BY i.indisprimary DESC, count(*) ASC
+      LIMIT 1
+      `,
+      [table.qualifiedName]
+    );
+    
+    if (result.rows.length > 0) {
+      const row = result.rows[0];
+      return { kind: row.is_primary ? 'primary_key' : 'unique_index', columns: row.columns };
+    }
+    
+    // ctid is only unique within one physical table, not across partitions
+    if (table.kind === 'r') {
+      return { kind: 'ctid', columns: [] };
+    }
+    
+    return { kind: 'none', columns: [] };
+  }
+  
   async fetchTableColumns(connectionId: number, tableName: string): Promise<any[]> {
     console.log(`Fetching columns for table ${tableName}, connection id: ${connectionId}`);
     
     try {
+      const table = await this.resolveTable(connectionId, tableName);
+      return table.columns;
+    } catch (error) {
+      console.error(`Failed to fetch columns for table ${tableName}:`, error);
+      throw error;
+    }
+  }
+  
+  async fetchForeignKeys(connectionId: number, tableName: string): Promise<TableForeignKeys> {
+    console.log(`Fetching foreign keys for table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const table = await this.resolveTable(connectionId, tableName);
+      const keys = await this.queryForeignKeys(
+        connectionId,
+        '(c.conrelid = $1::regclass OR c.confrelid = $1::regclass)',
+        [table.qualifiedName]
+      );
+      
+      const foreignKeys: TableForeignKeys = { outgoing: [], incoming: [] };
+      
+      // Self-referencing keys are listed in both directions
+      for (const foreignKey of keys) {
+        if (foreignKey.schema === table.schema && foreignKey.table === table.name) {
+          foreignKeys.outgoing.push(foreignKey);
+        }
+        if (foreignKey.referencedSchema === table.schema && foreignKey.referencedTable === table.name) {
+          foreignKeys.incoming.push(foreignKey);
+        }
+      }
+      
+      return foreignKeys;
+    } catch (error) {
+      console.error(`Failed to fetch foreign keys for table ${tableName}:`, error);
+      throw error;
+    }
+  }
+  
+  // Foreign keys matching a condition on pg_constraint c and the tables it
+  // links, sn/sc (referencing) and tn/tc (referenced)
+  private async queryForeignKeys(connectionId: number, condition: string, params: any[] = []): Promise<ForeignKey[]> {
+    const result = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        c.conname AS name,
+        sn.nspname AS schema,
+        sc.relname AS table,
+        (
+          SELECT array_agg(a.attname::text ORDER BY k.ordinality)
+          FROM unnest(c.conkey) WITH ORDINALITY AS k(attnum, ordinality)
+          JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = k.attnum
+        ) AS columns,
+        tn.nspname AS referenced_schema,
+        tc.relname AS referenced_table,
+        (
+          SELECT array_agg(a.attname::text ORDER BY k.ordinality)
+          FROM unnest(c.confkey) WITH ORDINALITY AS k(attnum, ordinality)
+          JOIN pg_attribute a ON a.attrelid = c.confrelid AND a.attnum = k.attnum
+        ) AS referenced_columns,
+        c.confupdtype AS on_update,
+        c.confdeltype AS on_delete
+      FROM pg_constraint c
+      JOIN pg_class sc ON sc.oid = c.conrelid
+      JOIN pg_namespace sn ON sn.oid = sc.relnamespace
+      JOIN pg_class tc ON tc.oid = c.confrelid
+      JOIN pg_namespace tn ON tn.oid = tc.relnamespace
+      WHERE c.contype = 'f'
+      AND ${condition}
+      ORDER BY sn.nspname, sc.relname, c.conname
+      `,
+      params
+    );
+    
+    return result.rows.map((row: any): ForeignKey => ({
+      name: row.name,
+      schema: row.schema,
+      table: row.table,
+      columns: row.columns,
+      referencedSchema: row.referenced_schema,
+      referencedTable: row.referenced_table,
+      referencedColumns: row.referenced_columns,
+      onUpdate: foreignKeyActions[row.on_update] || row.on_update,
+      onDelete: foreignKeyActions[row.on_delete] || row.on_delete,
+    }));
+  }
+  
+  async fetchSchemaDiagram(connectionId: number, schema: string): Promise<SchemaDiagram> {
+    console.log(`Fetching diagram of schema ${schema}, connection id: ${connectionId}`);
+    
+    try {
+      const exists = await this.executeRawQuery(connectionId, 'SELECT 1 FROM pg_namespace WHERE nspname = $1', [schema]);
+      if (exists.rows.length === 0) {
+        throw new IdentifierError(`Schema ${schema} does not exist`, 404);
+      }
+      
+      const relations = await this.fetchLiveRelations(connectionId, schema);
+      const foreignKeys = await this.queryForeignKeys(connectionId, '(sn.nspname = $1 OR tn.nspname = $1)', [schema]);
+      
+      return {
+        schema,
+        tables: relations.map(relation => ({
+          schema: relation.schema,
+          name: relation.name,
+          kind: relationKinds[relation.kind],
+          columns: relation.columns.map(column => ({
+            name: column.name,
+            type: column.type,
+            nullable: column.nullable,
+            isPrimary: column.isPrimary,
+          })),
+        })),
+        foreignKeys,
+      };
+    } catch (error) {
+      console.error(`Failed to fetch diagram of schema ${schema}:`, error);
+      throw error;
+    }
+  }
+  
+  async fetchIndexes(connectionId: number, tableName: string): Promise<TableIndex[]> {
+    console.log(`Fetching indexes for table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const table = await this.resolveTable(connectionId, tableName);
+      
       const result = await this.executeRawQuery(
         connectionId,
         `
-        SELECT 
-          column_name, 
-          data_type, 
-          is_nullable, 
-          column_default,
+        SELECT
+          ic.relname AS name,
+          pg_get_indexdef(i.indexrelid) AS definition,
+          am.amname AS method,
           (
-            SELECT constraint_type 
-            FROM information_schema.table_constraints tc
-            JOIN information_schema.constraint_column_usage ccu
-              ON tc.constraint_name = ccu.constraint_name
-            WHERE tc.table_name = c.table_name
-            AND ccu.column_name = c.column_name
-            AND constraint_type = 'PRIMARY KEY'
-          ) as primary_key
-        FROM information_schema.columns c
-        WHERE table_name = $1
-        ORDER BY ordinal_position
+            SELECT array_agg(COALESCE(a.attname::text, pg_get_indexdef(i.indexrelid, k.ordinality::int, true)) ORDER BY k.ordinality)
+            FROM unnest(i.indkey[0:i.indnkeyatts - 1]) WITH ORDINALITY AS k(attnum, ordinality)
+            LEFT JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = k.attnum AND k.attnum <> 0
+          ) AS columns,
+          i.indisunique AS is_unique,
+          i.indisprimary AS is_primary,
+          i.indisvalid AS is_valid,
+          pg_get_expr(i.indpred, i.indrelid) AS predicate,
+          con.conname AS constraint_name,
+          pg_relation_size(i.indexrelid)::float8 AS size_bytes,
+          pg_size_pretty(pg_relation_size(i.indexrelid)) AS size,
+          COALESCE(s.idx_scan, 0)::float8 AS scans,
+          concat_ws('|', am.amname, i.indkey::text, i.indclass::text,
+            pg_get_expr(i.indexprs, i.indrelid), pg_get_expr(i.indpred, i.indrelid)) AS signature
+        FROM pg_index i
+        JOIN pg_class ic ON ic.oid = i.indexrelid
+        JOIN pg_am am ON am.oid = ic.relam
+        LEFT JOIN pg_stat_all_indexes s ON s.indexrelid = i.indexrelid
+        LEFT JOIN pg_constraint con ON con.conindid = i.indexrelid AND con.conrelid = i.indrelid
+        WHERE i.indrelid = $1::regclass
+        ORDER BY i.indisprimary DESC, ic.relname
         `,
-        [tableName]
+        [table.qualifiedName]
       );
       
-      return result.rows;
+      // The first index with a given signature is the one the others duplicate;
+      // prefer keeping the one that backs a constraint
+      const originals = new Map<string, string>();
+      for (const row of result.rows) {
+        if (row.constraint_name && !originals.has(row.signature)) {
+          originals.set(row.signature, row.name);
+        }
+      }
+      for (const row of result.rows) {
+        if (!originals.has(row.signature)) {
+          originals.set(row.signature, row.name);
+        }
+      }
+      
+      return result.rows.map((row: any): TableIndex => {
+        const original = originals.get(row.signature);
+        return {
+          name: row.name,
+          definition: row.definition,
+          method: row.method,
+          columns: row.columns || [],
+          isUnique: row.is_unique,
+          isPrimary: row.is_primary,
+          isValid: row.is_valid,
+          predicate: row.predicate,
+          constraint: row.constraint_name,
+          sizeBytes: row.size_bytes,
+          size: row.size,
+          scans: row.scans,
+          unused: row.scans === 0 && !row.is_unique && !row.constraint_name,
+          duplicateOf: original && original !== row.name ? original : null,
+        };
+      });
     } catch (error) {
-      console.error(`Failed to fetch columns for table ${tableName}:`, error);
+      console.error(`Failed to fetch indexes for table ${tableName}:`, error);
+      throw error;
+    }
+  }
+  
+  async fetchConstraints(connectionId: number, tableName: string): Promise<TableConstraint[]> {
+    console.log(`Fetching constraints for table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const resolved = await this.resolveTable(connectionId, tableName);
+      const constraints = await this.queryConstraints(connectionId, 'c.conrelid = $1::regclass', [resolved.qualifiedName]);
+      return constraints.map(({ schema, table, ...constraint }) => constraint);
+    } catch (error) {
+      console.error(`Failed to fetch constraints for table ${tableName}:`, error);
       throw error;
     }
   }
   
-  async fetchTableData(connectionId: number, tableName: string, page: number = 1, pageSize: number = 10): Promise<any> {
+  // Constraints matching a condition on pg_constraint c, with the schema and
+  // table each belongs to
+  private async queryConstraints(
+    connectionId: number,
+    condition: string,
+    params: any[] = []
+  ): Promise<(TableConstraint & { schema: string; table: string })[]> {
+    const result = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        n.nspname AS schema,
+        r.relname AS table_name,
+        c.conname AS name,
+        c.contype AS type,
+        pg_get_constraintdef(c.oid, true) AS definition,
+        (
+          SELECT array_agg(a.attname::text ORDER BY k.ordinality)
+          FROM unnest(c.conkey) WITH ORDINALITY AS k(attnum, ordinality)
+          JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = k.attnum
+        ) AS columns,
+        c.convalidated AS validated,
+        c.condeferrable AS deferrable,
+        c.condeferred AS initially_deferred,
+        tn.nspname AS referenced_schema,
+        tc.relname AS referenced_table
+      FROM pg_constraint c
+      JOIN pg_class r ON r.oid = c.conrelid
+      JOIN pg_namespace n ON n.oid = r.relnamespace
+      LEFT JOIN pg_class tc ON tc.oid = c.confrelid
+      LEFT JOIN pg_namespace tn ON tn.oid = tc.relnamespace
+      WHERE ${condition}
+      ORDER BY n.nspname, r.relname, CASE c.contype WHEN 'p' THEN 0 WHEN 'u' THEN 1 WHEN 'f' THEN 2 WHEN 'c' THEN 3 WHEN 'x' THEN 4 ELSE 5 END, c.conname
+      `,
+      params
+    );
+    
+    return result.rows.map((row: any) => ({
+      schema: row.schema,
+      table: row.table_name,
+      name: row.name,
+      type: constraintTypes[row.type] || row.type,
+      definition: row.definition,
+      columns: row.columns || [],
+      validated: row.validated,
+      deferrable: row.deferrable,
+      initiallyDeferred: row.initially_deferred,
+      referencedSchema: row.referenced_schema,
+      referencedTable: row.referenced_table,
+    }));
+  }
+  
+  async fetchTableData(connectionId: number, tableName: string, options: TableDataOptions = {}): Promise<any> {
+    const { page = 1, pageSize = 10 } = options;
     console.log(`Fetching data for table ${tableName}, connection id: ${connectionId}, page: ${page}, pageSize: ${pageSize}`);
     
     const offset = (page - 1) * pageSize;
     
     try {
-      // First, get the count of total rows
+      const table = await this.resolveTable(connectionId, tableName);
+      const identity = await this.identifyRows(connectionId, table);
+      const { whereClause, orderClause, params } = buildRowSelection(table, options);
+      
+      // First, get the count of rows matching the search and filter
       const countResult = await this.executeRawQuery(
         connectionId,
-        `SELECT COUNT(*) as total FROM ${tableName}`
+        `SELECT COUNT(*) as total FROM ${table.qualifiedName} ${whereClause}`,
+        params
       );
       
       const total = parseInt(countResult.rows[0].total);
       
+      // Rows without a key are addressed by location; xmin detects stale edits
+      const selectList = identity.kind === 'ctid'
+        ? `*, ctid::text AS ${quoteIdentifier(CTID_COLUMN)}, xmin::text AS ${quoteIdentifier(XMIN_COLUMN)}`
+        : '*';
+      
       // Then get the paginated data
       const dataResult = await this.executeRawQuery(
         connectionId,
-        `SELECT * FROM ${tableName} LIMIT $1 OFFSET $2`,
-        [pageSize, offset]
+        `SELECT ${selectList} FROM ${table.qualifiedName} ${whereClause} ${orderClause} LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, pageSize, offset]
       );
       
       return {
         data: dataResult.rows,
+        identity,
         pagination: {
           total,
           page,
@@ -519,17 +1751,11 @@ export class DatabaseStorage implements IStorage {
     console.log(`Inserting row into table ${tableName}, connection id: ${connectionId}`);
     console.log(`Data: ${JSON.stringify(data)}`);
     
-    // Extract column names and values
-    const columns = Object.keys(data);
-    const values = Object.values(data);
-    const placeholders = columns.map((_, index) => `$${index + 1}`).join(', ');
-    
     try {
-      const result = await this.executeRawQuery(
-        connectionId,
-        `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${placeholders}) RETURNING *`,
-        values
-      );
+      const table = await this.resolveTable(connectionId, tableName);
+      const command = buildInsert(table, data);
+      
+      const result = await this.executeRawQuery(connectionId, command.text, command.values);
       
       Logger.success(`Row inserted into ${tableName} successfully`);
       return result.rows[0];
@@ -539,23 +1765,21 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async updateRow(connectionId: number, tableName: string, primaryKey: string, primaryKeyValue: any, data: Record<string, any>): Promise<any> {
-    console.log(`Updating row in table ${tableName} where ${primaryKey} = ${primaryKeyValue}, connection id: ${connectionId}`);
+  async updateRow(connectionId: number, tableName: string, key: RowKey, data: Record<string, any>): Promise<any> {
+    console.log(`Updating row in table ${tableName} where ${JSON.stringify(key)}, connection id: ${connectionId}`);
     console.log(`Data: ${JSON.stringify(data)}`);
     
-    // Extract column names and values, excluding the primary key
-    const columns = Object.keys(data).filter(col => col !== primaryKey);
-    const values = columns.map(col => data[col]);
-    
-    // Generate SET clause
-    const setClause = columns.map((col, index) => `${col} = $${index + 1}`).join(', ');
-    
     try {
-      const result = await this.executeRawQuery(
-        connectionId,
-        `UPDATE ${tableName} SET ${setClause} WHERE ${primaryKey} = $${columns.length + 1} RETURNING *`,
-        [...values, primaryKeyValue]
-      );
+      const table = await this.resolveTable(connectionId, tableName);
+      const identity = await this.identifyRows(connectionId, table);
+      
+      const command = buildUpdate(table, identity, key, data);
+      
+      const result = await this.executeRawQuery(connectionId, command.text, command.values);
+      
+      if (result.rows.length === 0 && identity.kind === 'ctid') {
+        throw new StaleRowError();
+      }
       
       Logger.success(`Row updated in ${tableName} successfully`);
       return result.rows[0];
@@ -565,23 +1789,2299 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  async deleteRow(connectionId: number, tableName: string, primaryKey: string, primaryKeyValue: any): Promise<boolean> {
-    console.log(`Deleting row from table ${tableName} where ${primaryKey} = ${primaryKeyValue}, connection id: ${connectionId}`);
+  async deleteRow(connectionId: number, tableName: string, key: RowKey): Promise<boolean> {
+    console.log(`Deleting row from table ${tableName} where ${JSON.stringify(key)}, connection id: ${connectionId}`);
     
     try {
-      const result = await this.executeRawQuery(
-        connectionId,
-        `DELETE FROM ${tableName} WHERE ${primaryKey} = $1 RETURNING ${primaryKey}`,
-        [primaryKeyValue]
-      );
+      const table = await this.resolveTable(connectionId, tableName);
+      const identity = await this.identifyRows(connectionId, table);
+      
+      const command = buildDelete(table, identity, key);
+      
+      const result = await this.executeRawQuery(connectionId, command.text, command.values);
+      
+      if (result.rowCount === 0 && identity.kind === 'ctid') {
+        throw new StaleRowError();
+      }
       
       Logger.success(`Row deleted from ${tableName} successfully`);
-      return result.rows.length > 0;
+      return (result.rowCount ?? 0) > 0;
     } catch (error) {
       Logger.error(`Failed to delete row from ${tableName}:`, error);
       throw error;
     }
   }
+  
+  // Apply grid edits in one transaction. Each change runs under a savepoint so
+  // every failure can be reported; any failure rolls the whole batch back.
+  async applyRowChanges(connectionId: number, tableName: string, changes: RowChange[]): Promise<RowChangeBatchResult> {
+    console.log(`Applying ${changes.length} row changes to table ${tableName}, connection id: ${connectionId}`);
+    
+    const connection = await this.getConnection(connectionId);
+    if (!connection) {
+      throw new Error(`Connection with id ${connectionId} not found`);
+    }
+    
+    const table = await this.resolveTable(connectionId, tableName);
+    const identity = await this.identifyRows(connectionId, table);
+    const results: RowChangeResult[] = [];
+    
+    const client = await connectionPools.getPool(connection).connect();
+    let clientFailed = false;
+    
+    try {
+      await client.query('BEGIN');
+      
+      for (const [index, change] of Array.from(changes.entries())) {
+        await client.query('SAVEPOINT row_change');
+        
+        try {
+          const command = change.type === 'insert'
+            ? buildInsert(table, change.data)
+            : change.type === 'update'
+              ? buildUpdate(table, identity, change.key, change.data)
+              : buildDelete(table, identity, change.key);
+          
+          const result = await client.query(command.text, command.values);
+          if (change.type !== 'insert' && result.rowCount === 0) {
+            throw identity.kind === 'ctid' ? new StaleRowError() : new Error('Row not found');
+          }
+          
+          await client.query('RELEASE SAVEPOINT row_change');
+          results.push({ index, type: change.type, status: 'applied', row: result.rows[0] });
+        } catch (error) {
+          await client.query('ROLLBACK TO SAVEPOINT row_change');
+          results.push({ index, type: change.type, status: 'failed', error: describeQueryError(error) });
+        }
+      }
+      
+      const failures = results.filter(result => result.status === 'failed').length;
+      const committed = failures === 0;
+      
+      if (committed) {
+        await client.query('COMMIT');
+        Logger.success(`Applied ${changes.length} row changes to ${tableName}`);
+      } else {
+        await client.query('ROLLBACK');
+        results.forEach(result => {
+          if (result.status === 'applied') {
+            result.status = 'rolled_back';
+          }
+        });
+        Logger.warn(`Rolled back ${changes.length} row changes to ${tableName}: ${failures} failed`);
+      }
+      
+      const counts = (['insert', 'update', 'delete'] as const)
+        .map(type => `${changes.filter(change => change.type === type).length} ${type}`)
+        .join(', ');
+      
+      await this.createActivityLog({
+        connectionId,
+        operation: 'BATCH',
+        details: `Row changes to ${table.schema}.${table.name}: ${counts}`,
+        status: committed ? 'SUCCESS' : 'ERROR',
+        metadata: committed ? undefined : { failures },
+      });
+      
+      return { committed, results };
+    } catch (error) {
+      clientFailed = true;
+      Logger.error(`Failed to apply row changes to ${tableName}:`, error);
+      throw error;
+    } finally {
+      // A client that errored outside a savepoint may still be mid-transaction
+      client.release(clientFailed);
+    }
+  }
+  
+  // CSV import
+  
+  // Check an import against the live table: the mapping, the upsert key and
+  // every value. Rows with a bad value are set aside with the reason.
+  private async prepareImport(connectionId: number, table: ResolvedTable, request: ImportRequest): Promise<PreparedImport> {
+    if (table.kind !== 'r' && table.kind !== 'p') {
+      throw new IdentifierError(`Rows can only be imported into tables, not ${relationKinds[table.kind].replace('_', ' ')}s`);
+    }
+    
+    const mapped = request.columns.flatMap((name, index) => (name === null ? [] : [{ name, index }]));
+    if (mapped.length === 0) {
+      throw new IdentifierError('Map at least one file column to a table column');
+    }
+    const names = mapped.map(entry => entry.name);
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) {
+      throw new IdentifierError(`Column ${duplicate} is mapped more than once`);
+    }
+    assertWritableColumns(table, names);
+    const columns: ImportColumn[] = names.map(name => table.columns.find((column: any) => column.column_name === name));
+    
+    if (request.mode === 'upsert') {
+      const unmapped = request.key.find(name => !names.includes(name));
+      if (unmapped) {
+        throw new IdentifierError(`Key column ${unmapped} is not mapped to a file column`);
+      }
+      // ON CONFLICT needs a unique index over exactly the key columns
+      const unique = await this.executeRawQuery(
+        connectionId,
+        `
+        SELECT 1
+        FROM pg_index i
+        WHERE i.indrelid = $1::regclass
+        AND i.indisunique
+        AND i.indpred IS NULL
+        AND i.indexprs IS NULL
+        AND ARRAY(
+          SELECT a.attname::text FROM pg_attribute a
+          WHERE a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+          ORDER BY a.attname
+        ) = ARRAY(SELECT k FROM unnest($2::text[]) AS k ORDER BY k)
+        `,
+        [table.qualifiedName, request.key]
+      );
+      if (unique.rows.length === 0) {
+        throw new IdentifierError(`No unique index or constraint covers exactly ${request.key.join(', ')}`);
+      }
+    }
+    
+    const rows: { line: number; values: ImportValue[] }[] = [];
+    const errors: ImportRowError[] = [];
+    let rejected = 0;
+    
+    request.rows.forEach((row, position) => {
+      const line = request.firstLine + position;
+      const rowErrors: ImportRowError[] = [];
+      
+      if (row.slice(request.columns.length).some(cell => cell !== '')) {
+        rowErrors.push({ line, column: null, value: null, message: `Has ${row.length} fields, the file has ${request.columns.length} columns` });
+      }
+      const values = mapped.map(({ index }, column) => {
+        const raw = row[index] ?? '';
+        const prepared = prepareImportValue(columns[column], raw, request.emptyAsNull);
+        if ('error' in prepared) {
+          rowErrors.push({ line, column: columns[column].column_name, value: raw, message: prepared.error });
+          return null;
+        }
+        return prepared.value;
+      });
+      
+      if (rowErrors.length > 0) {
+        rejected++;
+        errors.push(...rowErrors.slice(0, MAX_IMPORT_ERRORS - errors.length));
+      } else {
+        rows.push({ line, values });
+      }
+    });
+    
+    return { columns, rows, errors, rejected };
+  }
+  
+  async previewImport(connectionId: number, tableName: string, request: ImportRequest): Promise<ImportPreview> {
+    console.log(`Checking import of ${request.rows.length} rows into table ${tableName}, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTable(connectionId, tableName);
+    const prepared = await this.prepareImport(connectionId, table, request);
+    const sample = prepared.rows[0]?.values ?? prepared.columns.map(() => null);
+    
+    return {
+      sql: buildImportInsert(table.qualifiedName, prepared.columns, [sample], request.mode, request.key).text,
+      total: request.rows.length,
+      valid: prepared.rows.length,
+      rejected: prepared.rejected,
+      errors: prepared.errors,
+    };
+  }
+  
+  // Start loading in the background and hand back the activity log entry that
+  // tracks it; the entry's metadata holds the progress and the error report
+  async startImport(connectionId: number, tableName: string, request: ImportRequest): Promise<{ importId: number }> {
+    console.log(`Importing ${request.rows.length} rows into table ${tableName}, connection id: ${connectionId}`);
+    
+    const connection = await this.getConnection(connectionId);
+    if (!connection) {
+      throw new Error(`Connection with id ${connectionId} not found`);
+    }
+    
+    const table = await this.resolveTable(connectionId, tableName);
+    const prepared = await this.prepareImport(connectionId, table, request);
+    if (prepared.rejected > 0 && !request.skipInvalidRows) {
+      throw new IdentifierError(`${prepared.rejected} rows have invalid values; correct them or skip invalid rows`);
+    }
+    
+    const record = await this.ensureTableRecord(connectionId, table.schema, table.name);
+    const progress: ImportProgress = {
+      fileName: request.fileName ?? null,
+      mode: request.mode,
+      total: request.rows.length,
+      processed: prepared.rejected,
+      loaded: 0,
+      rejected: prepared.rejected,
+      errors: prepared.errors,
+    };
+    const log = await this.createActivityLog({
+      connectionId,
+      tableId: record.id,
+      operation: 'IMPORT',
+      details: `Import of ${request.fileName ?? 'a file'} into ${table.schema}.${table.name} (${request.mode})`,
+      status: 'RUNNING',
+      metadata: progress,
+    });
+    
+    void this.runImport(connection, table, prepared, request, log.id, progress);
+    return { importId: log.id };
+  }
+  
+  // Load the checked rows in one transaction, a chunk per INSERT. A chunk the
+  // database refuses is retried row by row under savepoints to find the
+  // offending rows; unless those are skipped, the whole import rolls back.
+  private async runImport(
+    connection: DbConnection,
+    table: ResolvedTable,
+    prepared: PreparedImport,
+    request: ImportRequest,
+    logId: number,
+    progress: ImportProgress
+  ): Promise<void> {
+    const startedAt = Date.now();
+    const reject = (error: ImportRowError) => {
+      progress.rejected++;
+      if (progress.errors.length < MAX_IMPORT_ERRORS) progress.errors.push(error);
+    };
+    let status: 'SUCCESS' | 'ERROR' = 'SUCCESS';
+    let client: PoolClient | undefined;
+    let clientFailed = false;
+    
+    try {
+      client = await connectionPools.getPool(connection).connect();
+      await client.query('BEGIN');
+      if (request.mode === 'truncate') {
+        await client.query(`TRUNCATE TABLE ${table.qualifiedName}`);
+      }
+      
+      const size = importChunkSize(prepared.columns.length);
+      for (let start = 0; start < prepared.rows.length; start += size) {
+        const chunk = prepared.rows.slice(start, start + size);
+        const command = buildImportInsert(table.qualifiedName, prepared.columns, chunk.map(row => row.values), request.mode, request.key);
+        
+        await client.query('SAVEPOINT import_chunk');
+        try {
+          const result = await client.query(command.text, command.values);
+          await client.query('RELEASE SAVEPOINT import_chunk');
+          progress.loaded += result.rowCount ?? 0;
+        } catch {
+          await client.query('ROLLBACK TO SAVEPOINT import_chunk');
+          for (const row of chunk) {
+            const single = buildImportInsert(table.qualifiedName, prepared.columns, [row.values], request.mode, request.key);
+            await client.query('SAVEPOINT import_row');
+            try {
+              const result = await client.query(single.text, single.values);
+              await client.query('RELEASE SAVEPOINT import_row');
+              progress.loaded += result.rowCount ?? 0;
+            } catch (error) {
+              await client.query('ROLLBACK TO SAVEPOINT import_row');
+              const details = describeQueryError(error);
+              reject({ line: row.line, column: details.column ?? null, value: null, message: details.message });
+            }
+          }
+        }
+        
+        progress.processed += chunk.length;
+        await this.updateActivityLog(logId, { metadata: progress });
+      }
+      
+      if (progress.rejected > 0 && !request.skipInvalidRows) {
+        await client.query('ROLLBACK');
+        status = 'ERROR';
+        progress.error = `${progress.rejected} rows were refused by the database; nothing was loaded`;
+        progress.loaded = 0;
+      } else {
+        await client.query('COMMIT');
+        Logger.success(`Imported ${progress.loaded} rows into ${table.schema}.${table.name}`);
+      }
+    } catch (error) {
+      Logger.error(`Import into ${table.schema}.${table.name} failed:`, error);
+      status = 'ERROR';
+      progress.error = (error as Error).message;
+      progress.loaded = 0;
+      if (client) {
+        try {
+          await client.query('ROLLBACK');
+        } catch (rollbackError) {
+          console.error('Rollback failed, discarding client:', rollbackError);
+          clientFailed = true;
+        }
+      }
+    } finally {
+      client?.release(clientFailed);
+    }
+    
+    try {
+      await this.updateActivityLog(logId, { status, metadata: { ...progress, durationMs: Date.now() - startedAt } });
+    } catch (error) {
+      console.error(`Failed to record the outcome of import ${logId}:`, error);
+    }
+  }
+  
+  async getImport(connectionId: number, importId: number): Promise<ImportStatus> {
+    console.log(`Getting import ${importId}, connection id: ${connectionId}`);
+    
+    const [log] = await db
+      .select()
+      .from(activityLogs)
+      .where(and(eq(activityLogs.id, importId), eq(activityLogs.connectionId, connectionId), eq(activityLogs.operation, 'IMPORT')));
+    if (!log) {
+      throw new IdentifierError(`Import ${importId} does not exist`, 404);
+    }
+    
+    return {
+      ...(log.metadata as ImportProgress),
+      id: log.id,
+      status: log.status as ImportStatus['status'],
+      createdAt: log.createdAt,
+    };
+  }
+  
+  // Export
+  async exportTable(connectionId: number, tableName: string, options: TableDataOptions, handler: ExportHandler): Promise<number> {
+    console.log(`Exporting table ${tableName}, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTable(connectionId, tableName);
+    const { whereClause, orderClause, params } = buildRowSelection(table, options);
+    return this.streamRows(connectionId, `SELECT * FROM ${table.qualifiedName} ${whereClause} ${orderClause}`.trim(), params, handler);
+  }
+  
+  async exportQuery(connectionId: number, query: string, handler: ExportHandler): Promise<number> {
+    console.log(`Exporting query result, connection id: ${connectionId}`);
+    
+    // A cursor holds exactly one query
+    const statements = splitStatements(query);
+    if (statements.length !== 1) {
+      throw new IdentifierError(`Export needs a single query, got ${statements.length} statements`);
+    }
+    return this.streamRows(connectionId, statements[0].text, [], handler);
+  }
+  
+  // Run a query behind a cursor in a read-only transaction and pass its rows on
+  // a batch at a time, so a result of any size never sits in memory; returns
+  // the number of rows
+  private async streamRows(connectionId: number, query: string, params: any[], handler: ExportHandler): Promise<number> {
+    const connection = await this.getConnection(connectionId);
+    if (!connection) {
+      throw new Error(`Connection with id ${connectionId} not found`);
+    }
+    
+    const startedAt = Date.now();
+    const client = await connectionPools.getPool(connection).connect();
+    let clientFailed = false;
+    let rowCount = 0;
+    
+    try {
+      await client.query('BEGIN READ ONLY');
+      await client.query(`DECLARE export_rows NO SCROLL CURSOR FOR ${query}`, params);
+      
+      for (let first = true; ; first = false) {
+        const result = await client.query({
+          text: `FETCH ${EXPORT_BATCH_ROWS} FROM export_rows`,
+          rowMode: 'array',
+          types: textTypes,
+        });
+        if (first) {
+          await handler.start(result.fields.map(field => ({ name: field.name, dataTypeID: field.dataTypeID })));
+        }
+        if (result.rows.length > 0) {
+          await handler.rows(result.rows);
+          rowCount += result.rows.length;
+        }
+        if (result.rows.length < EXPORT_BATCH_ROWS) break;
+      }
+      
+      await client.query('COMMIT');
+      await this.createActivityLog({
+        connectionId,
+        operation: 'EXPORT',
+        details: query,
+        status: 'SUCCESS',
+        metadata: { rows: rowCount, durationMs: Date.now() - startedAt },
+      });
+      Logger.success(`Exported ${rowCount} rows`);
+      return rowCount;
+    } catch (error) {
+      Logger.error('Export failed:', error);
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackError) {
+        console.error('Rollback failed, discarding client:', rollbackError);
+        clientFailed = true;
+      }
+      try {
+        await this.createActivityLog({
+          connectionId,
+          operation: 'EXPORT',
+          details: query,
+          status: 'ERROR',
+          metadata: { error: (error as Error).message, rows: rowCount },
+        });
+      } catch (logError) {
+        console.error('Failed to log error:', logError);
+      }
+      throw error;
+    } finally {
+      client.release(clientFailed);
+    }
+  }
+  
+  // Schema changes
+  async createDatabaseTable(connectionId: number, design: TableDesign): Promise<{ sql: string; table: DbTable }> {
+    console.log(`Creating table ${design.schema}.${design.name}, connection id: ${connectionId}`);
+    
+    try {
+      const sql = buildCreateTable(design);
+      await this.executeRawQuery(connectionId, sql);
+      
+      // Keep db_tables/db_columns in step; a table dropped outside the app may
+      // still have a record under the same name
+      const existing = await this.getTableByName(connectionId, design.name, design.schema);
+      const table = existing
+        ? (await this.updateTable(existing.id, { description: design.description ?? null, droppedAt: null }))!
+        : await this.createTable({
+            connectionId,
+            name: design.name,
+            schema: design.schema,
+            description: design.description ?? null,
+          });
+      
+      if (existing) {
+        for (const column of await this.getColumns(existing.id)) {
+          await this.deleteColumn(column.id);
+        }
+      }
+      
+      const uniqueColumns = new Set(
+        design.uniqueConstraints
+          .filter(unique => unique.columns.length === 1)
+          .map(unique => unique.columns[0])
+      );
+      
+      for (const column of design.columns) {
+        await this.createColumn({
+          tableId: table.id,
+          name: column.name,
+          type: column.type,
+          nullable: column.nullable && column.identity === 'none' && !design.primaryKey.includes(column.name),
+          isPrimary: design.primaryKey.includes(column.name),
+          isUnique: uniqueColumns.has(column.name),
+          defaultValue: column.defaultValue || null,
+        });
+      }
+      
+      Logger.success(`Table ${design.schema}.${design.name} created`);
+      return { sql, table };
+    } catch (error) {
+      Logger.error(`Failed to create table ${design.schema}.${design.name}:`, error);
+      throw error;
+    }
+  }
+  
+  // The db_tables record for a live table, created on first use so that
+  // activity can be logged against it
+  async ensureTableRecord(connectionId: number, schema: string, name: string): Promise<DbTable> {
+    console.log(`Ensuring table record for ${schema}.${name}, connection id: ${connectionId}`);
+    
+    const existing = await this.getTableByName(connectionId, name, schema);
+    if (existing) {
+      // The table exists again after being flagged as dropped
+      return existing.droppedAt ? (await this.updateTable(existing.id, { droppedAt: null }))! : existing;
+    }
+    return this.createTable({ connectionId, name, schema });
+  }
+  
+  // Run DDL against a table and log it with the table's id. Transactional
+  // statements succeed or fail together; others (CREATE INDEX CONCURRENTLY)
+  // must run outside a transaction block.
+  private async runTableDdl(
+    connectionId: number,
+    table: TableReference,
+    statements: string[],
+    options: { operation: string; transactional: boolean }
+  ): Promise<DbTable> {
+    const connection = await this.getConnection(connectionId);
+    if (!connection) {
+      throw new Error(`Connection with id ${connectionId} not found`);
+    }
+    
+    const record = await this.ensureTableRecord(connectionId, table.schema, table.name);
+    const client = await connectionPools.getPool(connection).connect();
+    let clientFailed = false;
+    const startedAt = Date.now();
+    
+    try {
+      if (options.transactional) await client.query('BEGIN');
+      for (const statement of statements) {
+        await client.query(statement);
+      }
+      if (options.transactional) await client.query('COMMIT');
+    } catch (error) {
+      Logger.error(`DDL on ${table.schema}.${table.name} failed:`, error);
+      if (options.transactional) {
+        try {
+          await client.query('ROLLBACK');
+        } catch (rollbackError) {
+          console.error('Rollback failed, discarding client:', rollbackError);
+          clientFailed = true;
+        }
+      }
+      await this.createActivityLog({
+        connectionId,
+        tableId: record.id,
+        operation: options.operation,
+        details: statements.join('\n'),
+        status: 'ERROR',
+        metadata: { error: (error as Error).message },
+      });
+      throw error;
+    } finally {
+      client.release(clientFailed);
+    }
+    
+    await this.createActivityLog({
+      connectionId,
+      tableId: record.id,
+      operation: options.operation,
+      details: statements.join('\n'),
+      status: 'SUCCESS',
+      metadata: { durationMs: Date.now() - startedAt },
+    });
+    return record;
+  }
+  
+  async alterDatabaseTable(
+    connectionId: number,
+    tableName: string,
+    operations: AlterTableOperation[],
+    preview: boolean = false
+  ): Promise<AlterTableResult> {
+    console.log(`Altering table ${tableName} with ${operations.length} operations, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTable(connectionId, tableName);
+    if (table.kind !== 'r' && table.kind !== 'p') {
+      throw new IdentifierError(`${table.schema}.${table.name} is not a table`);
+    }
+    
+    const plan = buildAlterTable(table, table.columns.map((column: any) => column.column_name), operations);
+    const result: AlterTableResult = {
+      sql: plan.statements,
+      schema: table.schema,
+      name: plan.tableName,
+      dropped: plan.dropped,
+      applied: false,
+    };
+    if (preview) {
+      return result;
+    }
+    
+    const record = await this.runTableDdl(connectionId, table, plan.statements, {
+      operation: plan.dropped ? 'DROP' : 'ALTER',
+      transactional: true,
+    });
+    await this.applyOperationsToRecord(record, operations);
+    
+    Logger.success(`Altered table ${table.schema}.${table.name}`);
+    return { ...result, applied: true };
+  }
+  
+  // Mirror applied changes in db_tables/db_columns. A dropped table keeps its
+  // record, flagged with droppedAt, so its activity log entries still point at it.
+  private async applyOperationsToRecord(record: DbTable, operations: AlterTableOperation[]): Promise<void> {
+    const stored = await this.getColumns(record.id);
+    const findColumn = (name: string) => stored.find(column => column.name === name);
+    
+    for (const operation of operations) {
+      switch (operation.action) {
+        case 'add_column': {
+          const column = await this.createColumn({
+            tableId: record.id,
+            name: operation.column.name,
+            type: operation.column.type,
+            nullable: operation.column.nullable && operation.column.identity === 'none',
+            defaultValue: operation.column.defaultValue || null,
+          });
+          stored.push(column);
+          break;
+        }
+        case 'rename_column': {
+          const column = findColumn(operation.column);
+          if (column) {
+            await this.updateColumn(column.id, { name: operation.newName });
+            column.name = operation.newName;
+          }
+          break;
+        }
+        case 'drop_column': {
+          const column = findColumn(operation.column);
+          if (column) {
+            await this.deleteColumn(column.id);
+            stored.splice(stored.indexOf(column), 1);
+          }
+          break;
+        }
+        case 'alter_column_type': {
+          const column = findColumn(operation.column);
+          if (column) await this.updateColumn(column.id, { type: operation.type });
+          break;
+        }
+        case 'set_not_null': {
+          const column = findColumn(operation.column);
+          if (column) await this.updateColumn(column.id, { nullable: !operation.notNull });
+          break;
+        }
+        case 'set_default': {
+          const column = findColumn(operation.column);
+          if (column) await this.updateColumn(column.id, { defaultValue: operation.defaultValue?.trim() || null });
+          break;
+        }
+        case 'rename_table': {
+          // A table of that name dropped outside the app may have left a record behind
+          const stale = await this.getTableByName(record.connectionId, operation.newName, record.schema ?? 'public');
+          if (stale) await this.deleteTable(stale.id);
+          await this.updateTable(record.id, { name: operation.newName });
+          break;
+        }
+        case 'drop_table':
+          await this.updateTable(record.id, { droppedAt: new Date() });
+          break;
+      }
+    }
+  }
+  
+  // Only the table's own indexes can be reindexed or dropped from its panel
+  private async resolveTableIndex(connectionId: number, tableName: string, indexName: string): Promise<TableReference> {
+    const table = await this.resolveTable(connectionId, tableName);
+    const indexes = await this.fetchIndexes(connectionId, tableName);
+    if (!indexes.some(index => index.name === indexName)) {
+      throw new IdentifierError(`Index ${indexName} does not exist on ${table.schema}.${table.name}`, 404);
+    }
+    return table;
+  }
+  
+  async createIndex(connectionId: number, tableName: string, index: IndexDesign, preview: boolean = false): Promise<{ sql: string }> {
+    console.log(`Creating index on table ${tableName}, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTable(connectionId, tableName);
+    if (table.kind !== 'r' && table.kind !== 'p' && table.kind !== 'm') {
+      throw new IdentifierError(`${table.schema}.${table.name} cannot be indexed`);
+    }
+    if (index.concurrently && table.kind === 'p') {
+      throw new IdentifierError('Indexes on partitioned tables cannot be created concurrently');
+    }
+    
+    const sql = buildCreateIndex(table, table.columns.map((column: any) => column.column_name), index);
+    if (!preview) {
+      await this.runTableDdl(connectionId, table, [sql], { operation: 'CREATE', transactional: !index.concurrently });
+      Logger.success(`Created index on ${table.schema}.${table.name}`);
+    }
+    return { sql };
+  }
+  
+  async reindexIndex(connectionId: number, tableName: string, indexName: string, concurrently: boolean): Promise<{ sql: string }> {
+    console.log(`Reindexing ${indexName} on table ${tableName}, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTableIndex(connectionId, tableName, indexName);
+    const sql = buildReindex({ schema: table.schema, name: indexName }, concurrently);
+    await this.runTableDdl(connectionId, table, [sql], { operation: 'REINDEX', transactional: !concurrently });
+    return { sql };
+  }
+  
+  async dropIndex(connectionId: number, tableName: string, indexName: string, concurrently: boolean, cascade: boolean): Promise<{ sql: string }> {
+    console.log(`Dropping index ${indexName} on table ${tableName}, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTableIndex(connectionId, tableName, indexName);
+    const sql = buildDropIndex({ schema: table.schema, name: indexName }, concurrently, cascade);
+    await this.runTableDdl(connectionId, table, [sql], { operation: 'DROP', transactional: !concurrently });
+    return { sql };
+  }
+  
+  // Only the table's own constraints can be validated or dropped from its panel
+  private async resolveTableConstraint(connectionId: number, tableName: string, constraintName: string): Promise<TableReference> {
+    const table = await this.resolveTable(connectionId, tableName);
+    const constraints = await this.fetchConstraints(connectionId, tableName);
+    if (!constraints.some(constraint => constraint.name === constraintName)) {
+      throw new IdentifierError(`Constraint ${constraintName} does not exist on ${table.schema}.${table.name}`, 404);
+    }
+    return table;
+  }
+  
+  // Count rows violating a constraint in a read-only transaction, so a CHECK
+  // expression cannot change data; gives up after 30 seconds
+  private async countConstraintViolations(connectionId: number, sql: string): Promise<number | null> {
+    const connection = await this.getConnection(connectionId);
+    if (!connection) {
+      throw new Error(`Connection with id ${connectionId} not found`);
+    }
+    
+    const client = await connectionPools.getPool(connection).connect();
+    let clientFailed = false;
+    
+    try {
+      await client.query('BEGIN READ ONLY');
+      await client.query(`SET LOCAL statement_timeout = '30s'`);
+      const result = await client.query(sql);
+      return result.rows[0].violations;
+    } catch (error) {
+      if (describeQueryError(error).code === '57014') {
+        console.log('Counting constraint violations timed out');
+        return null;
+      }
+      throw error;
+    } finally {
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackError) {
+        console.error('Rollback failed, discarding client:', rollbackError);
+        clientFailed = true;
+      }
+      client.release(clientFailed);
+    }
+  }
+  
+  async addConstraint(connectionId: number, tableName: string, constraint: ConstraintDesign, preview: boolean = false): Promise<AddConstraintResult> {
+    console.log(`Adding ${constraint.type} constraint to table ${tableName}, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTable(connectionId, tableName);
+    if (table.kind !== 'r' && table.kind !== 'p') {
+      throw new IdentifierError(`${table.schema}.${table.name} is not a table`);
+    }
+    if (constraint.type === 'foreign_key') {
+      const referenced = await this.resolveTable(
+        connectionId,
+        quoteQualifiedName({ schema: constraint.referencedSchema, name: constraint.referencedTable })
+      );
+      assertKnownColumns(referenced, constraint.referencedColumns);
+    }
+    
+    const sql = buildAddConstraint(table, table.columns.map((column: any) => column.column_name), constraint);
+    if (preview) {
+      const violations = await this.countConstraintViolations(connectionId, buildViolationCount(table, constraint));
+      return { sql, violations };
+    }
+    
+    await this.runTableDdl(connectionId, table, [sql], { operation: 'ALTER', transactional: true });
+    Logger.success(`Added constraint to ${table.schema}.${table.name}`);
+    return { sql };
+  }
+  
+  async validateConstraint(connectionId: number, tableName: string, constraintName: string): Promise<{ sql: string }> {
+    console.log(`Validating constraint ${constraintName} on table ${tableName}, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTableConstraint(connectionId, tableName, constraintName);
+    const sql = buildValidateConstraint(table, constraintName);
+    await this.runTableDdl(connectionId, table, [sql], { operation: 'ALTER', transactional: true });
+    return { sql };
+  }
+  
+  async dropConstraint(connectionId: number, tableName: string, constraintName: string, cascade: boolean): Promise<{ sql: string }> {
+    console.log(`Dropping constraint ${constraintName} on table ${tableName}, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTableConstraint(connectionId, tableName, constraintName);
+    const sql = buildDropConstraint(table, constraintName, cascade);
+    await this.runTableDdl(connectionId, table, [sql], { operation: 'ALTER', transactional: true });
+    return { sql };
+  }
+  
+  // What DROP ... CASCADE would take with it, nearest first
+  async fetchDependents(connectionId: number, tableName: string): Promise<RelationDependent[]> {
+    console.log(`Fetching dependents of ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const table = await this.resolveTable(connectionId, tableName);
+      // Views depend on their sources through their rewrite rule; views
+      // cannot form cycles, so the recursion ends
+      const result = await this.executeRawQuery(
+        connectionId,
+        `
+        WITH RECURSIVE views AS (
+          SELECT r.ev_class AS oid, 1 AS depth
+          FROM pg_depend d
+          JOIN pg_rewrite r ON r.oid = d.objid
+          WHERE d.classid = 'pg_rewrite'::regclass
+          AND d.refclassid = 'pg_class'::regclass
+          AND d.refobjid = $1::regclass
+          AND r.ev_class <> $1::regclass
+          UNION
+          SELECT r.ev_class, views.depth + 1
+          FROM views
+          JOIN pg_depend d
+            ON d.refobjid = views.oid
+            AND d.refclassid = 'pg_class'::regclass
+            AND d.classid = 'pg_rewrite'::regclass
+          JOIN pg_rewrite r ON r.oid = d.objid
+          WHERE r.ev_class <> views.oid
+        )
+        SELECT c.relkind::text AS kind, n.nspname::text AS schema, c.relname::text AS name, NULL::text AS table_name, min(views.depth) AS depth
+        FROM views
+        JOIN pg_class c ON c.oid = views.oid
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        GROUP BY c.relkind, n.nspname, c.relname
+        UNION ALL
+        SELECT 'foreign_key', n.nspname::text, con.conname::text, c.relname::text, 1
+        FROM pg_constraint con
+        JOIN pg_class c ON c.oid = con.conrelid
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE con.contype = 'f'
+        AND con.confrelid = $1::regclass
+        AND con.conrelid <> con.confrelid
+        ORDER BY depth, schema, name
+        `,
+        [table.qualifiedName]
+      );
+      
+      return result.rows.map((row: any) => ({
+        kind: row.kind === 'foreign_key' ? 'foreign_key' : relationKinds[row.kind],
+        schema: row.schema,
+        name: row.name,
+        table: row.table_name,
+        depth: row.depth,
+      }));
+    } catch (error) {
+      console.error(`Failed to fetch dependents of ${tableName}:`, error);
+      throw error;
+    }
+  }
+  
+  // The view behind tableName with what its Definition tab needs; anything
+  // else is rejected
+  private async loadView(connectionId: number, tableName: string) {
+    const table = await this.resolveTable(connectionId, tableName);
+    if (table.kind !== 'v' && table.kind !== 'm') {
+      throw new IdentifierError(`${table.schema}.${table.name} is not a view`);
+    }
+    
+    const result = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        pg_get_viewdef(c.oid, true) AS definition,
+        c.relispopulated AS populated,
+        coalesce(c.reloptions, '{}') AS options,
+        EXISTS (
+          SELECT 1 FROM pg_index i
+          WHERE i.indrelid = c.oid
+          AND i.indisunique
+          AND i.indisvalid
+          AND i.indpred IS NULL
+          AND i.indexprs IS NULL
+        ) AS has_unique_index
+      FROM pg_class c
+      WHERE c.oid = $1::regclass
+      `,
+      [table.qualifiedName]
+    );
+    
+    const row = result.rows[0];
+    return {
+      table,
+      definition: row.definition as string,
+      populated: row.populated as boolean,
+      options: row.options as string[],
+      hasUniqueIndex: row.has_unique_index as boolean,
+    };
+  }
+  
+  private async fetchLastRefresh(connectionId: number, table: TableReference): Promise<ViewRefresh | null> {
+    const record = await this.getTableByName(connectionId, table.name, table.schema);
+    if (!record) return null;
+    
+    const [log] = await db
+      .select()
+      .from(activityLogs)
+      .where(
+        and(
+          eq(activityLogs.tableId, record.id),
+          eq(activityLogs.operation, 'REFRESH'),
+          eq(activityLogs.status, 'SUCCESS')
+        )
+      )
+      .orderBy(desc(activityLogs.createdAt))
+      .limit(1);
+    if (!log) return null;
+    
+    const metadata = log.metadata as { durationMs?: number } | null;
+    return {
+      refreshedAt: log.createdAt,
+      durationMs: metadata?.durationMs ?? null,
+      concurrently: (log.details ?? '').includes('CONCURRENTLY'),
+    };
+  }
+  
+  async fetchViewDetails(connectionId: number, tableName: string): Promise<ViewDetails> {
+    console.log(`Fetching view ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const view = await this.loadView(connectionId, tableName);
+      const materialized = view.table.kind === 'm';
+      return {
+        schema: view.table.schema,
+        name: view.table.name,
+        kind: materialized ? 'materialized_view' : 'view',
+        definition: view.definition,
+        populated: view.populated,
+        canRefreshConcurrently: materialized && view.populated && view.hasUniqueIndex,
+        lastRefresh: materialized ? await this.fetchLastRefresh(connectionId, view.table) : null,
+      };
+    } catch (error) {
+      console.error(`Failed to fetch view ${tableName}:`, error);
+      throw error;
+    }
+  }
+  
+  async replaceViewDefinition(connectionId: number, tableName: string, definition: string, preview: boolean = false): Promise<{ sql: string }> {
+    console.log(`${preview ? 'Previewing' : 'Replacing'} definition of view ${tableName}, connection id: ${connectionId}`);
+    
+    const view = await this.loadView(connectionId, tableName);
+    if (view.table.kind !== 'v') {
+      throw new IdentifierError('Materialized views cannot be replaced in place; drop and recreate them instead');
+    }
+    
+    const sql = buildReplaceView(view.table, definition, view.options);
+    if (!preview) {
+      await this.runTableDdl(connectionId, view.table, [sql], { operation: 'ALTER', transactional: true });
+      Logger.success(`Replaced definition of ${view.table.schema}.${view.table.name}`);
+    }
+    return { sql };
+  }
+  
+  async refreshMaterializedView(
+    connectionId: number,
+    tableName: string,
+    concurrently: boolean
+  ): Promise<{ sql: string; lastRefresh: ViewRefresh | null }> {
+    console.log(`Refreshing materialized view ${tableName}, connection id: ${connectionId}`);
+    
+    const view = await this.loadView(connectionId, tableName);
+    if (view.table.kind !== 'm') {
+      throw new IdentifierError(`${view.table.schema}.${view.table.name} is not a materialized view`);
+    }
+    if (concurrently && !view.populated) {
+      throw new IdentifierError('A materialized view without data cannot be refreshed concurrently');
+    }
+    
+    const sql = buildRefreshMaterializedView(view.table, concurrently);
+    await this.runTableDdl(connectionId, view.table, [sql], { operation: 'REFRESH', transactional: true });
+    return { sql, lastRefresh: await this.fetchLastRefresh(connectionId, view.table) };
+  }
+  
+  async dropView(connectionId: number, tableName: string, cascade: boolean): Promise<{ sql: string }> {
+    console.log(`Dropping view ${tableName}, connection id: ${connectionId}`);
+    
+    const view = await this.loadView(connectionId, tableName);
+    const sql = buildDropView(view.table, view.table.kind === 'm', cascade);
+    const record = await this.runTableDdl(connectionId, view.table, [sql], { operation: 'DROP', transactional: true });
+    await this.updateTable(record.id, { droppedAt: new Date() });
+    return { sql };
+  }
+  
+  // Functions and procedures matching condition (aliases p, n and l); members
+  // of extensions are left out
+  private async queryRoutines(connectionId: number, condition: string, params: any[] = []): Promise<Routine[]> {
+    const result = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        p.oid,
+        n.nspname AS schema,
+        p.proname AS name,
+        p.prokind AS kind,
+        pg_get_function_arguments(p.oid) AS arguments,
+        pg_get_function_identity_arguments(p.oid) AS identity_arguments,
+        CASE WHEN p.prokind = 'f' THEN pg_get_function_result(p.oid) END AS result,
+        l.lanname AS language,
+        p.provolatile AS volatility,
+        p.prosecdef AS security_definer,
+        obj_description(p.oid, 'pg_proc') AS comment
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      JOIN pg_language l ON l.oid = p.prolang
+      WHERE ${condition}
+      AND p.prokind IN ('f', 'p')
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_depend d
+        WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+      )
+      ORDER BY p.proname, identity_arguments
+      `,
+      params
+    );
+    
+    const volatilities: Record<string, Routine['volatility']> = { i: 'immutable', s: 'stable', v: 'volatile' };
+    return result.rows.map((row: any) => ({
+      oid: row.oid,
+      schema: row.schema,
+      name: row.name,
+      kind: row.kind === 'p' ? 'procedure' : 'function',
+      arguments: row.arguments,
+      identityArguments: row.identity_arguments,
+      result: row.result,
+      language: row.language,
+      volatility: volatilities[row.volatility],
+      securityDefiner: row.security_definer,
+      comment: row.comment,
+    }));
+  }
+  
+  async fetchRoutines(connectionId: number, schema: string): Promise<Routine[]> {
+    console.log(`Fetching routines of schema ${schema}, connection id: ${connectionId}`);
+    
+    try {
+      return await this.queryRoutines(connectionId, 'n.nspname = $1', [schema]);
+    } catch (error) {
+      console.error(`Failed to fetch routines of schema ${schema}:`, error);
+      throw error;
+    }
+  }
+  
+  async fetchRoutine(connectionId: number, oid: number): Promise<RoutineDetails> {
+    console.log(`Fetching routine ${oid}, connection id: ${connectionId}`);
+    
+    const [routine] = await this.queryRoutines(connectionId, 'p.oid = $1', [oid]);
+    if (!routine) {
+      throw new IdentifierError(`Routine ${oid} does not exist`, 404);
+    }
+    
+    // proallargtypes and proargmodes are only set when there are OUT arguments
+    const result = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        pg_get_functiondef(p.oid) AS definition,
+        ARRAY(
+          SELECT format_type(t.type, NULL)
+          FROM unnest(coalesce(p.proallargtypes, p.proargtypes::oid[])) WITH ORDINALITY AS t(type, position)
+          ORDER BY t.position
+        ) AS types,
+        p.proargmodes::text[] AS modes,
+        p.proargnames AS names,
+        p.pronargdefaults AS default_count
+      FROM pg_proc p
+      WHERE p.oid = $1
+      `,
+      [oid]
+    );
+    
+    const row = result.rows[0];
+    const parameters: RoutineArgument[] = (row.types as string[]).map((type, index) => ({
+      name: row.names?.[index] || null,
+      type,
+      mode: argumentModes[row.modes?.[index] ?? 'i'],
+      hasDefault: false,
+    }));
+    // Defaults belong to the last input arguments
+    const inputs = parameters.filter(isInputArgument);
+    inputs.slice(inputs.length - row.default_count).forEach(parameter => {
+      parameter.hasDefault = true;
+    });
+    
+    return { ...routine, definition: row.definition, parameters };
+  }
+  
+  // Run a CREATE OR REPLACE FUNCTION/PROCEDURE from the source editor
+  async saveRoutine(connectionId: number, source: string): Promise<{ sql: string }> {
+    console.log(`Saving routine source, connection id: ${connectionId}`);
+    
+    const sql = checkRoutineSource(source);
+    await this.executeRawQuery(connectionId, sql);
+    Logger.success('Saved routine source');
+    return { sql };
+  }
+  
+  // Call a routine the way the query editor runs a script, so errors come
+  // back per statement rather than as a failed request
+  async callRoutine(
+    connectionId: number,
+    oid: number,
+    values: RoutineArgumentValue[]
+  ): Promise<{ sql: string; results: StatementResult[] }> {
+    console.log(`Calling routine ${oid}, connection id: ${connectionId}`);
+    
+    const routine = await this.fetchRoutine(connectionId, oid);
+    const sql = buildRoutineCall({ ...routine, arguments: routine.parameters }, values);
+    const results = await this.executeScript(connectionId, sql);
+    return { sql, results };
+  }
+  
+  async fetchTriggers(connectionId: number, tableName: string): Promise<TableTrigger[]> {
+    console.log(`Fetching triggers for table ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const table = await this.resolveTable(connectionId, tableName);
+      const result = await this.executeRawQuery(
+        connectionId,
+        `
+        SELECT
+          t.tgname AS name,
+          t.tgtype AS type,
+          t.tgenabled <> 'D' AS enabled,
+          t.tgconstraint <> 0 AS is_constraint,
+          p.oid AS function_oid,
+          pn.nspname AS function_schema,
+          p.proname AS function_name,
+          pg_get_triggerdef(t.oid, true) AS definition
+        FROM pg_trigger t
+        JOIN pg_proc p ON p.oid = t.tgfoid
+        JOIN pg_namespace pn ON pn.oid = p.pronamespace
+        WHERE t.tgrelid = $1::regclass
+        AND NOT t.tgisinternal
+        ORDER BY t.tgname
+        `,
+        [table.qualifiedName]
+      );
+      
+      return result.rows.map((row: any) => ({
+        name: row.name,
+        ...describeTriggerType(row.type),
+        enabled: row.enabled,
+        isConstraint: row.is_constraint,
+        functionOid: row.function_oid,
+        functionName: `${row.function_schema}.${row.function_name}`,
+        definition: row.definition,
+      }));
+    } catch (error) {
+      console.error(`Failed to fetch triggers for table ${tableName}:`, error);
+      throw error;
+    }
+  }
+  
+  async setTriggerEnabled(connectionId: number, tableName: string, triggerName: string, enabled: boolean): Promise<{ sql: string }> {
+    console.log(`${enabled ? 'Enabling' : 'Disabling'} trigger ${triggerName} on table ${tableName}, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTable(connectionId, tableName);
+    const triggers = await this.fetchTriggers(connectionId, tableName);
+    if (!triggers.some(trigger => trigger.name === triggerName)) {
+      throw new IdentifierError(`Trigger ${triggerName} does not exist on ${table.schema}.${table.name}`, 404);
+    }
+    
+    const sql = buildSetTriggerEnabled(table, triggerName, enabled);
+    await this.runTableDdl(connectionId, table, [sql], { operation: 'ALTER', transactional: true });
+    return { sql };
+  }
+  
+  // Types of a schema matching condition on pg_type t, leaving out members
+  // of extensions
+  private typeQuery(columns: string, joins: string, condition: string): string {
+    return `
+      SELECT t.typname AS name, ${columns}, obj_description(t.oid, 'pg_type') AS comment
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      ${joins}
+      WHERE n.nspname = $1
+      AND ${condition}
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_depend d
+        WHERE d.classid = 'pg_type'::regclass AND d.objid = t.oid AND d.deptype = 'e'
+      )
+      ORDER BY t.typname
+    `;
+  }
+  
+  async fetchTypes(connectionId: number, schema: string): Promise<SchemaTypes> {
+    console.log(`Fetching types of schema ${schema}, connection id: ${connectionId}`);
+    
+    try {
+      const enums = await this.executeRawQuery(
+        connectionId,
+        this.typeQuery(
+          `ARRAY(SELECT e.enumlabel::text FROM pg_enum e WHERE e.enumtypid = t.oid ORDER BY e.enumsortorder) AS labels`,
+          '',
+          `t.typtype = 'e'`
+        ),
+        [schema]
+      );
+      const domains = await this.executeRawQuery(
+        connectionId,
+        this.typeQuery(
+          `
+          format_type(t.typbasetype, t.typtypmod) AS base_type,
+          t.typnotnull AS not_null,
+          t.typdefault AS default_value,
+          coalesce((
+            SELECT json_agg(json_build_object('name', c.conname, 'definition', pg_get_constraintdef(c.oid, true)) ORDER BY c.conname)
+            FROM pg_constraint c
+            WHERE c.contypid = t.oid AND c.contype = 'c'
+          ), '[]') AS checks
+          `,
+          '',
+          `t.typtype = 'd'`
+        ),
+        [schema]
+      );
+      // Every table has a composite row type too; only standalone ones have relkind 'c'
+      const composites = await this.executeRawQuery(
+        connectionId,
+        this.typeQuery(
+          `
+          coalesce((
+            SELECT json_agg(json_build_object('name', a.attname, 'type', format_type(a.atttypid, a.atttypmod)) ORDER BY a.attnum)
+            FROM pg_attribute a
+            WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+          ), '[]') AS attributes
+          `,
+          'JOIN pg_class r ON r.oid = t.typrelid',
+          `t.typtype = 'c' AND r.relkind = 'c'`
+        ),
+        [schema]
+      );
+      
+      return {
+        enums: enums.rows.map((row: any) => ({ name: row.name, labels: row.labels, comment: row.comment })),
+        domains: domains.rows.map((row: any) => ({
+          name: row.name,
+          baseType: row.base_type,
+          notNull: row.not_null,
+          defaultValue: row.default_value,
+          checks: row.checks,
+          comment: row.comment,
+        })),
+        composites: composites.rows.map((row: any) => ({ name: row.name, attributes: row.attributes, comment: row.comment })),
+      };
+    } catch (error) {
+      console.error(`Failed to fetch types of schema ${schema}:`, error);
+      throw error;
+    }
+  }
+  
+  // Look up a type so its name is known to exist before it is quoted into DDL
+  private async resolveType(connectionId: number, schema: string, typeName: string): Promise<{ schema: string; name: string; oid: number; kind: string }> {
+    const result = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT t.oid, t.typtype AS kind
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE n.nspname = $1
+      AND t.typname = $2
+      `,
+      [schema, typeName]
+    );
+    
+    if (result.rows.length === 0) {
+      throw new IdentifierError(`Type ${schema}.${typeName} does not exist`, 404);
+    }
+    return { schema, name: typeName, oid: result.rows[0].oid, kind: result.rows[0].kind };
+  }
+  
+  private async resolveEnum(connectionId: number, schema: string, typeName: string) {
+    const type = await this.resolveType(connectionId, schema, typeName);
+    if (type.kind !== 'e') {
+      throw new IdentifierError(`${schema}.${typeName} is not an enum`);
+    }
+    return type;
+  }
+  
+  async fetchTypeUsages(connectionId: number, schema: string, typeName: string): Promise<TypeUsage[]> {
+    console.log(`Fetching columns using type ${schema}.${typeName}, connection id: ${connectionId}`);
+    
+    const type = await this.resolveType(connectionId, schema, typeName);
+    const result = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        n.nspname AS schema,
+        c.relname AS table_name,
+        c.relkind AS kind,
+        a.attname AS column_name,
+        format_type(a.atttypid, a.atttypmod) AS column_type
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_type ct ON ct.oid = a.atttypid
+      WHERE a.attnum > 0
+      AND NOT a.attisdropped
+      AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND (
+        a.atttypid = $1
+        OR (ct.typcategory = 'A' AND ct.typelem = $1)
+        OR (ct.typtype = 'd' AND ct.typbasetype = $1)
+      )
+      ORDER BY n.nspname, c.relname, a.attnum
+      `,
+      [type.oid]
+    );
+    
+    return result.rows.map((row: any) => ({
+      schema: row.schema,
+      table: row.table_name,
+      kind: relationKinds[row.kind],
+      column: row.column_name,
+      type: row.column_type,
+    }));
+  }
+  
+  // Enum changes run on their own; ADD VALUE cannot share a transaction with
+  // statements using the new label
+  async addEnumValue(connectionId: number, schema: string, typeName: string, request: AddEnumValueRequest): Promise<{ sql: string }> {
+    console.log(`Adding value to enum ${schema}.${typeName}, connection id: ${connectionId}`);
+    
+    const type = await this.resolveEnum(connectionId, schema, typeName);
+    const sql = buildAddEnumValue(type, request);
+    await this.executeRawQuery(connectionId, sql);
+    Logger.success(`Added value ${request.value} to enum ${schema}.${typeName}`);
+    return { sql };
+  }
+  
+  async renameEnumValue(connectionId: number, schema: string, typeName: string, label: string, newLabel: string): Promise<{ sql: string }> {
+    console.log(`Renaming value ${label} of enum ${schema}.${typeName}, connection id: ${connectionId}`);
+    
+    const type = await this.resolveEnum(connectionId, schema, typeName);
+    const sql = buildRenameEnumValue(type, label, newLabel);
+    await this.executeRawQuery(connectionId, sql);
+    Logger.success(`Renamed value ${label} of enum ${schema}.${typeName} to ${newLabel}`);
+    return { sql };
+  }
+  
+  async createDomain(connectionId: number, domain: DomainDesign, preview = false): Promise<{ sql: string }> {
+    console.log(`${preview ? 'Previewing' : 'Creating'} domain ${domain.schema}.${domain.name}, connection id: ${connectionId}`);
+    
+    const sql = buildCreateDomain(domain);
+    if (!preview) {
+      await this.executeRawQuery(connectionId, sql);
+      Logger.success(`Created domain ${domain.schema}.${domain.name}`);
+    }
+    return { sql };
+  }
+  
+  // Sequences matching condition (aliases c and n) with their current state
+  // from pg_sequences, which is null rather than an error for sequences the
+  // role may not read; members of extensions are left out
+  private async querySequences(connectionId: number, condition: string, params: any[] = []): Promise<Sequence[]> {
+    const result = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        n.nspname AS schema,
+        c.relname AS name,
+        format_type(s.seqtypid, NULL) AS data_type,
+        s.seqstart::text AS start_value,
+        s.seqincrement::text AS increment,
+        s.seqmin::text AS min_value,
+        s.seqmax::text AS max_value,
+        s.seqcache::text AS cache_size,
+        s.seqcycle AS cycle,
+        ps.last_value::text AS last_value,
+        has_sequence_privilege(c.oid, 'SELECT, USAGE') AS readable,
+        tn.nspname AS owner_schema,
+        t.relname AS owner_table,
+        a.attname AS owner_column,
+        dep.deptype = 'i' AS identity,
+        coalesce(
+          a.atttypid IN ('smallint'::regtype, 'integer'::regtype, 'bigint'::regtype)
+            AND has_column_privilege(t.oid, a.attnum, 'SELECT'),
+          false
+        ) AS extreme_readable
+      FROM pg_sequence s
+      JOIN pg_class c ON c.oid = s.seqrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_sequences ps ON ps.schemaname = n.nspname AND ps.sequencename = c.relname
+      LEFT JOIN pg_depend dep ON dep.classid = 'pg_class'::regclass AND dep.objid = c.oid
+        AND dep.refclassid = 'pg_class'::regclass AND dep.refobjsubid > 0 AND dep.deptype IN ('a', 'i')
+      LEFT JOIN pg_class t ON t.oid = dep.refobjid
+      LEFT JOIN pg_namespace tn ON tn.oid = t.relnamespace
+      LEFT JOIN pg_attribute a ON a.attrelid = dep.refobjid AND a.attnum = dep.refobjsubid
+      WHERE ${condition}
+      AND NOT EXISTS (
+        SELECT 1 FROM pg_depend e
+        WHERE e.classid = 'pg_class'::regclass AND e.objid = c.oid AND e.deptype = 'e'
+      )
+      ORDER BY c.relname
+      `,
+      params
+    );
+    
+    const owners: (SequenceOwner | null)[] = result.rows.map((row: any) => row.owner_table
+      ? { schema: row.owner_schema, table: row.owner_table, column: row.owner_column, identity: row.identity }
+      : null);
+    
+    // One more statement reads what pg_sequences leaves out: the position of
+    // readable sequences not yet called (it differs from the start value after
+    // setval(..., false) or RESTART WITH), and MAX (MIN for descending
+    // sequences) of each owning column the role may read. The listing still
+    // works without them.
+    const positions = new Map<number, string>();
+    const extremes = new Map<number, string | null>();
+    const lookups: { key: string; sql: string; store: (value: any) => void }[] = [];
+    result.rows.forEach((row: any, index: number) => {
+      const owner = owners[index];
+      if (row.readable && row.last_value === null) {
+        lookups.push({
+          key: `position_${index}`,
+          sql: `(SELECT last_value::text FROM ${quoteQualifiedName({ schema: row.schema, name: row.name })})`,
+          store: value => positions.set(index, value),
+        });
+      }
+      if (owner && row.extreme_readable) {
+        lookups.push({
+          key: `extreme_${index}`,
+          sql: `(SELECT ${columnExtremeExpression(row.increment, owner.column)}::text FROM ${quoteQualifiedName({ schema: owner.schema, name: owner.table })})`,
+          store: value => extremes.set(index, value),
+        });
+      }
+    });
+    if (lookups.length > 0) {
+      try {
+        const state = await this.executeRawQuery(
+          connectionId,
+          `SELECT ${lookups.map(lookup => `${lookup.sql} AS ${lookup.key}`).join(', ')}`
+        );
+        for (const lookup of lookups) {
+          lookup.store(state.rows[0][lookup.key]);
+        }
+      } catch (error) {
+        Logger.warn(`Could not read sequence positions and owning columns: ${(error as Error).message}`);
+      }
+    }
+    
+    return result.rows.map((row: any, index: number) => {
+      // Null when the role may not read the sequence
+      const lastValue: string | null = row.readable ? row.last_value ?? positions.get(index) ?? row.start_value : null;
+      const isCalled = row.last_value !== null;
+      const nextValue = lastValue === null ? null : nextSequenceValue(lastValue, isCalled, row.increment);
+      const columnExtreme = extremes.get(index) ?? null;
+      
+      return {
+        schema: row.schema,
+        name: row.name,
+        dataType: row.data_type,
+        startValue: row.start_value,
+        increment: row.increment,
+        minValue: row.min_value,
+        maxValue: row.max_value,
+        cacheSize: row.cache_size,
+        cycle: row.cycle,
+        lastValue,
+        isCalled,
+        nextValue,
+        owner: owners[index],
+        columnExtreme,
+        isBehind: nextValue !== null && isSequenceBehind(nextValue, row.increment, columnExtreme),
+      };
+    });
+  }
+  
+  async fetchSequences(connectionId: number, schema: string): Promise<Sequence[]> {
+    console.log(`Fetching sequences of schema ${schema}, connection id: ${connectionId}`);
+    
+    try {
+      return await this.querySequences(connectionId, 'n.nspname = $1', [schema]);
+    } catch (error) {
+      console.error(`Failed to fetch sequences of schema ${schema}:`, error);
+      throw error;
+    }
+  }
+  
+  private async resolveSequence(connectionId: number, schema: string, name: string): Promise<Sequence> {
+    const [sequence] = await this.querySequences(connectionId, 'n.nspname = $1 AND c.relname = $2', [schema, name]);
+    if (!sequence) {
+      throw new IdentifierError(`Sequence ${schema}.${name} does not exist`, 404);
+    }
+    return sequence;
+  }
+  
+  async setSequenceValue(connectionId: number, schema: string, name: string, value: string, isCalled: boolean): Promise<{ sql: string }> {
+    console.log(`Setting sequence ${schema}.${name} to ${value}, connection id: ${connectionId}`);
+    
+    const sequence = await this.resolveSequence(connectionId, schema, name);
+    const sql = buildSetSequenceValue(sequence, value, isCalled);
+    await this.executeRawQuery(connectionId, sql);
+    Logger.success(`Set sequence ${schema}.${name} to ${value}`);
+    return { sql };
+  }
+  
+  async restartSequence(connectionId: number, schema: string, name: string, value?: string): Promise<{ sql: string }> {
+    console.log(`Restarting sequence ${schema}.${name}, connection id: ${connectionId}`);
+    
+    const sequence = await this.resolveSequence(connectionId, schema, name);
+    const sql = buildRestartSequence(sequence, value);
+    await this.executeRawQuery(connectionId, sql);
+    Logger.success(`Restarted sequence ${schema}.${name}`);
+    return { sql };
+  }
+  
+  // Only sequences owned by a column (serial and identity) have a column to follow
+  async resyncSequence(connectionId: number, schema: string, name: string): Promise<{ sql: string }> {
+    console.log(`Resyncing sequence ${schema}.${name}, connection id: ${connectionId}`);
+    
+    const sequence = await this.resolveSequence(connectionId, schema, name);
+    if (!sequence.owner) {
+      throw new IdentifierError(`Sequence ${schema}.${name} is not owned by a column`);
+    }
+    const sql = buildResyncSequence(sequence, sequence.owner);
+    await this.executeRawQuery(connectionId, sql);
+    Logger.success(`Resynced sequence ${schema}.${name} with ${sequence.owner.table}.${sequence.owner.column}`);
+    return { sql };
+  }
+  
+  // Relations and their columns as the catalog describes them, with comments;
+  // all user schemas unless one is given
+  private async fetchLiveRelations(connectionId: number, schema?: string): Promise<LiveRelation[]> {
+    const result = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        n.nspname AS schema,
+        c.relname AS table_name,
+        c.relkind AS kind,
+        obj_description(c.oid, 'pg_class') AS table_comment,
+        a.attname AS column_name,
+        format_type(a.atttypid, a.atttypmod) AS type,
+        NOT a.attnotnull AS nullable,
+        pg_get_expr(d.adbin, d.adrelid) AS default_value,
+        col_description(c.oid, a.attnum) AS column_comment,
+        EXISTS (
+          SELECT 1 FROM pg_index i
+          WHERE i.indrelid = c.oid AND i.indisprimary AND a.attnum = ANY(i.indkey)
+        ) AS is_primary,
+        EXISTS (
+          SELECT 1 FROM pg_index i
+          WHERE i.indrelid = c.oid AND i.indisunique AND NOT i.indisprimary
+          AND i.indnatts = 1 AND i.indkey[0] = a.attnum AND i.indpred IS NULL
+        ) AS is_unique
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+      LEFT JOIN pg_attrdef d ON d.adrelid = c.oid AND d.adnum = a.attnum
+      WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+      AND n.nspname NOT LIKE 'pg_temp_%'
+      AND n.nspname NOT LIKE 'pg_toast_temp_%'
+      AND ($1::text IS NULL OR n.nspname = $1)
+      ORDER BY n.nspname, c.relname, a.attnum
+      `,
+      [schema ?? null]
+    );
+    
+    const relations = new Map<string, LiveRelation>();
+    for (const row of result.rows) {
+      const key = `${row.schema}.${row.table_name}`;
+      if (!relations.has(key)) {
+        relations.set(key, {
+          schema: row.schema,
+          name: row.table_name,
+          kind: row.kind,
+          comment: row.table_comment,
+          columns: [],
+        });
+      }
+      if (row.column_name) {
+        relations.get(key)!.columns.push({
+          name: row.column_name,
+          type: row.type,
+          nullable: row.nullable,
+          isPrimary: row.is_primary,
+          isUnique: row.is_unique,
+          defaultValue: row.default_value,
+          comment: row.column_comment,
+        });
+      }
+    }
+    return Array.from(relations.values());
+  }
+  
+  // Bring db_tables/db_columns in line with the live catalog and move comments
+  // in the chosen direction. Exported comments are written first, so a failure
+  // there leaves the stored records untouched.
+  async syncMetadata(connectionId: number, comments: CommentDirection, preview: boolean = false): Promise<MetadataSyncResult> {
+    console.log(`Syncing metadata (comments: ${comments}), connection id: ${connectionId}`);
+    
+    try {
+      const live = await this.fetchLiveRelations(connectionId);
+      const tables = await this.getTables(connectionId);
+      const columns = tables.length > 0
+        ? await db.select().from(dbColumns).where(inArray(dbColumns.tableId, tables.map(table => table.id)))
+        : [];
+      const stored = tables.map(table => ({
+        table,
+        columns: columns.filter(column => column.tableId === table.id),
+      }));
+      
+      const plan = planMetadataSync(live, stored, comments);
+      const result: MetadataSyncResult = {
+        changes: plan.changes,
+        sql: plan.comments.flatMap(comment => comment.statements),
+        applied: false,
+      };
+      if (preview) {
+        return result;
+      }
+      
+      for (const comment of plan.comments) {
+        await this.runTableDdl(connectionId, comment.table, comment.statements, {
+          operation: 'COMMENT',
+          transactional: true,
+        });
+      }
+      
+      for (const relation of plan.newTables) {
+        const table = await this.createTable(newTableRecord(connectionId, relation));
+        for (const column of relation.columns) {
+          await this.createColumn(newColumnRecord(table.id, column));
+        }
+      }
+      for (const update of plan.tableUpdates) {
+        await this.updateTable(update.id, update.patch);
+      }
+      for (const column of plan.newColumns) {
+        await this.createColumn(column);
+      }
+      for (const update of plan.columnUpdates) {
+        await this.updateColumn(update.id, update.patch);
+      }
+      
+      await this.createActivityLog({
+        connectionId,
+        operation: 'SYNC',
+        details: `Synchronized metadata: ${plan.changes.length} changes`,
+        status: 'SUCCESS',
+        metadata: { comments, changes: plan.changes.length },
+      });
+      
+      Logger.success(`Metadata synchronized for connection ${connectionId}`);
+      return { ...result, applied: true };
+    } catch (error) {
+      Logger.error(`Failed to sync metadata for connection ${connectionId}:`, error);
+      throw error;
+    }
+  }
+  
+  // Stored tables and columns that still exist, with their live constraints
+  async fetchDictionary(connectionId: number, includeSamples: boolean = false): Promise<DictionaryTable[]> {
+    console.log(`Fetching data dictionary, connection id: ${connectionId}`);
+    
+    try {
+      const tables = (await this.getTables(connectionId))
+        .filter(table => !table.droppedAt)
+        .sort((a, b) => `${a.schema}.${a.name}`.localeCompare(`${b.schema}.${b.name}`));
+      const columns = tables.length > 0
+        ? await db.select().from(dbColumns).where(inArray(dbColumns.tableId, tables.map(table => table.id)))
+        : [];
+      const constraints = await this.queryConstraints(
+        connectionId,
+        `n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast') AND c.contype <> 'n'`
+      );
+      
+      const dictionary: DictionaryTable[] = [];
+      for (const table of tables) {
+        const schema = table.schema ?? 'public';
+        const samples = includeSamples
+          ? await this.fetchColumnSamples(connectionId, quoteQualifiedName({ schema, name: table.name })).catch(error => {
+              // The table may have gone since the last sync; document it without samples
+              console.error(`Skipping samples for ${schema}.${table.name}:`, error);
+              return {} as Record<string, string[]>;
+            })
+          : null;
+        
+        dictionary.push({
+          id: table.id,
+          schema,
+          name: table.name,
+          description: table.description,
+          columns: columns
+            .filter(column => column.tableId === table.id && !column.droppedAt)
+            .sort((a, b) => a.id - b.id)
+            .map(column => ({
+              id: column.id,
+              name: column.name,
+              type: column.type,
+              nullable: column.nullable ?? true,
+              isPrimary: column.isPrimary ?? false,
+              isUnique: column.isUnique ?? false,
+              defaultValue: column.defaultValue,
+              description: column.description,
+              ...(samples ? { samples: samples[column.name] ?? [] } : {}),
+            })),
+          constraints: constraints
+            .filter(constraint => constraint.schema === schema && constraint.table === table.name)
+            .map(constraint => ({
+              name: constraint.name,
+              type: constraint.type,
+              definition: constraint.definition,
+              columns: constraint.columns,
+              referencedSchema: constraint.referencedSchema,
+              referencedTable: constraint.referencedTable,
+            })),
+        });
+      }
+      
+      return dictionary;
+    } catch (error) {
+      console.error(`Failed to fetch data dictionary for connection ${connectionId}:`, error);
+      throw error;
+    }
+  }
+  
+  // Up to three distinct values per column from the first rows of a table.
+  // Binary columns are skipped and long values shortened.
+  async fetchColumnSamples(connectionId: number, tableName: string): Promise<Record<string, string[]>> {
+    console.log(`Fetching sample values for table ${tableName}, connection id: ${connectionId}`);
+    
+    const table = await this.resolveTable(connectionId, tableName);
+    const columns = table.columns
+      .filter((column: any) => column.data_type !== 'bytea')
+      .map((column: any) => column.column_name as string);
+    if (columns.length === 0) {
+      return {};
+    }
+    
+    const result = await this.executeRawQuery(
+      connectionId,
+      `SELECT ${columns.map((column: string, index: number) => `${quoteIdentifier(column)}::text AS c${index}`).join(', ')} FROM ${table.qualifiedName} LIMIT 50`
+    );
+    
+    const samples: Record<string, string[]> = {};
+    columns.forEach((column: string, index: number) => {
+      const values = new Set<string>();
+      for (const row of result.rows) {
+        const value = row[`c${index}`];
+        if (value === null || values.size === 3) continue;
+        const text = String(value);
+        values.add(text.length > 80 ? `${text.slice(0, 77)}...` : text);
+      }
+      samples[column] = Array.from(values);
+    });
+    return samples;
+  }
+  
+  // Save a table or column description, and with writeComment also set it as
+  // the object's COMMENT ON text in the target database first
+  async updateDescription(connectionId: number, update: DescriptionUpdate): Promise<{ description: string | null; sql: string | null }> {
+    console.log(`Updating description of table id ${update.tableId}${update.columnId ? `, column id ${update.columnId}` : ''}`);
+    
+    const table = await this.getTable(update.tableId);
+    if (!table || table.connectionId !== connectionId) {
+      throw new IdentifierError(`Table record ${update.tableId} not found`, 404);
+    }
+    const column = update.columnId ? await this.getColumn(update.columnId) : undefined;
+    if (update.columnId && (!column || column.tableId !== table.id)) {
+      throw new IdentifierError(`Column record ${update.columnId} not found`, 404);
+    }
+    
+    const description = update.description?.trim() || null;
+    let sql: string | null = null;
+    
+    if (update.writeComment) {
+      const resolved = await this.resolveTable(
+        connectionId,
+        quoteQualifiedName({ schema: table.schema ?? 'public', name: table.name })
+      );
+      if (column) {
+        assertKnownColumns(resolved, [column.name]);
+        sql = buildColumnComment(resolved, column.name, description);
+      } else {
+        sql = buildTableComment(resolved, resolved.kind, description);
+      }
+      await this.runTableDdl(connectionId, resolved, [sql], { operation: 'COMMENT', transactional: true });
+    }
+    
+    if (column) {
+      await this.updateColumn(column.id, { description });
+    } else {
+      await this.updateTable(table.id, { description });
+    }
+    return { description, sql };
+  }
+  
+  // Tables, indexes, constraints, views, functions and enums of one schema.
+  // Objects that belong to extensions are left out, and so are partitions,
+  // which follow their parent.
+  private async fetchSchemaSnapshot(connectionId: number, schema: string): Promise<SchemaSnapshot> {
+    const ownedByExtension = (oid: string) =>
+      `EXISTS (SELECT 1 FROM pg_depend dep WHERE dep.objid = ${oid} AND dep.deptype = 'e')`;
+    
+    const namespace = await this.executeRawQuery(
+      connectionId,
+      'SELECT quote_ident($1) AS quoted, EXISTS (SELECT 1 FROM pg_namespace WHERE nspname = $1) AS present',
+      [schema]
+    );
+    if (!namespace.rows[0].present) {
+      throw new IdentifierError(`Schema ${schema} does not exist`, 404);
+    }
+    
+    const columns = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        c.relname AS table_name,
+        pg_get_partkeydef(c.oid) AS partition_key,
+        a.attname AS column_name,
+        format_type(a.atttypid, a.atttypmod) AS type,
+        NOT a.attnotnull AS nullable,
+        pg_get_expr(d.adbin, d.adrelid) AS default_value,
+        a.attidentity AS identity,
+        a.attgenerated AS generated
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+      LEFT JOIN pg_attrdef d ON d.adrelid = c.oid AND d.adnum = a.attnum
+      WHERE n.nspname = $1 AND c.relkind IN ('r', 'p') AND NOT c.relispartition
+      AND NOT ${ownedByExtension('c.oid')}
+      ORDER BY c.relname, a.attnum
+      `,
+      [schema]
+    );
+    
+    const indexes = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT ic.relname AS name, r.relname AS table_name, pg_get_indexdef(i.indexrelid) AS definition
+      FROM pg_index i
+      JOIN pg_class ic ON ic.oid = i.indexrelid
+      JOIN pg_class r ON r.oid = i.indrelid
+      JOIN pg_namespace n ON n.oid = r.relnamespace
+      WHERE n.nspname = $1 AND r.relkind IN ('r', 'p') AND NOT r.relispartition
+      AND NOT ${ownedByExtension('r.oid')}
+      AND NOT EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = i.indexrelid AND con.conrelid = i.indrelid)
+      ORDER BY ic.relname
+      `,
+      [schema]
+    );
+    
+    const constraints = await this.queryConstraints(
+      connectionId,
+      `n.nspname = $1 AND r.relkind IN ('r', 'p') AND NOT r.relispartition AND c.contype IN ('p', 'u', 'f', 'c', 'x')
+      AND NOT ${ownedByExtension('r.oid')}`,
+      [schema]
+    );
+    
+    const views = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT c.relname AS name, c.relkind = 'm' AS materialized, pg_get_viewdef(c.oid, true) AS definition
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1 AND c.relkind IN ('v', 'm') AND NOT ${ownedByExtension('c.oid')}
+      ORDER BY c.relname
+      `,
+      [schema]
+    );
+    
+    const functions = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        p.proname AS name,
+        pg_get_function_identity_arguments(p.oid) AS arguments,
+        p.prokind AS kind,
+        pg_get_functiondef(p.oid) AS definition
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname = $1 AND p.prokind IN ('f', 'p') AND NOT ${ownedByExtension('p.oid')}
+      ORDER BY p.proname
+      `,
+      [schema]
+    );
+    
+    const enums = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT t.typname AS name, array_agg(e.enumlabel::text ORDER BY e.enumsortorder) AS values
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      JOIN pg_enum e ON e.enumtypid = t.oid
+      WHERE n.nspname = $1 AND NOT ${ownedByExtension('t.oid')}
+      GROUP BY t.typname
+      ORDER BY t.typname
+      `,
+      [schema]
+    );
+    
+    const tables = new Map<string, SchemaSnapshot['tables'][number]>();
+    for (const row of columns.rows) {
+      if (!tables.has(row.table_name)) {
+        tables.set(row.table_name, { name: row.table_name, partitionKey: row.partition_key, columns: [] });
+      }
+      if (row.column_name) {
+        tables.get(row.table_name)!.columns.push({
+          name: row.column_name,
+          type: row.type,
+          nullable: row.nullable,
+          defaultValue: row.default_value,
+          identity: row.identity === 'a' ? 'always' : row.identity === 'd' ? 'by_default' : 'none',
+          generated: row.generated === 's',
+        });
+      }
+    }
+    
+    return {
+      schema,
+      quotedSchema: namespace.rows[0].quoted,
+      tables: Array.from(tables.values()),
+      indexes: indexes.rows.map((row: any) => ({ name: row.name, table: row.table_name, definition: row.definition })),
+      constraints: constraints.map(constraint => ({
+        name: constraint.name,
+        table: constraint.table,
+        type: constraint.type,
+        definition: constraint.definition,
+      })),
+      views: views.rows.map((row: any) => ({ name: row.name, materialized: row.materialized, definition: row.definition })),
+      functions: functions.rows.map((row: any) => ({
+        name: row.name,
+        arguments: row.arguments,
+        kind: row.kind === 'p' ? 'procedure' : 'function',
+        definition: row.definition,
+      })),
+      enums: enums.rows.map((row: any) => ({ name: row.name, values: row.values })),
+    };
+  }
+  
+  // Compare two schemas, possibly of different connections. Nothing is run
+  // against either database besides catalog queries.
+  async diffSchemas(source: SchemaEndpoint, target: SchemaEndpoint): Promise<SchemaDiffResult> {
+    console.log(`Comparing schema ${source.schema} of connection ${source.connectionId} with ${target.schema} of connection ${target.connectionId}`);
+    
+    try {
+      const sourceConnection = await this.getConnection(source.connectionId);
+      const targetConnection = await this.getConnection(target.connectionId);
+      if (!sourceConnection || !targetConnection) {
+        throw new IdentifierError(`Connection with id ${sourceConnection ? target.connectionId : source.connectionId} not found`, 404);
+      }
+      
+      const diff = diffSchemas(
+        await this.fetchSchemaSnapshot(source.connectionId, source.schema),
+        await this.fetchSchemaSnapshot(target.connectionId, target.schema)
+      );
+      
+      return {
+        ...diff,
+        source: { ...source, connectionName: sourceConnection.name },
+        target: { ...target, connectionName: targetConnection.name },
+      };
+    } catch (error) {
+      console.error('Failed to compare schemas:', error);
+      throw error;
+    }
+  }
+  
+  // Catalog data needed to recreate a schema, or with relation (a qualified
+  // name) just that table or view and the sequences its serial columns own
+  private async loadSchemaDdl(connectionId: number, schema: string, relation: string | null): Promise<SchemaDdl> {
+    const ownedByExtension = (oid: string) =>
+      `EXISTS (SELECT 1 FROM pg_depend dep WHERE dep.objid = ${oid} AND dep.deptype = 'e')`;
+    // Privileges other than the owner's own, which come with ownership
+    const grants = (acl: string, owner: string) => `
+      (
+        SELECT json_agg(json_build_object(
+          'grantee', CASE WHEN x.grantee = 0 THEN NULL ELSE pg_get_userbyid(x.grantee) END,
+          'privilege', x.privilege_type,
+          'grantable', x.is_grantable
+        ) ORDER BY x.grantee, x.privilege_type)
+        FROM aclexplode(${acl}) x
+        WHERE x.grantee <> ${owner}
+      )`;
+    const toGrants = (value: any): DdlGrant[] => value || [];
+    
+    const namespace = await this.executeRawQuery(
+      connectionId,
+      `SELECT pg_get_userbyid(nspowner) AS owner, obj_description(oid, 'pg_namespace') AS comment FROM pg_namespace WHERE nspname = $1`,
+      [schema]
+    );
+    if (namespace.rows.length === 0) {
+      throw new IdentifierError(`Schema ${schema} does not exist`, 404);
+    }
+    
+    const relations = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        c.relname AS name,
+        c.relkind AS kind,
+        pg_get_userbyid(c.relowner) AS owner,
+        obj_description(c.oid, 'pg_class') AS comment,
+        ${grants('c.relacl', 'c.relowner')} AS grants,
+        COALESCE(c.reloptions, '{}') AS options,
+        pg_get_partkeydef(c.oid) AS partition_key,
+        (
+          SELECT quote_ident(pn.nspname) || '.' || quote_ident(pc.relname)
+          FROM pg_inherits inh
+          JOIN pg_class pc ON pc.oid = inh.inhparent
+          JOIN pg_namespace pn ON pn.oid = pc.relnamespace
+          WHERE inh.inhrelid = c.oid AND c.relispartition
+        ) AS partition_of,
+        pg_get_expr(c.relpartbound, c.oid) AS partition_bound,
+        CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid, true) END AS definition,
+        srv.srvname AS foreign_server,
+        COALESCE(ft.ftoptions, '{}') AS foreign_options
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_foreign_table ft ON ft.ftrelid = c.oid
+      LEFT JOIN pg_foreign_server srv ON srv.oid = ft.ftserver
+      WHERE n.nspname = $1 AND c.relkind IN ('r', 'p', 'f', 'v', 'm')
+      AND ($2::regclass IS NULL OR c.oid = $2::regclass)
+      AND NOT ${ownedByExtension('c.oid')}
+      ORDER BY c.oid
+      `,
+      [schema, relation]
+    );
+    
+    const columns = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        c.relname AS table_name,
+        a.attname AS name,
+        format_type(a.atttypid, a.atttypmod) AS type,
+        NOT a.attnotnull AS nullable,
+        pg_get_expr(d.adbin, d.adrelid) AS default_value,
+        a.attidentity AS identity,
+        a.attgenerated AS generated,
+        col_description(c.oid, a.attnum) AS comment
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+      LEFT JOIN pg_attrdef d ON d.adrelid = c.oid AND d.adnum = a.attnum
+      WHERE n.nspname = $1 AND c.relkind IN ('r', 'p', 'f', 'v', 'm')
+      AND ($2::regclass IS NULL OR c.oid = $2::regclass)
+      ORDER BY c.relname, a.attnum
+      `,
+      [schema, relation]
+    );
+    
+    // Constraints and indexes a partition inherits are created with it
+    const constraints = await this.queryConstraints(
+      connectionId,
+      `n.nspname = $1 AND ($2::regclass IS NULL OR c.conrelid = $2::regclass)
+      AND c.contype IN ('p', 'u', 'f', 'c', 'x') AND c.conislocal`,
+      [schema, relation]
+    );
+    
+    const indexes = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT r.relname AS table_name, pg_get_indexdef(i.indexrelid) AS definition
+      FROM pg_index i
+      JOIN pg_class ic ON ic.oid = i.indexrelid
+      JOIN pg_class r ON r.oid = i.indrelid
+      JOIN pg_namespace n ON n.oid = r.relnamespace
+      WHERE n.nspname = $1 AND ($2::regclass IS NULL OR r.oid = $2::regclass)
+      AND NOT EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = i.indexrelid AND con.conrelid = i.indrelid)
+      AND NOT EXISTS (SELECT 1 FROM pg_inherits inh WHERE inh.inhrelid = i.indexrelid)
+      ORDER BY ic.relname
+      `,
+      [schema, relation]
+    );
+    
+    // Identity columns manage their own sequences
+    const sequences = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        c.relname AS name,
+        format_type(s.seqtypid, NULL) AS data_type,
+        s.seqstart AS start,
+        s.seqincrement AS increment,
+        s.seqmin AS min,
+        s.seqmax AS max,
+        s.seqcache AS cache,
+        s.seqcycle AS cycle,
+        pg_get_userbyid(c.relowner) AS owner,
+        obj_description(c.oid, 'pg_class') AS comment,
+        ${grants('c.relacl', 'c.relowner')} AS grants,
+        (
+          SELECT quote_ident(tn.nspname) || '.' || quote_ident(t.relname) || '.' || quote_ident(a.attname)
+          FROM pg_depend dep
+          JOIN pg_class t ON t.oid = dep.refobjid
+          JOIN pg_namespace tn ON tn.oid = t.relnamespace
+          JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = dep.refobjsubid
+          WHERE dep.objid = c.oid AND dep.classid = 'pg_class'::regclass AND dep.deptype = 'a'
+        ) AS owned_by
+      FROM pg_sequence s
+      JOIN pg_class c ON c.oid = s.seqrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1
+      AND NOT EXISTS (SELECT 1 FROM pg_depend dep WHERE dep.objid = c.oid AND dep.deptype IN ('i', 'e'))
+      AND ($2::regclass IS NULL OR EXISTS (
+        SELECT 1 FROM pg_depend dep WHERE dep.objid = c.oid AND dep.refobjid = $2::regclass AND dep.deptype = 'a'
+      ))
+      ORDER BY c.relname
+      `,
+      [schema, relation]
+    );
+    
+    const columnsByTable = new Map<string, SchemaDdl['relations'][number]['columns']>();
+    for (const row of columns.rows) {
+      if (!columnsByTable.has(row.table_name)) columnsByTable.set(row.table_name, []);
+      columnsByTable.get(row.table_name)!.push({
+        name: row.name,
+        type: row.type,
+        nullable: row.nullable,
+        defaultValue: row.default_value,
+        identity: row.identity === 'a' ? 'always' : row.identity === 'd' ? 'by_default' : 'none',
+        generated: row.generated === 's',
+        comment: row.comment,
+      });
+    }
+    
+    const ddl: SchemaDdl = {
+      schema,
+      owner: relation ? null : namespace.rows[0].owner,
+      comment: relation ? null : namespace.rows[0].comment,
+      relations: relations.rows.map((row: any) => ({
+        name: row.name,
+        kind: row.kind,
+        owner: row.owner,
+        comment: row.comment,
+        grants: toGrants(row.grants),
+        columns: columnsByTable.get(row.name) ?? [],
+        options: row.options,
+        partitionKey: row.partition_key,
+        partitionOf: row.partition_of,
+        partitionBound: row.partition_bound,
+        definition: row.definition,
+        foreignServer: row.foreign_server,
+        foreignOptions: row.foreign_options,
+        constraints: constraints
+          .filter(constraint => constraint.table === row.name)
+          .map(({ name, type, definition }) => ({ name, type, definition })),
+        indexes: indexes.rows.filter((index: any) => index.table_name === row.name).map((index: any) => index.definition),
+      })),
+      sequences: sequences.rows.map((row: any) => ({
+        name: row.name,
+        dataType: row.data_type,
+        start: row.start,
+        increment: row.increment,
+        min: row.min,
+        max: row.max,
+        cache: row.cache,
+        cycle: row.cycle,
+        ownedBy: row.owned_by,
+        owner: row.owner,
+        comment: row.comment,
+        grants: toGrants(row.grants),
+      })),
+      enums: [],
+      domains: [],
+      functions: [],
+    };
+    
+    // Types and routines only belong in a whole-schema export
+    if (relation) {
+      return ddl;
+    }
+    
+    const enums = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        t.typname AS name,
+        pg_get_userbyid(t.typowner) AS owner,
+        obj_description(t.oid, 'pg_type') AS comment,
+        ${grants('t.typacl', 't.typowner')} AS grants,
+        (SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = t.oid) AS values
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE n.nspname = $1 AND t.typtype = 'e' AND NOT ${ownedByExtension('t.oid')}
+      ORDER BY t.typname
+      `,
+      [schema]
+    );
+    
+    const domains = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        t.typname AS name,
+        format_type(t.typbasetype, t.typtypmod) AS base_type,
+        t.typdefault AS default_value,
+        t.typnotnull AS not_null,
+        pg_get_userbyid(t.typowner) AS owner,
+        obj_description(t.oid, 'pg_type') AS comment,
+        ${grants('t.typacl', 't.typowner')} AS grants,
+        (
+          SELECT json_agg(json_build_object('name', con.conname, 'definition', pg_get_constraintdef(con.oid, true)) ORDER BY con.conname)
+          FROM pg_constraint con
+          WHERE con.contypid = t.oid AND con.contype = 'c'
+        ) AS constraints
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE n.nspname = $1 AND t.typtype = 'd' AND NOT ${ownedByExtension('t.oid')}
+      ORDER BY t.typname
+      `,
+      [schema]
+    );
+    
+    const functions = await this.executeRawQuery(
+      connectionId,
+      `
+      SELECT
+        p.proname AS name,
+        pg_get_function_identity_arguments(p.oid) AS arguments,
+        p.prokind AS kind,
+        l.lanname AS language,
+        pg_get_functiondef(p.oid) AS definition,
+        pg_get_userbyid(p.proowner) AS owner,
+        obj_description(p.oid, 'pg_proc') AS comment,
+        ${grants('p.proacl', 'p.proowner')} AS grants
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      JOIN pg_language l ON l.oid = p.prolang
+      WHERE n.nspname = $1 AND p.prokind IN ('f', 'p') AND NOT ${ownedByExtension('p.oid')}
+      ORDER BY p.proname, p.oid
+      `,
+      [schema]
+    );
+    
+    return {
+      ...ddl,
+      enums: enums.rows.map((row: any) => ({
+        name: row.name,
+        values: row.values || [],
+        owner: row.owner,
+        comment: row.comment,
+        grants: toGrants(row.grants),
+      })),
+      domains: domains.rows.map((row: any) => ({
+        name: row.name,
+        baseType: row.base_type,
+        defaultValue: row.default_value,
+        notNull: row.not_null,
+        constraints: row.constraints || [],
+        owner: row.owner,
+        comment: row.comment,
+        grants: toGrants(row.grants),
+      })),
+      functions: functions.rows.map((row: any) => ({
+        name: row.name,
+        arguments: row.arguments,
+        kind: row.kind === 'p' ? 'procedure' : 'function',
+        language: row.language,
+        definition: row.definition,
+        owner: row.owner,
+        comment: row.comment,
+        grants: toGrants(row.grants),
+      })),
+    };
+  }
+  
+  // CREATE statements for one table, view or materialized view, with its
+  // constraints, indexes, comments, owner and grants
+  async fetchObjectDdl(connectionId: number, tableName: string): Promise<{ sql: string }> {
+    console.log(`Fetching DDL of ${tableName}, connection id: ${connectionId}`);
+    
+    try {
+      const table = await this.resolveTable(connectionId, tableName);
+      const ddl = await this.loadSchemaDdl(connectionId, table.schema, table.qualifiedName);
+      return { sql: renderSchemaDdl(ddl) };
+    } catch (error) {
+      console.error(`Failed to fetch DDL of ${tableName}:`, error);
+      throw error;
+    }
+  }
+  
+  // A script recreating every object of a schema
+  async fetchSchemaDdl(connectionId: number, schema: string): Promise<string> {
+    console.log(`Exporting DDL of schema ${schema}, connection id: ${connectionId}`);
+    
+    try {
+      return renderSchemaDdl(await this.loadSchemaDdl(connectionId, schema, null));
+    } catch (error) {
+      console.error(`Failed to export DDL of schema ${schema}:`, error);
+      throw error;
+    }
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,147 @@
+import pg from 'pg';
+import type { DbConnection } from '@shared/schema';
+import { createPool } from '../db';
+import { Logger } from './migrations';
+
+// Pools that have not served a query for this long are closed
+const IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// date, timestamp and timestamptz (and their arrays) are returned as the
+// database's text so values round-trip through editors without time zone shifts
+const RAW_TEXT_TYPES = new Set([1082, 1114, 1184, 1182, 1115, 1185]);
+
+// Type parsers that leave the given types, or every type when none are given,
+// as the database's text and parse the rest as pg does
+export const rawTextTypes = (oids?: Set<number>) => ({
+  getTypeParser: ((oid: number, format?: 'text' | 'binary') => {
+    if (!oids || oids.has(oid)) {
+      return (value: string) => value;
+    }
+    return format === 'binary' ? pg.types.getTypeParser(oid, 'binary') : pg.types.getTypeParser(oid, 'text');
+  }) as typeof pg.types.getTypeParser,
+});
+
+const typeParsers = rawTextTypes(RAW_TEXT_TYPES);
+
+interface PoolEntry {
+  pool: pg.Pool;
+  fingerprint: string;
+  lastUsedAt: number;
+}
+
+// Credentials that, when changed, require a fresh pool
+const fingerprintOf = (connection: DbConnection): string => {
+  return JSON.stringify([
+    connection.host,
+    connection.port,
+    connection.database,
+    connection.username,
+    connection.password,
+  ]);
+};
+
+// Keeps one pg.Pool per saved connection so queries reach the database it points at
+export class ConnectionPoolRegistry {
+  private entries = new Map<number, PoolEntry>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  getPool(connection: DbConnection): pg.Pool {
+    const fingerprint = fingerprintOf(connection);
+    const existing = this.entries.get(connection.id);
+
+    if (existing && existing.fingerprint === fingerprint) {
+      existing.lastUsedAt = Date.now();
+      return existing.pool;
+    }
+
+    if (existing) {
+      // Credentials changed since the pool was built
+      Logger.info(`Connection ${connection.id} credentials changed, rebuilding pool`);
+      void this.closeEntry(connection.id, existing);
+    }
+
+    Logger.info(`Creating connection pool for connection ${connection.id} (${connection.host}:${connection.port}/${connection.database})`);
+    const pool = createPool({
+      host: connection.host,
+      port: parseInt(connection.port) || 5432,
+      database: connection.database,
+      user: connection.username,
+      password: connection.password,
+      types: typeParsers,
+    });
+
+    // An idle client losing its connection must not crash the server
+    pool.on('error', (error) => {
+      Logger.error(`Idle client error on pool for connection ${connection.id}:`, error);
+    });
+
+    this.entries.set(connection.id, { pool, fingerprint, lastUsedAt: Date.now() });
+    this.startSweeper();
+    return pool;
+  }
+
+  // Close the cached pool if it was built from different credentials
+  async invalidate(connection: DbConnection): Promise<void> {
+    const entry = this.entries.get(connection.id);
+    if (entry && entry.fingerprint !== fingerprintOf(connection)) {
+      Logger.info(`Connection ${connection.id} credentials changed, closing pool`);
+      await this.closeEntry(connection.id, entry);
+    }
+  }
+
+  async evict(connectionId: number): Promise<void> {
+    const entry = this.entries.get(connectionId);
+    if (entry) {
+      Logger.info(`Closing connection pool for connection ${connectionId}`);
+      await this.closeEntry(connectionId, entry);
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all(
+      Array.from(this.entries.entries()).map(([id, entry]) => this.closeEntry(id, entry))
+    );
+  }
+
+  private async closeEntry(connectionId: number, entry: PoolEntry): Promise<void> {
+    this.entries.delete(connectionId);
+    if (this.entries.size === 0) {
+      this.stopSweeper();
+    }
+
+    try {
+      await entry.pool.end();
+    } catch (error) {
+      Logger.error(`Failed to close pool for connection ${connectionId}:`, error);
+    }
+  }
+
+  private sweepIdle(): void {
+    const cutoff = Date.now() - IDLE_TIMEOUT_MS;
+
+    for (const [id, entry] of Array.from(this.entries.entries())) {
+      // Only evict pools with no checked-out clients
+      if (entry.lastUsedAt < cutoff && entry.pool.totalCount === entry.pool.idleCount) {
+        Logger.info(`Evicting idle connection pool for connection ${id}`);
+        void this.closeEntry(id, entry);
+      }
+    }
+  }
+
+  private startSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.sweepIdle(), SWEEP_INTERVAL_MS);
+    // Do not keep the process alive just to sweep pools
+    this.sweepTimer.unref();
+  }
+
+  private stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
+
+export const connectionPools = new ConnectionPoolRegistry();
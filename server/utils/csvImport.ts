@@ -0,0 +1,158 @@
+import type { ImportMode } from '@shared/csvImport';
+import { IdentifierError, quoteIdentifier } from './identifiers';
+
+// Value checks and INSERT statements for the CSV import. The checks catch what
+// is plainly wrong before anything is sent; whatever they let through is still
+// checked by the database when the rows load.
+
+// The parts of an information_schema column (see resolveTable) the import uses
+export interface ImportColumn {
+  column_name: string;
+  data_type: string;
+  is_nullable: string;
+  column_default: string | null;
+  is_identity: string;
+  identity_generation: string | null;
+  character_maximum_length: number | null;
+  numeric_precision: number | null;
+  numeric_scale: number | null;
+  enum_values: string[] | null;
+}
+
+// undefined loads the column default
+export type ImportValue = string | null | undefined;
+
+// Rows per INSERT; Postgres takes at most 65535 parameters per statement
+const CHUNK_ROWS = 500;
+const MAX_PARAMETERS = 65535;
+
+const integerRanges: Record<string, [bigint, bigint]> = {
+  smallint: [BigInt(-32768), BigInt(32767)],
+  integer: [BigInt(-2147483648), BigInt(2147483647)],
+  bigint: [BigInt('-9223372036854775808'), BigInt('9223372036854775807')],
+};
+
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const BOOLEAN = /^(t|f|true|false|y|n|yes|no|on|off|1|0)$/i;
+const UUID = /^\{?[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}\}?$/i;
+const SPECIAL_DATES = /^(infinity|-infinity|epoch|now|today|tomorrow|yesterday|allballs)$/i;
+
+// Why Postgres would refuse raw as a value of column, or null when it looks fine
+const checkValue = (column: ImportColumn, raw: string): string | null => {
+  const value = raw.trim();
+
+  if (column.enum_values && column.data_type === 'USER-DEFINED') {
+    return column.enum_values.includes(raw) ? null : `Not one of ${column.enum_values.join(', ')}`;
+  }
+
+  switch (column.data_type) {
+    case 'smallint':
+    case 'integer':
+    case 'bigint': {
+      if (!/^[+-]?\d+$/.test(value)) return `Not a whole number`;
+      const [min, max] = integerRanges[column.data_type];
+      const number = BigInt(value);
+      return number < min || number > max ? `Out of range for ${column.data_type}` : null;
+    }
+    case 'numeric': {
+      if (/^nan$/i.test(value)) return null;
+      if (!NUMBER.test(value)) return 'Not a number';
+      if (column.numeric_precision !== null && !/e/i.test(value)) {
+        const digits = value.replace(/^[+-]/, '').split('.')[0].replace(/^0+/, '').length;
+        if (digits > column.numeric_precision - (column.numeric_scale ?? 0)) {
+          return `Too many digits for numeric(${column.numeric_precision},${column.numeric_scale ?? 0})`;
+        }
+      }
+      return null;
+    }
+    case 'real':
+    case 'double precision':
+      return NUMBER.test(value) || /^([+-]?infinity|nan)$/i.test(value) ? null : 'Not a number';
+    case 'boolean':
+      return BOOLEAN.test(value) ? null : 'Not a boolean (true/false, yes/no, 1/0)';
+    case 'uuid':
+      return UUID.test(value) ? null : 'Not a UUID';
+    case 'json':
+    case 'jsonb':
+      try {
+        JSON.parse(raw);
+        return null;
+      } catch {
+        return 'Not valid JSON';
+      }
+    case 'date':
+    case 'timestamp without time zone':
+    case 'timestamp with time zone':
+      // Postgres reads many more formats than ISO, so only reject values with no date in them
+      return SPECIAL_DATES.test(value) || /\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/.test(value) || !isNaN(Date.parse(value))
+        ? null
+        : 'Not a date';
+    case 'character varying':
+    case 'character':
+      return column.character_maximum_length !== null && Array.from(raw).length > column.character_maximum_length
+        ? `Longer than ${column.character_maximum_length} characters`
+        : null;
+    case 'ARRAY':
+      return /^\{[\s\S]*\}$/.test(value) ? null : 'Not an array literal, e.g. {a,b}';
+    default:
+      return null;
+  }
+};
+
+const hasDefault = (column: ImportColumn) => column.column_default !== null || column.is_identity === 'YES';
+
+// The value to load for one cell, or why it cannot be loaded
+export const prepareImportValue = (
+  column: ImportColumn,
+  raw: string,
+  emptyAsNull: boolean
+): { value: ImportValue } | { error: string } => {
+  if (raw === '' && emptyAsNull) {
+    if (hasDefault(column)) return { value: undefined };
+    return column.is_nullable === 'NO' ? { error: 'A value is required' } : { value: null };
+  }
+  const error = checkValue(column, raw);
+  return error ? { error } : { value: raw };
+};
+
+export const importChunkSize = (columnCount: number): number => {
+  return Math.max(1, Math.min(CHUNK_ROWS, Math.floor(MAX_PARAMETERS / columnCount)));
+};
+
+// One multi-row INSERT. Upserts update every loaded column but the key, and
+// leave the row alone when only key columns are loaded.
+export const buildImportInsert = (
+  qualifiedName: string,
+  columns: ImportColumn[],
+  rows: ImportValue[][],
+  mode: ImportMode,
+  key: string[]
+): { text: string; values: (string | null)[] } => {
+  if (rows.length === 0) {
+    throw new IdentifierError('No rows to insert');
+  }
+
+  const values: (string | null)[] = [];
+  const tuples = rows.map(row => {
+    const cells = row.map(value => {
+      if (value === undefined) return 'DEFAULT';
+      values.push(value);
+      return `$${values.length}`;
+    });
+    return `(${cells.join(', ')})`;
+  });
+
+  // Explicit values for GENERATED ALWAYS identity columns must be forced
+  const overriding = columns.some(column => column.identity_generation === 'ALWAYS') ? ' OVERRIDING SYSTEM VALUE' : '';
+  let text = `INSERT INTO ${qualifiedName} (${columns.map(column => quoteIdentifier(column.column_name)).join(', ')})${overriding} VALUES ${tuples.join(', ')}`;
+
+  if (mode === 'upsert') {
+    const updates = columns
+      .filter(column => !key.includes(column.column_name))
+      .map(column => `${quoteIdentifier(column.column_name)} = EXCLUDED.${quoteIdentifier(column.column_name)}`);
+    const target = key.map(quoteIdentifier).join(', ');
+    text += updates.length > 0 ? ` ON CONFLICT (${target}) DO UPDATE SET ${updates.join(', ')}` : ` ON CONFLICT (${target}) DO NOTHING`;
+  }
+
+  return { text, values };
+};
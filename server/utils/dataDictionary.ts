@@ -0,0 +1,161 @@
+import { describeColumnConstraints, type DictionaryFormat } from '@shared/dictionary';
+
+export interface DictionaryColumn {
+  id: number;
+  name: string;
+  type: string;
+  nullable: boolean;
+  isPrimary: boolean;
+  isUnique: boolean;
+  defaultValue: string | null;
+  description: string | null;
+  // A few distinct values, only filled in for exports that ask for them
+  samples?: string[];
+}
+
+export interface DictionaryConstraint {
+  name: string;
+  type: string;
+  definition: string;
+  columns: string[];
+  referencedSchema: string | null;
+  referencedTable: string | null;
+}
+
+// A stored table with its columns and live constraints
+export interface DictionaryTable {
+  id: number;
+  schema: string;
+  name: string;
+  description: string | null;
+  columns: DictionaryColumn[];
+  constraints: DictionaryConstraint[];
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Table cells cannot hold pipes or line breaks as-is, and a stray < would
+// start an HTML tag
+const markdownCell = (value: string): string =>
+  value.replace(/</g, '&lt;').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+const anchor = (index: number) => `table-${index + 1}`;
+
+const hasSamples = (tables: DictionaryTable[]) =>
+  tables.some(table => table.columns.some(column => column.samples !== undefined));
+
+export const renderDictionaryMarkdown = (title: string, tables: DictionaryTable[], generatedAt: Date = new Date()): string => {
+  const withSamples = hasSamples(tables);
+  const lines: string[] = [
+    `# ${title} data dictionary`,
+    '',
+    `Generated ${generatedAt.toISOString()}`,
+    '',
+    '## Contents',
+    '',
+    ...tables.map((table, index) => `- [${table.schema}.${table.name}](#${anchor(index)})`),
+  ];
+
+  tables.forEach((table, index) => {
+    lines.push('', `<a id="${anchor(index)}"></a>`, '', `## ${table.schema}.${table.name}`, '');
+    if (table.description) {
+      lines.push(markdownCell(table.description), '');
+    }
+
+    const headings = ['Column', 'Type', 'Nullable', 'Default', 'Constraints', 'Description'];
+    if (withSamples) headings.push('Sample values');
+    lines.push(`| ${headings.join(' | ')} |`, `| ${headings.map(() => '---').join(' | ')} |`);
+
+    for (const column of table.columns) {
+      const cells = [
+        `**${markdownCell(column.name)}**`,
+        markdownCell(column.type),
+        column.nullable ? 'yes' : 'no',
+        markdownCell(column.defaultValue ?? ''),
+        markdownCell(describeColumnConstraints(table.constraints, column.name).join(', ')),
+        markdownCell(column.description ?? ''),
+      ];
+      if (withSamples) cells.push(markdownCell((column.samples ?? []).join(', ')));
+      lines.push(`| ${cells.join(' | ')} |`);
+    }
+
+    if (table.constraints.length > 0) {
+      lines.push('', '**Constraints**', '');
+      for (const constraint of table.constraints) {
+        lines.push(`- \`${constraint.name}\`: \`${constraint.definition}\``);
+      }
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+const htmlStyles = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #1f2937; max-width: 1100px; margin: 2rem auto; padding: 0 1rem; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0; font-size: 0.875rem; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.8rem; }
+  .muted { color: #6b7280; }
+`;
+
+export const renderDictionaryHtml = (title: string, tables: DictionaryTable[], generatedAt: Date = new Date()): string => {
+  const withSamples = hasSamples(tables);
+  const sections = tables.map((table, index) => {
+    const rows = table.columns.map(column => {
+      const cells = [
+        `<code>${escapeHtml(column.name)}</code>`,
+        escapeHtml(column.type),
+        column.nullable ? 'yes' : 'no',
+        column.defaultValue ? `<code>${escapeHtml(column.defaultValue)}</code>` : '',
+        escapeHtml(describeColumnConstraints(table.constraints, column.name).join(', ')),
+        escapeHtml(column.description ?? ''),
+      ];
+      if (withSamples) cells.push(escapeHtml((column.samples ?? []).join(', ')));
+      return `<tr>${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`;
+    });
+
+    const constraints = table.constraints.length > 0
+      ? `<h3>Constraints</h3><ul>${table.constraints
+          .map(constraint => `<li><code>${escapeHtml(constraint.name)}</code>: <code>${escapeHtml(constraint.definition)}</code></li>`)
+          .join('')}</ul>`
+      : '';
+
+    return `
+<section id="${anchor(index)}">
+  <h2>${escapeHtml(`${table.schema}.${table.name}`)}</h2>
+  ${table.description ? `<p>${escapeHtml(table.description)}</p>` : ''}
+  <table>
+    <thead><tr><th>Column</th><th>Type</th><th>Nullable</th><th>Default</th><th>Constraints</th><th>Description</th>${withSamples ? '<th>Sample values</th>' : ''}</tr></thead>
+    <tbody>${rows.join('')}</tbody>
+  </table>
+  ${constraints}
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} data dictionary</title>
+<style>${htmlStyles}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)} data dictionary</h1>
+<p class="muted">Generated ${generatedAt.toISOString()}</p>
+<h2>Contents</h2>
+<ul>${tables.map((table, index) => `<li><a href="#${anchor(index)}">${escapeHtml(`${table.schema}.${table.name}`)}</a></li>`).join('')}</ul>
+${sections.join('\n')}
+</body>
+</html>
+`;
+};
+
+export const renderDictionary = (format: DictionaryFormat, title: string, tables: DictionaryTable[]): string => {
+  return format === 'html' ? renderDictionaryHtml(title, tables) : renderDictionaryMarkdown(title, tables);
+};
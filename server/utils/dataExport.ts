@@ -0,0 +1,154 @@
+import type { ExportOptions } from '@shared/dataExport';
+import { quoteIdentifier, quoteQualifiedName, parseTableReference } from './identifiers';
+import { createXlsxWriter, type XlsxCellKind } from './xlsx';
+
+// Writers for table and query exports. Rows arrive in batches as Postgres's own
+// text output (see streamRows in storage), so values are exported exactly as
+// the database prints them; only the type decides how each one is written.
+
+// A result column: its name and the type OID Postgres reports for it
+export interface ExportField {
+  name: string;
+  dataTypeID: number;
+}
+
+export type ExportRow = (string | null)[];
+
+export interface ExportWriter {
+  contentType: string;
+  extension: string;
+  begin(): string | Buffer;
+  write(rows: ExportRow[]): string | Buffer;
+  end(): string | Buffer;
+}
+
+// Type OIDs from pg_type
+const BOOL_OID = 16;
+const NUMBER_OIDS = new Set([20, 21, 23, 26, 700, 701, 1700]);
+const JSON_OIDS = new Set([114, 3802]);
+
+const JSON_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+const kindOf = (field: ExportField): XlsxCellKind => {
+  if (field.dataTypeID === BOOL_OID) return 'boolean';
+  return NUMBER_OIDS.has(field.dataTypeID) ? 'number' : 'string';
+};
+
+// Duplicate column names, e.g. from a join, get a suffix so JSON keys stay distinct
+const uniqueNames = (fields: ExportField[]): string[] => {
+  const seen = new Set<string>();
+  return fields.map(field => {
+    let name = field.name;
+    for (let n = 2; seen.has(name); n++) name = `${field.name}_${n}`;
+    seen.add(name);
+    return name;
+  });
+};
+
+const csvWriter = (fields: ExportField[], options: ExportOptions): ExportWriter => {
+  const kinds = fields.map(kindOf);
+  const needsQuotes = new RegExp(`["\\r\\n${options.delimiter === '\t' ? '\\t' : `\\${options.delimiter}`}]`);
+
+  // NULL is always an empty, unquoted field
+  const formatField = (value: string | null, kind: XlsxCellKind | 'header') => {
+    if (value === null) return '';
+    const quote =
+      options.quoting === 'all' ||
+      (options.quoting === 'strings' && kind !== 'number' && kind !== 'boolean') ||
+      needsQuotes.test(value);
+    return quote ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  const formatLine = (values: (string | null)[], rowKinds: (XlsxCellKind | 'header')[]) =>
+    values.map((value, index) => formatField(value, rowKinds[index])).join(options.delimiter) + '\r\n';
+
+  return {
+    contentType: options.delimiter === '\t' ? 'text/tab-separated-values; charset=utf-8' : 'text/csv; charset=utf-8',
+    extension: options.delimiter === '\t' ? 'tsv' : 'csv',
+    begin: () => (options.header ? formatLine(fields.map(field => field.name), fields.map(() => 'header' as const)) : ''),
+    write: rows => rows.map(row => formatLine(row, kinds)).join(''),
+    end: () => '',
+  };
+};
+
+// Numbers and JSON values keep their text, which is already valid JSON
+const jsonValue = (field: ExportField, value: string | null): string => {
+  if (value === null) return 'null';
+  if (field.dataTypeID === BOOL_OID) return value === 't' ? 'true' : 'false';
+  if (NUMBER_OIDS.has(field.dataTypeID) && JSON_NUMBER.test(value)) return value;
+  if (JSON_OIDS.has(field.dataTypeID)) return value;
+  return JSON.stringify(value);
+};
+
+const jsonWriter = (fields: ExportField[], lines: boolean): ExportWriter => {
+  const keys = uniqueNames(fields).map(name => JSON.stringify(name));
+  const formatRow = (row: ExportRow) => `{${row.map((value, index) => `${keys[index]}:${jsonValue(fields[index], value)}`).join(',')}}`;
+  let first = true;
+
+  if (lines) {
+    return {
+      contentType: 'application/x-ndjson; charset=utf-8',
+      extension: 'ndjson',
+      begin: () => '',
+      write: rows => rows.map(row => `${formatRow(row)}\n`).join(''),
+      end: () => '',
+    };
+  }
+  return {
+    contentType: 'application/json; charset=utf-8',
+    extension: 'json',
+    begin: () => '[',
+    write: rows => rows.map(row => {
+      const separator = first ? '\n' : ',\n';
+      first = false;
+      return separator + formatRow(row);
+    }).join(''),
+    end: () => '\n]\n',
+  };
+};
+
+const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const sqlValue = (field: ExportField, value: string | null): string => {
+  if (value === null) return 'NULL';
+  if (field.dataTypeID === BOOL_OID) return value === 't' ? 'TRUE' : 'FALSE';
+  if (NUMBER_OIDS.has(field.dataTypeID) && JSON_NUMBER.test(value)) return value;
+  return literal(value);
+};
+
+const sqlWriter = (fields: ExportField[], target: string): ExportWriter => {
+  const prefix = `INSERT INTO ${quoteQualifiedName(parseTableReference(target))} (${fields.map(field => quoteIdentifier(field.name)).join(', ')}) VALUES `;
+  return {
+    contentType: 'application/sql; charset=utf-8',
+    extension: 'sql',
+    begin: () => '',
+    write: rows => rows.map(row => `${prefix}(${row.map((value, index) => sqlValue(fields[index], value)).join(', ')});\n`).join(''),
+    end: () => '',
+  };
+};
+
+const xlsxWriter = (fields: ExportField[], options: ExportOptions): ExportWriter => {
+  const workbook = createXlsxWriter(fields.map(kindOf), options.header ? fields.map(field => field.name) : null);
+  return {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+    begin: () => workbook.begin(),
+    write: rows => workbook.rows(rows),
+    end: () => workbook.end(),
+  };
+};
+
+// target names the table INSERT statements write to
+export const createExportWriter = (fields: ExportField[], options: ExportOptions, target: string): ExportWriter => {
+  switch (options.format) {
+    case 'csv':
+      return csvWriter(fields, options);
+    case 'json':
+      return jsonWriter(fields, false);
+    case 'ndjson':
+      return jsonWriter(fields, true);
+    case 'sql':
+      return sqlWriter(fields, target);
+    case 'xlsx':
+      return xlsxWriter(fields, options);
+  }
+};
@@ -0,0 +1,421 @@
+import type { TableDesign, ColumnDesign, AlterTableOperation } from '@shared/tableDesign';
+import type { IndexDesign } from '@shared/indexes';
+import type { ConstraintDesign } from '@shared/constraints';
+import type { AddEnumValueRequest, DomainDesign } from '@shared/dataTypes';
+import { IdentifierError, quoteIdentifier, quoteQualifiedName } from './identifiers';
+import { splitStatements } from './sqlSplitter';
+
+const quoteList = (names: string[]): string => names.map(quoteIdentifier).join(', ');
+
+// Postgres truncates identifiers to 63 bytes; keep generated names within that
+const constraintName = (table: string, columns: string[], suffix: string): string => {
+  return `${table}_${columns.join('_')}_${suffix}`.slice(0, 63);
+};
+
+const columnDefinition = (column: ColumnDesign, isPrimary: boolean): string => {
+  const parts = [quoteIdentifier(column.name), column.type.trim()];
+
+  if (column.identity !== 'none') {
+    parts.push(column.identity === 'always' ? 'GENERATED ALWAYS AS IDENTITY' : 'GENERATED BY DEFAULT AS IDENTITY');
+  } else if (column.defaultValue && column.defaultValue.trim()) {
+    parts.push(`DEFAULT ${column.defaultValue.trim()}`);
+  }
+
+  // Identity and primary key columns are implicitly NOT NULL
+  if (!column.nullable && column.identity === 'none' && !isPrimary) {
+    parts.push('NOT NULL');
+  }
+
+  return parts.join(' ');
+};
+
+// Defaults and USING clauses are free-form expressions; make sure they cannot
+// smuggle in another statement
+const assertSingleStatement = (sql: string): void => {
+  if (splitStatements(sql).length !== 1) {
+    throw new IdentifierError('Generated DDL must be a single statement');
+  }
+};
+
+// Check that a design is internally consistent before any SQL is generated
+const validateDesign = (design: TableDesign): void => {
+  const names = new Set<string>();
+  for (const column of design.columns) {
+    if (names.has(column.name)) {
+      throw new IdentifierError(`Column ${column.name} is defined more than once`);
+    }
+    names.add(column.name);
+    if (column.identity !== 'none' && column.defaultValue && column.defaultValue.trim()) {
+      throw new IdentifierError(`Column ${column.name} cannot have both a default and an identity`);
+    }
+  }
+
+  const assertColumns = (columns: string[], context: string) => {
+    for (const name of columns) {
+      if (!names.has(name)) {
+        throw new IdentifierError(`${context} refers to unknown column ${name}`);
+      }
+    }
+  };
+
+  assertColumns(design.primaryKey, 'Primary key');
+  design.uniqueConstraints.forEach(unique => assertColumns(unique.columns, 'Unique constraint'));
+  design.foreignKeys.forEach(foreignKey => {
+    assertColumns(foreignKey.columns, 'Foreign key');
+    if (foreignKey.columns.length !== foreignKey.referencedColumns.length) {
+      throw new IdentifierError('Foreign key must reference as many columns as it has');
+    }
+  });
+};
+
+// Build the CREATE TABLE statement for a design from the table designer
+export const buildCreateTable = (design: TableDesign): string => {
+  validateDesign(design);
+
+  const definitions = design.columns.map(column => columnDefinition(column, design.primaryKey.includes(column.name)));
+
+  if (design.primaryKey.length > 0) {
+    definitions.push(`CONSTRAINT ${quoteIdentifier(`${design.name}_pkey`.slice(0, 63))} PRIMARY KEY (${quoteList(design.primaryKey)})`);
+  }
+
+  design.uniqueConstraints.forEach(unique => {
+    const name = unique.name || constraintName(design.name, unique.columns, 'key');
+    definitions.push(`CONSTRAINT ${quoteIdentifier(name)} UNIQUE (${quoteList(unique.columns)})`);
+  });
+
+  design.foreignKeys.forEach(foreignKey => {
+    const name = foreignKey.name || constraintName(design.name, foreignKey.columns, 'fkey');
+    const referenced = quoteQualifiedName({ schema: foreignKey.referencedSchema, name: foreignKey.referencedTable });
+    definitions.push(
+      `CONSTRAINT ${quoteIdentifier(name)} FOREIGN KEY (${quoteList(foreignKey.columns)}) ` +
+      `REFERENCES ${referenced} (${quoteList(foreignKey.referencedColumns)}) ` +
+      `ON UPDATE ${foreignKey.onUpdate} ON DELETE ${foreignKey.onDelete}`
+    );
+  });
+
+  const sql = `CREATE TABLE ${quoteQualifiedName(design)} (\n  ${definitions.join(',\n  ')}\n);`;
+  assertSingleStatement(sql);
+  return sql;
+};
+
+export interface AlterTablePlan {
+  statements: string[];
+  // Name of the table once all operations ran
+  tableName: string;
+  dropped: boolean;
+}
+
+// Build the statements for a list of Structure tab operations. Names are
+// tracked as they change so later operations see earlier renames.
+export const buildAlterTable = (
+  table: { schema: string; name: string },
+  columnNames: string[],
+  operations: AlterTableOperation[]
+): AlterTablePlan => {
+  const columns = new Set(columnNames);
+  let name = table.name;
+  let dropped = false;
+  const statements: string[] = [];
+
+  const assertColumn = (column: string) => {
+    if (!columns.has(column)) {
+      throw new IdentifierError(`Column ${column} does not exist in ${table.schema}.${name}`);
+    }
+  };
+
+  for (const operation of operations) {
+    if (dropped) {
+      throw new IdentifierError('No changes can follow dropping the table');
+    }
+
+    const target = `ALTER TABLE ${quoteQualifiedName({ schema: table.schema, name })}`;
+    let sql: string;
+
+    switch (operation.action) {
+      case 'add_column':
+        if (columns.has(operation.column.name)) {
+          throw new IdentifierError(`Column ${operation.column.name} already exists`);
+        }
+        if (operation.column.identity !== 'none' && operation.column.defaultValue && operation.column.defaultValue.trim()) {
+          throw new IdentifierError(`Column ${operation.column.name} cannot have both a default and an identity`);
+        }
+        sql = `${target} ADD COLUMN ${columnDefinition(operation.column, false)};`;
+        columns.add(operation.column.name);
+        break;
+      case 'rename_column':
+        assertColumn(operation.column);
+        if (columns.has(operation.newName)) {
+          throw new IdentifierError(`Column ${operation.newName} already exists`);
+        }
+        sql = `${target} RENAME COLUMN ${quoteIdentifier(operation.column)} TO ${quoteIdentifier(operation.newName)};`;
+        columns.delete(operation.column);
+        columns.add(operation.newName);
+        break;
+      case 'drop_column':
+        assertColumn(operation.column);
+        sql = `${target} DROP COLUMN ${quoteIdentifier(operation.column)}${operation.cascade ? ' CASCADE' : ''};`;
+        columns.delete(operation.column);
+        break;
+      case 'alter_column_type': {
+        assertColumn(operation.column);
+        const using = operation.using && operation.using.trim() ? ` USING ${operation.using.trim()}` : '';
+        sql = `${target} ALTER COLUMN ${quoteIdentifier(operation.column)} TYPE ${operation.type.trim()}${using};`;
+        break;
+      }
+      case 'set_not_null':
+        assertColumn(operation.column);
+        sql = `${target} ALTER COLUMN ${quoteIdentifier(operation.column)} ${operation.notNull ? 'SET' : 'DROP'} NOT NULL;`;
+        break;
+      case 'set_default':
+        assertColumn(operation.column);
+        sql = operation.defaultValue !== null && operation.defaultValue.trim()
+          ? `${target} ALTER COLUMN ${quoteIdentifier(operation.column)} SET DEFAULT ${operation.defaultValue.trim()};`
+          : `${target} ALTER COLUMN ${quoteIdentifier(operation.column)} DROP DEFAULT;`;
+        break;
+      case 'rename_table':
+        sql = `${target} RENAME TO ${quoteIdentifier(operation.newName)};`;
+        name = operation.newName;
+        break;
+      case 'drop_table':
+        sql = `DROP TABLE ${quoteQualifiedName({ schema: table.schema, name })}${operation.cascade ? ' CASCADE' : ''};`;
+        dropped = true;
+        break;
+    }
+
+    assertSingleStatement(sql);
+    statements.push(sql);
+  }
+
+  return { statements, tableName: name, dropped };
+};
+
+// Build the CREATE INDEX statement for a design from the Indexes panel
+export const buildCreateIndex = (
+  table: { schema: string; name: string },
+  columnNames: string[],
+  index: IndexDesign
+): string => {
+  const known = new Set(columnNames);
+  for (const column of index.columns) {
+    if (!known.has(column)) {
+      throw new IdentifierError(`Column ${column} does not exist in ${table.schema}.${table.name}`);
+    }
+  }
+  if (index.unique && index.method !== 'btree') {
+    throw new IdentifierError('Only B-tree indexes can be unique');
+  }
+
+  const name = index.name && index.name.trim() ? index.name.trim() : constraintName(table.name, index.columns, 'idx');
+  const where = index.where && index.where.trim() ? ` WHERE ${index.where.trim()}` : '';
+  const sql =
+    `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${index.concurrently ? 'CONCURRENTLY ' : ''}${quoteIdentifier(name)} ` +
+    `ON ${quoteQualifiedName(table)} USING ${index.method} (${quoteList(index.columns)})${where};`;
+
+  assertSingleStatement(sql);
+  return sql;
+};
+
+export const buildReindex = (index: { schema: string; name: string }, concurrently: boolean): string => {
+  return `REINDEX INDEX ${concurrently ? 'CONCURRENTLY ' : ''}${quoteQualifiedName(index)};`;
+};
+
+export const buildDropIndex = (index: { schema: string; name: string }, concurrently: boolean, cascade: boolean): string => {
+  if (concurrently && cascade) {
+    throw new IdentifierError('DROP INDEX CONCURRENTLY does not support CASCADE');
+  }
+  return `DROP INDEX ${concurrently ? 'CONCURRENTLY ' : ''}${quoteQualifiedName(index)}${cascade ? ' CASCADE' : ''};`;
+};
+
+const constraintColumns = (constraint: ConstraintDesign): string[] => {
+  switch (constraint.type) {
+    case 'check': return [];
+    case 'exclude': return constraint.elements.map(element => element.column);
+    default: return constraint.columns;
+  }
+};
+
+const deferrableClause = (constraint: { deferrable: boolean; initiallyDeferred: boolean }): string => {
+  if (!constraint.deferrable) return '';
+  return constraint.initiallyDeferred ? ' DEFERRABLE INITIALLY DEFERRED' : ' DEFERRABLE INITIALLY IMMEDIATE';
+};
+
+// Build the ADD CONSTRAINT statement for a design from the Constraints panel
+export const buildAddConstraint = (
+  table: { schema: string; name: string },
+  columnNames: string[],
+  constraint: ConstraintDesign
+): string => {
+  const known = new Set(columnNames);
+  for (const column of constraintColumns(constraint)) {
+    if (!known.has(column)) {
+      throw new IdentifierError(`Column ${column} does not exist in ${table.schema}.${table.name}`);
+    }
+  }
+
+  // Default names follow the ones Postgres picks itself
+  const suffixes = { check: 'check', unique: 'key', foreign_key: 'fkey', exclude: 'excl' };
+  const name = constraint.name && constraint.name.trim()
+    ? constraint.name.trim()
+    : constraint.type === 'check'
+      ? `${table.name}_check`.slice(0, 63)
+      : constraintName(table.name, constraintColumns(constraint), suffixes[constraint.type]);
+
+  let body: string;
+  switch (constraint.type) {
+    case 'check':
+      body = `CHECK (${constraint.expression.trim()})${constraint.notValid ? ' NOT VALID' : ''}`;
+      break;
+    case 'unique':
+      body = `UNIQUE (${quoteList(constraint.columns)})${deferrableClause(constraint)}`;
+      break;
+    case 'foreign_key': {
+      if (constraint.columns.length !== constraint.referencedColumns.length) {
+        throw new IdentifierError('Foreign key must reference as many columns as it has');
+      }
+      const referenced = quoteQualifiedName({ schema: constraint.referencedSchema, name: constraint.referencedTable });
+      body =
+        `FOREIGN KEY (${quoteList(constraint.columns)}) REFERENCES ${referenced} (${quoteList(constraint.referencedColumns)}) ` +
+        `ON UPDATE ${constraint.onUpdate} ON DELETE ${constraint.onDelete}${deferrableClause(constraint)}` +
+        `${constraint.notValid ? ' NOT VALID' : ''}`;
+      break;
+    }
+    case 'exclude': {
+      const elements = constraint.elements.map(element => `${quoteIdentifier(element.column)} WITH ${element.operator}`);
+      const where = constraint.where && constraint.where.trim() ? ` WHERE (${constraint.where.trim()})` : '';
+      body = `EXCLUDE USING ${constraint.method} (${elements.join(', ')})${where}${deferrableClause(constraint)}`;
+      break;
+    }
+  }
+
+  const sql = `ALTER TABLE ${quoteQualifiedName(table)} ADD CONSTRAINT ${quoteIdentifier(name)} ${body};`;
+  assertSingleStatement(sql);
+  return sql;
+};
+
+// Count the existing rows that would make adding the constraint fail. NULLs
+// never violate CHECK, UNIQUE or (MATCH SIMPLE) foreign keys.
+export const buildViolationCount = (table: { schema: string; name: string }, constraint: ConstraintDesign): string => {
+  const target = quoteQualifiedName(table);
+  const notNull = (alias: string, columns: string[]) =>
+    columns.map(column => `${alias}.${quoteIdentifier(column)} IS NOT NULL`).join(' AND ');
+  let sql: string;
+
+  switch (constraint.type) {
+    case 'check':
+      sql = `SELECT count(*)::float8 AS violations FROM ${target} WHERE NOT (${constraint.expression.trim()})`;
+      break;
+    case 'unique':
+      sql =
+        `SELECT COALESCE(sum(n), 0)::float8 AS violations FROM (` +
+        `SELECT count(*) AS n FROM ${target} t WHERE ${notNull('t', constraint.columns)} ` +
+        `GROUP BY ${constraint.columns.map(column => `t.${quoteIdentifier(column)}`).join(', ')} HAVING count(*) > 1) duplicates`;
+      break;
+    case 'foreign_key': {
+      const referenced = quoteQualifiedName({ schema: constraint.referencedSchema, name: constraint.referencedTable });
+      const matches = constraint.columns
+        .map((column, index) => `r.${quoteIdentifier(constraint.referencedColumns[index])} = t.${quoteIdentifier(column)}`)
+        .join(' AND ');
+      sql =
+        `SELECT count(*)::float8 AS violations FROM ${target} t WHERE ${notNull('t', constraint.columns)} ` +
+        `AND NOT EXISTS (SELECT 1 FROM ${referenced} r WHERE ${matches})`;
+      break;
+    }
+    case 'exclude': {
+      const conflicts = constraint.elements
+        .map(element => `a.${quoteIdentifier(element.column)} ${element.operator} b.${quoteIdentifier(element.column)}`)
+        .join(' AND ');
+      // Unqualified columns in the predicate bind to the innermost table, so
+      // it filters a outside the subquery and b inside it
+      const predicate = constraint.where && constraint.where.trim() ? `(${constraint.where.trim()})` : 'TRUE';
+      sql =
+        `SELECT count(*)::float8 AS violations FROM ${target} a WHERE ${predicate} AND EXISTS (` +
+        `SELECT 1 FROM ${target} b WHERE (a.tableoid, a.ctid) <> (b.tableoid, b.ctid) AND ${conflicts} AND ${predicate})`;
+      break;
+    }
+  }
+
+  assertSingleStatement(sql);
+  return sql;
+};
+
+export const buildValidateConstraint = (table: { schema: string; name: string }, name: string): string => {
+  return `ALTER TABLE ${quoteQualifiedName(table)} VALIDATE CONSTRAINT ${quoteIdentifier(name)};`;
+};
+
+export const buildDropConstraint = (table: { schema: string; name: string }, name: string, cascade: boolean): string => {
+  return `ALTER TABLE ${quoteQualifiedName(table)} DROP CONSTRAINT ${quoteIdentifier(name)}${cascade ? ' CASCADE' : ''};`;
+};
+
+// CREATE OR REPLACE VIEW resets options left out of its WITH clause, so the
+// view's current ones (e.g. security_barrier=true) are passed back in
+export const buildReplaceView = (view: { schema: string; name: string }, definition: string, options: string[]): string => {
+  const query = definition.trim().replace(/;\s*$/, '');
+  const withOptions = options.length > 0 ? ` WITH (${options.join(', ')})` : '';
+  const sql = `CREATE OR REPLACE VIEW ${quoteQualifiedName(view)}${withOptions} AS\n${query};`;
+
+  assertSingleStatement(sql);
+  return sql;
+};
+
+export const buildRefreshMaterializedView = (view: { schema: string; name: string }, concurrently: boolean): string => {
+  return `REFRESH MATERIALIZED VIEW ${concurrently ? 'CONCURRENTLY ' : ''}${quoteQualifiedName(view)};`;
+};
+
+export const buildDropView = (view: { schema: string; name: string }, materialized: boolean, cascade: boolean): string => {
+  return `DROP ${materialized ? 'MATERIALIZED VIEW' : 'VIEW'} ${quoteQualifiedName(view)}${cascade ? ' CASCADE' : ''};`;
+};
+
+export const buildSetTriggerEnabled = (table: { schema: string; name: string }, trigger: string, enabled: boolean): string => {
+  return `ALTER TABLE ${quoteQualifiedName(table)} ${enabled ? 'ENABLE' : 'DISABLE'} TRIGGER ${quoteIdentifier(trigger)};`;
+};
+
+const quoteLabel = (label: string): string => `'${label.replace(/'/g, "''")}'`;
+
+// ADD VALUE cannot run inside a transaction block before Postgres 12
+export const buildAddEnumValue = (type: { schema: string; name: string }, request: AddEnumValueRequest): string => {
+  const position = request.before
+    ? ` BEFORE ${quoteLabel(request.before)}`
+    : request.after ? ` AFTER ${quoteLabel(request.after)}` : '';
+  return `ALTER TYPE ${quoteQualifiedName(type)} ADD VALUE ${quoteLabel(request.value)}${position};`;
+};
+
+export const buildRenameEnumValue = (type: { schema: string; name: string }, label: string, newLabel: string): string => {
+  return `ALTER TYPE ${quoteQualifiedName(type)} RENAME VALUE ${quoteLabel(label)} TO ${quoteLabel(newLabel)};`;
+};
+
+export const buildCreateDomain = (domain: DomainDesign): string => {
+  const clauses = [
+    ...(domain.defaultValue && domain.defaultValue.trim() ? [`DEFAULT ${domain.defaultValue.trim()}`] : []),
+    ...(domain.notNull ? ['NOT NULL'] : []),
+    ...(domain.check && domain.check.trim() ? [`CHECK (${domain.check.trim()})`] : []),
+  ];
+  const sql = `CREATE DOMAIN ${quoteQualifiedName(domain)} AS ${domain.baseType.trim()}${clauses.map(clause => `\n  ${clause}`).join('')};`;
+
+  assertSingleStatement(sql);
+  return sql;
+};
+
+// COMMENT ON needs the object type; views and the like reject COMMENT ON TABLE
+const commentTargets: Record<string, string> = {
+  r: 'TABLE',
+  p: 'TABLE',
+  v: 'VIEW',
+  m: 'MATERIALIZED VIEW',
+  f: 'FOREIGN TABLE',
+};
+
+// A null comment removes it
+const commentLiteral = (value: string | null): string => (value === null ? 'NULL' : `'${value.replace(/'/g, "''")}'`);
+
+// kind is the relation's pg_class.relkind
+export const buildTableComment = (table: { schema: string; name: string }, kind: string, comment: string | null): string => {
+  const target = commentTargets[kind];
+  if (!target) {
+    throw new IdentifierError(`Cannot comment on ${table.schema}.${table.name}`);
+  }
+  return `COMMENT ON ${target} ${quoteQualifiedName(table)} IS ${commentLiteral(comment)};`;
+};
+
+export const buildColumnComment = (table: { schema: string; name: string }, column: string, comment: string | null): string => {
+  return `COMMENT ON COLUMN ${quoteQualifiedName(table)}.${quoteIdentifier(column)} IS ${commentLiteral(comment)};`;
+};
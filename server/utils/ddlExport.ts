@@ -0,0 +1,275 @@
+import { quoteIdentifier, quoteQualifiedName } from './identifiers';
+import { columnDefinition, type SnapshotColumn } from './schemaDiff';
+
+// Reconstructs CREATE statements from catalog data (DDL tab and schema .sql
+// export). Statements are emitted in phases so a whole schema replays in
+// order: types before the tables using them, SQL functions after the tables
+// and views they read, foreign keys after every table, ownership and grants
+// last.
+
+// One privilege from aclexplode; grantee null stands for PUBLIC
+export interface DdlGrant {
+  grantee: string | null;
+  privilege: string;
+  grantable: boolean;
+}
+
+interface OwnedObject {
+  name: string;
+  owner: string;
+  comment: string | null;
+  grants: DdlGrant[];
+}
+
+export interface DdlColumn extends SnapshotColumn {
+  comment: string | null;
+}
+
+// A table, view, materialized view or foreign table (pg_class.relkind)
+export interface DdlRelation extends OwnedObject {
+  kind: 'r' | 'p' | 'f' | 'v' | 'm';
+  columns: DdlColumn[];
+  // Storage parameters such as fillfactor=70
+  options: string[];
+  partitionKey: string | null;
+  // Qualified parent and FOR VALUES clause of a partition
+  partitionOf: string | null;
+  partitionBound: string | null;
+  definition: string | null;
+  foreignServer: string | null;
+  foreignOptions: string[];
+  constraints: { name: string; type: string; definition: string }[];
+  indexes: string[];
+}
+
+export interface DdlSequence extends OwnedObject {
+  dataType: string;
+  start: string;
+  increment: string;
+  min: string;
+  max: string;
+  cache: string;
+  cycle: boolean;
+  // Qualified table.column of a serial column
+  ownedBy: string | null;
+}
+
+export interface DdlEnum extends OwnedObject {
+  values: string[];
+}
+
+export interface DdlDomain extends OwnedObject {
+  baseType: string;
+  defaultValue: string | null;
+  notNull: boolean;
+  constraints: { name: string; definition: string }[];
+}
+
+export interface DdlFunction extends OwnedObject {
+  arguments: string;
+  kind: 'function' | 'procedure';
+  // pg_language name, e.g. sql or plpgsql
+  language: string;
+  definition: string;
+}
+
+// Objects of one schema; the schema's own owner and comment are only set when
+// the whole schema is exported
+export interface SchemaDdl {
+  schema: string;
+  owner: string | null;
+  comment: string | null;
+  relations: DdlRelation[];
+  sequences: DdlSequence[];
+  enums: DdlEnum[];
+  domains: DdlDomain[];
+  functions: DdlFunction[];
+}
+
+const phases = {
+  schema: 0,
+  types: 1,
+  sequences: 2,
+  functions: 3,
+  tables: 4,
+  views: 5,
+  sqlFunctions: 6,
+  constraints: 7,
+  foreignKeys: 8,
+  indexes: 9,
+  sequenceOwnership: 10,
+  comments: 11,
+  owners: 12,
+  grants: 13,
+};
+
+interface Step {
+  phase: number;
+  sql: string;
+}
+
+const relationKeywords: Record<DdlRelation['kind'], string> = {
+  r: 'TABLE',
+  p: 'TABLE',
+  f: 'FOREIGN TABLE',
+  v: 'VIEW',
+  m: 'MATERIALIZED VIEW',
+};
+
+const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const withoutSemicolon = (definition: string) => definition.trim().replace(/;$/, '');
+
+// key=value option strings as written in OPTIONS (...)
+const optionList = (options: string[]) =>
+  options.map(option => {
+    const separator = option.indexOf('=');
+    return `${quoteIdentifier(option.slice(0, separator))} ${literal(option.slice(separator + 1))}`;
+  }).join(', ');
+
+const commentStep = (target: string, comment: string | null): Step[] =>
+  comment === null ? [] : [{ phase: phases.comments, sql: `COMMENT ON ${target} IS ${literal(comment)};` }];
+
+const ownerStep = (alter: string, owner: string): Step => ({
+  phase: phases.owners,
+  sql: `ALTER ${alter} OWNER TO ${quoteIdentifier(owner)};`,
+});
+
+// One GRANT per grantee, with grant options split out
+const grantSteps = (target: string, grants: DdlGrant[]): Step[] => {
+  const grouped = new Map<string, { grantee: string | null; grantable: boolean; privileges: string[] }>();
+  for (const grant of grants) {
+    const key = `${grant.grantee ?? ''}\u0000${grant.grantable}`;
+    if (!grouped.has(key)) grouped.set(key, { grantee: grant.grantee, grantable: grant.grantable, privileges: [] });
+    grouped.get(key)!.privileges.push(grant.privilege);
+  }
+  return Array.from(grouped.values()).map(({ grantee, grantable, privileges }) => ({
+    phase: phases.grants,
+    sql: `GRANT ${privileges.join(', ')} ON ${target} TO ${grantee === null ? 'PUBLIC' : quoteIdentifier(grantee)}${grantable ? ' WITH GRANT OPTION' : ''};`,
+  }));
+};
+
+const relationSteps = (schema: string, relation: DdlRelation): Step[] => {
+  const name = quoteQualifiedName({ schema, name: relation.name });
+  const keyword = relationKeywords[relation.kind];
+  const withOptions = relation.options.length > 0 ? ` WITH (${relation.options.join(', ')})` : '';
+  const steps: Step[] = [];
+
+  const partition = relation.partitionKey ? ` PARTITION BY ${relation.partitionKey}` : '';
+  if (relation.kind === 'v' || relation.kind === 'm') {
+    steps.push({
+      phase: phases.views,
+      sql: `CREATE ${keyword} ${name}${withOptions} AS\n${withoutSemicolon(relation.definition ?? '')};`,
+    });
+  } else if (relation.partitionOf) {
+    steps.push({ phase: phases.tables, sql: `CREATE TABLE ${name} PARTITION OF ${relation.partitionOf}\n  ${relation.partitionBound}${partition};` });
+  } else {
+    const server = relation.kind === 'f' && relation.foreignServer
+      ? `\nSERVER ${quoteIdentifier(relation.foreignServer)}${relation.foreignOptions.length > 0 ? `\nOPTIONS (${optionList(relation.foreignOptions)})` : ''}`
+      : '';
+    const columns = relation.columns.map(columnDefinition);
+    steps.push({
+      phase: phases.tables,
+      sql: `CREATE ${keyword} ${name} (\n${columns.map(column => `  ${column}`).join(',\n')}\n)${partition}${withOptions}${server};`,
+    });
+  }
+
+  for (const constraint of relation.constraints) {
+    steps.push({
+      phase: constraint.type === 'foreign_key' ? phases.foreignKeys : phases.constraints,
+      sql: `ALTER TABLE ${name} ADD CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition};`,
+    });
+  }
+  for (const index of relation.indexes) {
+    steps.push({ phase: phases.indexes, sql: `${withoutSemicolon(index)};` });
+  }
+
+  steps.push(...commentStep(`${keyword} ${name}`, relation.comment));
+  for (const column of relation.columns) {
+    steps.push(...commentStep(`COLUMN ${name}.${quoteIdentifier(column.name)}`, column.comment));
+  }
+  steps.push(ownerStep(`${keyword} ${name}`, relation.owner));
+  steps.push(...grantSteps(`TABLE ${name}`, relation.grants));
+  return steps;
+};
+
+const sequenceSteps = (schema: string, sequence: DdlSequence): Step[] => {
+  const name = quoteQualifiedName({ schema, name: sequence.name });
+  const steps: Step[] = [{
+    phase: phases.sequences,
+    sql:
+      `CREATE SEQUENCE ${name}\n  AS ${sequence.dataType}\n  START WITH ${sequence.start}\n  INCREMENT BY ${sequence.increment}\n` +
+      `  MINVALUE ${sequence.min}\n  MAXVALUE ${sequence.max}\n  CACHE ${sequence.cache}${sequence.cycle ? '\n  CYCLE' : ''};`,
+  }];
+  // Ownership ties the sequence to its serial column, which exists only later
+  if (sequence.ownedBy) {
+    steps.push({ phase: phases.sequenceOwnership, sql: `ALTER SEQUENCE ${name} OWNED BY ${sequence.ownedBy};` });
+  }
+  steps.push(...commentStep(`SEQUENCE ${name}`, sequence.comment));
+  steps.push(ownerStep(`SEQUENCE ${name}`, sequence.owner));
+  steps.push(...grantSteps(`SEQUENCE ${name}`, sequence.grants));
+  return steps;
+};
+
+const enumSteps = (schema: string, type: DdlEnum): Step[] => {
+  const name = quoteQualifiedName({ schema, name: type.name });
+  return [
+    { phase: phases.types, sql: `CREATE TYPE ${name} AS ENUM (${type.values.map(literal).join(', ')});` },
+    ...commentStep(`TYPE ${name}`, type.comment),
+    ownerStep(`TYPE ${name}`, type.owner),
+    ...grantSteps(`TYPE ${name}`, type.grants),
+  ];
+};
+
+const domainSteps = (schema: string, domain: DdlDomain): Step[] => {
+  const name = quoteQualifiedName({ schema, name: domain.name });
+  const clauses = [
+    ...(domain.defaultValue !== null ? [`DEFAULT ${domain.defaultValue}`] : []),
+    ...(domain.notNull ? ['NOT NULL'] : []),
+    ...domain.constraints.map(constraint => `CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition}`),
+  ];
+  return [
+    { phase: phases.types, sql: `CREATE DOMAIN ${name} AS ${domain.baseType}${clauses.map(clause => `\n  ${clause}`).join('')};` },
+    ...commentStep(`DOMAIN ${name}`, domain.comment),
+    ownerStep(`DOMAIN ${name}`, domain.owner),
+    ...grantSteps(`DOMAIN ${name}`, domain.grants),
+  ];
+};
+
+const functionSteps = (schema: string, fn: DdlFunction): Step[] => {
+  const signature = `${fn.kind.toUpperCase()} ${quoteQualifiedName({ schema, name: fn.name })}(${fn.arguments})`;
+  return [
+    // With check_function_bodies on, a SQL function fails to create before the tables it reads
+    { phase: fn.language === 'sql' ? phases.sqlFunctions : phases.functions, sql: `${withoutSemicolon(fn.definition)};` },
+    ...commentStep(signature, fn.comment),
+    ownerStep(signature, fn.owner),
+    ...grantSteps(signature, fn.grants),
+  ];
+};
+
+// Statements for everything in ddl, in replay order. Objects keep their
+// catalog order within a phase, which for views is creation order.
+export const renderSchemaDdl = (ddl: SchemaDdl, generatedAt: Date = new Date()): string => {
+  const schema = ddl.schema;
+  const steps: Step[] = [];
+
+  if (ddl.owner !== null) {
+    steps.push({
+      phase: phases.schema,
+      sql: `CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(schema)} AUTHORIZATION ${quoteIdentifier(ddl.owner)};`,
+    });
+    steps.push(...commentStep(`SCHEMA ${quoteIdentifier(schema)}`, ddl.comment));
+  }
+  ddl.enums.forEach(type => steps.push(...enumSteps(schema, type)));
+  ddl.domains.forEach(domain => steps.push(...domainSteps(schema, domain)));
+  ddl.sequences.forEach(sequence => steps.push(...sequenceSteps(schema, sequence)));
+  ddl.functions.forEach(fn => steps.push(...functionSteps(schema, fn)));
+  ddl.relations.forEach(relation => steps.push(...relationSteps(schema, relation)));
+
+  const ordered = steps
+    .map((step, index) => ({ ...step, index }))
+    .sort((a, b) => a.phase - b.phase || a.index - b.index);
+
+  const header = ddl.owner !== null ? `-- Schema ${schema}\n-- Generated ${generatedAt.toISOString()}\n\n` : '';
+  return `${header}${ordered.map(step => step.sql).join('\n\n')}\n`;
+};
@@ -0,0 +1,92 @@
+// Raised when a table or column name from a request is malformed or does not
+// exist in the target database; status is the HTTP code routes should return
+export class IdentifierError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'IdentifierError';
+    this.status = status;
+  }
+}
+
+export interface TableReference {
+  schema: string;
+  name: string;
+}
+
+// Quote an identifier for interpolation into SQL, doubling embedded quotes
+export const quoteIdentifier = (name: string): string => {
+  if (name.length === 0 || name.includes('\u0000')) {
+    throw new IdentifierError('Invalid identifier');
+  }
+  return `"${name.replace(/"/g, '""')}"`;
+};
+
+// Quote a schema-qualified name, e.g. "public"."Users"
+export const quoteQualifiedName = (reference: TableReference): string => {
+  return `${quoteIdentifier(reference.schema)}.${quoteIdentifier(reference.name)}`;
+};
+
+// Parse "table", "schema.table" or their double-quoted forms such as
+// "My Schema"."odd.name" into parts. Unquoted parts are taken verbatim
+// (not case-folded) because they come from catalog listings, not typed SQL.
+export const parseTableReference = (reference: string, defaultSchema: string = 'public'): TableReference => {
+  const parts: string[] = [];
+  let i = 0;
+
+  while (i < reference.length) {
+    let part = '';
+
+    if (reference[i] === '"') {
+      i++;
+      while (i < reference.length) {
+        if (reference[i] === '"') {
+          if (reference[i + 1] === '"') {
+            part += '"';
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        part += reference[i++];
+      }
+      if (reference[i] !== '"') {
+        throw new IdentifierError(`Unterminated quoted identifier in "${reference}"`);
+      }
+      i++;
+    } else {
+      while (i < reference.length && reference[i] !== '.') {
+        part += reference[i++];
+      }
+    }
+
+    if (part.length === 0) {
+      throw new IdentifierError(`Invalid table name "${reference}"`);
+    }
+    parts.push(part);
+
+    if (i < reference.length) {
+      if (reference[i] !== '.') {
+        throw new IdentifierError(`Invalid table name "${reference}"`);
+      }
+      i++;
+      if (i === reference.length) {
+        throw new IdentifierError(`Invalid table name "${reference}"`);
+      }
+    }
+  }
+
+  if (parts.length === 1) {
+    return { schema: defaultSchema, name: parts[0] };
+  }
+  if (parts.length === 2) {
+    return { schema: parts[0], name: parts[1] };
+  }
+  throw new IdentifierError(`Invalid table name "${reference}"`);
+};
+
+// Escape LIKE/ILIKE wildcards so user input is matched literally
+export const escapeLikePattern = (value: string): string => {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`);
+};
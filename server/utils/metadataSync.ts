@@ -0,0 +1,182 @@
+import type { DbTable, DbColumn, InsertDbTable, InsertDbColumn } from '@shared/schema';
+import type { CommentDirection } from '@shared/metadataSync';
+import type { TableReference } from './identifiers';
+import { buildTableComment, buildColumnComment } from './ddl';
+
+// A column as introspected from pg_catalog
+export interface LiveColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  isPrimary: boolean;
+  isUnique: boolean;
+  defaultValue: string | null;
+  comment: string | null;
+}
+
+// A relation as introspected from pg_catalog; kind is pg_class.relkind
+export interface LiveRelation extends TableReference {
+  kind: string;
+  comment: string | null;
+  columns: LiveColumn[];
+}
+
+export interface StoredTable {
+  table: DbTable;
+  columns: DbColumn[];
+}
+
+// One difference between the catalog and the stored metadata. object is
+// schema.table or schema.table.column; fields lists what was updated.
+export interface MetadataChange {
+  object: string;
+  action: 'added' | 'dropped' | 'restored' | 'updated' | 'commented';
+  fields?: string[];
+}
+
+export interface MetadataSyncPlan {
+  changes: MetadataChange[];
+  // Relations with no record yet; their columns are added with them
+  newTables: LiveRelation[];
+  tableUpdates: { id: number; patch: Partial<InsertDbTable> }[];
+  newColumns: InsertDbColumn[];
+  columnUpdates: { id: number; patch: Partial<InsertDbColumn> }[];
+  // COMMENT ON statements for exported descriptions, grouped by table
+  comments: { table: TableReference; statements: string[] }[];
+}
+
+// The record a live column should have, apart from its description
+const columnRecord = (column: LiveColumn) => ({
+  name: column.name,
+  type: column.type,
+  nullable: column.nullable,
+  isPrimary: column.isPrimary,
+  isUnique: column.isUnique,
+  defaultValue: column.defaultValue,
+});
+
+// Records for a relation seen for the first time, described by its comments
+export const newTableRecord = (connectionId: number, relation: LiveRelation): InsertDbTable => ({
+  connectionId,
+  name: relation.name,
+  schema: relation.schema,
+  description: relation.comment,
+});
+
+export const newColumnRecord = (tableId: number, column: LiveColumn): InsertDbColumn => ({
+  tableId,
+  ...columnRecord(column),
+  description: column.comment,
+});
+
+const changedColumnFields = (stored: DbColumn, live: LiveColumn): Partial<InsertDbColumn> => {
+  const patch: Partial<InsertDbColumn> = {};
+  if (stored.type !== live.type) patch.type = live.type;
+  if ((stored.nullable ?? true) !== live.nullable) patch.nullable = live.nullable;
+  if ((stored.isPrimary ?? false) !== live.isPrimary) patch.isPrimary = live.isPrimary;
+  if ((stored.isUnique ?? false) !== live.isUnique) patch.isUnique = live.isUnique;
+  if ((stored.defaultValue ?? null) !== live.defaultValue) patch.defaultValue = live.defaultValue;
+  return patch;
+};
+
+// Work out what it takes to bring db_tables/db_columns in line with the live
+// catalog. Records of objects that no longer exist are flagged with droppedAt
+// rather than deleted, so descriptions and activity history survive; renames
+// show up as a drop and an add.
+export const planMetadataSync = (
+  live: LiveRelation[],
+  stored: StoredTable[],
+  direction: CommentDirection,
+  now: Date = new Date()
+): MetadataSyncPlan => {
+  const plan: MetadataSyncPlan = {
+    changes: [],
+    newTables: [],
+    tableUpdates: [],
+    newColumns: [],
+    columnUpdates: [],
+    comments: [],
+  };
+
+  const storedByName = new Map(stored.map(entry => [`${entry.table.schema ?? 'public'}.${entry.table.name}`, entry]));
+  const seen = new Set<string>();
+
+  for (const relation of live) {
+    const tableKey = `${relation.schema}.${relation.name}`;
+    seen.add(tableKey);
+    const entry = storedByName.get(tableKey);
+
+    if (!entry) {
+      plan.newTables.push(relation);
+      plan.changes.push({ object: tableKey, action: 'added' });
+      continue;
+    }
+
+    const statements: string[] = [];
+    const tablePatch: Partial<InsertDbTable> = {};
+    if (entry.table.droppedAt) tablePatch.droppedAt = null;
+    if (direction === 'import' && relation.comment !== null && relation.comment !== entry.table.description) {
+      tablePatch.description = relation.comment;
+    }
+    if (direction === 'export' && entry.table.description && entry.table.description !== relation.comment) {
+      statements.push(buildTableComment(relation, relation.kind, entry.table.description));
+      plan.changes.push({ object: tableKey, action: 'commented' });
+    }
+    if (Object.keys(tablePatch).length > 0) {
+      plan.tableUpdates.push({ id: entry.table.id, patch: tablePatch });
+      plan.changes.push({
+        object: tableKey,
+        action: entry.table.droppedAt ? 'restored' : 'updated',
+        fields: Object.keys(tablePatch).filter(field => field !== 'droppedAt'),
+      });
+    }
+
+    const storedColumns = new Map(entry.columns.map(column => [column.name, column]));
+    for (const column of relation.columns) {
+      const columnKey = `${tableKey}.${column.name}`;
+      const storedColumn = storedColumns.get(column.name);
+      storedColumns.delete(column.name);
+
+      if (!storedColumn) {
+        plan.newColumns.push(newColumnRecord(entry.table.id, column));
+        plan.changes.push({ object: columnKey, action: 'added' });
+        continue;
+      }
+
+      const patch = changedColumnFields(storedColumn, column);
+      if (direction === 'import' && column.comment !== null && column.comment !== storedColumn.description) {
+        patch.description = column.comment;
+      }
+      if (direction === 'export' && storedColumn.description && storedColumn.description !== column.comment) {
+        statements.push(buildColumnComment(relation, column.name, storedColumn.description));
+        plan.changes.push({ object: columnKey, action: 'commented' });
+      }
+      const fields = Object.keys(patch);
+      if (storedColumn.droppedAt) patch.droppedAt = null;
+      if (Object.keys(patch).length > 0) {
+        plan.columnUpdates.push({ id: storedColumn.id, patch });
+        plan.changes.push({ object: columnKey, action: storedColumn.droppedAt ? 'restored' : 'updated', fields });
+      }
+    }
+
+    // Whatever is left was dropped from the table
+    for (const storedColumn of Array.from(storedColumns.values())) {
+      if (storedColumn.droppedAt) continue;
+      plan.columnUpdates.push({ id: storedColumn.id, patch: { droppedAt: now } });
+      plan.changes.push({ object: `${tableKey}.${storedColumn.name}`, action: 'dropped' });
+    }
+
+    if (statements.length > 0) {
+      plan.comments.push({ table: { schema: relation.schema, name: relation.name }, statements });
+    }
+  }
+
+  for (const entry of stored) {
+    const tableKey = `${entry.table.schema ?? 'public'}.${entry.table.name}`;
+    if (seen.has(tableKey) || entry.table.droppedAt) continue;
+    plan.tableUpdates.push({ id: entry.table.id, patch: { droppedAt: now } });
+    plan.changes.push({ object: tableKey, action: 'dropped' });
+  }
+
+  return plan;
+};
@@ -152,8 +152,8 @@ export const runMigrations = async (): Promise<void> => {
   }
 };
 
-// Generate a new migration file
-export const generateMigration = (name: string): string => {
+// Generate a new migration file, empty unless sql is given
+export const generateMigration = (name: string, sql?: string): string => {
   const timestamp = new Date().toISOString().replace(/[-:]/g, '').split('.')[0];
   const fileName = `${timestamp}_${name}.sql`;
   const migrationPath = path.join(process.cwd(), 'migrations', fileName);
@@ -166,8 +166,9 @@ export const generateMigration = (name: string): string => {
     fs.mkdirSync(migrationsDir, { recursive: true });
   }
   
-  // Create empty migration file
-  fs.writeFileSync(migrationPath, `-- Migration: ${name}\n-- Timestamp: ${timestamp}\n\n-- Write your SQL here\n`);
+  // Create the migration file with a header
+  const body = sql && sql.trim() ? `${sql.trim()}\n` : '-- Write your SQL here\n';
+  fs.writeFileSync(migrationPath, `-- Migration: ${name}\n-- Timestamp: ${timestamp}\n\n${body}`);
   
   Logger.success(`Migration file created: ${migrationPath}`);
   return fileName;
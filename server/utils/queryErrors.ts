@@ -0,0 +1,40 @@
+// Fields PostgreSQL reports alongside an error message
+export interface QueryErrorDetails {
+  message: string;
+  code?: string;
+  severity?: string;
+  // 1-based character position, relative to the submitted script
+  position?: number;
+  detail?: string;
+  hint?: string;
+  where?: string;
+  schema?: string;
+  table?: string;
+  column?: string;
+  constraint?: string;
+}
+
+// Extract the structured error fields from a pg DatabaseError; offset shifts
+// the position when the failing statement was part of a larger script
+export const describeQueryError = (error: unknown, offset: number = 0): QueryErrorDetails => {
+  const err = error as Record<string, any>;
+  const details: QueryErrorDetails = {
+    message: err?.message ?? String(error),
+  };
+
+  const fields = ['code', 'severity', 'detail', 'hint', 'where', 'schema', 'table', 'column', 'constraint'] as const;
+  for (const field of fields) {
+    if (typeof err?.[field] === 'string' && err[field].length > 0) {
+      details[field] = err[field];
+    }
+  }
+
+  if (err?.position) {
+    const position = parseInt(err.position);
+    if (!isNaN(position)) {
+      details.position = position + offset;
+    }
+  }
+
+  return details;
+};
@@ -0,0 +1,119 @@
+import type { RoutineArgumentValue } from '@shared/routines';
+import { IdentifierError, quoteIdentifier, quoteQualifiedName } from './identifiers';
+import { splitStatements } from './sqlSplitter';
+
+// Calls and source checks for the Routines page, and trigger descriptions for
+// the Triggers tab
+
+// One argument from pg_proc; mode follows proargmodes
+export interface RoutineArgument {
+  name: string | null;
+  type: string;
+  mode: 'in' | 'out' | 'inout' | 'variadic' | 'table';
+  hasDefault: boolean;
+}
+
+export const argumentModes: Record<string, RoutineArgument['mode']> = {
+  i: 'in',
+  o: 'out',
+  b: 'inout',
+  v: 'variadic',
+  t: 'table',
+};
+
+// OUT and TABLE arguments are results, not something the caller passes
+export const isInputArgument = (argument: RoutineArgument): boolean =>
+  argument.mode === 'in' || argument.mode === 'inout' || argument.mode === 'variadic';
+
+export interface CallableRoutine {
+  schema: string;
+  name: string;
+  kind: 'function' | 'procedure';
+  result: string | null;
+  arguments: RoutineArgument[];
+}
+
+const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+// SELECT * FROM for functions, so set-returning ones come back as rows, and
+// CALL for procedures. Values are passed as literals cast to the argument
+// type. Once an argument is left to its default the rest are passed by name,
+// which needs them to have one.
+export const buildRoutineCall = (routine: CallableRoutine, values: RoutineArgumentValue[]): string => {
+  if (routine.result === 'trigger' || routine.result === 'event_trigger') {
+    throw new IdentifierError('Trigger functions cannot be called directly');
+  }
+
+  const inputs = routine.arguments.filter(isInputArgument);
+  if (values.length > inputs.length) {
+    throw new IdentifierError(`${routine.name} takes ${inputs.length} arguments, got ${values.length}`);
+  }
+
+  const parts: string[] = [];
+  let input = 0;
+  let named = false;
+  const pass = (argument: RoutineArgument, expression: string) => {
+    if (!named) {
+      parts.push(expression);
+    } else if (!argument.name) {
+      throw new IdentifierError('Arguments without a name cannot follow one left to its default');
+    } else {
+      parts.push(`${quoteIdentifier(argument.name)} => ${expression}`);
+    }
+  };
+
+  for (const argument of routine.arguments) {
+    if (!isInputArgument(argument)) {
+      // Procedures take a placeholder for each OUT argument
+      if (routine.kind === 'procedure' && argument.mode === 'out') pass(argument, 'NULL');
+      continue;
+    }
+
+    const value = values[input++];
+    if (!value || value.useDefault) {
+      if (!argument.hasDefault) {
+        throw new IdentifierError(`Argument ${argument.name || `$${input}`} has no default and needs a value`);
+      }
+      named = true;
+      continue;
+    }
+    const expression = value.value === null ? `NULL::${argument.type}` : `${literal(value.value)}::${argument.type}`;
+    pass(argument, argument.mode === 'variadic' ? `VARIADIC ${expression}` : expression);
+  }
+
+  const target = `${quoteQualifiedName(routine)}(${parts.join(', ')})`;
+  return routine.kind === 'procedure' ? `CALL ${target};` : `SELECT * FROM ${target};`;
+};
+
+// The source editor saves exactly one CREATE OR REPLACE FUNCTION/PROCEDURE
+export const checkRoutineSource = (source: string): string => {
+  const statements = splitStatements(source);
+  if (statements.length !== 1) {
+    throw new IdentifierError('The source must be a single CREATE OR REPLACE statement');
+  }
+  const statement = statements[0].text;
+  if (!/^CREATE\s+OR\s+REPLACE\s+(FUNCTION|PROCEDURE)\s/i.test(statement)) {
+    throw new IdentifierError('The source must start with CREATE OR REPLACE FUNCTION or CREATE OR REPLACE PROCEDURE');
+  }
+  return statement;
+};
+
+// pg_trigger.tgtype bits
+const TRIGGER_ROW = 1;
+const TRIGGER_BEFORE = 2;
+const TRIGGER_INSERT = 4;
+const TRIGGER_DELETE = 8;
+const TRIGGER_UPDATE = 16;
+const TRIGGER_TRUNCATE = 32;
+const TRIGGER_INSTEAD = 64;
+
+export const describeTriggerType = (tgtype: number) => ({
+  timing: tgtype & TRIGGER_INSTEAD ? 'INSTEAD OF' : tgtype & TRIGGER_BEFORE ? 'BEFORE' : 'AFTER',
+  events: [
+    ...(tgtype & TRIGGER_INSERT ? ['INSERT'] : []),
+    ...(tgtype & TRIGGER_UPDATE ? ['UPDATE'] : []),
+    ...(tgtype & TRIGGER_DELETE ? ['DELETE'] : []),
+    ...(tgtype & TRIGGER_TRUNCATE ? ['TRUNCATE'] : []),
+  ],
+  level: tgtype & TRIGGER_ROW ? 'ROW' : 'STATEMENT',
+});
@@ -0,0 +1,62 @@
+import { IdentifierError, quoteIdentifier } from './identifiers';
+
+// How rows of a table are addressed for updates and deletes:
+// - primary_key: all primary key columns
+// - unique_index: columns of a unique index over NOT NULL columns
+// - ctid: the physical row location, paired with xmin to detect stale rows
+// - none: rows cannot be addressed (views, or partitioned tables without a key)
+export interface RowIdentity {
+  kind: 'primary_key' | 'unique_index' | 'ctid' | 'none';
+  columns: string[];
+}
+
+// Values of the identity columns for one row, e.g. { order_id: 1, line: 2 }
+// or { ctid: '(0,7)', xmin: '1234' } for ctid identities
+export type RowKey = Record<string, any>;
+
+// Hidden columns added to browsed rows when the identity is ctid
+export const CTID_COLUMN = '__ctid';
+export const XMIN_COLUMN = '__xmin';
+
+// Raised when a ctid-addressed row changed or vanished since it was read
+export class StaleRowError extends Error {
+  status = 409;
+
+  constructor(message: string = 'The row was changed or deleted since it was loaded. Refresh and try again.') {
+    super(message);
+    this.name = 'StaleRowError';
+  }
+}
+
+// Build the WHERE condition matching exactly one row by its key. Values are
+// pushed onto params and referenced by placeholder.
+export const buildKeyCondition = (identity: RowIdentity, key: RowKey, params: any[]): string => {
+  if (!key || typeof key !== 'object') {
+    throw new IdentifierError('A row key is required');
+  }
+
+  if (identity.kind === 'none') {
+    throw new IdentifierError('Rows of this relation cannot be updated or deleted individually');
+  }
+
+  if (identity.kind === 'ctid') {
+    if (key.ctid === undefined || key.xmin === undefined) {
+      throw new IdentifierError('Row key must include ctid and xmin');
+    }
+    params.push(String(key.ctid));
+    const ctidPlaceholder = `$${params.length}`;
+    params.push(String(key.xmin));
+    // xmin changes whenever the row is rewritten, so a match means the row is unchanged
+    return `ctid = ${ctidPlaceholder}::tid AND xmin::text = $${params.length}`;
+  }
+
+  return identity.columns
+    .map(column => {
+      if (!(column in key)) {
+        throw new IdentifierError(`Row key is missing column ${column}`);
+      }
+      params.push(key[column]);
+      return `${quoteIdentifier(column)} = $${params.length}`;
+    })
+    .join(' AND ');
+};
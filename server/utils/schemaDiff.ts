@@ -0,0 +1,424 @@
+import { quoteIdentifier, quoteQualifiedName } from './identifiers';
+
+// Structural comparison of two schemas and the migration that makes the target
+// match the source. Definitions come from pg_get_*def, which qualify names
+// outside the search_path; both sides are compared with their own schema
+// prefix removed, and the migration runs with the target schema first on the
+// search_path so the same text resolves there.
+
+export interface SnapshotColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  // Generation expression for generated columns
+  defaultValue: string | null;
+  identity: 'none' | 'always' | 'by_default';
+  generated: boolean;
+}
+
+export interface SnapshotTable {
+  name: string;
+  partitionKey: string | null;
+  columns: SnapshotColumn[];
+}
+
+export interface SnapshotIndex {
+  name: string;
+  table: string;
+  definition: string;
+}
+
+export interface SnapshotConstraint {
+  name: string;
+  table: string;
+  type: string;
+  definition: string;
+}
+
+export interface SnapshotView {
+  name: string;
+  materialized: boolean;
+  definition: string;
+}
+
+export interface SnapshotFunction {
+  name: string;
+  arguments: string;
+  kind: 'function' | 'procedure';
+  definition: string;
+}
+
+export interface SnapshotEnum {
+  name: string;
+  values: string[];
+}
+
+// Everything in one schema the diff looks at. quotedSchema is the schema as
+// Postgres writes it in definitions (quote_ident).
+export interface SchemaSnapshot {
+  schema: string;
+  quotedSchema: string;
+  tables: SnapshotTable[];
+  indexes: SnapshotIndex[];
+  constraints: SnapshotConstraint[];
+  views: SnapshotView[];
+  functions: SnapshotFunction[];
+  enums: SnapshotEnum[];
+}
+
+export type SchemaObjectType = 'enum' | 'function' | 'table' | 'column' | 'constraint' | 'index' | 'view';
+
+// added: only in the source, so the migration creates it; removed: only in
+// the target, so the migration drops it
+export type SchemaChange = 'added' | 'removed' | 'changed';
+
+export interface SchemaDiffItem {
+  objectType: SchemaObjectType;
+  name: string;
+  change: SchemaChange;
+  // Human-readable differences, target value first
+  details: string[];
+  sql: string[];
+}
+
+export interface SchemaDiff {
+  items: SchemaDiffItem[];
+  sql: string[];
+}
+
+// Order statements run in: dependants are dropped before what they depend on
+// and created after it
+const phases = {
+  dropViews: 0,
+  dropForeignKeys: 1,
+  dropConstraints: 2,
+  dropIndexes: 3,
+  types: 4,
+  functions: 5,
+  createTables: 6,
+  alterColumns: 7,
+  addConstraints: 8,
+  addForeignKeys: 9,
+  createIndexes: 10,
+  createViews: 11,
+  dropTables: 12,
+  dropFunctions: 13,
+  dropTypes: 14,
+};
+
+interface Step {
+  phase: number;
+  sql: string;
+}
+
+interface PendingItem extends Omit<SchemaDiffItem, 'sql'> {
+  steps: Step[];
+}
+
+const objectOrder: SchemaObjectType[] = ['enum', 'function', 'table', 'column', 'constraint', 'index', 'view'];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Remove "schema." prefixes that are not part of a longer qualified name
+export const localizeDefinition = (definition: string, quotedSchema: string): string => {
+  const prefix = new RegExp(`(^|[^\\w"$.])${escapeRegExp(quotedSchema)}\\.`, 'g');
+  return definition.replace(prefix, '$1').trim();
+};
+
+const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+const withoutSemicolon = (definition: string) => definition.trim().replace(/;$/, '');
+
+// Pair up objects of both sides by key, sorted by key
+const pair = <T>(source: T[], target: T[], key: (item: T) => string) => {
+  const sources = new Map(source.map(item => [key(item), item]));
+  const targets = new Map(target.map(item => [key(item), item]));
+  const keys = Array.from(new Set([...Array.from(sources.keys()), ...Array.from(targets.keys())])).sort();
+  return keys.map(name => ({ name, source: sources.get(name), target: targets.get(name) }));
+};
+
+// Sequences named by nextval defaults have to exist before the column does
+const sequenceSteps = (column: SnapshotColumn, phase: number): Step[] => {
+  const match = column.defaultValue?.match(/^nextval\('(.+)'::regclass\)$/);
+  return match && !column.generated
+    ? [{ phase, sql: `CREATE SEQUENCE IF NOT EXISTS ${match[1].replace(/''/g, "'")};` }]
+    : [];
+};
+
+// Column as written in CREATE TABLE or ADD COLUMN
+export const columnDefinition = (column: SnapshotColumn): string => {
+  const parts = [quoteIdentifier(column.name), column.type];
+  if (column.generated) {
+    parts.push(`GENERATED ALWAYS AS (${column.defaultValue}) STORED`);
+  } else if (column.identity !== 'none') {
+    parts.push(column.identity === 'always' ? 'GENERATED ALWAYS AS IDENTITY' : 'GENERATED BY DEFAULT AS IDENTITY');
+  } else if (column.defaultValue !== null) {
+    parts.push(`DEFAULT ${column.defaultValue}`);
+  }
+  if (!column.nullable && column.identity === 'none') {
+    parts.push('NOT NULL');
+  }
+  return parts.join(' ');
+};
+
+const describe = (value: string | null) => value ?? 'none';
+
+export const diffSchemas = (sourceSnapshot: SchemaSnapshot, targetSnapshot: SchemaSnapshot): SchemaDiff => {
+  const localize = (snapshot: SchemaSnapshot): SchemaSnapshot => {
+    const local = (definition: string) => localizeDefinition(definition, snapshot.quotedSchema);
+    return {
+      ...snapshot,
+      tables: snapshot.tables.map(table => ({
+        ...table,
+        columns: table.columns.map(column => ({
+          ...column,
+          type: local(column.type),
+          defaultValue: column.defaultValue === null ? null : local(column.defaultValue),
+        })),
+      })),
+      indexes: snapshot.indexes.map(index => ({ ...index, definition: local(index.definition) })),
+      constraints: snapshot.constraints.map(constraint => ({ ...constraint, definition: local(constraint.definition) })),
+      views: snapshot.views.map(view => ({ ...view, definition: local(view.definition) })),
+      functions: snapshot.functions.map(fn => ({ ...fn, definition: local(fn.definition) })),
+    };
+  };
+  const source = localize(sourceSnapshot);
+  const target = localize(targetSnapshot);
+  const qualify = (name: string) => quoteQualifiedName({ schema: target.schema, name });
+  const items: PendingItem[] = [];
+
+  // Objects on tables the migration drops go with the table
+  const droppedTables = new Set(
+    target.tables.filter(table => !source.tables.some(candidate => candidate.name === table.name)).map(table => table.name)
+  );
+
+  for (const { name, source: from, target: to } of pair(source.enums, target.enums, type => type.name)) {
+    if (from && !to) {
+      items.push({
+        objectType: 'enum', name, change: 'added', details: [from.values.join(', ')],
+        steps: [{ phase: phases.types, sql: `CREATE TYPE ${qualify(name)} AS ENUM (${from.values.map(literal).join(', ')});` }],
+      });
+    } else if (!from && to) {
+      items.push({
+        objectType: 'enum', name, change: 'removed', details: [],
+        steps: [{ phase: phases.dropTypes, sql: `DROP TYPE ${qualify(name)};` }],
+      });
+    } else if (from && to && from.values.join('\u0000') !== to.values.join('\u0000')) {
+      const details: string[] = [];
+      const steps: Step[] = [];
+      from.values.forEach((value, index) => {
+        if (to.values.includes(value)) return;
+        details.push(`value ${value} added`);
+        // Values are added in order, so the previous one exists by now
+        const following = from.values.slice(1).find(candidate => to.values.includes(candidate));
+        const position = index > 0
+          ? ` AFTER ${literal(from.values[index - 1])}`
+          : following ? ` BEFORE ${literal(following)}` : '';
+        steps.push({ phase: phases.types, sql: `ALTER TYPE ${qualify(name)} ADD VALUE ${literal(value)}${position};` });
+      });
+      // Postgres has no way to remove an enum value short of recreating the type
+      for (const value of to.values.filter(value => !from.values.includes(value))) {
+        details.push(`value ${value} removed`);
+        steps.push({ phase: phases.types, sql: `-- ${qualify(name)} still has value ${literal(value)}; recreate the type to remove it` });
+      }
+      if (details.length === 0) details.push('values are in a different order');
+      items.push({ objectType: 'enum', name, change: 'changed', details, steps });
+    }
+  }
+
+  const functionKey = (fn: SnapshotFunction) => `${fn.name}(${fn.arguments})`;
+  for (const { name, source: from, target: to } of pair(source.functions, target.functions, functionKey)) {
+    if (from && (!to || from.definition !== to.definition)) {
+      items.push({
+        objectType: 'function', name, change: to ? 'changed' : 'added', details: to ? ['definition differs'] : [],
+        steps: [{ phase: phases.functions, sql: `${withoutSemicolon(from.definition)};` }],
+      });
+    } else if (!from && to) {
+      items.push({
+        objectType: 'function', name, change: 'removed', details: [],
+        steps: [{ phase: phases.dropFunctions, sql: `DROP ${to.kind.toUpperCase()} ${qualify(to.name)}(${to.arguments});` }],
+      });
+    }
+  }
+
+  for (const { name, source: from, target: to } of pair(source.tables, target.tables, table => table.name)) {
+    if (from && !to) {
+      const partition = from.partitionKey ? ` PARTITION BY ${from.partitionKey}` : '';
+      items.push({
+        objectType: 'table', name, change: 'added', details: [`${from.columns.length} columns`],
+        steps: [
+          ...from.columns.flatMap(column => sequenceSteps(column, phases.createTables)),
+          {
+            phase: phases.createTables,
+            sql: `CREATE TABLE ${qualify(name)} (\n  ${from.columns.map(columnDefinition).join(',\n  ')}\n)${partition};`,
+          },
+        ],
+      });
+      continue;
+    }
+    if (!from && to) {
+      items.push({
+        objectType: 'table', name, change: 'removed', details: [],
+        steps: [{ phase: phases.dropTables, sql: `DROP TABLE ${qualify(name)};` }],
+      });
+      continue;
+    }
+    if (!from || !to) continue;
+
+    if (from.partitionKey !== to.partitionKey) {
+      items.push({
+        objectType: 'table', name, change: 'changed',
+        details: [`partition key: ${describe(to.partitionKey)} → ${describe(from.partitionKey)}`],
+        steps: [{ phase: phases.alterColumns, sql: `-- ${qualify(name)} has to be recreated to change how it is partitioned` }],
+      });
+    }
+
+    const table = qualify(name);
+    for (const { name: columnName, source: sourceColumn, target: targetColumn } of pair(from.columns, to.columns, column => column.name)) {
+      const itemName = `${name}.${columnName}`;
+      const column = quoteIdentifier(columnName);
+      if (sourceColumn && !targetColumn) {
+        items.push({
+          objectType: 'column', name: itemName, change: 'added', details: [sourceColumn.type],
+          steps: [
+            ...sequenceSteps(sourceColumn, phases.alterColumns),
+            { phase: phases.alterColumns, sql: `ALTER TABLE ${table} ADD COLUMN ${columnDefinition(sourceColumn)};` },
+          ],
+        });
+        continue;
+      }
+      if (!sourceColumn && targetColumn) {
+        items.push({
+          objectType: 'column', name: itemName, change: 'removed', details: [],
+          steps: [{ phase: phases.alterColumns, sql: `ALTER TABLE ${table} DROP COLUMN ${column};` }],
+        });
+        continue;
+      }
+      if (!sourceColumn || !targetColumn) continue;
+
+      const details: string[] = [];
+      const statements: string[] = [];
+      const alter = (clause: string) => statements.push(`ALTER TABLE ${table} ALTER COLUMN ${column} ${clause};`);
+      if (sourceColumn.type !== targetColumn.type) {
+        details.push(`type: ${targetColumn.type} → ${sourceColumn.type}`);
+        alter(`TYPE ${sourceColumn.type} USING ${column}::${sourceColumn.type}`);
+      }
+      if (sourceColumn.generated || targetColumn.generated) {
+        if (sourceColumn.generated !== targetColumn.generated || sourceColumn.defaultValue !== targetColumn.defaultValue) {
+          const generation = (candidate: SnapshotColumn) => (candidate.generated ? candidate.defaultValue : 'no');
+          details.push(`generated: ${generation(targetColumn)} → ${generation(sourceColumn)}`);
+          statements.push(`-- ${table}.${column} has to be dropped and added again to change how it is generated`);
+        }
+      } else {
+        // Identity columns are implicitly NOT NULL and cannot have a default, so
+        // identity is dropped before and added after the other changes
+        const defaultChanged = sourceColumn.defaultValue !== targetColumn.defaultValue;
+        const identityChanged = sourceColumn.identity !== targetColumn.identity;
+        if (defaultChanged) {
+          details.push(`default: ${describe(targetColumn.defaultValue)} → ${describe(sourceColumn.defaultValue)}`);
+          if (targetColumn.defaultValue !== null) alter('DROP DEFAULT');
+        }
+        if (identityChanged) {
+          details.push(`identity: ${targetColumn.identity} → ${sourceColumn.identity}`);
+          if (sourceColumn.identity === 'none') alter('DROP IDENTITY');
+        }
+        if (sourceColumn.nullable !== targetColumn.nullable) {
+          details.push(`nullable: ${targetColumn.nullable ? 'yes' : 'no'} → ${sourceColumn.nullable ? 'yes' : 'no'}`);
+          alter(sourceColumn.nullable ? 'DROP NOT NULL' : 'SET NOT NULL');
+        }
+        if (identityChanged && sourceColumn.identity !== 'none') {
+          const kind = sourceColumn.identity === 'always' ? 'ALWAYS' : 'BY DEFAULT';
+          alter(targetColumn.identity === 'none' ? `ADD GENERATED ${kind} AS IDENTITY` : `SET GENERATED ${kind}`);
+        }
+        if (defaultChanged && sourceColumn.defaultValue !== null) {
+          statements.unshift(...sequenceSteps(sourceColumn, phases.alterColumns).map(step => step.sql));
+          alter(`SET DEFAULT ${sourceColumn.defaultValue}`);
+        }
+      }
+      if (details.length > 0) {
+        items.push({
+          objectType: 'column', name: itemName, change: 'changed', details,
+          steps: statements.map(sql => ({ phase: phases.alterColumns, sql })),
+        });
+      }
+    }
+  }
+
+  const constraintKey = (constraint: SnapshotConstraint) => `${constraint.table}.${constraint.name}`;
+  for (const { name, source: from, target: to } of pair(source.constraints, target.constraints, constraintKey)) {
+    const steps: Step[] = [];
+    if (to && (!from || from.definition !== to.definition) && !droppedTables.has(to.table)) {
+      steps.push({
+        phase: to.type === 'foreign_key' ? phases.dropForeignKeys : phases.dropConstraints,
+        sql: `ALTER TABLE ${qualify(to.table)} DROP CONSTRAINT ${quoteIdentifier(to.name)};`,
+      });
+    }
+    if (from && (!to || from.definition !== to.definition)) {
+      steps.push({
+        phase: from.type === 'foreign_key' ? phases.addForeignKeys : phases.addConstraints,
+        sql: `ALTER TABLE ${qualify(from.table)} ADD CONSTRAINT ${quoteIdentifier(from.name)} ${from.definition};`,
+      });
+    }
+    if (steps.length > 0) {
+      items.push({
+        objectType: 'constraint', name, change: !to ? 'added' : !from ? 'removed' : 'changed',
+        details: from && to ? [`${to.definition} → ${from.definition}`] : [(from ?? to)!.definition],
+        steps,
+      });
+    }
+  }
+
+  for (const { name, source: from, target: to } of pair(source.indexes, target.indexes, index => index.name)) {
+    const steps: Step[] = [];
+    if (to && (!from || from.definition !== to.definition) && !droppedTables.has(to.table)) {
+      steps.push({ phase: phases.dropIndexes, sql: `DROP INDEX ${qualify(to.name)};` });
+    }
+    if (from && (!to || from.definition !== to.definition)) {
+      steps.push({ phase: phases.createIndexes, sql: `${withoutSemicolon(from.definition)};` });
+    }
+    if (steps.length > 0) {
+      items.push({
+        objectType: 'index', name, change: !to ? 'added' : !from ? 'removed' : 'changed',
+        details: from && to ? [`${to.definition} → ${from.definition}`] : [(from ?? to)!.definition],
+        steps,
+      });
+    }
+  }
+
+  const viewKeyword = (view: SnapshotView) => (view.materialized ? 'MATERIALIZED VIEW' : 'VIEW');
+  for (const { name, source: from, target: to } of pair(source.views, target.views, view => view.name)) {
+    const changed = from && to && (from.materialized !== to.materialized || from.definition !== to.definition);
+    if (!changed && from && to) continue;
+    const steps: Step[] = [];
+    if (to) {
+      steps.push({ phase: phases.dropViews, sql: `DROP ${viewKeyword(to)} ${qualify(name)};` });
+    }
+    if (from) {
+      steps.push({ phase: phases.createViews, sql: `CREATE ${viewKeyword(from)} ${qualify(name)} AS\n${withoutSemicolon(from.definition)};` });
+    }
+    const details = !changed ? [] : from!.materialized !== to!.materialized
+      ? [`${viewKeyword(to!).toLowerCase()} → ${viewKeyword(from!).toLowerCase()}`]
+      : ['definition differs'];
+    items.push({ objectType: 'view', name, change: !to ? 'added' : !from ? 'removed' : 'changed', details, steps });
+  }
+
+  items.sort((a, b) => objectOrder.indexOf(a.objectType) - objectOrder.indexOf(b.objectType) || a.name.localeCompare(b.name));
+
+  // Steps keep item order within a phase
+  const steps = items
+    .flatMap(item => item.steps)
+    .map((step, index) => ({ ...step, index }))
+    .sort((a, b) => a.phase - b.phase || a.index - b.index);
+  const searchPath = target.schema === 'public' ? quoteIdentifier('public') : `${quoteIdentifier(target.schema)}, public`;
+  const sql = steps.length === 0 ? [] : [
+    'BEGIN;',
+    `SET LOCAL search_path TO ${searchPath};`,
+    ...steps.map(step => step.sql),
+    'COMMIT;',
+  ];
+
+  return {
+    items: items.map(({ steps: itemSteps, ...item }) => ({ ...item, sql: itemSteps.map(step => step.sql) })),
+    sql,
+  };
+};
@@ -0,0 +1,65 @@
+import { IdentifierError, quoteIdentifier, quoteQualifiedName, type TableReference } from './identifiers';
+
+// Statements and checks for the Sequences page. Sequence values are bigint and
+// arrive from pg as strings, so arithmetic is done with BigInt.
+
+// Column a serial or identity sequence belongs to
+export interface SequenceOwner {
+  schema: string;
+  table: string;
+  column: string;
+  identity: boolean;
+}
+
+const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+// Values are interpolated, so anything but a whole number is rejected here too
+const assertWholeNumber = (value: string): string => {
+  if (!/^-?\d+$/.test(value)) {
+    throw new IdentifierError(`${value} is not a whole number`);
+  }
+  return value;
+};
+
+const isDescending = (increment: string) => increment.startsWith('-');
+
+// The aggregate over the owning column that the next value must get past
+export const columnExtremeExpression = (increment: string, column: string): string => {
+  return `${isDescending(increment) ? 'min' : 'max'}(${quoteIdentifier(column)})`;
+};
+
+export const buildSetSequenceValue = (sequence: TableReference, value: string, isCalled: boolean): string => {
+  return `SELECT setval(${literal(quoteQualifiedName(sequence))}, ${assertWholeNumber(value)}, ${isCalled});`;
+};
+
+export const buildRestartSequence = (sequence: TableReference, value?: string): string => {
+  const restart = value === undefined ? 'RESTART' : `RESTART WITH ${assertWholeNumber(value)}`;
+  return `ALTER SEQUENCE ${quoteQualifiedName(sequence)} ${restart};`;
+};
+
+// Move the sequence past the owning column's highest value (lowest for
+// descending sequences). An empty table puts it back at its start value.
+export const buildResyncSequence = (
+  sequence: TableReference & { startValue: string; increment: string },
+  owner: SequenceOwner
+): string => {
+  const extreme = columnExtremeExpression(sequence.increment, owner.column);
+  return (
+    `SELECT setval(${literal(quoteQualifiedName(sequence))}, coalesce(${extreme}, ${assertWholeNumber(sequence.startValue)}), ${extreme} IS NOT NULL) ` +
+    `FROM ${quoteQualifiedName({ schema: owner.schema, name: owner.table })};`
+  );
+};
+
+// What nextval() returns next, ignoring wrap-around of cycling sequences
+export const nextSequenceValue = (lastValue: string, isCalled: boolean, increment: string): string => {
+  return isCalled ? (BigInt(lastValue) + BigInt(increment)).toString() : lastValue;
+};
+
+// True when nextval() would hand out a value the owning column already holds,
+// so inserts relying on the default fail with a duplicate key
+export const isSequenceBehind = (nextValue: string, increment: string, columnExtreme: string | null): boolean => {
+  if (columnExtreme === null) return false;
+  return isDescending(increment)
+    ? BigInt(nextValue) >= BigInt(columnExtreme)
+    : BigInt(nextValue) <= BigInt(columnExtreme);
+};
@@ -0,0 +1,92 @@
+export interface SqlStatement {
+  text: string;
+  // Character offset of the statement within the original script
+  offset: number;
+}
+
+// Split a script into statements on top-level semicolons, skipping over
+// string literals, quoted identifiers, dollar-quoted bodies and comments
+export const splitStatements = (script: string): SqlStatement[] => {
+  const statements: SqlStatement[] = [];
+  let start = 0;
+  let i = 0;
+
+  const pushStatement = (end: number) => {
+    const raw = script.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const text = raw.trim();
+    if (text.length > 0 && !isOnlyComments(text)) {
+      statements.push({ text, offset: start + leading });
+    }
+  };
+
+  while (i < script.length) {
+    const char = script[i];
+    const next = script[i + 1];
+
+    if (char === '-' && next === '-') {
+      // Line comment
+      const end = script.indexOf('\n', i);
+      i = end === -1 ? script.length : end + 1;
+    } else if (char === '/' && next === '*') {
+      // Block comments nest in PostgreSQL
+      let depth = 1;
+      i += 2;
+      while (i < script.length && depth > 0) {
+        if (script[i] === '/' && script[i + 1] === '*') {
+          depth++;
+          i += 2;
+        } else if (script[i] === '*' && script[i + 1] === '/') {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+    } else if (char === "'" || char === '"') {
+      // Quoted literal or identifier; doubled quotes are escapes
+      const isEscapeString = char === "'" && i > 0 && /[eE]/.test(script[i - 1]) && !/\w/.test(script[i - 2] || '');
+      i++;
+      while (i < script.length) {
+        if (isEscapeString && script[i] === '\\') {
+          i += 2;
+        } else if (script[i] === char) {
+          if (script[i + 1] === char) {
+            i += 2;
+          } else {
+            i++;
+            break;
+          }
+        } else {
+          i++;
+        }
+      }
+    } else if (char === '$') {
+      const tag = script.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/);
+      // A "$" preceded by an identifier character is part of that identifier
+      if (tag && !/[A-Za-z0-9_]/.test(script[i - 1] || '')) {
+        const end = script.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? script.length : end + tag[0].length;
+      } else {
+        i++;
+      }
+    } else if (char === ';') {
+      pushStatement(i);
+      i++;
+      start = i;
+    } else {
+      i++;
+    }
+  }
+
+  pushStatement(script.length);
+  return statements;
+};
+
+const isOnlyComments = (text: string): boolean => {
+  const stripped = text
+    .replace(/--[^\n]*/g, '')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .trim();
+  return stripped.length === 0;
+};
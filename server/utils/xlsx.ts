@@ -0,0 +1,253 @@
+import zlib from 'zlib';
+
+// A minimal XLSX writer for exports: one or more worksheets of inline strings,
+// numbers and booleans, produced front to back so no sheet is held in memory.
+// The zip container has no ZIP64 records, so a workbook must stay under 4 GB.
+
+export type XlsxCellKind = 'number' | 'boolean' | 'string';
+
+// Rows per worksheet Excel accepts, header included
+const MAX_SHEET_ROWS = 1048576;
+// Longest text a cell can hold
+const MAX_CELL_LENGTH = 32767;
+// Numbers with more significant digits lose precision in Excel, so they are written as text
+const MAX_NUMBER_DIGITS = 15;
+
+const NUMBER = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Characters XML 1.0 cannot contain at all are dropped
+const escapeXml = (value: string) => value
+  .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Column letters for a 0-based index: A, B, ..., Z, AA, ...
+const columnLetters = (index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  size: number;
+  compressedSize: number;
+}
+
+// Zip archive written in order: each entry's checksum and sizes follow its
+// data in a descriptor, and the central directory comes last. Entry data is
+// deflated piece by piece; each piece ends on a sync flush so the pieces join
+// into one deflate stream.
+const createZipWriter = () => {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  let current: ZipEntry | null = null;
+
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  // Sizes follow the data (bit 3) and names are UTF-8 (bit 11)
+  const FLAGS = 0x0808;
+  const DEFLATE = 8;
+
+  const emit = (buffer: Buffer) => {
+    offset += buffer.length;
+    if (current) current.compressedSize += buffer.length;
+    return buffer;
+  };
+
+  return {
+    startEntry(name: string): Buffer {
+      const entry: ZipEntry = { name: Buffer.from(name), offset, crc: 0, size: 0, compressedSize: 0 };
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(0x04034b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(FLAGS, 6);
+      header.writeUInt16LE(DEFLATE, 8);
+      header.writeUInt16LE(dosTime, 10);
+      header.writeUInt16LE(dosDate, 12);
+      // Checksum and sizes (offsets 14-25) stay zero until the descriptor
+      header.writeUInt16LE(entry.name.length, 26);
+      header.writeUInt16LE(0, 28);
+      const local = emit(Buffer.concat([header, entry.name]));
+      entries.push(entry);
+      current = entry;
+      return local;
+    },
+
+    writeEntry(data: string): Buffer {
+      if (!current) throw new Error('No zip entry is open');
+      const bytes = Buffer.from(data, 'utf8');
+      current.crc = zlib.crc32(bytes, current.crc);
+      current.size += bytes.length;
+      return emit(zlib.deflateRawSync(bytes, { finishFlush: zlib.constants.Z_SYNC_FLUSH }));
+    },
+
+    endEntry(): Buffer {
+      if (!current) throw new Error('No zip entry is open');
+      const finalBlock = emit(zlib.deflateRawSync(Buffer.alloc(0)));
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(current.crc >>> 0, 4);
+      descriptor.writeUInt32LE(current.compressedSize, 8);
+      descriptor.writeUInt32LE(current.size, 12);
+      current = null;
+      return Buffer.concat([finalBlock, emit(descriptor)]);
+    },
+
+    finish(): Buffer {
+      const directoryOffset = offset;
+      const records = entries.map(entry => {
+        const record = Buffer.alloc(46);
+        record.writeUInt32LE(0x02014b50, 0);
+        record.writeUInt16LE(20, 4);
+        record.writeUInt16LE(20, 6);
+        record.writeUInt16LE(FLAGS, 8);
+        record.writeUInt16LE(DEFLATE, 10);
+        record.writeUInt16LE(dosTime, 12);
+        record.writeUInt16LE(dosDate, 14);
+        record.writeUInt32LE(entry.crc >>> 0, 16);
+        record.writeUInt32LE(entry.compressedSize, 20);
+        record.writeUInt32LE(entry.size, 24);
+        record.writeUInt16LE(entry.name.length, 28);
+        // Extra field, comment, disk number and attributes (30-41) are all zero
+        record.writeUInt32LE(entry.offset, 42);
+        return Buffer.concat([record, entry.name]);
+      });
+      const directory = Buffer.concat(records);
+      const end = Buffer.alloc(22);
+      end.writeUInt32LE(0x06054b50, 0);
+      end.writeUInt16LE(entries.length, 8);
+      end.writeUInt16LE(entries.length, 10);
+      end.writeUInt32LE(directory.length, 12);
+      end.writeUInt32LE(directoryOffset, 16);
+      return emit(Buffer.concat([directory, end]));
+    },
+  };
+};
+
+const packageParts = (sheetCount: number): Record<string, string> => {
+  const sheets = Array.from({ length: sheetCount }, (_, index) => index + 1);
+  return {
+    '[Content_Types].xml': XML_DECLARATION +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets.map(n => `<Override PartName="/xl/worksheets/sheet${n}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+      '</Types>',
+    '_rels/.rels': XML_DECLARATION +
+      `<Relationships xmlns="${RELATIONSHIP_NS}">` +
+      `<Relationship Id="rId1" Type="${DOCUMENT_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>',
+    'xl/workbook.xml': XML_DECLARATION +
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${DOCUMENT_NS}"><sheets>` +
+      sheets.map(n => `<sheet name="Sheet${n}" sheetId="${n}" r:id="rId${n}"/>`).join('') +
+      '</sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': XML_DECLARATION +
+      `<Relationships xmlns="${RELATIONSHIP_NS}">` +
+      sheets.map(n => `<Relationship Id="rId${n}" Type="${DOCUMENT_NS}/worksheet" Target="worksheets/sheet${n}.xml"/>`).join('') +
+      `<Relationship Id="rId${sheetCount + 1}" Type="${DOCUMENT_NS}/styles" Target="styles.xml"/>` +
+      '</Relationships>',
+    // Style 1 is the bold header
+    'xl/styles.xml': XML_DECLARATION +
+      `<styleSheet xmlns="${MAIN_NS}">` +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      '</styleSheet>',
+  };
+};
+
+const stringCell = (ref: string, value: string, style = '') => {
+  const text = Array.from(value).slice(0, MAX_CELL_LENGTH).join('');
+  return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+const valueCell = (ref: string, kind: XlsxCellKind, value: string) => {
+  if (kind === 'number' && NUMBER.test(value) && value.replace(/^-|[.]|[eE].*$/g, '').replace(/^0+/, '').length <= MAX_NUMBER_DIGITS) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (kind === 'boolean' && (value === 't' || value === 'f')) {
+    return `<c r="${ref}" t="b"><v>${value === 't' ? 1 : 0}</v></c>`;
+  }
+  return stringCell(ref, value);
+};
+
+// Workbook stream for rows of text values; kinds decide how each column's
+// values are stored. Rows past a worksheet's capacity continue on a new one
+// that repeats the header.
+export const createXlsxWriter = (kinds: XlsxCellKind[], header: string[] | null) => {
+  const zip = createZipWriter();
+  let sheetCount = 0;
+  let sheetRows = 0;
+
+  const startSheet = (): Buffer => {
+    sheetCount++;
+    sheetRows = 0;
+    const parts = [
+      zip.startEntry(`xl/worksheets/sheet${sheetCount}.xml`),
+      zip.writeEntry(`${XML_DECLARATION}<worksheet xmlns="${MAIN_NS}"><sheetData>`),
+    ];
+    if (header) {
+      sheetRows++;
+      parts.push(zip.writeEntry(
+        `<row r="1">${header.map((name, index) => stringCell(`${columnLetters(index)}1`, name, ' s="1"')).join('')}</row>`
+      ));
+    }
+    return Buffer.concat(parts);
+  };
+
+  const endSheet = (): Buffer => Buffer.concat([zip.writeEntry('</sheetData></worksheet>'), zip.endEntry()]);
+
+  return {
+    begin(): Buffer {
+      return startSheet();
+    },
+
+    rows(rows: (string | null)[][]): Buffer {
+      const parts: Buffer[] = [];
+      let xml = '';
+      for (const row of rows) {
+        if (sheetRows === MAX_SHEET_ROWS) {
+          parts.push(zip.writeEntry(xml), endSheet(), startSheet());
+          xml = '';
+        }
+        const number = ++sheetRows;
+        xml += `<row r="${number}">`;
+        row.forEach((value, index) => {
+          // Empty cells are simply left out
+          if (value !== null) xml += valueCell(`${columnLetters(index)}${number}`, kinds[index], value);
+        });
+        xml += '</row>';
+      }
+      parts.push(zip.writeEntry(xml));
+      return Buffer.concat(parts);
+    },
+
+    end(): Buffer {
+      const parts = [endSheet()];
+      for (const [name, content] of Object.entries(packageParts(sheetCount))) {
+        parts.push(zip.startEntry(name), zip.writeEntry(content), zip.endEntry());
+      }
+      parts.push(zip.finish());
+      return Buffer.concat(parts);
+    },
+  };
+};
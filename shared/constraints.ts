@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { foreignKeyActions } from "./tableDesign";
+
+// Constraints added from the Constraints panel. The server turns them into
+// ALTER TABLE ... ADD CONSTRAINT statements (server/utils/ddl.ts).
+
+// Operators such as =, && or <-> used by EXCLUDE constraints
+export const exclusionOperatorPattern = /^[~!@#%^&*+\-=<>|?/]+$/;
+
+const deferrableFields = {
+  deferrable: z.boolean().default(false),
+  initiallyDeferred: z.boolean().default(false),
+};
+
+export const constraintDesignSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("check"),
+    name: z.string().optional(),
+    // Boolean SQL expression, e.g. price >= 0
+    expression: z.string().min(1),
+    // Skip checking existing rows; run VALIDATE CONSTRAINT later
+    notValid: z.boolean().default(false),
+  }),
+  z.object({
+    type: z.literal("unique"),
+    name: z.string().optional(),
+    columns: z.array(z.string().min(1)).min(1),
+    ...deferrableFields,
+  }),
+  z.object({
+    type: z.literal("foreign_key"),
+    name: z.string().optional(),
+    columns: z.array(z.string().min(1)).min(1),
+    referencedSchema: z.string().min(1),
+    referencedTable: z.string().min(1),
+    referencedColumns: z.array(z.string().min(1)).min(1),
+    onUpdate: z.enum(foreignKeyActions).default("NO ACTION"),
+    onDelete: z.enum(foreignKeyActions).default("NO ACTION"),
+    notValid: z.boolean().default(false),
+    ...deferrableFields,
+  }),
+  z.object({
+    type: z.literal("exclude"),
+    name: z.string().optional(),
+    method: z.enum(["gist", "btree", "hash", "spgist"]).default("gist"),
+    elements: z.array(z.object({
+      column: z.string().min(1),
+      operator: z.string().regex(exclusionOperatorPattern, "Invalid operator"),
+    })).min(1),
+    where: z.string().optional(),
+    ...deferrableFields,
+  }),
+]);
+
+export type ConstraintDesign = z.infer<typeof constraintDesignSchema>;
+export type ConstraintType = ConstraintDesign["type"];
+
+// Request body for adding a constraint; preview returns the DDL and how many
+// existing rows would violate it without adding anything
+export const addConstraintRequestSchema = z.object({
+  constraint: constraintDesignSchema,
+  preview: z.boolean().optional(),
+});
+
+export const dropConstraintRequestSchema = z.object({
+  cascade: z.boolean().default(false),
+});
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+// Requests from the CSV import wizard. The file is parsed in the browser; the
+// server checks every value against the table's columns and loads the rows.
+
+export const importModes = ["append", "truncate", "upsert"] as const;
+
+export type ImportMode = typeof importModes[number];
+
+export const importRequestSchema = z
+  .object({
+    fileName: z.string().optional(),
+    // Table column for each file column, in file order; null skips the column
+    columns: z.array(z.string().nullable()).min(1),
+    rows: z.array(z.array(z.string())),
+    // Line number of the first row, so errors point at the file
+    firstLine: z.number().int().min(1).default(1),
+    mode: z.enum(importModes).default("append"),
+    // Conflict target for upserts; must match a unique index
+    key: z.array(z.string()).default([]),
+    // Empty cells become NULL, or the column default when it has one
+    emptyAsNull: z.boolean().default(true),
+    // Load the rows that pass instead of failing the whole import
+    skipInvalidRows: z.boolean().default(false),
+    preview: z.boolean().optional(),
+  })
+  .refine(request => request.mode !== "upsert" || request.key.length > 0, {
+    message: "Upsert needs a key",
+    path: ["key"],
+  });
+
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+
+// A value that cannot be loaded; column is null for failures of a whole row
+export interface ImportRowError {
+  line: number;
+  column: string | null;
+  value: string | null;
+  message: string;
+}
+
+// Progress and outcome of an import, kept in the metadata of its activity log entry
+export interface ImportProgress {
+  fileName: string | null;
+  mode: ImportMode;
+  total: number;
+  processed: number;
+  loaded: number;
+  // Rows left out, whether their values were invalid or the database refused them
+  rejected: number;
+  // The first rejected values; rejected counts them all
+  errors: ImportRowError[];
+  // Failure that rolled the import back
+  error?: string;
+}
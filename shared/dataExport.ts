@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+// Options for exporting a table, the current view of one, or a query result
+
+export const exportFormats = ["csv", "json", "ndjson", "sql", "xlsx"] as const;
+
+export type ExportFormat = typeof exportFormats[number];
+
+export const exportDelimiters = [",", ";", "\t", "|"] as const;
+
+// minimal quotes only values that need it, strings quotes everything but
+// numbers and booleans (so NULL and '' differ), all quotes every value
+export const csvQuotingModes = ["minimal", "strings", "all"] as const;
+
+export type CsvQuoting = typeof csvQuotingModes[number];
+
+// Table exports take their options from the query string, where flags are text
+const flagSchema = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform(value => value === "true"),
+]);
+
+export const exportOptionsSchema = z.object({
+  format: z.enum(exportFormats).default("csv"),
+  delimiter: z.enum(exportDelimiters).default(","),
+  quoting: z.enum(csvQuotingModes).default("minimal"),
+  // Column names as the first CSV row or XLSX row
+  header: flagSchema.default(true),
+  // Table the INSERT statements target; defaults to the exported table
+  target: z.string().trim().min(1).optional(),
+});
+
+export type ExportOptions = z.infer<typeof exportOptionsSchema>;
+
+// Export of a query result; the query runs again behind a cursor
+export const queryExportRequestSchema = exportOptionsSchema.extend({
+  connectionId: z.number().int(),
+  query: z.string().trim().min(1, "Query is required"),
+});
+
+export type QueryExportRequest = z.infer<typeof queryExportRequestSchema>;
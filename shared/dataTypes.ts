@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { columnTypePattern } from "./tableDesign";
+
+// Requests from the Types page for enums and domains. The server turns them
+// into DDL (server/utils/ddl.ts).
+
+// New enum label, at the end unless placed before or after an existing one
+export const addEnumValueRequestSchema = z
+  .object({
+    value: z.string().min(1),
+    before: z.string().optional(),
+    after: z.string().optional(),
+  })
+  .refine(request => !(request.before && request.after), {
+    message: "Place the value either before or after another one",
+  });
+
+export type AddEnumValueRequest = z.infer<typeof addEnumValueRequestSchema>;
+
+export const renameEnumValueRequestSchema = z.object({
+  newName: z.string().min(1),
+});
+
+export const domainDesignSchema = z.object({
+  schema: z.string().min(1).default("public"),
+  name: z.string().min(1),
+  baseType: z.string().regex(columnTypePattern, "Invalid base type"),
+  notNull: z.boolean().default(false),
+  defaultValue: z.string().optional(),
+  // CHECK expression using VALUE, e.g. VALUE ~ '^\d{5}$'
+  check: z.string().optional(),
+});
+
+export type DomainDesign = z.infer<typeof domainDesignSchema>;
+
+// Request body for creating a domain; preview only returns the DDL
+export const createDomainRequestSchema = z.object({
+  domain: domainDesignSchema,
+  preview: z.boolean().optional(),
+});
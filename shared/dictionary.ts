@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+// Data dictionary edits and exports (Data Dictionary page)
+
+export const dictionaryFormats = ["markdown", "html"] as const;
+
+export type DictionaryFormat = typeof dictionaryFormats[number];
+
+// Description of a stored table, or of one of its columns when columnId is
+// set; writeComment also runs COMMENT ON against the target database
+export const descriptionUpdateSchema = z.object({
+  tableId: z.number().int(),
+  columnId: z.number().int().optional(),
+  description: z.string().nullable(),
+  writeComment: z.boolean().default(false),
+});
+
+export type DescriptionUpdate = z.infer<typeof descriptionUpdateSchema>;
+
+// Query string of the export endpoint; sample values are left out unless asked
+// for, since they copy table data into the document
+export const dictionaryExportQuerySchema = z.object({
+  format: z.enum(dictionaryFormats).default("markdown"),
+  samples: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+});
+
+// The part of a table constraint needed to describe the columns it covers
+interface ConstraintSummary {
+  type: string;
+  columns: string[];
+  referencedSchema: string | null;
+  referencedTable: string | null;
+}
+
+// Short labels for the constraints a column takes part in, shared by the
+// Data Dictionary page and its exports
+export const describeColumnConstraints = (constraints: ConstraintSummary[], column: string): string[] => {
+  return constraints
+    .filter(constraint => constraint.columns.includes(column))
+    .map(constraint => {
+      switch (constraint.type) {
+        case "primary_key":
+          return "PRIMARY KEY";
+        case "unique":
+          return "UNIQUE";
+        case "foreign_key":
+          return `FK → ${constraint.referencedSchema}.${constraint.referencedTable}`;
+        case "check":
+          return "CHECK";
+        case "exclude":
+          return "EXCLUDE";
+        default:
+          return constraint.type.toUpperCase();
+      }
+    });
+};
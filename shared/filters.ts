@@ -0,0 +1,138 @@
+import { z } from "zod";
+
+// Structured row filters for the table browser. The tree is built on the
+// client, carried in the URL and compiled to parameterized SQL on the server.
+
+export const filterOperators = [
+  "eq",
+  "neq",
+  "lt",
+  "lte",
+  "gt",
+  "gte",
+  "like",
+  "ilike",
+  "not_like",
+  "not_ilike",
+  "in",
+  "not_in",
+  "is_null",
+  "is_not_null",
+  "between",
+  "json_path",
+  "json_has_key",
+  "json_contains",
+] as const;
+
+export type FilterOperator = typeof filterOperators[number];
+
+export const filterOperatorLabels: Record<FilterOperator, string> = {
+  eq: "=",
+  neq: "!=",
+  lt: "<",
+  lte: "<=",
+  gt: ">",
+  gte: ">=",
+  like: "LIKE",
+  ilike: "ILIKE",
+  not_like: "NOT LIKE",
+  not_ilike: "NOT ILIKE",
+  in: "IN",
+  not_in: "NOT IN",
+  is_null: "IS NULL",
+  is_not_null: "IS NOT NULL",
+  between: "BETWEEN",
+  json_path: "matches JSON path",
+  json_has_key: "has key",
+  json_contains: "contains JSON",
+};
+
+export interface FilterCondition {
+  type: "condition";
+  column: string;
+  operator: FilterOperator;
+  // Single operand for comparisons, LIKE and JSON tests
+  value?: any;
+  // Operand list for IN / NOT IN, and [low, high] for BETWEEN
+  values?: any[];
+}
+
+export interface FilterGroup {
+  type: "group";
+  combinator: "and" | "or";
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+export const filterConditionSchema = z.object({
+  type: z.literal("condition"),
+  column: z.string().min(1),
+  operator: z.enum(filterOperators),
+  value: z.any().optional(),
+  values: z.array(z.any()).optional(),
+});
+
+export const filterNodeSchema: z.ZodType<FilterNode> = z.lazy(() =>
+  z.union([
+    filterConditionSchema,
+    z.object({
+      type: z.literal("group"),
+      combinator: z.enum(["and", "or"]),
+      children: z.array(filterNodeSchema),
+    }),
+  ])
+);
+
+// Operators that make sense for a column, chosen by its information_schema data_type
+export const operatorsForDataType = (dataType: string): FilterOperator[] => {
+  const type = dataType.toLowerCase();
+  const nullChecks: FilterOperator[] = ["is_null", "is_not_null"];
+
+  if (type === "json" || type === "jsonb") {
+    return ["json_path", "json_has_key", "json_contains", ...nullChecks];
+  }
+  if (type === "boolean") {
+    return ["eq", "neq", ...nullChecks];
+  }
+  if (
+    ["smallint", "integer", "bigint", "numeric", "real", "double precision", "money"].includes(type) ||
+    type.startsWith("date") ||
+    type.startsWith("time") ||
+    type === "interval"
+  ) {
+    return ["eq", "neq", "lt", "lte", "gt", "gte", "between", "in", "not_in", ...nullChecks];
+  }
+  if (type.includes("char") || type === "text" || type === "citext" || type === "name") {
+    return ["eq", "neq", "ilike", "like", "not_ilike", "not_like", "in", "not_in", "lt", "gt", ...nullChecks];
+  }
+  if (type === "uuid" || type === "user-defined") {
+    return ["eq", "neq", "in", "not_in", ...nullChecks];
+  }
+  return ["eq", "neq", "ilike", "like", "in", "not_in", ...nullChecks];
+};
+
+// Count the conditions in a tree, ignoring empty groups
+export const countFilterConditions = (node: FilterNode | null | undefined): number => {
+  if (!node) return 0;
+  if (node.type === "condition") return 1;
+  return node.children.reduce((total, child) => total + countFilterConditions(child), 0);
+};
+
+// Serialize a filter tree into a URL-safe string (base64url of the JSON)
+export const encodeFilter = (node: FilterNode): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(node));
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+// Parse a string produced by encodeFilter; throws if it is not a valid filter tree
+export const decodeFilter = (encoded: string): FilterNode => {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return filterNodeSchema.parse(JSON.parse(new TextDecoder().decode(bytes)));
+};
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// Index definitions from the Indexes panel. The server turns them into
+// CREATE INDEX statements (server/utils/ddl.ts).
+
+export const indexMethods = ["btree", "gin", "gist", "brin", "hash"] as const;
+
+export type IndexMethod = typeof indexMethods[number];
+
+export const indexDesignSchema = z.object({
+  // Generated from the table and column names when left out
+  name: z.string().optional(),
+  method: z.enum(indexMethods).default("btree"),
+  columns: z.array(z.string().min(1)).min(1),
+  unique: z.boolean().default(false),
+  // Built without locking out writes; cannot run inside a transaction
+  concurrently: z.boolean().default(false),
+  // Partial index predicate, e.g. deleted_at IS NULL
+  where: z.string().optional(),
+});
+
+export type IndexDesign = z.infer<typeof indexDesignSchema>;
+
+// Request body for creating an index; preview only returns the DDL
+export const createIndexRequestSchema = z.object({
+  index: indexDesignSchema,
+  preview: z.boolean().optional(),
+});
+
+export const reindexRequestSchema = z.object({
+  concurrently: z.boolean().default(false),
+});
+
+export const dropIndexRequestSchema = z.object({
+  concurrently: z.boolean().default(false),
+  cascade: z.boolean().default(false),
+});
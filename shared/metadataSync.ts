@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+// Which side wins when a COMMENT ON text and a stored description differ:
+// import copies database comments into db_tables/db_columns descriptions,
+// export writes stored descriptions back with COMMENT ON
+export const commentDirections = ["import", "export"] as const;
+
+export type CommentDirection = typeof commentDirections[number];
+
+// Request body for syncing stored metadata with the live catalog; preview
+// returns the changes without saving anything
+export const syncMetadataRequestSchema = z.object({
+  comments: z.enum(commentDirections).default("import"),
+  preview: z.boolean().optional(),
+});
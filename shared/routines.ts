@@ -0,0 +1,25 @@
+import { z } from "zod";
+
+// Requests from the Routines page and the Triggers tab
+
+// Complete CREATE OR REPLACE FUNCTION/PROCEDURE statement from the source editor
+export const saveRoutineRequestSchema = z.object({
+  source: z.string().trim().min(1, "The routine source is empty"),
+});
+
+// One input argument of a call: a literal cast to the argument's type, NULL,
+// or left to its default (trailing arguments with defaults only)
+export const routineArgumentSchema = z.object({
+  value: z.string().nullable(),
+  useDefault: z.boolean().default(false),
+});
+
+export type RoutineArgumentValue = z.infer<typeof routineArgumentSchema>;
+
+export const callRoutineRequestSchema = z.object({
+  arguments: z.array(routineArgumentSchema).default([]),
+});
+
+export const setTriggerEnabledRequestSchema = z.object({
+  enabled: z.boolean(),
+});
@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+// Pending edits from the data grid, applied together by the batch endpoint.
+// Keys are row identity objects, see server/utils/rowIdentity.ts.
+
+export const rowChangeSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("insert"),
+    data: z.record(z.any()),
+  }),
+  z.object({
+    type: z.literal("update"),
+    key: z.record(z.any()),
+    data: z.record(z.any()),
+  }),
+  z.object({
+    type: z.literal("delete"),
+    key: z.record(z.any()),
+  }),
+]);
+
+export const rowChangeBatchSchema = z.object({
+  changes: z.array(rowChangeSchema).min(1),
+});
+
+export type RowChange = z.infer<typeof rowChangeSchema>;
+export type RowChangeType = RowChange["type"];
@@ -49,6 +49,8 @@ export const dbTables = pgTable("db_tables", {
   name: text("name").notNull(),
   schema: text("schema").default("public"),
   description: text("description"),
+  // Set by metadata sync when the table no longer exists in the database
+  droppedAt: timestamp("dropped_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => {
@@ -85,6 +87,8 @@ export const dbColumns = pgTable("db_columns", {
   isUnique: boolean("is_unique").default(false),
   defaultValue: text("default_value"),
   description: text("description"),
+  // Set by metadata sync when the column no longer exists in the database
+  droppedAt: timestamp("dropped_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => {
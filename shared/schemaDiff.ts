@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+// Schema comparison between two saved connections (Schema Diff page)
+
+// One side of a comparison: a schema of a saved connection
+export const schemaEndpointSchema = z.object({
+  connectionId: z.number().int(),
+  schema: z.string().min(1).default("public"),
+});
+
+export type SchemaEndpoint = z.infer<typeof schemaEndpointSchema>;
+
+// The source is the reference; the generated migration brings the target in
+// line with it. Both sides may be schemas of the same connection.
+export const schemaDiffRequestSchema = z.object({
+  source: schemaEndpointSchema,
+  target: schemaEndpointSchema,
+});
+
+export type SchemaDiffRequest = z.infer<typeof schemaDiffRequestSchema>;
+
+// Request body for writing a migration file; the name becomes part of the
+// file name, so it is limited to characters that are safe there
+export const generateMigrationSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/, "Use only letters, digits, dashes and underscores"),
+  sql: z.string().optional(),
+});
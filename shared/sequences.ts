@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+// Requests from the Sequences page. Values are bigint, so they travel as
+// strings of digits.
+
+const sequenceValueSchema = z.string().trim().regex(/^-?\d+$/, "Enter a whole number");
+
+export const setSequenceValueRequestSchema = z.object({
+  value: sequenceValueSchema,
+  // false makes the next nextval() return value itself rather than the one after it
+  isCalled: z.boolean().default(true),
+});
+
+// Restart at the given value, or at the sequence's start value
+export const restartSequenceRequestSchema = z.object({
+  value: sequenceValueSchema.optional(),
+});
@@ -0,0 +1,85 @@
+import { z } from "zod";
+
+// A new table as drawn in the table designer. The server turns it into a
+// CREATE TABLE statement (server/utils/ddl.ts).
+
+export const foreignKeyActions = ["NO ACTION", "RESTRICT", "CASCADE", "SET NULL", "SET DEFAULT"] as const;
+
+export type ForeignKeyAction = typeof foreignKeyActions[number];
+
+// Type names such as integer, varchar(255), numeric(10, 2), timestamp(3) with
+// time zone, "My Type" or text[]; anything else is rejected before reaching SQL
+export const columnTypePattern = /^[A-Za-z_"][A-Za-z0-9_ ."]*(\(\s*\d+\s*(,\s*\d+\s*)?\))?[A-Za-z ]*(\s*\[\])*$/;
+
+export const columnDesignSchema = z.object({
+  name: z.string().min(1),
+  type: z.string().regex(columnTypePattern, "Invalid column type"),
+  nullable: z.boolean().default(true),
+  // SQL expression, e.g. now() or 'draft'
+  defaultValue: z.string().nullable().optional(),
+  identity: z.enum(["none", "always", "by_default"]).default("none"),
+});
+
+export const uniqueDesignSchema = z.object({
+  name: z.string().optional(),
+  columns: z.array(z.string()).min(1),
+});
+
+export const foreignKeyDesignSchema = z.object({
+  name: z.string().optional(),
+  columns: z.array(z.string()).min(1),
+  referencedSchema: z.string().min(1),
+  referencedTable: z.string().min(1),
+  referencedColumns: z.array(z.string()).min(1),
+  onUpdate: z.enum(foreignKeyActions).default("NO ACTION"),
+  onDelete: z.enum(foreignKeyActions).default("NO ACTION"),
+});
+
+export const tableDesignSchema = z.object({
+  schema: z.string().min(1).default("public"),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  columns: z.array(columnDesignSchema).min(1),
+  primaryKey: z.array(z.string()).default([]),
+  uniqueConstraints: z.array(uniqueDesignSchema).default([]),
+  foreignKeys: z.array(foreignKeyDesignSchema).default([]),
+});
+
+export type ColumnDesign = z.infer<typeof columnDesignSchema>;
+export type UniqueDesign = z.infer<typeof uniqueDesignSchema>;
+export type ForeignKeyDesign = z.infer<typeof foreignKeyDesignSchema>;
+export type TableDesign = z.infer<typeof tableDesignSchema>;
+
+// Request body for creating a table; preview only returns the DDL
+export const createTableRequestSchema = z.object({
+  design: tableDesignSchema,
+  preview: z.boolean().optional(),
+});
+
+// One structural change to an existing table, as made in the Structure tab.
+// Column names refer to the table as it is before the operation.
+export const alterTableOperationSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("add_column"), column: columnDesignSchema }),
+  z.object({ action: z.literal("rename_column"), column: z.string().min(1), newName: z.string().min(1) }),
+  z.object({ action: z.literal("drop_column"), column: z.string().min(1), cascade: z.boolean().default(false) }),
+  z.object({
+    action: z.literal("alter_column_type"),
+    column: z.string().min(1),
+    type: z.string().regex(columnTypePattern, "Invalid column type"),
+    // Conversion expression for existing values, e.g. amount::numeric
+    using: z.string().optional(),
+  }),
+  z.object({ action: z.literal("set_not_null"), column: z.string().min(1), notNull: z.boolean() }),
+  // A null default drops the column's default
+  z.object({ action: z.literal("set_default"), column: z.string().min(1), defaultValue: z.string().nullable() }),
+  z.object({ action: z.literal("rename_table"), newName: z.string().min(1) }),
+  z.object({ action: z.literal("drop_table"), cascade: z.boolean().default(false) }),
+]);
+
+export type AlterTableOperation = z.infer<typeof alterTableOperationSchema>;
+
+// Operations run in order inside one transaction; preview only returns the DDL
+export const alterTableRequestSchema = z.object({
+  operations: z.array(alterTableOperationSchema).min(1),
+  preview: z.boolean().optional(),
+});
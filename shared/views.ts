@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+// Requests from the Definition tab of views and materialized views. The
+// server turns them into DDL (server/utils/ddl.ts).
+
+// New SELECT for CREATE OR REPLACE VIEW; preview only returns the DDL
+export const replaceViewRequestSchema = z.object({
+  definition: z.string().trim().min(1, "The view definition is empty"),
+  preview: z.boolean().optional(),
+});
+
+export const refreshMaterializedViewRequestSchema = z.object({
+  // Keeps the view readable while it refreshes; needs a unique index
+  concurrently: z.boolean().default(false),
+});
+
+export const dropViewRequestSchema = z.object({
+  cascade: z.boolean().default(false),
+});